@@ -1,7 +1,32 @@
 import type { NextConfig } from "next";
 
+// FFmpeg のマルチスレッド版は SharedArrayBuffer が必要なため、クロスオリジン分離（COOP/COEP）を有効にする
+// Google ログインのポップアップなど他オリジンとの連携に影響するため、環境変数で明示した場合のみ
+const ffmpegMultiThreadEnabled = process.env.NEXT_PUBLIC_FFMPEG_MULTI_THREAD === "true";
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    return [
+      // FFmpeg コアはバージョンごとのパスで配信するため、長期キャッシュしてよい
+      {
+        source: "/ffmpeg/:path*",
+        headers: [
+          { key: "Cache-Control", value: "public, max-age=31536000, immutable" },
+        ],
+      },
+      ...(ffmpegMultiThreadEnabled
+        ? [
+          {
+            source: "/:path*",
+            headers: [
+              { key: "Cross-Origin-Opener-Policy", value: "same-origin" },
+              { key: "Cross-Origin-Embedder-Policy", value: "credentialless" },
+            ],
+          },
+        ]
+        : []),
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,74 @@
+/**
+ * FFmpeg コア（WebAssembly）を node_modules から public/ffmpeg/ にコピーするスクリプト
+ *
+ * 外部 CDN に依存せずアプリ自身からコアを配信するため、dev / build の前に自動で実行される
+ * （package.json の predev / prebuild）。コピー前に src/constants/ffmpegCore.ts の integrity と照合し、
+ * 一致しない場合はバージョンの食い違いとして失敗させる。
+ *
+ * 実行方法:
+ * npx tsx scripts/copy-ffmpeg-core.ts
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from '../src/lib/logger';
+import {
+    FFMPEG_CORE_BUILDS,
+    FFMPEG_CORE_VERSION,
+    FFmpegCoreAsset,
+    FFmpegCoreVariant,
+    getFFmpegCoreBasePath,
+} from '../src/constants/ffmpegCore';
+
+const copyLogger = createLogger('copy-ffmpeg-core');
+
+function computeIntegrity(filePath: string): string {
+    const hash = crypto.createHash('sha384').update(fs.readFileSync(filePath)).digest('base64');
+    return `sha384-${hash}`;
+}
+
+function copyAsset(packageName: string, asset: FFmpegCoreAsset, outputDir: string): void {
+    const sourcePath = path.join(process.cwd(), 'node_modules', packageName, 'dist', 'umd', asset.fileName);
+    const targetPath = path.join(outputDir, asset.fileName);
+
+    if (!fs.existsSync(sourcePath)) {
+        throw new Error(`${packageName} が見つかりません。npm install を実行してください（${sourcePath}）`);
+    }
+
+    // コピー済みで内容も一致していれば何もしない
+    if (fs.existsSync(targetPath) && computeIntegrity(targetPath) === asset.integrity) {
+        return;
+    }
+
+    const integrity = computeIntegrity(sourcePath);
+    if (integrity !== asset.integrity) {
+        throw new Error(
+            `${packageName}/${asset.fileName} の integrity が一致しません。` +
+            `package.json のバージョンが ${FFMPEG_CORE_VERSION} であることを確認してください（実際: ${integrity}）`
+        );
+    }
+
+    fs.copyFileSync(sourcePath, targetPath);
+    copyLogger.info(`コピーしました: ${packageName}/${asset.fileName} → ${path.relative(process.cwd(), targetPath)}`);
+}
+
+function main(): void {
+    for (const [variant, build] of Object.entries(FFMPEG_CORE_BUILDS) as [FFmpegCoreVariant, typeof FFMPEG_CORE_BUILDS[FFmpegCoreVariant]][]) {
+        const outputDir = path.join(process.cwd(), 'public', getFFmpegCoreBasePath(variant));
+        fs.mkdirSync(outputDir, { recursive: true });
+
+        const assets = [build.core, build.wasm, ...(build.worker ? [build.worker] : [])];
+        for (const asset of assets) {
+            copyAsset(build.packageName, asset, outputDir);
+        }
+    }
+    copyLogger.info(`FFmpeg コア ${FFMPEG_CORE_VERSION} の準備が完了しました`);
+}
+
+try {
+    main();
+} catch (error) {
+    copyLogger.error('FFmpeg コアのコピーに失敗', error);
+    process.exit(1);
+}
@@ -0,0 +1,280 @@
+/**
+ * サーバー処理の Worker
+ *
+ * API ルート（/api/server-jobs）に登録されたジョブをファイルシステムのキューから登録順に取り出し、
+ * ネイティブの FFmpeg で音声に変換してから、各プロンプトの文書を生成する。
+ * 生成した文書はジョブに保存し、ブラウザが Firestore に保存する（Worker は Firebase に接続しない）。
+ *
+ * 前提条件:
+ * - ffmpeg をインストールして PATH に置く（または FFMPEG_PATH で実行ファイルを指定）
+ * - .env.local に NEXT_PUBLIC_GEMINI_API_KEY を設定
+ * - Next.js 側も NEXT_PUBLIC_ENABLE_SERVER_PROCESSING=true で起動し、同じ SERVER_JOB_QUEUE_DIR（既定: .server-jobs）を使う
+ *
+ * 実行方法:
+ * npx tsx --env-file=.env.local scripts/server-worker.ts
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createLogger } from '../src/lib/logger';
+import {
+    claimNextServerJob,
+    getServerJobInputPath,
+    getServerJobWorkDir,
+    purgeExpiredServerJobs,
+    readServerJob,
+    removeServerJobFiles,
+    updateServerJob,
+} from '../src/lib/serverJobQueue';
+import { convertMediaWithNativeFfmpeg } from '../src/lib/nativeFfmpeg';
+import {
+    getTranscriptionProvider,
+    MEDIA_UPLOAD_CONFIG,
+    releasePreparedMedia,
+    TranscriptionMedia,
+    TranscriptionResult,
+} from '../src/lib/transcriptionProvider';
+import { TranscriptionError } from '../src/lib/transcriptionErrors';
+import { GenerationScheduler } from '../src/lib/generationScheduler';
+import { structuredDataToMarkdown } from '../src/lib/structuredOutput';
+import { SERVER_PROCESSING_CONFIG } from '../src/constants/serverProcessing';
+import { getAudioOutputProfile } from '../src/constants/audioOutputProfiles';
+import { isAudioPreprocessingEnabled } from '../src/constants/audioPreprocessing';
+import { isDefaultAudioTrackSelection } from '../src/constants/audioTrackSelection';
+import { TranscriptionProviderId } from '../src/constants/transcriptionProviders';
+import { FileProcessingStatus } from '../src/types/processing';
+import { ServerJob, ServerJobDocument, ServerJobPrompt } from '../src/types/serverJob';
+
+const workerLogger = createLogger('server-worker');
+
+/** 保存期間を過ぎたジョブを削除する間隔 */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 生成結果から保存する文書を作る（構造化出力は Markdown にした本文とデータ・スキーマを併せて返す）
+ */
+function toServerDocument(prompt: ServerJobPrompt, result: TranscriptionResult): ServerJobDocument {
+    const structured = prompt.outputSchema && result.structuredData
+        ? { schema: prompt.outputSchema, data: result.structuredData }
+        : undefined;
+    return {
+        promptId: prompt.id,
+        promptName: prompt.name,
+        text: structured ? structuredDataToMarkdown(structured.data, structured.schema) : result.text ?? '',
+        ...(structured && { structuredOutput: structured }),
+        ...(result.usage && { usage: result.usage }),
+        acknowledged: false,
+    };
+}
+
+/**
+ * 送信用のメディアを準備する
+ * インライン送信の上限を超え、プロバイダーが事前アップロードに対応している場合はアップロードする
+ */
+async function prepareMedia(
+    providerIds: TranscriptionProviderId[],
+    data: Buffer,
+    mimeType: string,
+    fileName: string,
+    onUploadProgress: (ratio: number) => void
+): Promise<Map<TranscriptionProviderId, TranscriptionMedia>> {
+    const preparedMedia = new Map<TranscriptionProviderId, TranscriptionMedia>();
+    try {
+        for (const providerId of new Set(providerIds)) {
+            const provider = getTranscriptionProvider(providerId);
+            if (data.length > MEDIA_UPLOAD_CONFIG.INLINE_SIZE_LIMIT_BYTES && provider.uploadMedia) {
+                const blob = new Blob([new Uint8Array(data)], { type: mimeType });
+                preparedMedia.set(providerId, await provider.uploadMedia(blob, { fileName, mimeType, onProgress: onUploadProgress }));
+            } else {
+                preparedMedia.set(providerId, { type: 'inline', mimeType, base64Data: data.toString('base64') });
+            }
+        }
+        return preparedMedia;
+    } catch (error) {
+        await releasePreparedMedia(preparedMedia);
+        throw error;
+    }
+}
+
+async function runJob(job: ServerJob): Promise<void> {
+    const { request } = job;
+    const { settings } = request;
+    workerLogger.info('ジョブを開始', { jobId: job.id, fileName: request.fileName });
+
+    // 待機中に中止を要求されたジョブは変換を始めない
+    if (job.cancelRequested) {
+        workerLogger.info('開始前に中止されたジョブ', { jobId: job.id });
+        await updateServerJob(job.id, current => ({
+            status: { ...current.status, status: 'error', error: '処理を中止しました', errorCode: 'cancelled', failedPhase: 'audio_conversion' },
+        }));
+        await removeServerJobFiles(job.id);
+        return;
+    }
+
+    // job.json の読み書きが重ならないよう、更新は1つずつ順に行う
+    let updateChain: Promise<unknown> = Promise.resolve();
+    const enqueueUpdate = (update: Parameters<typeof updateServerJob>[1]) => {
+        updateChain = updateChain.then(() => updateServerJob(job.id, update)).catch((error) => {
+            workerLogger.error('ジョブの更新に失敗', error, { jobId: job.id });
+        });
+        return updateChain;
+    };
+    const setStatus = (update: Partial<FileProcessingStatus>) =>
+        enqueueUpdate(current => ({ status: { ...current.status, ...update } }));
+
+    // 中止の要求を確認し、長い文書生成の間も更新時刻を書き込む
+    const abortController = new AbortController();
+    let lastHeartbeatAt = Date.now();
+    const watcher = setInterval(() => {
+        readServerJob(job.id).then((latest) => {
+            if (latest?.cancelRequested && !abortController.signal.aborted) {
+                workerLogger.info('中止の要求を受け付けました', { jobId: job.id });
+                abortController.abort();
+            }
+        }).catch(() => undefined);
+        if (Date.now() - lastHeartbeatAt > SERVER_PROCESSING_CONFIG.HEARTBEAT_INTERVAL_MS) {
+            lastHeartbeatAt = Date.now();
+            enqueueUpdate(() => ({}));
+        }
+    }, SERVER_PROCESSING_CONFIG.CANCEL_CHECK_INTERVAL_MS);
+
+    let failedPhase: FileProcessingStatus['failedPhase'] = 'audio_conversion';
+    try {
+        const isVideo = request.mimeType.startsWith('video/');
+        const usesDefaultAudioTrack = isDefaultAudioTrackSelection(request.audioTrackSelection);
+        const canSendAsIs = !request.trimRange && usesDefaultAudioTrack && (isVideo
+            ? settings.sendVideoDirectly
+            : !isAudioPreprocessingEnabled(settings.preprocessing));
+
+        // 音声変換（ブラウザと同じく、変換しなくてよい場合はアップロードしたメディアをそのまま送る）
+        let mediaPath = getServerJobInputPath(job.id);
+        let mimeType = request.mimeType;
+        if (!canSendAsIs) {
+            const outputProfile = getAudioOutputProfile(settings.outputProfileId);
+            const outputPath = path.join(getServerJobWorkDir(job.id), `converted.${outputProfile.extension}`);
+            await setStatus({ status: 'converting', phase: 'audio_conversion', audioConversionProgress: 0, error: undefined, errorCode: undefined });
+            let lastProgress = 0;
+            const { removedDuration } = await convertMediaWithNativeFfmpeg(mediaPath, outputPath, {
+                settings,
+                audioTrackSelection: request.audioTrackSelection,
+                trimRange: request.trimRange,
+                abortSignal: abortController.signal,
+                onProgress: (ratio) => {
+                    const progress = Math.round(ratio * 100);
+                    if (progress !== lastProgress) {
+                        lastProgress = progress;
+                        setStatus({ audioConversionProgress: progress });
+                    }
+                },
+            });
+            mediaPath = outputPath;
+            mimeType = outputProfile.mimeType;
+            // 無音の削除で短くなった長さ（ブラウザの処理と同じく処理状況に表示する）
+            await setStatus({ removedDuration });
+        }
+        await setStatus({ audioConversionProgress: 100 });
+
+        // 文書生成（再起動で取り直したジョブは生成済みのプロンプトを飛ばす）
+        failedPhase = 'text_generation';
+        const latest = await readServerJob(job.id);
+        const prompts = request.prompts.filter(prompt => !latest?.documents.some(document => document.promptId === prompt.id));
+        const data = await fs.readFile(mediaPath);
+        const preparedMedia = await prepareMedia(
+            prompts.map(prompt => prompt.provider),
+            data,
+            mimeType,
+            request.fileName,
+            (ratio) => setStatus({ status: 'transcribing', phase: 'media_upload', mediaUploadProgress: Math.round(ratio * 100) })
+        );
+        await setStatus({ status: 'transcribing', phase: 'text_generation' });
+
+        const scheduler = new GenerationScheduler({
+            globalConcurrency: settings.schedule.generationConcurrency,
+            perModelConcurrency: settings.schedule.perModelConcurrency,
+        });
+        const results = await Promise.allSettled(prompts.map(async (prompt) => {
+            const result = await scheduler.run({
+                modelKey: `${prompt.provider}:${prompt.model}`,
+                getPriority: () => 0,
+                abortSignal: abortController.signal,
+            }, (scheduleOptions) => getTranscriptionProvider(prompt.provider).generateDocument({
+                media: preparedMedia.get(prompt.provider),
+                fileName: request.fileName,
+                prompt: prompt.content,
+                model: prompt.model,
+                outputSchema: prompt.outputSchema,
+            }, { ...scheduleOptions, abortSignal: abortController.signal }));
+
+            if (!result.success || !result.text) {
+                throw new TranscriptionError(result.errorCode ?? 'unknown', result.error || '文書生成処理失敗');
+            }
+            const document = toServerDocument(prompt, result);
+            await enqueueUpdate(current => ({
+                documents: [...current.documents, document],
+                status: {
+                    ...current.status,
+                    transcriptionCount: current.status.transcriptionCount + 1,
+                    completedPromptIds: [...current.status.completedPromptIds, prompt.id],
+                },
+            }));
+            workerLogger.info(`プロンプト「${prompt.name}」の文書を生成`, { jobId: job.id, promptId: prompt.id });
+        })).finally(() => releasePreparedMedia(preparedMedia));
+
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failure) {
+            throw failure.reason;
+        }
+
+        await setStatus({ status: 'completed', phase: 'completed' });
+        workerLogger.info('ジョブが完了', { jobId: job.id });
+    } catch (error) {
+        const cancelled = abortController.signal.aborted;
+        workerLogger.error('ジョブが失敗', error, { jobId: job.id, failedPhase, cancelled });
+        await setStatus({
+            status: 'error',
+            error: error instanceof Error ? error.message : '不明なエラー',
+            errorCode: cancelled ? 'cancelled' : error instanceof TranscriptionError ? error.code : undefined,
+            failedPhase,
+        });
+    } finally {
+        clearInterval(watcher);
+        await updateChain;
+        await removeServerJobFiles(job.id).catch((error) => {
+            workerLogger.warn('ジョブの一時ファイルを削除できません', { jobId: job.id, error: String(error) });
+        });
+    }
+}
+
+async function main(): Promise<void> {
+    let stopping = false;
+    process.on('SIGINT', () => {
+        if (stopping) {
+            process.exit(1);
+        }
+        stopping = true;
+        workerLogger.info('処理中のジョブが終わり次第終了します（もう一度 Ctrl+C で強制終了）');
+    });
+
+    workerLogger.info('Worker を起動', { queueDir: process.env.SERVER_JOB_QUEUE_DIR || '.server-jobs' });
+    let lastPurgedAt = 0;
+    while (!stopping) {
+        if (Date.now() - lastPurgedAt > PURGE_INTERVAL_MS) {
+            lastPurgedAt = Date.now();
+            await purgeExpiredServerJobs();
+        }
+        const job = await claimNextServerJob();
+        if (!job) {
+            await sleep(SERVER_PROCESSING_CONFIG.WORKER_POLL_INTERVAL_MS);
+            continue;
+        }
+        await runJob(job);
+    }
+    workerLogger.info('Worker を終了');
+}
+
+main().catch((error) => {
+    workerLogger.error('Worker が異常終了', error);
+    process.exit(1);
+});
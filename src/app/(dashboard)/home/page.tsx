@@ -8,14 +8,24 @@ import { BulkPromptSelector } from '@/components/BulkPromptSelector';
 import { FilePromptSelector } from '@/components/FilePromptSelector';
 import { PromptListSidebar } from '@/components/PromptListSidebar';
 import { PromptModals } from '@/components/prompts/PromptModals';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
+import { FFmpegLoadErrorNotice } from '@/components/FFmpegLoadErrorNotice';
+import { ConversionSettings } from '@/components/ConversionSettings';
+import { AudioTrackSelector } from '@/components/AudioTrackSelector';
+import { SubtitleContextSelector } from '@/components/SubtitleContextSelector';
 import { useFileManagement } from '@/hooks/useFileManagement';
 import { usePromptManagement } from '@/hooks/usePromptManagement';
 import { useVideoProcessing } from '@/hooks/useVideoProcessing';
 import { useProcessingWorkflow } from '@/hooks/useProcessingWorkflow';
-import { DebugErrorMode } from '@/types/processing';
+import { useConversionSettings } from '@/hooks/useConversionSettings';
+import { useProcessingPersistence } from '@/hooks/useProcessingPersistence';
+import { useServerProcessing } from '@/hooks/useServerProcessing';
+import { DebugErrorMode, SegmentAction } from '@/types/processing';
 import { Prompt } from '@/lib/prompts';
 import { useAuth } from '@/hooks/useAuth';
 import { createLogger } from '@/lib/logger';
+import { getRateLimitStatus, RateLimitStatus } from '@/lib/rateLimit';
+import { SERVER_PROCESSING_ENABLED } from '@/constants/serverProcessing';
 
 const homePageLogger = createLogger('HomePage');
 
@@ -31,23 +41,17 @@ export default function HomePage() {
     errorAtSegmentIndex: 2,
   });
 
-  // 🎬 動画を直接送信する機能（試験的）
-  const [sendVideoDirectly, setSendVideoDirectly] = useState(false);
-
-  const bitrate = '192k';
-  const sampleRate = 44100;
+  // 変換設定（🎬 動画を直接送信する機能（試験的）を含む。ユーザーごとに保存）
+  const { conversionSettings, updateConversionSettings } = useConversionSettings();
+  // 長時間録音モード（区間グループごとに生成してから統合）
+  const [mapReduceMode, setMapReduceMode] = useState(false);
+  // サーバー処理（アップロードしてサーバーで変換・文書生成。タブを閉じても処理が続く）
+  const [serverProcessingMode, setServerProcessingMode] = useState(false);
+  // 文書生成の上限に達していて開始できなかった場合の表示
+  const [rateLimitNotice, setRateLimitNotice] = useState<{ status: RateLimitStatus; requiredCount: number } | null>(null);
 
   const { availablePrompts, bulkSelectedPromptIds, toggleBulkPrompt, reloadPrompts } = usePromptManagement();
 
-  const {
-    selectedFiles,
-    handleFilesSelected,
-    handleRemoveFile,
-    toggleFilePrompt,
-    clearFiles,
-    cleanupDeletedPrompts,
-  } = useFileManagement(bulkSelectedPromptIds);
-
   useEffect(() => {
     const handleAuthChange = async () => {
       homePageLogger.info('認証状態の変化を検知しデータを再読み込み', { userId: user?.uid });
@@ -56,6 +60,17 @@ export default function HomePage() {
       clearFiles();
       setProcessingStatuses([]);
       setIsProcessing(false);
+      detachSession();
+      detachServerJobs();
+
+      // 再読み込み・クラッシュで中断した処理があれば復元し、続きから再開できるようにする
+      const restored = await restoreSession();
+      if (restored) {
+        restoreFiles(restored.files);
+        setProcessingStatuses(restored.statuses);
+        // サーバーで処理中のジョブは進捗の取得を再開する
+        watchServerJobs(restored.statuses, restored.files);
+      }
     };
 
     handleAuthChange();
@@ -69,46 +84,139 @@ export default function HomePage() {
     setIsProcessing,
     ffmpegLoaded,
     setFfmpegLoaded,
+    ffmpegLoadError,
+    setFfmpegLoadError,
     converterRef,
-    geminiClientRef,
-    audioConversionQueueRef,
+    activeConversionCountRef,
+    conversionAbortControllersRef,
+    processingStatusesRef,
     processTranscription,
     processTranscriptionResume,
+    processMapReduceTranscription,
+    cancelFile,
+    moveQueuedFile,
+    probeMedia,
   } = useVideoProcessing(availablePrompts, debugErrorMode, () => {});
 
-  const { handleStartProcessing, handleResumeFile } = useProcessingWorkflow({
+  const {
+    runServerProcessing,
+    resumeServerFile,
+    cancelServerFile,
+    watchServerJobs,
+    detachServerJobs,
+  } = useServerProcessing(availablePrompts, setProcessingStatuses);
+
+  const {
+    selectedFiles,
+    handleFilesSelected,
+    handleRemoveFile,
+    toggleFilePrompt,
+    setAudioTrackSelection,
+    setTrimRange,
+    setSubtitleContext,
+    restoreFiles,
+    clearFiles,
+    cleanupDeletedPrompts,
+  } = useFileManagement(bulkSelectedPromptIds, probeMedia);
+
+  // 処理キューを IndexedDB に保存し、再読み込み後も再開できるようにする
+  const {
+    sessionSettings,
+    isRestoredSession,
+    persistenceNotice,
+    startSession,
+    restoreSession,
+    clearSession,
+    detachSession,
+  } = useProcessingPersistence(processingStatuses, selectedFiles);
+
+  const { handleStartProcessing, handleResumeFile, handleSegmentAction } = useProcessingWorkflow({
     converterRef,
-    geminiClientRef,
-    audioConversionQueueRef,
+    activeConversionCountRef,
+    conversionAbortControllersRef,
+    processingStatusesRef,
     ffmpegLoaded,
     setFfmpegLoaded,
+    setFfmpegLoadError,
     setProcessingStatuses,
-    processTranscription: (file, fileIndex, audioBlob) =>
-      processTranscription(file, fileIndex, audioBlob, bitrate, sampleRate),
-    processTranscriptionResume: (file, fileIndex, audioBlob, completedPromptIds) =>
-      processTranscriptionResume(file, fileIndex, audioBlob, completedPromptIds, bitrate, sampleRate),
+    processTranscription,
+    processTranscriptionResume,
+    processMapReduceTranscription,
     debugErrorMode,
-    // 🎬 動画を直接送信するフラグ（試験的）
-    sendVideoDirectly,
+    mapReduceMode,
+    // サーバー処理はログインユーザーのみ（API が ID トークンで所有者と上限を確認する）
+    serverProcessingMode: serverProcessingMode && Boolean(user),
+    runServerProcessing,
+    resumeServerFile,
   });
 
+  // 生成する文書数が残り枠を超える場合は、変換や生成を始める前に止める
+  const hasDocumentQuota = async (requiredCount: number): Promise<boolean> => {
+    const status = await getRateLimitStatus('documents');
+    if (status.remaining < requiredCount) {
+      setRateLimitNotice({ status, requiredCount });
+      return false;
+    }
+    setRateLimitNotice(null);
+    return true;
+  };
+
   const onStartProcessing = async () => {
+    const requiredCount = selectedFiles.reduce((sum, file) => sum + file.selectedPromptIds.length, 0);
+    if (!(await hasDocumentQuota(requiredCount))) {
+      return;
+    }
+
     setIsProcessing(true);
+    startSession(selectedFiles, conversionSettings);
     try {
-      await handleStartProcessing(selectedFiles, bitrate, sampleRate);
+      await handleStartProcessing(selectedFiles, conversionSettings);
     } finally {
       setIsProcessing(false);
     }
   };
 
   const handleReset = () => {
+    detachServerJobs();
+    clearSession();
     clearFiles();
+    setRateLimitNotice(null);
     setProcessingStatuses([]);
     setIsProcessing(false);
   };
 
-  const onResumeFile = (index: number) => {
-    handleResumeFile(index, selectedFiles, processingStatuses, bitrate, sampleRate);
+  // 再開で生成する残りの文書数が残り枠を超える場合は止める
+  const hasResumeQuota = async (index: number): Promise<boolean> => {
+    const file = selectedFiles[index];
+    const status = processingStatuses[index];
+    if (!file || !status) {
+      return true;
+    }
+    return hasDocumentQuota(file.selectedPromptIds.length - status.completedPromptIds.length);
+  };
+
+  const onResumeFile = async (index: number) => {
+    if (!(await hasResumeQuota(index))) {
+      return;
+    }
+    // 開始時（復元した場合は中断前）の変換設定で再開する
+    handleResumeFile(index, selectedFiles, processingStatuses, sessionSettings ?? conversionSettings);
+  };
+
+  const onSegmentAction = async (index: number, segmentIndex: number, action: SegmentAction) => {
+    if (!(await hasResumeQuota(index))) {
+      return;
+    }
+    handleSegmentAction(index, segmentIndex, action, selectedFiles, processingStatuses, sessionSettings ?? conversionSettings);
+  };
+
+  const onCancelFile = (index: number) => {
+    const status = processingStatuses[index];
+    if (status?.serverProcessing) {
+      cancelServerFile(index, status);
+    } else {
+      cancelFile(index);
+    }
   };
 
   const handlePromptClick = (prompt: Prompt) => {
@@ -165,7 +273,7 @@ export default function HomePage() {
       <div className="lg:col-span-3 space-y-6">
         <div className="bg-white rounded-xl shadow-lg p-6 h-[calc(100vh-125px)] min-h-[532px] flex flex-col">
           <div className="flex-1 overflow-y-auto flex flex-col gap-6">
-            <FileDropZone onFilesSelected={handleFilesSelected} selectedFiles={selectedFiles.map(f => f.file)} onRemoveFile={handleRemoveFile} />
+            <FileDropZone onFilesSelected={handleFilesSelected} selectedFiles={selectedFiles.map(f => f.file)} mediaProbes={selectedFiles.map(f => f.mediaProbe)} trimRanges={selectedFiles.map(f => f.trimRange)} onTrimRangeChange={processingStatuses.length === 0 ? setTrimRange : undefined} onRemoveFile={handleRemoveFile} />
 
             {/* 🎬 動画直接送信オプション（試験的機能） */}
             {selectedFiles.length > 0 && processingStatuses.length === 0 && (
@@ -173,8 +281,11 @@ export default function HomePage() {
                 <label className="flex items-center cursor-pointer">
                   <input
                     type="checkbox"
-                    checked={sendVideoDirectly}
-                    onChange={(e) => setSendVideoDirectly(e.target.checked)}
+                    checked={conversionSettings.sendVideoDirectly}
+                    onChange={(e) => {
+                      updateConversionSettings({ sendVideoDirectly: e.target.checked });
+                      if (e.target.checked) setMapReduceMode(false);
+                    }}
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
                   />
                   <span className="ml-3 text-sm font-medium text-gray-900">
@@ -187,6 +298,70 @@ export default function HomePage() {
               </div>
             )}
 
+            {/* 長時間録音モード（マップリデュース生成） */}
+            {selectedFiles.length > 0 && processingStatuses.length === 0 && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={mapReduceMode}
+                    onChange={(e) => {
+                      setMapReduceMode(e.target.checked);
+                      if (e.target.checked) {
+                        updateConversionSettings({ sendVideoDirectly: false });
+                        setServerProcessingMode(false);
+                      }
+                    }}
+                    className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-3 text-sm font-medium text-gray-900">
+                    ⏱️ 長時間録音モード（区間ごとに生成して統合）
+                  </span>
+                </label>
+                <p className="ml-7 mt-1 text-xs text-gray-600">
+                  数時間の会議などで、約10分ごとの区間を個別に書き出してから1つの文書に統合します。統合に失敗しても区間の結果は保持され、再開時に再生成されません。
+                </p>
+              </div>
+            )}
+
+            {/* サーバー処理（サーバー処理を有効にした環境のログインユーザーのみ） */}
+            {SERVER_PROCESSING_ENABLED && user && selectedFiles.length > 0 && processingStatuses.length === 0 && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={serverProcessingMode}
+                    onChange={(e) => {
+                      setServerProcessingMode(e.target.checked);
+                      if (e.target.checked) setMapReduceMode(false);
+                    }}
+                    className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-3 text-sm font-medium text-gray-900">
+                    🖥️ サーバーで処理（タブを閉じても処理を続ける）
+                  </span>
+                </label>
+                <p className="ml-7 mt-1 text-xs text-gray-600">
+                  ファイルをアップロードし、サーバーで音声変換・文書生成します。ブラウザで音声変換できないモバイル端末でも使えます。長時間録音モード・埋め込み字幕・場面の画像の添付・音声の保存には対応していません。
+                </p>
+              </div>
+            )}
+
+            {/* 音声トラック・チャンネルの選択（複数トラック・ステレオのファイルのみ） */}
+            {processingStatuses.length === 0 && (
+              <AudioTrackSelector selectedFiles={selectedFiles} onSelectionChange={setAudioTrackSelection} />
+            )}
+
+            {/* 埋め込み字幕の利用（テキストの字幕トラックがあるファイルのみ） */}
+            {processingStatuses.length === 0 && (
+              <SubtitleContextSelector selectedFiles={selectedFiles} onSelectionChange={setSubtitleContext} />
+            )}
+
+            {/* 変換設定（出力形式・音質・区間長・前処理） */}
+            {selectedFiles.length > 0 && processingStatuses.length === 0 && !conversionSettings.sendVideoDirectly && (
+              <ConversionSettings settings={conversionSettings} onSettingsChange={updateConversionSettings} />
+            )}
+
             {selectedFiles.length === 0 && (
               <BulkPromptSelector
                 availablePrompts={availablePrompts}
@@ -200,6 +375,26 @@ export default function HomePage() {
             )}
           </div>
 
+          {ffmpegLoadError && (
+            <div className="mt-6">
+              <FFmpegLoadErrorNotice
+                error={ffmpegLoadError}
+                onRetry={onStartProcessing}
+                onDismiss={() => setFfmpegLoadError(null)}
+              />
+            </div>
+          )}
+
+          {rateLimitNotice && (
+            <div className="mt-6">
+              <RateLimitNotice
+                status={rateLimitNotice.status}
+                requiredCount={rateLimitNotice.requiredCount}
+                onDismiss={() => setRateLimitNotice(null)}
+              />
+            </div>
+          )}
+
           {selectedFiles.length > 0 && !isProcessing && processingStatuses.length === 0 && (
             <div className="mt-6 flex space-x-3">
               <button
@@ -227,7 +422,25 @@ export default function HomePage() {
           )}
         </div>
 
-        <ProcessingStatusList statuses={processingStatuses} onResumeFile={onResumeFile} />
+        {isRestoredSession && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            前回中断した処理を復元しました。変換済みの区間と生成済みの文書は再利用され、「再開」で続きから処理できます。
+          </div>
+        )}
+
+        {persistenceNotice && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            {persistenceNotice}
+          </div>
+        )}
+
+        <ProcessingStatusList
+          statuses={processingStatuses}
+          onResumeFile={onResumeFile}
+          onCancelFile={onCancelFile}
+          onMoveFile={moveQueuedFile}
+          onSegmentAction={onSegmentAction}
+        />
 
         {process.env.NODE_ENV === 'development' && (
           <div className="bg-white rounded-xl shadow-lg p-6">
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import {
+    acknowledgeServerJobDocument,
+    readServerJob,
+    requestServerJobCancel,
+} from '@/lib/serverJobQueue';
+import { resolveRequestOwner } from '@/lib/serverJobAccess';
+import { saveServerJobDocument } from '@/lib/serverJobDocuments';
+import { createLogger } from '@/lib/logger';
+import { SERVER_PROCESSING_ENABLED } from '@/constants/serverProcessing';
+import { ServerJob } from '@/types/serverJob';
+
+const serverJobRouteLogger = createLogger('api/server-jobs/[jobId]');
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+    params: Promise<{ jobId: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'ジョブが見つかりません' }, { status: 404 });
+
+// 登録したユーザー以外には存在を明かさない（所有者は ID トークンから決める）
+async function findOwnedJob(request: Request, context: RouteContext): Promise<ServerJob | null> {
+    if (!SERVER_PROCESSING_ENABLED) {
+        return null;
+    }
+    const ownerId = await resolveRequestOwner(request);
+    if (!ownerId) {
+        return null;
+    }
+    const { jobId } = await context.params;
+    const job = await readServerJob(jobId);
+    return job && job.request.ownerId === ownerId ? job : null;
+}
+
+/**
+ * ジョブの進捗と生成した文書を取得する
+ */
+export async function GET(request: Request, context: RouteContext) {
+    const job = await findOwnedJob(request, context);
+    return job ? NextResponse.json({ job }) : notFound();
+}
+
+/**
+ * ジョブの中止を要求する
+ */
+export async function DELETE(request: Request, context: RouteContext) {
+    const job = await findOwnedJob(request, context);
+    if (!job) {
+        return notFound();
+    }
+    await requestServerJobCancel(job.id);
+    return NextResponse.json({ ok: true });
+}
+
+/**
+ * 生成した文書を Firestore に保存し、受け取り済みにする（body: { acknowledgedPromptId }）
+ * 上限は登録時に消費済みのため、ここでは数えない。保存済みの文書を再度受け取っても二重に保存しない
+ */
+export async function PATCH(request: Request, context: RouteContext) {
+    const job = await findOwnedJob(request, context);
+    if (!job) {
+        return notFound();
+    }
+    const body = await request.json().catch(() => null) as { acknowledgedPromptId?: unknown } | null;
+    const promptId = body?.acknowledgedPromptId;
+    const document = job.documents.find(item => item.promptId === promptId);
+    if (typeof promptId !== 'string' || !document) {
+        return NextResponse.json({ error: 'acknowledgedPromptId に生成済みの文書のプロンプトIDを指定してください' }, { status: 400 });
+    }
+    let documentId: string;
+    try {
+        documentId = await saveServerJobDocument(job, document);
+    } catch (error) {
+        serverJobRouteLogger.error('文書を保存できません', error, { jobId: job.id, promptId });
+        return NextResponse.json({ error: error instanceof Error ? error.message : '文書を保存できません' }, { status: 500 });
+    }
+    await acknowledgeServerJobDocument(job.id, promptId);
+    return NextResponse.json({ documentId });
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { createServerJob, parseServerJobRequest } from '@/lib/serverJobQueue';
+import { consumeServerJobLimits, resolveRequestOwner } from '@/lib/serverJobAccess';
+import { SERVER_PROCESSING_CONFIG, SERVER_PROCESSING_ENABLED } from '@/constants/serverProcessing';
+import { createLogger } from '@/lib/logger';
+import { ServerJobRequest } from '@/types/serverJob';
+
+const serverJobsRouteLogger = createLogger('api/server-jobs');
+
+export const runtime = 'nodejs';
+
+const tooLarge = () => NextResponse.json(
+    { error: `ファイルが大きすぎます（上限 ${Math.round(SERVER_PROCESSING_CONFIG.MAX_UPLOAD_BYTES / 1024 / 1024)}MB）` },
+    { status: 413 }
+);
+
+/**
+ * サーバー処理のジョブを登録する
+ * multipart/form-data で media（メディア）と request（ServerJobRequest の JSON）を受け取る
+ * ログインユーザーのみ。所有者は ID トークンから決め、レート制限と月間の文書数を消費してから登録する
+ */
+export async function POST(request: Request) {
+    if (!SERVER_PROCESSING_ENABLED) {
+        return NextResponse.json({ error: 'サーバー処理は有効になっていません' }, { status: 404 });
+    }
+
+    // 本文を読み込む前に大きさを確認する（formData() は本文全体をメモリに読み込む）
+    const contentLength = Number(request.headers.get('Content-Length'));
+    if (!contentLength) {
+        return NextResponse.json({ error: 'Content-Length を指定してください' }, { status: 411 });
+    }
+    if (contentLength > SERVER_PROCESSING_CONFIG.MAX_UPLOAD_BYTES) {
+        return tooLarge();
+    }
+
+    const ownerId = await resolveRequestOwner(request);
+    if (!ownerId) {
+        return NextResponse.json({ error: 'ログインし直してください（認証情報を確認できません）' }, { status: 401 });
+    }
+
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch {
+        return NextResponse.json({ error: 'multipart/form-data で送信してください' }, { status: 400 });
+    }
+
+    const media = formData.get('media');
+    const rawRequest = formData.get('request');
+    if (!(media instanceof Blob) || typeof rawRequest !== 'string') {
+        return NextResponse.json({ error: 'media と request を指定してください' }, { status: 400 });
+    }
+    if (media.size > SERVER_PROCESSING_CONFIG.MAX_UPLOAD_BYTES) {
+        return tooLarge();
+    }
+
+    let jobRequest: ServerJobRequest;
+    try {
+        jobRequest = parseServerJobRequest(JSON.parse(rawRequest), ownerId);
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : '登録内容が正しくありません' }, { status: 400 });
+    }
+
+    try {
+        const limitError = await consumeServerJobLimits(ownerId, jobRequest.prompts.length);
+        if (limitError) {
+            return NextResponse.json({ error: limitError }, { status: 429 });
+        }
+    } catch (error) {
+        serverJobsRouteLogger.error('上限を消費できません', error, { fileName: jobRequest.fileName });
+        return NextResponse.json({ error: '利用量を記録できないため登録できません' }, { status: 503 });
+    }
+
+    try {
+        const job = await createServerJob(jobRequest, media);
+        return NextResponse.json({ job }, { status: 201 });
+    } catch (error) {
+        serverJobsRouteLogger.error('ジョブを登録できません', error, { fileName: jobRequest.fileName });
+        return NextResponse.json({ error: 'ジョブを登録できません' }, { status: 500 });
+    }
+}
@@ -13,6 +13,9 @@ import PasswordChangeModal from './PasswordChangeModal';
 import ReauthModal from './ReauthModal';
 import DisplayNameModal from './DisplayNameModal';
 import { subscribeToPendingSubordinateRelationships } from '@/lib/relationships';
+import { getAdminSettings } from '@/lib/adminSettings';
+import { QuotaStatus, subscribeToQuotaStatus } from '@/lib/quota';
+import { QuotaUsageSummary } from './QuotaUsageSummary';
 
 type Tab = 'home' | 'documents' | 'team' | 'admin';
 type TeamView = 'subordinates' | 'supervisors';
@@ -37,6 +40,8 @@ export const AppHeader: React.FC = () => {
     const [showTeamMenu, setShowTeamMenu] = useState(false);
     const teamMenuRef = useRef<HTMLDivElement>(null);
     const [pendingSubordinateCount, setPendingSubordinateCount] = useState(0);
+    // 当月のプラン利用状況（別ユーザーの値を表示しないよう uid と組で保持）
+    const [quota, setQuota] = useState<{ uid: string; status: QuotaStatus } | null>(null);
 
     // ドロップダウンの外側クリックで閉じる
     useEffect(() => {
@@ -75,6 +80,31 @@ export const AppHeader: React.FC = () => {
         };
     }, [user?.uid]);
 
+    useEffect(() => {
+        if (!user?.uid) {
+            return;
+        }
+        const uid = user.uid;
+        let unsubscribe: (() => void) | undefined;
+        let cancelled = false;
+
+        getAdminSettings().then((settings) => {
+            if (cancelled) return;
+            unsubscribe = subscribeToQuotaStatus(
+                uid,
+                settings,
+                (status) => setQuota({ uid, status }),
+                (error) => {
+                    appHeaderLogger.error('月間利用状況の購読に失敗', error, { userId: uid });
+                }
+            );
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe?.();
+        };
+    }, [user?.uid]);
+
     const activeTab: Tab = (() => {
         if (pathname?.startsWith('/documents')) return 'documents';
         if (pathname?.startsWith('/team')) return 'team';
@@ -283,6 +313,8 @@ export const AppHeader: React.FC = () => {
                         {authLoading ? (
                             <div className="px-4 py-2 text-gray-500 text-sm">読み込み中...</div>
                         ) : user ? (
+                            <>
+                            {quota && quota.uid === user.uid && <QuotaUsageSummary status={quota.status} />}
                             <div className="relative" ref={dropdownRef}>
                                 <button
                                     onClick={() => setShowDropdown(!showDropdown)}
@@ -356,6 +388,7 @@ export const AppHeader: React.FC = () => {
                                     onClose={() => setShowDisplayNameModal(false)}
                                 />
                             </div>
+                            </>
                         ) : (
                             <button
                                 onClick={() => setShowAuthModal(true)}
@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import { FileWithPrompts } from '@/types/processing';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { describeAudioTrack } from '@/lib/mediaProbe';
+import {
+    AUDIO_CHANNEL_MODE_OPTIONS,
+    AudioTrackSelection,
+    canSelectAudioChannel,
+    DEFAULT_AUDIO_TRACK_SELECTION,
+} from '@/constants/audioTrackSelection';
+
+interface AudioTrackSelectorProps {
+    selectedFiles: FileWithPrompts[];
+    onSelectionChange: (fileIndex: number, selection: AudioTrackSelection) => void;
+}
+
+/**
+ * 音声トラックが複数ある、またはステレオ以上のファイルか（選べるものがない場合は表示しない）
+ */
+const hasSelectableAudio = (probe: MediaProbeResult): boolean =>
+    probe.audioTracks.length > 1 || canSelectAudioChannel(probe, DEFAULT_AUDIO_TRACK_SELECTION);
+
+/**
+ * ファイルごとの音声トラック・チャンネルの選択
+ * メディア情報を取得できたファイルのうち、選べるトラック・チャンネルがあるものだけを表示する
+ */
+export const AudioTrackSelector: React.FC<AudioTrackSelectorProps> = ({
+    selectedFiles,
+    onSelectionChange,
+}) => {
+    const targets = selectedFiles.flatMap((fileWithPrompts, fileIndex) => {
+        const { mediaProbe } = fileWithPrompts;
+        return mediaProbe?.status === 'done' && hasSelectableAudio(mediaProbe.result)
+            ? [{ fileWithPrompts, fileIndex, probe: mediaProbe.result }]
+            : [];
+    });
+
+    if (targets.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">
+                音声トラックの選択
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+                マイクとシステム音声・通訳チャンネルなどが分かれている録音では、話者の音声を選んでください（複数選ぶとミックスします）
+            </p>
+
+            <div className="space-y-4">
+                {targets.map(({ fileWithPrompts, fileIndex, probe }) => {
+                    const selection = fileWithPrompts.audioTrackSelection ?? DEFAULT_AUDIO_TRACK_SELECTION;
+                    const channelSelectable = canSelectAudioChannel(probe, selection);
+
+                    const toggleTrack = (streamIndex: number) => {
+                        const streamIndices = selection.streamIndices.includes(streamIndex)
+                            ? selection.streamIndices.filter(index => index !== streamIndex)
+                            : [...selection.streamIndices, streamIndex].sort((a, b) => a - b);
+                        const next = { ...selection, streamIndices };
+                        // 選んだトラックがモノラルになった場合はチャンネルの選択を戻す
+                        onSelectionChange(fileIndex, canSelectAudioChannel(probe, next) ? next : { ...next, channelMode: 'all' });
+                    };
+
+                    return (
+                        <div key={fileIndex} className="bg-white border border-gray-200 rounded-lg p-4">
+                            <p className="text-sm font-medium text-gray-900 mb-3">
+                                {fileWithPrompts.file.name}
+                            </p>
+
+                            {probe.audioTracks.length > 1 && (
+                                <div className="mb-3">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        トラック
+                                    </label>
+                                    <div className="space-y-1">
+                                        {probe.audioTracks.map(track => (
+                                            <label key={track.streamIndex} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selection.streamIndices.includes(track.streamIndex)}
+                                                    onChange={() => toggleTrack(track.streamIndex)}
+                                                    className="mr-2"
+                                                />
+                                                {describeAudioTrack(track)}
+                                                {track.isDefault && <span className="text-xs text-gray-500 ml-2">(既定)</span>}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    {selection.streamIndices.length === 0 && (
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            未選択の場合は FFmpeg が自動で選んだ1トラックを使います
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    チャンネル
+                                </label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {AUDIO_CHANNEL_MODE_OPTIONS.map(option => {
+                                        const disabled = option.requiresStereo && !channelSelectable;
+                                        return (
+                                            <label
+                                                key={option.value}
+                                                className={`flex items-center p-2 border rounded-lg text-sm ${disabled
+                                                    ? 'text-gray-400 cursor-not-allowed'
+                                                    : 'text-gray-700 cursor-pointer hover:bg-gray-100'
+                                                    }`}
+                                            >
+                                                <input
+                                                    type="radio"
+                                                    name={`channelMode-${fileIndex}`}
+                                                    value={option.value}
+                                                    checked={selection.channelMode === option.value}
+                                                    disabled={disabled}
+                                                    onChange={() => onSelectionChange(fileIndex, { ...selection, channelMode: option.value })}
+                                                    className="mr-2"
+                                                />
+                                                {option.label}
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
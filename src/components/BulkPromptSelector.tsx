@@ -3,7 +3,7 @@
 import React from 'react';
 import { CheckSquare, Square } from 'lucide-react';
 import { Prompt } from '@/lib/prompts';
-import { getGeminiModelLabel } from '@/constants/geminiModels';
+import { getTranscriptionModelLabel } from '@/constants/transcriptionProviders';
 
 interface BulkPromptSelectorProps {
     availablePrompts: Prompt[];
@@ -43,7 +43,7 @@ export const BulkPromptSelector: React.FC<BulkPromptSelectorProps> = ({
                         <div className="flex flex-col">
                             <span className="text-sm text-gray-700">{prompt.name}</span>
                             <span className="text-[11px] text-gray-500">
-                                {getGeminiModelLabel(prompt.model)}
+                                {getTranscriptionModelLabel(prompt.provider, prompt.model)}
                             </span>
                         </div>
                     </div>
@@ -1,31 +1,38 @@
 'use client';
 
 import React from 'react';
+import { AUDIO_PREPROCESSING_OPTIONS } from '@/constants/audioPreprocessing';
+import { AUDIO_OUTPUT_PROFILES } from '@/constants/audioOutputProfiles';
+import {
+    AudioConversionSettings,
+    BITRATE_OPTIONS,
+    SAMPLE_RATE_OPTIONS,
+    SEGMENT_DURATION_OPTIONS,
+} from '@/constants/conversionSettings';
+import {
+    CONVERSION_CONCURRENCY_OPTIONS,
+    GENERATION_CONCURRENCY_OPTIONS,
+    PER_MODEL_CONCURRENCY_OPTIONS,
+    ProcessingScheduleSettings,
+} from '@/constants/processingSchedule';
+import { KEYFRAME_EXTRACTION_CONFIG } from '@/lib/keyframes';
 
 interface ConversionSettingsProps {
-    bitrate: string;
-    sampleRate: number;
-    onBitrateChange: (bitrate: string) => void;
-    onSampleRateChange: (sampleRate: number) => void;
+    settings: AudioConversionSettings;
+    onSettingsChange: (update: Partial<AudioConversionSettings>) => void;
 }
 
 export const ConversionSettings: React.FC<ConversionSettingsProps> = ({
-    bitrate,
-    sampleRate,
-    onBitrateChange,
-    onSampleRateChange,
+    settings,
+    onSettingsChange,
 }) => {
-    const bitrateOptions = [
-        { value: '128k', label: '128 kbps (標準品質)' },
-        { value: '192k', label: '192 kbps (高品質)' },
-        { value: '256k', label: '256 kbps (最高品質)' },
-        { value: '320k', label: '320 kbps (無損品質)' },
-    ];
-
-    const sampleRateOptions = [
-        { value: 44100, label: '44.1 kHz (CD品質)' },
-        { value: 48000, label: '48 kHz (DVD品質)' },
-        { value: 96000, label: '96 kHz (高解像度)' },
+    const { outputProfileId, bitrate, sampleRate, preprocessing, segmentDuration, includeKeyframes, schedule } = settings;
+    // 出力形式でビットレート・サンプルレートが決まっている場合は選択肢を表示しない
+    const outputProfile = AUDIO_OUTPUT_PROFILES[outputProfileId];
+    const scheduleFields: { key: keyof ProcessingScheduleSettings; label: string; options: { value: number; label: string }[] }[] = [
+        { key: 'conversionConcurrency', label: '同時に変換するファイル数', options: CONVERSION_CONCURRENCY_OPTIONS },
+        { key: 'generationConcurrency', label: '同時に送る文書生成の数（全体）', options: GENERATION_CONCURRENCY_OPTIONS },
+        { key: 'perModelConcurrency', label: '同時に送る文書生成の数（モデルごと）', options: PER_MODEL_CONCURRENCY_OPTIONS },
     ];
 
     return (
@@ -35,31 +42,31 @@ export const ConversionSettings: React.FC<ConversionSettingsProps> = ({
             </h3>
 
             <div className="space-y-6">
-                {/* ビットレート設定 */}
+                {/* 出力形式 */}
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                        ビットレート
+                        出力形式
                     </label>
-                    <div className="grid grid-cols-2 gap-2">
-                        {bitrateOptions.map((option) => (
+                    <div className="space-y-2">
+                        {Object.values(AUDIO_OUTPUT_PROFILES).map((profile) => (
                             <label
-                                key={option.value}
+                                key={profile.id}
                                 className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
                             >
                                 <input
                                     type="radio"
-                                    name="bitrate"
-                                    value={option.value}
-                                    checked={bitrate === option.value}
-                                    onChange={(e) => onBitrateChange(e.target.value)}
+                                    name="outputProfile"
+                                    value={profile.id}
+                                    checked={outputProfileId === profile.id}
+                                    onChange={() => onSettingsChange({ outputProfileId: profile.id })}
                                     className="mr-3"
                                 />
                                 <div>
                                     <div className="text-sm font-medium text-gray-900">
-                                        {option.value}
+                                        {profile.label}
                                     </div>
                                     <div className="text-xs text-gray-500">
-                                        {option.label}
+                                        {profile.description}
                                     </div>
                                 </div>
                             </label>
@@ -67,31 +74,124 @@ export const ConversionSettings: React.FC<ConversionSettingsProps> = ({
                     </div>
                 </div>
 
+                {/* ビットレート設定 */}
+                {!outputProfile.bitrate && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            ビットレート
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {BITRATE_OPTIONS.map((option) => (
+                                <label
+                                    key={option.value}
+                                    className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                                >
+                                    <input
+                                        type="radio"
+                                        name="bitrate"
+                                        value={option.value}
+                                        checked={bitrate === option.value}
+                                        onChange={(e) => onSettingsChange({ bitrate: e.target.value })}
+                                        className="mr-3"
+                                    />
+                                    <div>
+                                        <div className="text-sm font-medium text-gray-900">
+                                            {option.value}
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {option.label}
+                                        </div>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* サンプルレート設定 */}
+                {!outputProfile.sampleRate && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            サンプルレート
+                        </label>
+                        <div className="space-y-2">
+                            {SAMPLE_RATE_OPTIONS.map((option) => (
+                                <label
+                                    key={option.value}
+                                    className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                                >
+                                    <input
+                                        type="radio"
+                                        name="sampleRate"
+                                        value={option.value}
+                                        checked={sampleRate === option.value}
+                                        onChange={(e) => onSettingsChange({ sampleRate: Number(e.target.value) })}
+                                        className="mr-3"
+                                    />
+                                    <div>
+                                        <div className="text-sm font-medium text-gray-900">
+                                            {option.value.toLocaleString()} Hz
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {option.label}
+                                        </div>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* 区間長設定 */}
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                        サンプルレート
+                        区間の長さ
                     </label>
                     <div className="space-y-2">
-                        {sampleRateOptions.map((option) => (
+                        {SEGMENT_DURATION_OPTIONS.map((option) => (
                             <label
                                 key={option.value}
                                 className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
                             >
                                 <input
                                     type="radio"
-                                    name="sampleRate"
+                                    name="segmentDuration"
                                     value={option.value}
-                                    checked={sampleRate === option.value}
-                                    onChange={(e) => onSampleRateChange(Number(e.target.value))}
+                                    checked={segmentDuration === option.value}
+                                    onChange={(e) => onSettingsChange({ segmentDuration: Number(e.target.value) })}
+                                    className="mr-3"
+                                />
+                                <div className="text-sm font-medium text-gray-900">
+                                    {option.label}
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* 前処理設定 */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        前処理
+                    </label>
+                    <div className="space-y-2">
+                        {AUDIO_PREPROCESSING_OPTIONS.map((option) => (
+                            <label
+                                key={option.key}
+                                className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={preprocessing[option.key]}
+                                    onChange={(e) => onSettingsChange({ preprocessing: { ...preprocessing, [option.key]: e.target.checked } })}
                                     className="mr-3"
                                 />
                                 <div>
                                     <div className="text-sm font-medium text-gray-900">
-                                        {option.value.toLocaleString()} Hz
+                                        {option.label}
                                     </div>
                                     <div className="text-xs text-gray-500">
-                                        {option.label}
+                                        {option.description}
                                     </div>
                                 </div>
                             </label>
@@ -99,6 +199,62 @@ export const ConversionSettings: React.FC<ConversionSettingsProps> = ({
                     </div>
                 </div>
 
+                {/* 場面の画像の添付 */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        動画の画面
+                    </label>
+                    <label className={`flex items-center p-3 border rounded-lg transition-colors ${
+                        preprocessing.trimSilence ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-100'
+                    }`}>
+                        <input
+                            type="checkbox"
+                            checked={includeKeyframes && !preprocessing.trimSilence}
+                            disabled={preprocessing.trimSilence}
+                            onChange={(e) => onSettingsChange({ includeKeyframes: e.target.checked })}
+                            className="mr-3"
+                        />
+                        <div>
+                            <div className="text-sm font-medium text-gray-900">
+                                スライド・画面の画像を添付
+                            </div>
+                            <div className="text-xs text-gray-500">
+                                講義・デモの録画で、場面が切り替わった時点の画像（最大{KEYFRAME_EXTRACTION_CONFIG.MAX_KEYFRAMES}枚）を音声と一緒に送り、文書中に表示します
+                            </div>
+                            {preprocessing.trimSilence && (
+                                <div className="text-xs text-amber-700">
+                                    無音を削除すると音声の時刻が動画とずれるため、画像は添付しません
+                                </div>
+                            )}
+                        </div>
+                    </label>
+                </div>
+
+                {/* 処理の並列数 */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        処理の並列数
+                    </label>
+                    <div className="space-y-2">
+                        {scheduleFields.map((field) => (
+                            <div key={field.key} className="flex items-center justify-between p-3 border rounded-lg">
+                                <span className="text-sm text-gray-900">{field.label}</span>
+                                <select
+                                    value={schedule[field.key]}
+                                    onChange={(e) => onSettingsChange({ schedule: { ...schedule, [field.key]: Number(e.target.value) } })}
+                                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                                >
+                                    {field.options.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
                 {/* 設定の説明 */}
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h4 className="text-sm font-medium text-blue-900 mb-2">
@@ -107,7 +263,12 @@ export const ConversionSettings: React.FC<ConversionSettingsProps> = ({
                     <ul className="text-xs text-blue-800 space-y-1">
                         <li>• ビットレートが高いほど音質は向上しますが、ファイルサイズも大きくなります</li>
                         <li>• サンプルレートは音の周波数範囲を決定します</li>
-                        <li>• 一般的な用途では192kbps/44.1kHzが推奨されます</li>
+                        <li>• 文書生成には音声向けの形式で十分です。送信量が減り、大きなファイルも処理しやすくなります</li>
+                        <li>• MP3 の場合、一般的な用途では192kbps/44.1kHzが推奨されます</li>
+                        <li>• 区間は話の切れ目に合わせて区切るため、実際の長さは前後します</li>
+                        <li>• 設定は次回以降も引き継がれます（ゲストはこのブラウザに保存）</li>
+                        <li>• 長い無音を削除すると送信する音声が短くなり、文書生成の入力量と費用が減ります</li>
+                        <li>• 文書生成で回数制限（429）に達した場合は、並列数を一時的に下げて自動で再送します</li>
                     </ul>
                 </div>
             </div>
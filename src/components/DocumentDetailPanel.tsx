@@ -5,9 +5,15 @@ import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 type CodeProps = React.HTMLAttributes<HTMLElement> & { inline?: boolean };
-import { Eye, FileText, Check, FileTextIcon } from 'lucide-react';
+import { Eye, FileText, Check, FileTextIcon, Download, Table } from 'lucide-react';
 import { Transcription } from '@/lib/firestore';
 import { createLogger } from '@/lib/logger';
+import { StructuredDataView } from './StructuredDataView';
+import { formatConversionSettings, normalizeConversionSettings } from '@/constants/conversionSettings';
+import { formatMediaProbeSummary } from '@/lib/mediaProbe';
+import { formatSeconds } from '@/utils/timeFormat';
+import { splitByKeyframeMarkers } from '@/lib/keyframes';
+import { KeyframeFigure } from './KeyframeFigure';
 
 const documentDetailLogger = createLogger('DocumentDetailPanel');
 
@@ -26,6 +32,8 @@ export const DocumentDetailPanel: React.FC<DocumentDetailPanelProps> = ({
     const [editedTitle, setEditedTitle] = useState('');
     const [editedContent, setEditedContent] = useState('');
     const [saving, setSaving] = useState(false);
+    // 構造化出力の文書: 表で表示するか、本文（Markdown）で表示するか
+    const [showStructuredTable, setShowStructuredTable] = useState(true);
     const markdownComponents: Components = useMemo(() => ({
         h1: (props) => (
             <h1 className="text-2xl font-bold mt-6 mb-4 text-gray-900" {...props} />
@@ -92,6 +100,7 @@ export const DocumentDetailPanel: React.FC<DocumentDetailPanelProps> = ({
             setEditedTitle(document.title);
             setEditedContent(document.text);
             setIsViewMode(true);
+            setShowStructuredTable(true);
         } else {
             setEditedTitle('');
             setEditedContent('');
@@ -110,6 +119,26 @@ export const DocumentDetailPanel: React.FC<DocumentDetailPanelProps> = ({
     }
 
     const hasChanges = editedTitle !== document.title || editedContent !== document.text;
+    const hasStructuredData = Boolean(document.structuredData && document.outputSchema);
+    // 動画の場面の画像は、本文のマーカー（[[スライドN]]）の位置に表示する
+    const keyframes = document.keyframes ?? [];
+    const documentBlocks = splitByKeyframeMarkers(document.text, keyframes.length);
+    const placedKeyframeIndices = new Set(documentBlocks.flatMap(block => block.type === 'keyframe' ? [block.keyframeIndex] : []));
+    const unplacedKeyframeIndices = keyframes.map((_, index) => index).filter(index => !placedKeyframeIndices.has(index));
+
+    const handleExportJson = () => {
+        if (!document.structuredData) return;
+
+        const blob = new Blob([JSON.stringify(document.structuredData, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = window.document.createElement('a');
+        a.href = url;
+        a.download = `${document.title}_${document.promptName}.json`;
+        window.document.body.appendChild(a);
+        a.click();
+        window.document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
 
     const handleCancelEdit = () => {
         if (hasChanges && !confirm('保存されていない変更があります。変更を破棄しますか？')) {
@@ -189,8 +218,24 @@ export const DocumentDetailPanel: React.FC<DocumentDetailPanelProps> = ({
                         )}
                         <div className="mt-3 text-xs text-gray-600 space-y-1">
                             <p>ファイル: {document.fileName}</p>
+                            {document.mediaInfo && (
+                                <p>メディア情報: {formatMediaProbeSummary(document.mediaInfo)}</p>
+                            )}
+                            {document.trimRange && (
+                                <p>
+                                    処理範囲: <span className="text-orange-700 font-semibold">
+                                        {formatSeconds(document.trimRange.startTime)}〜{formatSeconds(document.trimRange.endTime)}
+                                    </span>（ファイルの一部のみを生成に使用）
+                                </p>
+                            )}
+                            {keyframes.length > 0 && (
+                                <p>動画の場面: {keyframes.length}枚の画像を添付して生成</p>
+                            )}
                             <p>プロンプト: <span className="text-purple-700 font-semibold">{document.promptName}</span></p>
                             <p>生成日時: {formatDate(document.createdAt)}</p>
+                            {document.conversionSettings && (
+                                <p>変換設定: {formatConversionSettings(normalizeConversionSettings(document.conversionSettings))}</p>
+                            )}
                         </div>
                     </div>
                     {isEditable && (
@@ -225,14 +270,68 @@ export const DocumentDetailPanel: React.FC<DocumentDetailPanelProps> = ({
             </div>
 
             <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
-                {isViewMode ? (
-                    <div className="prose prose-sm max-w-none text-gray-800">
-                        <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            components={markdownComponents}
+                {isViewMode && hasStructuredData && (
+                    <div className="flex items-center justify-between mb-4 gap-2">
+                        <div className="flex items-center space-x-2 bg-white rounded-lg p-1 shadow-sm">
+                            <button
+                                onClick={() => setShowStructuredTable(true)}
+                                className={`px-3 py-1 rounded-md text-xs font-medium flex items-center space-x-1 ${showStructuredTable ? 'bg-purple-100 text-purple-700' : 'text-gray-600 hover:text-gray-900'}`}
+                            >
+                                <Table className="w-3.5 h-3.5" />
+                                <span>表</span>
+                            </button>
+                            <button
+                                onClick={() => setShowStructuredTable(false)}
+                                className={`px-3 py-1 rounded-md text-xs font-medium flex items-center space-x-1 ${!showStructuredTable ? 'bg-purple-100 text-purple-700' : 'text-gray-600 hover:text-gray-900'}`}
+                            >
+                                <FileText className="w-3.5 h-3.5" />
+                                <span>本文</span>
+                            </button>
+                        </div>
+                        <button
+                            onClick={handleExportJson}
+                            className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50 flex items-center space-x-1 shadow-sm"
+                            title="生成時のJSONデータを書き出します（本文の編集は反映されません）"
                         >
-                            {document.text}
-                        </ReactMarkdown>
+                            <Download className="w-3.5 h-3.5" />
+                            <span>JSONを書き出し</span>
+                        </button>
+                    </div>
+                )}
+                {isViewMode && hasStructuredData && showStructuredTable ? (
+                    <StructuredDataView schema={document.outputSchema!} data={document.structuredData!} />
+                ) : isViewMode ? (
+                    <div className="prose prose-sm max-w-none text-gray-800">
+                        {documentBlocks.map((block, index) => block.type === 'keyframe' ? (
+                            <KeyframeFigure
+                                key={`keyframe-${index}`}
+                                keyframe={keyframes[block.keyframeIndex]}
+                                keyframeIndex={block.keyframeIndex}
+                            />
+                        ) : (
+                            <ReactMarkdown
+                                key={`text-${index}`}
+                                remarkPlugins={[remarkGfm]}
+                                components={markdownComponents}
+                            >
+                                {block.text}
+                            </ReactMarkdown>
+                        ))}
+                        {/* 本文にマーカーがない画像は末尾にまとめて表示 */}
+                        {unplacedKeyframeIndices.length > 0 && (
+                            <div className="mt-8 pt-4 border-t border-gray-200">
+                                <h3 className="text-sm font-bold text-gray-700 mb-2">動画の場面</h3>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    {unplacedKeyframeIndices.map(keyframeIndex => (
+                                        <KeyframeFigure
+                                            key={keyframeIndex}
+                                            keyframe={keyframes[keyframeIndex]}
+                                            keyframeIndex={keyframeIndex}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 ) : (
                     <div className="h-full">
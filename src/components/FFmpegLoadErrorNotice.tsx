@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { FFmpegLoadError } from '@/lib/ffmpeg';
+import { FFMPEG_CORE_VERSION } from '@/constants/ffmpegCore';
+
+interface FFmpegLoadErrorNoticeProps {
+    error: FFmpegLoadError;
+    onRetry: () => void;
+    onDismiss: () => void;
+}
+
+/**
+ * 音声変換エンジン（FFmpeg）を読み込めなかった理由と対処を表示する
+ */
+export const FFmpegLoadErrorNotice: React.FC<FFmpegLoadErrorNoticeProps> = ({ error, onRetry, onDismiss }) => (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+                <p className="font-medium text-red-900">音声変換を開始できませんでした</p>
+                <p className="text-red-800 mt-1">{error.message}</p>
+                {error.assetUrl && (
+                    <p className="text-xs text-red-700 mt-1 break-all">
+                        対象: {error.assetUrl}（FFmpeg コア {FFMPEG_CORE_VERSION}）
+                    </p>
+                )}
+                {error.reason === 'network' && (
+                    <p className="text-xs text-red-700 mt-1">
+                        社内ネットワークなどでブロックされている場合は、管理者に上記のパスへのアクセス許可を依頼してください。
+                    </p>
+                )}
+                <div className="flex items-center gap-3 mt-3">
+                    <button
+                        onClick={onRetry}
+                        className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-medium hover:bg-red-700 flex items-center gap-1"
+                    >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                        再試行
+                    </button>
+                    <button onClick={onDismiss} className="text-xs text-red-700 hover:text-red-900 underline">
+                        閉じる
+                    </button>
+                </div>
+            </div>
+        </div>
+    </div>
+);
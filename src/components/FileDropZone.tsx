@@ -1,17 +1,72 @@
 'use client';
 
 import React, { useCallback, useState } from 'react';
-import { Upload, X, FileVideo, FileAudio } from 'lucide-react';
+import { Upload, X, FileVideo, FileAudio, Loader2, AlertTriangle } from 'lucide-react';
+import { MediaProbeState } from '@/types/mediaProbe';
+import { MediaTrimRange } from '@/types/processing';
+import { TrimRangeEditor } from './TrimRangeEditor';
+import { describeAudioTrack, formatMediaProbeSummary } from '@/lib/mediaProbe';
 
 interface FileDropZoneProps {
     onFilesSelected: (files: File[]) => void;
     selectedFiles: File[];
+    /** 選択したファイルごとのメディア情報（selectedFiles と同じ順） */
+    mediaProbes?: (MediaProbeState | undefined)[];
+    /** 選択したファイルごとの処理する範囲（selectedFiles と同じ順。省略時は範囲を指定できない） */
+    trimRanges?: (MediaTrimRange | undefined)[];
+    onTrimRangeChange?: (index: number, trimRange: MediaTrimRange | undefined) => void;
     onRemoveFile: (index: number) => void;
 }
 
+/**
+ * メディア情報の表示（取得中・取得失敗・要約と各トラックの詳細）
+ */
+const MediaProbeDetails: React.FC<{ mediaProbe: MediaProbeState }> = ({ mediaProbe }) => {
+    if (mediaProbe.status === 'probing') {
+        return (
+            <p className="flex items-center text-xs text-gray-400 mt-1">
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                メディア情報を取得中...
+            </p>
+        );
+    }
+
+    if (mediaProbe.status === 'error') {
+        return (
+            <p className="flex items-center text-xs text-orange-600 mt-1">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {mediaProbe.error}
+            </p>
+        );
+    }
+
+    const { result } = mediaProbe;
+    return (
+        <div className="text-xs text-gray-600 mt-1 space-y-0.5">
+            <p>{formatMediaProbeSummary(result)}</p>
+            {result.audioTracks.length === 0 && (
+                <p className="text-orange-600">音声トラックがないため、文書を生成できません</p>
+            )}
+            {result.audioTracks.length > 1 && (
+                <p>音声: {result.audioTracks.map(describeAudioTrack).join(' / ')}</p>
+            )}
+            {result.subtitleTracks.length > 0 && (
+                <p>
+                    字幕: {result.subtitleTracks
+                        .map(track => `${track.title ?? track.language ?? `トラック${track.streamIndex}`}（${track.codec}）`)
+                        .join(' / ')}
+                </p>
+            )}
+        </div>
+    );
+};
+
 export const FileDropZone: React.FC<FileDropZoneProps> = ({
     onFilesSelected,
     selectedFiles,
+    mediaProbes = [],
+    trimRanges = [],
+    onTrimRangeChange,
     onRemoveFile,
 }) => {
     const [isDragOver, setIsDragOver] = useState(false);
@@ -111,6 +166,7 @@ export const FileDropZone: React.FC<FileDropZoneProps> = ({
                         {selectedFiles.map((file, index) => {
                             const isAudio = file.type.startsWith('audio/') ||
                                 file.name.toLowerCase().match(/\.(mp3|wav|m4a|aac|ogg|flac)$/);
+                            const mediaProbe = mediaProbes[index];
 
                             return (
                                 <div
@@ -130,6 +186,16 @@ export const FileDropZone: React.FC<FileDropZoneProps> = ({
                                             <p className="text-xs text-gray-500">
                                                 {formatFileSize(file.size)} {isAudio ? '(音声)' : '(動画)'}
                                             </p>
+                                            {mediaProbe && <MediaProbeDetails mediaProbe={mediaProbe} />}
+                                            {onTrimRangeChange && mediaProbe?.status === 'done' && mediaProbe.result.duration > 0 && (
+                                                <TrimRangeEditor
+                                                    file={file}
+                                                    duration={mediaProbe.result.duration}
+                                                    hasVideo={Boolean(mediaProbe.result.video)}
+                                                    trimRange={trimRanges[index]}
+                                                    onChange={(trimRange) => onTrimRangeChange(index, trimRange)}
+                                                />
+                                            )}
                                         </div>
                                     </div>
                                     <button
@@ -4,7 +4,7 @@ import React from 'react';
 import { CheckSquare, Square } from 'lucide-react';
 import { FileWithPrompts } from '@/types/processing';
 import { Prompt } from '@/lib/prompts';
-import { getGeminiModelLabel } from '@/constants/geminiModels';
+import { getTranscriptionModelLabel } from '@/constants/transcriptionProviders';
 
 interface FilePromptSelectorProps {
   selectedFiles: FileWithPrompts[];
@@ -49,7 +49,7 @@ export const FilePromptSelector: React.FC<FilePromptSelectorProps> = ({
                 <div className="flex flex-col">
                   <span className="text-sm text-gray-700">{prompt.name}</span>
                   <span className="text-[11px] text-gray-500">
-                    {getGeminiModelLabel(prompt.model)}
+                    {getTranscriptionModelLabel(prompt.provider, prompt.model)}
                   </span>
                 </div>
                 <span className="text-xs text-gray-500 ml-auto">
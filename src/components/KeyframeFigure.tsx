@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { ImageOff } from 'lucide-react';
+import { DocumentKeyframe } from '@/types/keyframes';
+import { getKeyframeDownloadURL } from '@/lib/storage';
+import { KEYFRAME_EXTRACTION_CONFIG } from '@/lib/keyframes';
+import { createLogger } from '@/lib/logger';
+import { formatSeconds } from '@/utils/timeFormat';
+
+const keyframeFigureLogger = createLogger('KeyframeFigure');
+
+interface KeyframeFigureProps {
+    keyframe: DocumentKeyframe;
+    keyframeIndex: number;
+}
+
+/**
+ * 文書に添付した動画の場面の画像（Storage から読み込んで表示する）
+ */
+export const KeyframeFigure: React.FC<KeyframeFigureProps> = ({ keyframe, keyframeIndex }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        getKeyframeDownloadURL(keyframe.storagePath)
+            .then((downloadUrl) => {
+                if (!cancelled) {
+                    setUrl(downloadUrl);
+                }
+            })
+            .catch((error) => {
+                keyframeFigureLogger.warn('場面の画像を読み込めません', { storagePath: keyframe.storagePath, error: String(error) });
+                if (!cancelled) {
+                    setFailed(true);
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [keyframe.storagePath]);
+
+    const caption = `スライド${keyframeIndex + 1}（${formatSeconds(keyframe.time)}）`;
+
+    return (
+        <figure className="my-4">
+            {failed ? (
+                <div className="flex items-center justify-center h-24 bg-gray-100 border border-gray-200 rounded-lg text-xs text-gray-500">
+                    <ImageOff className="w-4 h-4 mr-1" />
+                    画像を読み込めませんでした
+                </div>
+            ) : url ? (
+                // Storage のダウンロード URL はトークン付きのため、最適化せずにそのまま表示する
+                <Image
+                    src={url}
+                    alt={caption}
+                    width={KEYFRAME_EXTRACTION_CONFIG.IMAGE_WIDTH}
+                    height={Math.round(KEYFRAME_EXTRACTION_CONFIG.IMAGE_WIDTH * 9 / 16)}
+                    unoptimized
+                    className="w-full h-auto rounded-lg border border-gray-200"
+                />
+            ) : (
+                <div className="h-24 bg-gray-100 border border-gray-200 rounded-lg animate-pulse" />
+            )}
+            <figcaption className="mt-1 text-xs text-gray-500">{caption}</figcaption>
+        </figure>
+    );
+};
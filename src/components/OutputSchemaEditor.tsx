@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import { STRUCTURED_OUTPUT_PRESETS } from '@/constants/structuredOutputPresets';
+import { getSchemaLabel, parseOutputSchemaText } from '@/lib/structuredOutput';
+import { OutputSchema } from '@/types/structuredOutput';
+
+interface OutputSchemaEditorProps {
+    /** スキーマのJSONテキスト（空文字の場合は Markdown 出力） */
+    value: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+}
+
+/**
+ * スキーマを編集欄に表示するJSONテキストに変換
+ */
+export const formatOutputSchema = (schema?: OutputSchema): string =>
+    schema ? JSON.stringify(schema, null, 2) : '';
+
+/**
+ * 表示モード用: 出力形式の概要
+ */
+export const OutputSchemaSummary: React.FC<{ schema?: OutputSchema }> = ({ schema }) => (
+    <div>
+        <p className="text-sm text-gray-800">
+            {schema ? '構造化JSON' : 'Markdown'}
+        </p>
+        {schema && (
+            <p className="text-xs text-gray-500 mt-1">
+                項目: {Object.entries(schema.properties ?? {}).map(([key, property]) => getSchemaLabel(key, property)).join('、')}
+            </p>
+        )}
+    </div>
+);
+
+export const OutputSchemaEditor: React.FC<OutputSchemaEditorProps> = ({
+    value,
+    onChange,
+    disabled = false,
+}) => {
+    const isStructured = value.trim().length > 0;
+    const validation = isStructured ? parseOutputSchemaText(value) : null;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-4 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="radio"
+                        checked={!isStructured}
+                        onChange={() => onChange('')}
+                        disabled={disabled}
+                    />
+                    Markdown
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="radio"
+                        checked={isStructured}
+                        onChange={() => onChange(formatOutputSchema(STRUCTURED_OUTPUT_PRESETS[0].schema))}
+                        disabled={disabled}
+                    />
+                    構造化JSON（スキーマ指定）
+                </label>
+            </div>
+
+            {isStructured && (
+                <>
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-600">ひな形:</span>
+                        <select
+                            value=""
+                            onChange={(e) => {
+                                const preset = STRUCTURED_OUTPUT_PRESETS.find(p => p.id === e.target.value);
+                                if (preset) {
+                                    onChange(formatOutputSchema(preset.schema));
+                                }
+                            }}
+                            disabled={disabled}
+                            className="px-2 py-1 border border-gray-300 rounded bg-white text-xs"
+                        >
+                            <option value="">選択して読み込む</option>
+                            {STRUCTURED_OUTPUT_PRESETS.map(preset => (
+                                <option key={preset.id} value={preset.id}>
+                                    {preset.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <textarea
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        rows={10}
+                        disabled={disabled}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-xs"
+                    />
+                    {validation && !validation.success ? (
+                        <p className="text-xs text-red-600 whitespace-pre-wrap">{validation.error}</p>
+                    ) : (
+                        <p className="text-xs text-gray-500">
+                            type は object / array / string / number / integer / boolean。description は文書の見出し・表の列名になります。
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,150 +1,349 @@
 'use client';
 
 import React from 'react';
-import { Loader2 } from 'lucide-react';
-import { FileProcessingStatus } from '@/types/processing';
+import { ChevronDown, ChevronsUp, ChevronUp, Loader2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { FileProcessingStatus, QueueMoveDirection, SegmentAction } from '@/types/processing';
+import { getTranscriptionErrorMessage, isResumableErrorCode } from '@/constants/transcriptionErrors';
+import { formatLostTimeRanges, getLostTimeRanges } from '@/lib/segmentGaps';
+import { formatSeconds } from '@/utils/timeFormat';
+import { SegmentTimeline } from './SegmentTimeline';
 
 interface ProcessingStatusListProps {
     statuses: FileProcessingStatus[];
     onResumeFile: (index: number) => void;
+    onCancelFile: (index: number) => void;
+    // 待機中のファイルの処理の順番を変える
+    onMoveFile?: (index: number, direction: QueueMoveDirection) => void;
+    // 音声変換で失敗した区間を変換し直す・飛ばして続行する
+    onSegmentAction?: (index: number, segmentIndex: number, action: SegmentAction) => void;
 }
 
+const QUEUE_MOVE_BUTTONS: { direction: QueueMoveDirection; label: string; Icon: typeof ChevronUp }[] = [
+    { direction: 'top', label: '最初に処理', Icon: ChevronsUp },
+    { direction: 'up', label: '1つ前へ', Icon: ChevronUp },
+    { direction: 'down', label: '1つ後へ', Icon: ChevronDown },
+];
+
 export const ProcessingStatusList: React.FC<ProcessingStatusListProps> = ({
     statuses,
     onResumeFile,
+    onCancelFile,
+    onMoveFile,
+    onSegmentAction,
 }) => {
     if (statuses.length === 0) {
         return null;
     }
 
+    // 処理の順番どおりに表示する（ボタンからはファイルの元の位置で操作する）
+    const orderedStatuses = statuses
+        .map((status, index) => ({ status, index }))
+        .sort((a, b) => (a.status.queuePosition ?? a.index) - (b.status.queuePosition ?? b.index));
+
     return (
         <div className="bg-white rounded-xl shadow-lg p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">
                 処理進捗 ({statuses.filter(s => s.status === 'completed').length} / {statuses.length})
             </h3>
             <div className="space-y-3">
-                {statuses.map((status, index) => (
-                    <div key={index} className="border rounded-lg p-4 bg-white shadow-sm">
-                        <div className="flex items-center justify-between mb-3">
-                            <div className="flex-1 min-w-0">
-                                <p className="text-sm font-medium text-gray-900 truncate">
-                                    {status.fileName}
-                                </p>
-                            </div>
-                        </div>
-
-                        {/* 進捗表示 */}
-                        <div className="space-y-2">
-                            {/* 動画解析 */}
-                            {status.phase === 'video_analysis' && (
-                                <div className="flex items-center space-x-3">
-                                    <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
-                                    <p className="text-sm font-medium text-indigo-800">
-                                        動画情報を解析中...
+                {orderedStatuses.map(({ status, index }) => {
+                    const silenceBoundaryCount = status.segments.filter(segment => segment.endBoundary === 'silence').length;
+                    // 無音の削除で短くなった長さ（結合した音声全体、変換済みの区間の長さに対する割合で示す）
+                    const removedDuration = status.removedDuration ?? 0;
+                    const convertedDuration = status.segments
+                        .filter(segment => segment.status === 'completed')
+                        .reduce((sum, segment) => sum + (segment.endTime - segment.startTime), 0);
+                    const lostRanges = getLostTimeRanges(status.segments);
+                    const conversionFailed = status.status === 'error' && status.failedPhase === 'audio_conversion';
+                    return (
+                        <div key={index} className="border rounded-lg p-4 bg-white shadow-sm">
+                            <div className="flex items-center justify-between mb-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">
+                                        {status.fileName}
                                     </p>
+                                    {status.serverProcessing && (
+                                        <p className="text-xs text-blue-600">
+                                            🖥️ サーバーで処理（タブを閉じても処理は続きます）
+                                        </p>
+                                    )}
+                                    {removedDuration >= 1 && convertedDuration > 0 && (
+                                        <p className="text-xs text-gray-500">
+                                            無音を {formatSeconds(removedDuration)} 削除
+                                            （{Math.round((removedDuration / convertedDuration) * 100)}%短縮、文書生成の入力量と費用もその分減ります）
+                                        </p>
+                                    )}
                                 </div>
-                            )}
-
-                            {/* 音声変換 */}
-                            {status.phase === 'audio_conversion' && (
-                                <div>
-                                    <p className="text-sm font-medium text-blue-800 mb-1">
-                                        音声変換: {status.audioConversionProgress}%
-                                        {status.segments.length > 0 && (
-                                            <span className="text-xs text-gray-600 ml-2">
-                                                ({status.completedSegmentIndices.length}/{status.segments.length} 区間完了)
-                                            </span>
+                                {onMoveFile && status.status === 'waiting' && !status.serverProcessing && statuses.length > 1 && (
+                                    <div className="flex items-center space-x-1 ml-3">
+                                        {QUEUE_MOVE_BUTTONS.map(({ direction, label, Icon }) => (
+                                            <button
+                                                key={direction}
+                                                onClick={() => onMoveFile(index, direction)}
+                                                title={label}
+                                                aria-label={label}
+                                                className="p-1 border border-gray-300 text-gray-600 rounded hover:bg-gray-50 transition-colors"
+                                            >
+                                                <Icon className="w-4 h-4" />
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* 進捗表示 */}
+                            <div className="space-y-2">
+                                {/* 動画解析 */}
+                                {status.phase === 'video_analysis' && (
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center space-x-3">
+                                            <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
+                                            <p className="text-sm font-medium text-indigo-800">
+                                                動画情報と話の切れ目を解析中...
+                                                {status.analysisProgress !== undefined && ` ${status.analysisProgress}%`}
+                                            </p>
+                                        </div>
+                                        {status.status === 'converting' && (
+                                            <button
+                                                onClick={() => onCancelFile(index)}
+                                                className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                            >
+                                                中止
+                                            </button>
                                         )}
-                                    </p>
-                                    <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-                                        <div
-                                            className="h-full bg-blue-600 transition-all duration-300"
-                                            style={{ width: `${status.audioConversionProgress}%` }}
-                                        />
                                     </div>
-                                </div>
-                            )}
-
-                            {/* 音声結合 */}
-                            {status.phase === 'audio_concat' && (
-                                <div className="flex items-center space-x-3">
-                                    <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
-                                    <p className="text-sm font-medium text-blue-800">
-                                        音声ファイルを結合中...
-                                    </p>
-                                </div>
-                            )}
-
-                            {/* 文章生成中 */}
-                            {status.phase === 'text_generation' && (
-                                <div className="flex items-center space-x-3">
-                                    <Loader2 className="w-5 h-5 text-purple-600 animate-spin" />
-                                    <p className="text-sm font-medium text-purple-800">
-                                        文章生成中: {status.transcriptionCount}/{status.totalTranscriptions}
+                                )}
+
+                                {/* 音声変換 */}
+                                {status.phase === 'audio_conversion' && (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <p className="text-sm font-medium text-blue-800">
+                                                音声変換: {status.audioConversionProgress}%
+                                                {status.segments.length > 0 && (
+                                                    <span className="text-xs text-gray-600 ml-2">
+                                                        ({status.completedSegmentIndices.length}/{status.segments.length} 区間完了
+                                                        {silenceBoundaryCount > 0 && `、${silenceBoundaryCount}箇所を無音の位置で区切り`})
+                                                    </span>
+                                                )}
+                                            </p>
+                                            {status.status === 'converting' && (
+                                                <button
+                                                    onClick={() => onCancelFile(index)}
+                                                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                                >
+                                                    中止
+                                                </button>
+                                            )}
+                                        </div>
+                                        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                                            <div
+                                                className="h-full bg-blue-600 transition-all duration-300"
+                                                style={{ width: `${status.audioConversionProgress}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* 区間ごとの変換状況（変換中・音声変換で失敗した場合） */}
+                                {status.segments.length > 1 && (status.phase === 'audio_conversion' || conversionFailed) && (
+                                    <SegmentTimeline
+                                        segments={status.segments}
+                                        canEdit={Boolean(onSegmentAction) && conversionFailed && !status.isResuming}
+                                        onSegmentAction={(segmentIndex, action) => onSegmentAction?.(index, segmentIndex, action)}
+                                    />
+                                )}
+
+                                {/* 欠落した範囲（スキップした区間） */}
+                                {lostRanges.length > 0 && (
+                                    <p className="text-xs text-amber-700">
+                                        ⚠️ 欠落した範囲（文書に含まれません）: {formatLostTimeRanges(lostRanges)}
                                     </p>
-                                </div>
-                            )}
-
-                            {/* 完了 */}
-                            {status.phase === 'completed' && (
-                                <p className="text-sm font-medium text-green-800">
-                                    ✅ 完了
-                                </p>
-                            )}
-
-                            {/* 待機中 */}
-                            {status.phase === 'waiting' && status.isResuming && (
-                                <p className="text-sm text-yellow-700">
-                                    🕐 音声変換待機中...（他のファイルの音声変換が終わり次第開始されます）
-                                </p>
-                            )}
-                            {status.phase === 'waiting' && !status.isResuming && (
-                                <p className="text-sm text-gray-500">待機中...</p>
-                            )}
-
-                            {/* エラー */}
-                            {status.status === 'error' && !status.isResuming && (
-                                <div className="flex items-center justify-between">
-                                    <div className="flex-1">
-                                        <p className="text-sm font-medium text-red-800 mb-1">
-                                            ❌ エラーが発生しました
-                                            {status.failedPhase === 'audio_conversion' && ' (音声変換)'}
-                                            {status.failedPhase === 'text_generation' && ' (文書生成)'}
+                                )}
+
+                                {/* 音声結合 */}
+                                {status.phase === 'audio_concat' && (
+                                    <div className="flex items-center space-x-3">
+                                        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+                                        <p className="text-sm font-medium text-blue-800">
+                                            音声ファイルを結合中...
                                         </p>
-                                        {status.error && (
-                                            <p className="text-xs text-red-600 mb-1">
-                                                {status.error}
+                                    </div>
+                                )}
+
+                                {/* 文書生成APIへの事前アップロード（サーバー処理ではサーバーへのアップロード） */}
+                                {status.phase === 'media_upload' && (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <p className="text-sm font-medium text-purple-800">
+                                                {status.serverProcessing ? 'サーバーへアップロード中' : '文書生成用にアップロード中'}: {status.mediaUploadProgress ?? 0}%
                                             </p>
-                                        )}
-                                        {status.completedSegmentIndices.length > 0 && (
-                                            <p className="text-xs text-green-600 mb-1">
-                                                ✓ 完了した区間: {status.completedSegmentIndices.length}/{status.segments.length} ({status.audioConversionProgress}%)
+                                            {status.serverProcessing && status.status === 'transcribing' && (
+                                                <button
+                                                    onClick={() => onCancelFile(index)}
+                                                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                                >
+                                                    中止
+                                                </button>
+                                            )}
+                                        </div>
+                                        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                                            <div
+                                                className="h-full bg-purple-600 transition-all duration-300"
+                                                style={{ width: `${status.mediaUploadProgress ?? 0}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* 区間グループごとの生成（長時間録音モード） */}
+                                {status.phase === 'map_generation' && status.mapProgress && (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <p className="text-sm font-medium text-purple-800">
+                                                区間ごとの書き出し: {status.mapProgress.completed}/{status.mapProgress.total}
                                             </p>
-                                        )}
-                                        {status.completedPromptIds.length > 0 && (
-                                            <p className="text-xs text-green-600 mb-1">
-                                                ✓ 完了: {status.completedPromptIds.length}/{status.totalTranscriptions} プロンプト
+                                            {status.status === 'transcribing' && (
+                                                <button
+                                                    onClick={() => onCancelFile(index)}
+                                                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                                >
+                                                    中止
+                                                </button>
+                                            )}
+                                        </div>
+                                        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                                            <div
+                                                className="h-full bg-purple-600 transition-all duration-300"
+                                                style={{ width: `${status.mapProgress.total > 0 ? Math.round((status.mapProgress.completed / status.mapProgress.total) * 100) : 0}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* 文章生成中 */}
+                                {status.phase === 'text_generation' && (
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center space-x-3">
+                                            <Loader2 className="w-5 h-5 text-purple-600 animate-spin" />
+                                            <p className="text-sm font-medium text-purple-800">
+                                                文章生成中: {status.transcriptionCount}/{status.totalTranscriptions}
                                             </p>
+                                        </div>
+                                        {status.status === 'transcribing' && (
+                                            <button
+                                                onClick={() => onCancelFile(index)}
+                                                className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                            >
+                                                中止
+                                            </button>
                                         )}
-                                        {status.convertedAudioBlob && (
-                                            <p className="text-xs text-blue-600 mb-1">
-                                                ✓ 音声変換済み（再開時はスキップされます）
+                                    </div>
+                                )}
+
+                                {/* 生成中の文書プレビュー（ストリーミング） */}
+                                {status.status === 'transcribing' && status.livePreviews &&
+                                    Object.entries(status.livePreviews).map(([promptId, preview]) => (
+                                        <details key={promptId} open className="border border-purple-100 rounded-lg bg-purple-50">
+                                            <summary className="px-3 py-2 text-xs font-medium text-purple-900 cursor-pointer">
+                                                {preview.promptName}（生成中: {preview.text.length}文字）
+                                            </summary>
+                                            <div className="px-3 pb-3 max-h-60 overflow-y-auto prose prose-sm max-w-none text-gray-800">
+                                                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                                    {preview.text}
+                                                </ReactMarkdown>
+                                            </div>
+                                        </details>
+                                    ))}
+
+                                {/* 完了 */}
+                                {status.phase === 'completed' && (
+                                    <p className="text-sm font-medium text-green-800">
+                                        ✅ 完了
+                                    </p>
+                                )}
+
+                                {/* 待機中 */}
+                                {status.phase === 'waiting' && status.isResuming && !status.serverJobId && (
+                                    <p className="text-sm text-yellow-700">
+                                        🕐 音声変換待機中...（他のファイルの音声変換が終わり次第開始されます）
+                                    </p>
+                                )}
+                                {status.phase === 'waiting' && !status.isResuming && !status.serverJobId && (
+                                    <p className="text-sm text-gray-500">待機中...</p>
+                                )}
+                                {status.phase === 'waiting' && status.serverJobId && status.status === 'waiting' && (
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm text-gray-500">
+                                            サーバーの処理待ち...（先に登録されたジョブが終わり次第開始されます）
+                                        </p>
+                                        <button
+                                            onClick={() => onCancelFile(index)}
+                                            className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors"
+                                        >
+                                            中止
+                                        </button>
+                                    </div>
+                                )}
+
+                                {/* エラー */}
+                                {status.status === 'error' && !status.isResuming && (
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex-1">
+                                            <p className="text-sm font-medium text-red-800 mb-1">
+                                                ❌ エラーが発生しました
+                                                {status.failedPhase === 'audio_conversion' && ' (音声変換)'}
+                                                {status.failedPhase === 'text_generation' && ' (文書生成)'}
                                             </p>
+                                            {status.errorCode && (
+                                                <p className="text-xs text-red-600 mb-1">
+                                                    {getTranscriptionErrorMessage(status.errorCode)}
+                                                </p>
+                                            )}
+                                            {status.error && (
+                                                <p className={status.errorCode ? 'text-[11px] text-gray-500 mb-1 break-all' : 'text-xs text-red-600 mb-1'}>
+                                                    {status.errorCode ? `詳細: ${status.error}` : status.error}
+                                                </p>
+                                            )}
+                                            {status.completedSegmentIndices.length > 0 && (
+                                                <p className="text-xs text-green-600 mb-1">
+                                                    ✓ 完了した区間: {status.completedSegmentIndices.length}/{status.segments.length} ({status.audioConversionProgress}%)
+                                                </p>
+                                            )}
+                                            {status.completedPromptIds.length > 0 && (
+                                                <p className="text-xs text-green-600 mb-1">
+                                                    ✓ 完了: {status.completedPromptIds.length}/{status.totalTranscriptions} プロンプト
+                                                </p>
+                                            )}
+                                            {status.mapResults && Object.keys(status.mapResults).length > 0 && (
+                                                <p className="text-xs text-blue-600 mb-1">
+                                                    ✓ 区間ごとの書き出し済み: {Object.keys(status.mapResults).length}件（再開時は未完了の区間と統合のみ実行されます）
+                                                </p>
+                                            )}
+                                            {status.convertedAudioBlob && (
+                                                <p className="text-xs text-blue-600 mb-1">
+                                                    ✓ 音声変換済み（再開時はスキップされます）
+                                                </p>
+                                            )}
+                                        </div>
+                                        {isResumableErrorCode(status.errorCode) && (
+                                            <button
+                                                onClick={() => onResumeFile(index)}
+                                                disabled={status.isResuming}
+                                                className="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                                            >
+                                                <span>🔄</span>
+                                                <span>{status.isResuming ? '再開中...' : '再開'}</span>
+                                            </button>
                                         )}
                                     </div>
-                                    <button
-                                        onClick={() => onResumeFile(index)}
-                                        disabled={status.isResuming}
-                                        className="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
-                                    >
-                                        <span>🔄</span>
-                                        <span>{status.isResuming ? '再開中...' : '再開'}</span>
-                                    </button>
-                                </div>
-                            )}
+                                )}
+                            </div>
                         </div>
-                    </div>
-                ))}
+                    );
+                })}
             </div>
         </div>
     );
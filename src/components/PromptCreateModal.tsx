@@ -3,8 +3,19 @@
 import React, { useState } from 'react';
 import { X, Save } from 'lucide-react';
 import { createPrompt } from '@/lib/prompts';
-import { DEFAULT_GEMINI_MODEL, GEMINI_MODEL_OPTIONS, getGeminiModelLabel } from '@/constants/geminiModels';
+import { DEFAULT_GEMINI_MODEL } from '@/constants/geminiModels';
+import {
+    DEFAULT_TRANSCRIPTION_PROVIDER,
+    TranscriptionProviderId,
+    getProviderDefaultModel,
+    getProviderModelOptions,
+    getSelectableTranscriptionProviders,
+    getTranscriptionModelLabel,
+} from '@/constants/transcriptionProviders';
 import { createLogger } from '@/lib/logger';
+import { RateLimitError } from '@/lib/rateLimit';
+import { parseOutputSchemaText } from '@/lib/structuredOutput';
+import { OutputSchemaEditor } from './OutputSchemaEditor';
 
 const promptCreateLogger = createLogger('PromptCreateModal');
 
@@ -21,10 +32,19 @@ export const PromptCreateModal: React.FC<PromptCreateModalProps> = ({
 }) => {
     const [name, setName] = useState('');
     const [content, setContent] = useState('');
+    const [provider, setProvider] = useState<TranscriptionProviderId>(DEFAULT_TRANSCRIPTION_PROVIDER);
     const [model, setModel] = useState(DEFAULT_GEMINI_MODEL);
+    const [outputSchemaText, setOutputSchemaText] = useState('');
     const [saving, setSaving] = useState(false);
 
-    const selectedModelOption = GEMINI_MODEL_OPTIONS.find(option => option.value === model);
+    const providerOptions = getSelectableTranscriptionProviders(provider);
+    const modelOptions = getProviderModelOptions(provider);
+    const selectedModelOption = modelOptions.find(option => option.value === model);
+
+    const handleProviderChange = (nextProvider: TranscriptionProviderId) => {
+        setProvider(nextProvider);
+        setModel(getProviderDefaultModel(nextProvider));
+    };
 
     if (!isOpen) return null;
 
@@ -34,16 +54,24 @@ export const PromptCreateModal: React.FC<PromptCreateModalProps> = ({
             return;
         }
 
+        const schemaResult = outputSchemaText.trim() ? parseOutputSchemaText(outputSchemaText) : null;
+        if (schemaResult && !schemaResult.success) {
+            alert(`出力スキーマが正しくありません:\n${schemaResult.error}`);
+            return;
+        }
+
         try {
             setSaving(true);
-            await createPrompt(name, content, false, model);
+            await createPrompt(name, content, false, model, provider, schemaResult?.schema);
             setName('');
             setContent('');
+            setProvider(DEFAULT_TRANSCRIPTION_PROVIDER);
             setModel(DEFAULT_GEMINI_MODEL);
+            setOutputSchemaText('');
             onSave();
             onClose();
         } catch (error) {
-            alert('作成に失敗しました');
+            alert(error instanceof RateLimitError ? error.message : '作成に失敗しました');
             promptCreateLogger.error('プロンプトの作成に失敗', error);
         } finally {
             setSaving(false);
@@ -53,7 +81,9 @@ export const PromptCreateModal: React.FC<PromptCreateModalProps> = ({
     const handleClose = () => {
         setName('');
         setContent('');
+        setProvider(DEFAULT_TRANSCRIPTION_PROVIDER);
         setModel(DEFAULT_GEMINI_MODEL);
+        setOutputSchemaText('');
         onClose();
     };
 
@@ -111,26 +141,57 @@ export const PromptCreateModal: React.FC<PromptCreateModalProps> = ({
                             />
                         </div>
 
-                        {/* Geminiモデル */}
+                        {/* 文書生成プロバイダー（選択肢が1つの場合は非表示） */}
+                        {providerOptions.length > 1 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    文書生成プロバイダー
+                                </label>
+                                <select
+                                    value={provider}
+                                    onChange={(e) => handleProviderChange(e.target.value as TranscriptionProviderId)}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                                >
+                                    {providerOptions.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {providerOptions.find(option => option.value === provider)?.description}
+                                </p>
+                            </div>
+                        )}
+
+                        {/* モデル */}
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                                使用するGeminiモデル
+                                {provider === 'gemini' ? '使用するGeminiモデル' : '使用するモデル'}
                             </label>
                             <select
                                 value={model}
                                 onChange={(e) => setModel(e.target.value)}
                                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
                             >
-                                {GEMINI_MODEL_OPTIONS.map((option) => (
+                                {modelOptions.map((option) => (
                                     <option key={option.value} value={option.value}>
                                         {option.label}
                                     </option>
                                 ))}
                             </select>
                             <p className="text-xs text-gray-500 mt-1">
-                                {selectedModelOption?.description || `${getGeminiModelLabel(model)} を使用します`}
+                                {selectedModelOption?.description || `${getTranscriptionModelLabel(provider, model)} を使用します`}
                             </p>
                         </div>
+
+                        {/* 出力形式 */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                出力形式
+                            </label>
+                            <OutputSchemaEditor value={outputSchemaText} onChange={setOutputSchemaText} />
+                        </div>
                     </div>
                 </div>
 
@@ -3,7 +3,18 @@
 import React, { useEffect, useState } from 'react';
 import { Prompt, updatePrompt, deletePrompt } from '@/lib/prompts';
 import { ContentEditModal } from './ContentEditModal';
-import { DEFAULT_GEMINI_MODEL, GEMINI_MODEL_OPTIONS, getGeminiModelLabel } from '@/constants/geminiModels';
+import { DEFAULT_GEMINI_MODEL } from '@/constants/geminiModels';
+import {
+    DEFAULT_TRANSCRIPTION_PROVIDER,
+    TranscriptionProviderId,
+    getProviderDefaultModel,
+    getProviderModelOptions,
+    getSelectableTranscriptionProviders,
+    getTranscriptionModelLabel,
+    getTranscriptionProviderLabel,
+} from '@/constants/transcriptionProviders';
+import { parseOutputSchemaText } from '@/lib/structuredOutput';
+import { formatOutputSchema, OutputSchemaEditor, OutputSchemaSummary } from './OutputSchemaEditor';
 
 interface PromptEditModalProps {
     isOpen: boolean;
@@ -20,11 +31,15 @@ export const PromptEditModal: React.FC<PromptEditModalProps> = ({
     onSave,
     onDelete,
 }) => {
+    const [selectedProvider, setSelectedProvider] = useState<TranscriptionProviderId>(prompt?.provider || DEFAULT_TRANSCRIPTION_PROVIDER);
     const [selectedModel, setSelectedModel] = useState(prompt?.model || DEFAULT_GEMINI_MODEL);
+    const [outputSchemaText, setOutputSchemaText] = useState(formatOutputSchema(prompt?.outputSchema));
 
     useEffect(() => {
         if (prompt && isOpen) {
             setSelectedModel(prompt.model || DEFAULT_GEMINI_MODEL);
+            setSelectedProvider(prompt.provider || DEFAULT_TRANSCRIPTION_PROVIDER);
+            setOutputSchemaText(formatOutputSchema(prompt.outputSchema));
         }
     }, [prompt, isOpen]);
 
@@ -36,7 +51,17 @@ export const PromptEditModal: React.FC<PromptEditModalProps> = ({
     const isEditable = !isGuestDefaultPrompt;
 
     const handleSave = async (title: string, content: string) => {
-        await updatePrompt(prompt.id!, { name: title, content: content, model: selectedModel });
+        const schemaResult = outputSchemaText.trim() ? parseOutputSchemaText(outputSchemaText) : null;
+        if (schemaResult && !schemaResult.success) {
+            throw new Error(`出力スキーマが正しくありません: ${schemaResult.error}`);
+        }
+        await updatePrompt(prompt.id!, {
+            name: title,
+            content: content,
+            model: selectedModel,
+            provider: selectedProvider,
+            outputSchema: schemaResult?.schema ?? null,
+        });
         await onSave();
     };
 
@@ -83,14 +108,39 @@ export const PromptEditModal: React.FC<PromptEditModalProps> = ({
             warningMessage={warningMessage}
             contentLabel="プロンプト内容"
             renderExtraContent={({ isViewMode, saving }) => {
-                const option = GEMINI_MODEL_OPTIONS.find(opt => opt.value === selectedModel);
-                const displayLabel = getGeminiModelLabel(selectedModel);
+                const providerOptions = getSelectableTranscriptionProviders(selectedProvider);
+                const modelOptions = getProviderModelOptions(selectedProvider);
+                const option = modelOptions.find(opt => opt.value === selectedModel);
+                const displayLabel = getTranscriptionModelLabel(selectedProvider, selectedModel);
                 const isSelectDisabled = !isEditable || saving;
 
                 return (
                     <div className="space-y-2">
+                        {!(isViewMode || !isEditable) && providerOptions.length > 1 && (
+                            <>
+                                <label className="block text-sm font-semibold text-gray-700">
+                                    文書生成プロバイダー
+                                </label>
+                                <select
+                                    value={selectedProvider}
+                                    onChange={(e) => {
+                                        const nextProvider = e.target.value as TranscriptionProviderId;
+                                        setSelectedProvider(nextProvider);
+                                        setSelectedModel(getProviderDefaultModel(nextProvider));
+                                    }}
+                                    disabled={isSelectDisabled}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                >
+                                    {providerOptions.map(opt => (
+                                        <option key={opt.value} value={opt.value}>
+                                            {opt.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </>
+                        )}
                         <label className="block text-sm font-semibold text-gray-700">
-                            使用するGeminiモデル
+                            {selectedProvider === 'gemini' ? '使用するGeminiモデル' : `使用するモデル（${getTranscriptionProviderLabel(selectedProvider)}）`}
                         </label>
                         {isViewMode || !isEditable ? (
                             <div>
@@ -107,7 +157,7 @@ export const PromptEditModal: React.FC<PromptEditModalProps> = ({
                                     disabled={isSelectDisabled}
                                     className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                                 >
-                                    {GEMINI_MODEL_OPTIONS.map(opt => (
+                                    {modelOptions.map(opt => (
                                         <option key={opt.value} value={opt.value}>
                                             {opt.label}
                                         </option>
@@ -118,6 +168,18 @@ export const PromptEditModal: React.FC<PromptEditModalProps> = ({
                                 )}
                             </>
                         )}
+                        <label className="block text-sm font-semibold text-gray-700 pt-2">
+                            出力形式
+                        </label>
+                        {isViewMode || !isEditable ? (
+                            <OutputSchemaSummary schema={prompt.outputSchema} />
+                        ) : (
+                            <OutputSchemaEditor
+                                value={outputSchemaText}
+                                onChange={setOutputSchemaText}
+                                disabled={isSelectDisabled}
+                            />
+                        )}
                     </div>
                 );
             }}
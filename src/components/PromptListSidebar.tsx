@@ -4,7 +4,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { FileText, RefreshCw, Plus, Trash2, Lock } from 'lucide-react';
 import { Prompt, getPrompts, deletePrompt, initializeDefaultPrompts, addDefaultPrompts } from '@/lib/prompts';
 import { useAuth } from '@/hooks/useAuth';
-import { getGeminiModelLabel } from '@/constants/geminiModels';
+import { getTranscriptionModelLabel } from '@/constants/transcriptionProviders';
 import { createLogger } from '@/lib/logger';
 import { AddDefaultPromptsModal } from './AddDefaultPromptsModal';
 import { getDefaultPrompts, DefaultPromptTemplate } from '@/lib/adminSettings';
@@ -294,7 +294,7 @@ export const PromptListSidebar: React.FC<PromptListSidebarProps> = ({
                                             {prompt.content}
                                         </p>
                                         <p className="text-[11px] text-gray-500 mt-1">
-                                            Geminiモデル: {getGeminiModelLabel(prompt.model)}
+                                            モデル: {getTranscriptionModelLabel(prompt.provider, prompt.model)}
                                         </p>
                                     </div>
                                     {canDeletePrompt(prompt) && (
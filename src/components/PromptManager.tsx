@@ -5,6 +5,7 @@ import { Prompt, getPrompts, createPrompt, updatePrompt, deletePrompt, initializ
 import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
 import { DEFAULT_GEMINI_MODEL, GEMINI_MODEL_OPTIONS, getGeminiModelLabel } from '@/constants/geminiModels';
 import { createLogger } from '@/lib/logger';
+import { RateLimitError } from '@/lib/rateLimit';
 
 const promptManagerLogger = createLogger('PromptManager');
 
@@ -57,8 +58,8 @@ export const PromptManager: React.FC = () => {
             setEditName('');
             setEditContent('');
             setEditModel(DEFAULT_GEMINI_MODEL);
-        } catch {
-            alert('プロンプトの作成に失敗しました');
+        } catch (error) {
+            alert(error instanceof RateLimitError ? error.message : 'プロンプトの作成に失敗しました');
         }
     };
 
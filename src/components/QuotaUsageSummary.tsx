@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { formatQuotaItem, QUOTA_KIND_LABELS, QuotaItem, QuotaStatus } from '@/lib/quota';
+
+interface QuotaUsageSummaryProps {
+    status: QuotaStatus;
+}
+
+// 上限に近づいたら黄色、使い切ったら赤で表示
+const getItemColor = (item: QuotaItem): string => {
+    if (item.limit === 0) return 'text-gray-600';
+    if (item.remaining <= 0) return 'text-red-600 font-semibold';
+    if (item.used / item.limit >= 0.8) return 'text-amber-600';
+    return 'text-gray-600';
+};
+
+/**
+ * 当月のプランの利用状況（ヘッダー表示用）
+ */
+export const QuotaUsageSummary: React.FC<QuotaUsageSummaryProps> = ({ status }) => (
+    <div
+        className="hidden md:flex flex-col items-end text-[11px] leading-tight mr-3"
+        title={`${status.month} の利用状況（翌月1日にリセット）`}
+    >
+        <span className="text-gray-400">今月・{status.tier.name}</span>
+        <div className="flex items-center gap-2">
+            {Object.values(status.items).map(item => (
+                <span key={item.kind} className={getItemColor(item)}>
+                    {QUOTA_KIND_LABELS[item.kind]} {formatQuotaItem(item)}
+                </span>
+            ))}
+        </div>
+    </div>
+);
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { formatResetAt, RateLimitStatus } from '@/lib/rateLimit';
+
+interface RateLimitNoticeProps {
+    status: RateLimitStatus;
+    /** 今回の処理で作成する文書の数 */
+    requiredCount: number;
+    onDismiss: () => void;
+}
+
+/**
+ * 文書生成の上限に達しているため処理を開始できないことを表示する
+ */
+export const RateLimitNotice: React.FC<RateLimitNoticeProps> = ({ status, requiredCount, onDismiss }) => (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+            <Clock className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+                <p className="font-medium text-red-900">
+                    {status.remaining === 0 ? '文書生成の上限に達しました' : '文書生成の残り枠が足りません'}
+                </p>
+                <p className="text-red-800 mt-1">
+                    1時間あたり{status.limit}件まで（使用済み {status.used}件、今回の処理には {requiredCount}件が必要です）。
+                    {status.resetAt && <>{formatResetAt(status.resetAt)}にリセットされます。</>}
+                </p>
+                {status.remaining > 0 && (
+                    <p className="text-xs text-red-700 mt-1">
+                        ファイルやプロンプトの選択を {status.remaining}件以内に減らすと開始できます。
+                    </p>
+                )}
+            </div>
+            <button onClick={onDismiss} className="text-xs text-red-700 hover:text-red-900 underline">
+                閉じる
+            </button>
+        </div>
+    </div>
+);
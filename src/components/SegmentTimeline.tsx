@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import { RotateCcw, SkipForward } from 'lucide-react';
+import { SegmentAction, SegmentStatus } from '@/types/processing';
+import { formatSeconds } from '@/utils/timeFormat';
+
+interface SegmentTimelineProps {
+    segments: SegmentStatus[];
+    /** 区間を操作できるか（音声変換で失敗し、再開していない場合のみ） */
+    canEdit: boolean;
+    onSegmentAction: (segmentIndex: number, action: SegmentAction) => void;
+}
+
+const SEGMENT_STATUS_STYLES: Record<SegmentStatus['status'], { label: string; className: string }> = {
+    pending: { label: '未変換', className: 'bg-gray-200' },
+    converting: { label: '変換中', className: 'bg-blue-400 animate-pulse' },
+    completed: { label: '完了', className: 'bg-green-500' },
+    error: { label: '失敗', className: 'bg-red-500' },
+    skipped: { label: 'スキップ', className: 'bg-amber-400' },
+};
+
+const formatRange = (segment: SegmentStatus) => `${formatSeconds(segment.startTime)}〜${formatSeconds(segment.endTime)}`;
+
+/**
+ * 区間ごとの変換状況を長さに比例した帯で表示し、失敗・スキップした区間を操作できるようにする
+ */
+export const SegmentTimeline: React.FC<SegmentTimelineProps> = ({ segments, canEdit, onSegmentAction }) => {
+    const problemSegments = segments.filter(segment => segment.status === 'error' || segment.status === 'skipped');
+
+    return (
+        <div className="space-y-2">
+            <div className="flex h-3 w-full gap-px overflow-hidden rounded" role="list" aria-label="区間ごとの変換状況">
+                {segments.map(segment => {
+                    const style = SEGMENT_STATUS_STYLES[segment.status];
+                    return (
+                        <div
+                            key={segment.segmentIndex}
+                            role="listitem"
+                            title={`区間${segment.segmentIndex + 1}（${formatRange(segment)}）: ${style.label}`}
+                            className={style.className}
+                            style={{ flexGrow: Math.max(segment.endTime - segment.startTime, 0.1), flexBasis: 0 }}
+                        />
+                    );
+                })}
+            </div>
+
+            {problemSegments.length > 0 && (
+                <ul className="space-y-1">
+                    {problemSegments.map(segment => (
+                        <li key={segment.segmentIndex} className="flex items-center justify-between gap-3 text-xs">
+                            <div className="min-w-0">
+                                <span className={segment.status === 'error' ? 'font-medium text-red-700' : 'font-medium text-amber-700'}>
+                                    区間{segment.segmentIndex + 1}（{formatRange(segment)}）: {SEGMENT_STATUS_STYLES[segment.status].label}
+                                </span>
+                                {segment.error && (
+                                    <span className="ml-2 text-gray-500 break-all">{segment.error}</span>
+                                )}
+                            </div>
+                            {canEdit && (
+                                <div className="flex flex-shrink-0 items-center gap-1">
+                                    <button
+                                        onClick={() => onSegmentAction(segment.segmentIndex, 'retry')}
+                                        className="flex items-center gap-1 px-2 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors"
+                                    >
+                                        <RotateCcw className="w-3 h-3" />
+                                        再試行
+                                    </button>
+                                    {segment.status === 'error' && (
+                                        <button
+                                            onClick={() => onSegmentAction(segment.segmentIndex, 'skip')}
+                                            title="この区間を含めずに残りの区間を変換し、欠落した範囲を注記した文書を作成します"
+                                            className="flex items-center gap-1 px-2 py-1 border border-amber-300 text-amber-800 rounded hover:bg-amber-50 transition-colors"
+                                        >
+                                            <SkipForward className="w-3 h-3" />
+                                            スキップして続行
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
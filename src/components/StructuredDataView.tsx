@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { formatStructuredValue, getSchemaLabel } from '@/lib/structuredOutput';
+import { OutputSchema, StructuredData } from '@/types/structuredOutput';
+
+interface StructuredDataViewProps {
+    schema: OutputSchema;
+    data: StructuredData;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const StructuredTable: React.FC<{ items: unknown[]; itemSchema: OutputSchema }> = ({ items, itemSchema }) => {
+    const columns = Object.entries(itemSchema.properties ?? {});
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm bg-white border border-gray-200 rounded-lg">
+                <thead className="bg-purple-50">
+                    <tr>
+                        {columns.map(([key, columnSchema]) => (
+                            <th key={key} className="px-3 py-2 text-left text-xs font-medium text-purple-900">
+                                {getSchemaLabel(key, columnSchema)}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {items.map((item, index) => {
+                        const record = isRecord(item) ? item : {};
+                        return (
+                            <tr key={index}>
+                                {columns.map(([key]) => (
+                                    <td key={key} className="px-3 py-2 text-gray-800 align-top whitespace-pre-wrap">
+                                        {formatStructuredValue(record[key])}
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+/**
+ * 構造化出力の生成結果を、ルートの項目ごとに表・リスト・段落で表示する
+ */
+export const StructuredDataView: React.FC<StructuredDataViewProps> = ({ schema, data }) => (
+    <div className="space-y-6">
+        {Object.entries(schema.properties ?? {}).map(([key, propertySchema]) => {
+            const value = data[key];
+            let body: React.ReactNode;
+
+            if (propertySchema.type === 'array' && Array.isArray(value)) {
+                if (value.length === 0) {
+                    body = <p className="text-sm text-gray-500">（なし）</p>;
+                } else if (propertySchema.items?.type === 'object') {
+                    body = <StructuredTable items={value} itemSchema={propertySchema.items} />;
+                } else {
+                    body = (
+                        <ul className="list-disc pl-6 space-y-1 text-sm text-gray-800">
+                            {value.map((item, index) => (
+                                <li key={index}>{formatStructuredValue(item)}</li>
+                            ))}
+                        </ul>
+                    );
+                }
+            } else if (propertySchema.type === 'object' && isRecord(value)) {
+                body = <StructuredTable items={[value]} itemSchema={propertySchema} />;
+            } else {
+                body = <p className="text-sm text-gray-800 whitespace-pre-wrap">{formatStructuredValue(value)}</p>;
+            }
+
+            return (
+                <section key={key}>
+                    <h3 className="text-lg font-bold mb-2 text-gray-900">{getSchemaLabel(key, propertySchema)}</h3>
+                    {body}
+                </section>
+            );
+        })}
+    </div>
+);
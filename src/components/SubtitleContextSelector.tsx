@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { FileWithPrompts } from '@/types/processing';
+import { MediaSubtitleTrack } from '@/types/mediaProbe';
+import {
+    isTextSubtitleTrack,
+    SUBTITLE_CONTEXT_MODE_OPTIONS,
+    SubtitleContextSelection,
+} from '@/constants/subtitleContext';
+
+interface SubtitleContextSelectorProps {
+    selectedFiles: FileWithPrompts[];
+    /** 字幕を使わない場合は undefined */
+    onSelectionChange: (fileIndex: number, selection: SubtitleContextSelection | undefined) => void;
+}
+
+const describeSubtitleTrack = (track: MediaSubtitleTrack): string =>
+    [`#${track.streamIndex}`, track.language, track.title, track.codec].filter(Boolean).join(' / ');
+
+/**
+ * ファイルごとの埋め込み字幕の利用
+ * テキストの字幕トラックがあるファイルだけを表示する
+ */
+export const SubtitleContextSelector: React.FC<SubtitleContextSelectorProps> = ({
+    selectedFiles,
+    onSelectionChange,
+}) => {
+    const targets = selectedFiles.flatMap((fileWithPrompts, fileIndex) => {
+        const { mediaProbe } = fileWithPrompts;
+        const tracks = mediaProbe?.status === 'done' ? mediaProbe.result.subtitleTracks.filter(isTextSubtitleTrack) : [];
+        return tracks.length > 0 ? [{ fileWithPrompts, fileIndex, tracks }] : [];
+    });
+
+    if (targets.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">
+                埋め込み字幕の利用
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+                字幕付きの動画では、字幕をテキストとして文書生成に添付できます
+            </p>
+
+            <div className="space-y-4">
+                {targets.map(({ fileWithPrompts, fileIndex, tracks }) => {
+                    const selection = fileWithPrompts.subtitleContext;
+
+                    return (
+                        <div key={fileIndex} className="bg-white border border-gray-200 rounded-lg p-4">
+                            <p className="text-sm font-medium text-gray-900 mb-3">
+                                {fileWithPrompts.file.name}
+                            </p>
+
+                            <div className="mb-3">
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    字幕トラック
+                                </label>
+                                <select
+                                    value={selection ? String(selection.streamIndex) : ''}
+                                    onChange={(e) => onSelectionChange(
+                                        fileIndex,
+                                        e.target.value === ''
+                                            ? undefined
+                                            : { streamIndex: Number(e.target.value), mode: selection?.mode ?? 'with_audio' }
+                                    )}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                >
+                                    <option value="">使わない</option>
+                                    {tracks.map(track => (
+                                        <option key={track.streamIndex} value={track.streamIndex}>
+                                            {describeSubtitleTrack(track)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {selection && (
+                                <div className="space-y-2">
+                                    {SUBTITLE_CONTEXT_MODE_OPTIONS.map(option => (
+                                        <label
+                                            key={option.value}
+                                            className="flex items-start p-2 border rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-100"
+                                        >
+                                            <input
+                                                type="radio"
+                                                name={`subtitleMode-${fileIndex}`}
+                                                value={option.value}
+                                                checked={selection.mode === option.value}
+                                                onChange={() => onSelectionChange(fileIndex, { ...selection, mode: option.value })}
+                                                className="mr-2 mt-1"
+                                            />
+                                            <span>
+                                                {option.label}
+                                                <span className="block text-xs text-gray-500">{option.description}</span>
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
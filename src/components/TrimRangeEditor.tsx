@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors } from 'lucide-react';
+import { MediaTrimRange } from '@/types/processing';
+import { formatSeconds } from '@/utils/timeFormat';
+
+interface TrimRangeEditorProps {
+    file: File;
+    /** メディアの長さ（秒） */
+    duration: number;
+    hasVideo: boolean;
+    trimRange?: MediaTrimRange;
+    /** 範囲を変更（ファイル全体に戻した場合は undefined） */
+    onChange: (trimRange: MediaTrimRange | undefined) => void;
+}
+
+/** 範囲の最短の長さ（秒） */
+const MIN_RANGE_DURATION = 1;
+
+/**
+ * 処理する範囲（開始・終了位置）の指定
+ * プレビューを再生しながら、再生位置を開始・終了に設定できる
+ */
+export const TrimRangeEditor: React.FC<TrimRangeEditorProps> = ({
+    file,
+    duration,
+    hasVideo,
+    trimRange,
+    onChange,
+}) => {
+    const [isOpen, setIsOpen] = useState(Boolean(trimRange));
+    const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+    const startTime = trimRange?.startTime ?? 0;
+    const endTime = trimRange?.endTime ?? duration;
+
+    // プレビューは開いている間だけ読み込む（閉じたら Object URL を解放）
+    useEffect(() => {
+        const media = mediaRef.current;
+        if (!isOpen || !media) {
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        media.src = url;
+        return () => {
+            media.removeAttribute('src');
+            URL.revokeObjectURL(url);
+        };
+    }, [file, isOpen]);
+
+    const updateRange = (nextStart: number, nextEnd: number) => {
+        const start = Math.max(0, Math.min(nextStart, duration - MIN_RANGE_DURATION));
+        const end = Math.min(duration, Math.max(nextEnd, start + MIN_RANGE_DURATION));
+        const rounded = { startTime: Math.round(start * 100) / 100, endTime: Math.round(end * 100) / 100 };
+        onChange(rounded.startTime === 0 && rounded.endTime >= duration ? undefined : rounded);
+    };
+
+    const currentTime = () => mediaRef.current?.currentTime ?? 0;
+
+    if (!isOpen) {
+        return (
+            <button
+                type="button"
+                onClick={() => setIsOpen(true)}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-800 mt-1"
+            >
+                <Scissors className="w-3 h-3 mr-1" />
+                処理する範囲を指定
+            </button>
+        );
+    }
+
+    const MediaElement = hasVideo ? 'video' : 'audio';
+
+    return (
+        <div className="mt-2 p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+            <MediaElement ref={mediaRef} controls preload="metadata" className={hasVideo ? 'w-full max-h-40 bg-black rounded' : 'w-full'} />
+
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-700">
+                <label className="flex flex-col">
+                    開始位置（秒）
+                    <input
+                        type="number"
+                        min={0}
+                        max={duration}
+                        step={1}
+                        value={startTime}
+                        onChange={(e) => updateRange(Number(e.target.value), endTime)}
+                        className="mt-1 px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => updateRange(currentTime(), endTime)}
+                        className="mt-1 text-blue-600 hover:text-blue-800 text-left"
+                    >
+                        再生位置を開始にする
+                    </button>
+                </label>
+                <label className="flex flex-col">
+                    終了位置（秒）
+                    <input
+                        type="number"
+                        min={0}
+                        max={duration}
+                        step={1}
+                        value={endTime}
+                        onChange={(e) => updateRange(startTime, Number(e.target.value))}
+                        className="mt-1 px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => updateRange(startTime, currentTime())}
+                        className="mt-1 text-blue-600 hover:text-blue-800 text-left"
+                    >
+                        再生位置を終了にする
+                    </button>
+                </label>
+            </div>
+
+            <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-600">
+                    {formatSeconds(startTime)}〜{formatSeconds(endTime)}（{formatSeconds(endTime - startTime)} / 全体 {formatSeconds(duration)}）
+                </span>
+                <span className="space-x-3">
+                    <button
+                        type="button"
+                        onClick={() => {
+                            if (mediaRef.current) {
+                                mediaRef.current.currentTime = startTime;
+                                void mediaRef.current.play();
+                            }
+                        }}
+                        className="text-blue-600 hover:text-blue-800"
+                    >
+                        開始位置から再生
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => {
+                            onChange(undefined);
+                            setIsOpen(false);
+                        }}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        ファイル全体に戻す
+                    </button>
+                </span>
+            </div>
+        </div>
+    );
+};
@@ -71,6 +71,7 @@ export default function AuditLogPanel() {
             'user_password_change': 'パスワード変更',
             'admin_settings_update': '設定更新',
             'admin_user_view': 'ユーザー閲覧',
+            'admin_user_plan_update': 'プラン変更',
         };
         return labels[action] || action;
     };
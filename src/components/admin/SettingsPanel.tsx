@@ -6,6 +6,7 @@ import {
     updateAdminSettings,
     AdminSettings,
     DefaultPromptTemplate,
+    PlanTier,
     getDefaultPrompts,
     updateDefaultPrompts
 } from '@/lib/adminSettings';
@@ -19,6 +20,22 @@ import { getGeminiModelLabel } from '@/constants/geminiModels';
 
 const adminSettingsPanelLogger = createLogger('AdminSettingsPanel');
 
+const RATE_LIMIT_FIELDS: { key: keyof AdminSettings['rateLimit']; label: string }[] = [
+    { key: 'promptsPerHour', label: 'ログインユーザー: プロンプト作成' },
+    { key: 'documentsPerHour', label: 'ログインユーザー: 文書生成' },
+    { key: 'guestPromptsPerHour', label: 'ゲスト（全員合計）: プロンプト作成' },
+    { key: 'guestDocumentsPerHour', label: 'ゲスト（全員合計）: 文書生成' },
+];
+
+const MB = 1024 * 1024;
+
+// プランの上限項目（保存サイズは MB 単位で入力する）
+const PLAN_TIER_FIELDS: { key: Exclude<keyof PlanTier, 'id' | 'name'>; label: string; unit: number }[] = [
+    { key: 'monthlyMediaMinutes', label: '処理時間（分）', unit: 1 },
+    { key: 'monthlyDocuments', label: '文書生成（件）', unit: 1 },
+    { key: 'monthlyStorageBytes', label: '音声の保存（MB）', unit: MB },
+];
+
 const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
     const [settings, setSettings] = useState<AdminSettings | null>(null);
     const [defaultPrompts, setDefaultPrompts] = useState<DefaultPromptTemplate[]>([]);
@@ -61,7 +78,10 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
 
         const settingsChanged =
             settings.maxPromptSize !== originalSettings.maxPromptSize ||
-            settings.maxDocumentSize !== originalSettings.maxDocumentSize;
+            settings.maxDocumentSize !== originalSettings.maxDocumentSize ||
+            JSON.stringify(settings.rateLimit) !== JSON.stringify(originalSettings.rateLimit) ||
+            JSON.stringify(settings.planTiers) !== JSON.stringify(originalSettings.planTiers) ||
+            settings.defaultPlanTierId !== originalSettings.defaultPlanTierId;
 
         const promptsChanged = JSON.stringify(defaultPrompts) !== JSON.stringify(originalPrompts);
 
@@ -76,6 +96,11 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
     const handleSave = async () => {
         if (!settings) return;
 
+        if (settings.planTiers.some(tier => !tier.name.trim())) {
+            alert('プラン名を入力してください');
+            return;
+        }
+
         try {
             setSaving(true);
             const userId = getCurrentUserId();
@@ -90,6 +115,9 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
             await logAudit('admin_settings_update', 'settings', 'config', {
                 maxPromptSize: settings.maxPromptSize,
                 maxDocumentSize: settings.maxDocumentSize,
+                ...settings.rateLimit,
+                planTiersCount: settings.planTiers.length,
+                defaultPlanTierId: settings.defaultPlanTierId,
                 defaultPromptsCount: defaultPrompts.length,
             });
 
@@ -106,6 +134,37 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
         }
     };
 
+    // プラン操作
+    const updatePlanTier = (index: number, changes: Partial<PlanTier>) => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            planTiers: settings.planTiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+        });
+    };
+
+    const handleAddPlanTier = () => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            planTiers: [
+                ...settings.planTiers,
+                { id: `plan_${Date.now()}`, name: '', monthlyMediaMinutes: 0, monthlyDocuments: 0, monthlyStorageBytes: 0 },
+            ],
+        });
+    };
+
+    const handleDeletePlanTier = (index: number) => {
+        if (!settings) return;
+        const tier = settings.planTiers[index];
+        if (tier.id === settings.defaultPlanTierId) {
+            alert('既定のプランは削除できません。先に別のプランを既定にしてください。');
+            return;
+        }
+        if (!confirm(`「${tier.name || '名称未設定'}」を削除しますか？\nこのプランのユーザーには既定のプランが適用されます。`)) return;
+        setSettings({ ...settings, planTiers: settings.planTiers.filter((_, i) => i !== index) });
+    };
+
     // モーダル操作
     const handleAddPrompt = () => {
         setModalMode('create');
@@ -157,7 +216,7 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
         <div>
             <div className="mb-6">
                 <h2 className="text-2xl font-bold text-gray-900">システム設定</h2>
-                <p className="text-gray-600 text-sm mt-1">プロンプトと文書のサイズ上限、デフォルトプロンプトを設定</p>
+                <p className="text-gray-600 text-sm mt-1">プロンプトと文書のサイズ上限、作成数の上限、プラン、デフォルトプロンプトを設定</p>
             </div>
 
             <div className="space-y-6">
@@ -203,6 +262,117 @@ const SettingsPanel = forwardRef<SettingsPanelRef, object>((props, ref) => {
                     </p>
                 </div>
 
+                {/* 作成数の上限（レート制限） */}
+                <div className="bg-gray-50 p-6 rounded-lg">
+                    <h3 className="text-sm font-medium text-gray-700 mb-1">作成数の上限（1時間あたり）</h3>
+                    <p className="text-xs text-gray-500 mb-4">
+                        最初の作成から1時間ごとにリセットされます。0 を指定すると無制限です。ゲストは全員で1つの枠を共有します。
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {RATE_LIMIT_FIELDS.map(({ key, label }) => (
+                            <div key={key}>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={settings.rateLimit[key]}
+                                    onChange={(e) =>
+                                        setSettings({
+                                            ...settings,
+                                            rateLimit: {
+                                                ...settings.rateLimit,
+                                                [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                                            },
+                                        })
+                                    }
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* プラン（月間上限） */}
+                <div className="bg-gray-50 p-6 rounded-lg">
+                    <div className="flex items-center justify-between mb-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-gray-700">プラン（1か月あたりの上限）</h3>
+                            <p className="text-xs text-gray-500 mt-1">
+                                ログインユーザーごとの上限です。毎月1日にリセットされます。0 を指定すると無制限です。プランの割り当てはユーザー一覧で行います。
+                            </p>
+                        </div>
+                        <button
+                            onClick={handleAddPlanTier}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+                        >
+                            <Plus className="w-4 h-4" />
+                            追加
+                        </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-gray-500">
+                                    <th className="py-1 pr-2 text-left font-medium">既定</th>
+                                    <th className="py-1 pr-2 text-left font-medium">プラン名</th>
+                                    {PLAN_TIER_FIELDS.map(({ key, label }) => (
+                                        <th key={key} className="py-1 pr-2 text-left font-medium">{label}</th>
+                                    ))}
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {settings.planTiers.map((tier, index) => (
+                                    <tr key={tier.id}>
+                                        <td className="py-1 pr-2">
+                                            <input
+                                                type="radio"
+                                                name="defaultPlanTier"
+                                                checked={settings.defaultPlanTierId === tier.id}
+                                                onChange={() => setSettings({ ...settings, defaultPlanTierId: tier.id })}
+                                                title="プランが割り当てられていないユーザーに適用"
+                                            />
+                                        </td>
+                                        <td className="py-1 pr-2">
+                                            <input
+                                                type="text"
+                                                value={tier.name}
+                                                onChange={(e) => updatePlanTier(index, { name: e.target.value })}
+                                                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                                placeholder="プラン名"
+                                            />
+                                        </td>
+                                        {PLAN_TIER_FIELDS.map(({ key, unit }) => (
+                                            <td key={key} className="py-1 pr-2">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={Math.round(tier[key] / unit)}
+                                                    onChange={(e) =>
+                                                        updatePlanTier(index, {
+                                                            [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) * unit,
+                                                        })
+                                                    }
+                                                    className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                                />
+                                            </td>
+                                        ))}
+                                        <td className="py-1">
+                                            <button
+                                                onClick={() => handleDeletePlanTier(index)}
+                                                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                title="削除"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
                 {/* デフォルトプロンプト */}
                 <div className="bg-gray-50 p-6 rounded-lg">
                     <div className="flex items-center justify-between mb-4">
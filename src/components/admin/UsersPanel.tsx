@@ -1,16 +1,43 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { getAllUsers, UserProfile } from '@/lib/userManagement';
-import { RefreshCw, Users as UsersIcon } from 'lucide-react';
+import { getAllUsers, updateUserPlanTier, UserProfile } from '@/lib/userManagement';
+import { AdminSettings, getAdminSettings } from '@/lib/adminSettings';
+import { formatQuotaItem, getUsageMonth, QUOTA_KIND_LABELS, toQuotaStatus } from '@/lib/quota';
+import { RefreshCw, Users as UsersIcon, ChevronDown, ChevronRight } from 'lucide-react';
 import { logAudit } from '@/lib/auditLog';
 import { createLogger } from '@/lib/logger';
+import { EMPTY_USAGE_TOTALS, formatCostUsd, formatTokenCount } from '@/lib/tokenUsage';
+import { getGeminiModelLabel } from '@/constants/geminiModels';
+import { UsageTotals } from '@/types/usage';
 
 const usersPanelLogger = createLogger('UsersPanel');
 
+function sumUsageTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        audioPromptTokens: a.audioPromptTokens + b.audioPromptTokens,
+        candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+        thoughtsTokens: a.thoughtsTokens + b.thoughtsTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+        generationCount: a.generationCount + b.generationCount,
+        estimatedCostUsd: a.estimatedCostUsd + b.estimatedCostUsd,
+    };
+}
+
+/**
+ * モデル別の使用量を推定コストの大きい順に並べる
+ */
+function sortByCost(byModel: Record<string, UsageTotals>): [string, UsageTotals][] {
+    return Object.entries(byModel).sort(([, a], [, b]) => b.estimatedCostUsd - a.estimatedCostUsd || b.totalTokens - a.totalTokens);
+}
+
 export default function UsersPanel() {
     const [users, setUsers] = useState<UserProfile[]>([]);
     const [loading, setLoading] = useState(true);
+    const [expandedUids, setExpandedUids] = useState<Set<string>>(new Set());
+    const [settings, setSettings] = useState<AdminSettings | null>(null);
+    const [updatingPlanUid, setUpdatingPlanUid] = useState<string | null>(null);
 
     useEffect(() => {
         loadUsers();
@@ -19,8 +46,9 @@ export default function UsersPanel() {
     const loadUsers = async () => {
         try {
             setLoading(true);
-            const data = await getAllUsers();
+            const [data, adminSettings] = await Promise.all([getAllUsers(), getAdminSettings()]);
             setUsers(data);
+            setSettings(adminSettings);
             await logAudit('admin_user_view', 'users', 'all');
         } catch (error) {
             usersPanelLogger.error('ユーザー一覧の取得に失敗', error);
@@ -30,6 +58,46 @@ export default function UsersPanel() {
         }
     };
 
+    const handlePlanChange = async (user: UserProfile, planTierId: string) => {
+        try {
+            setUpdatingPlanUid(user.uid);
+            await updateUserPlanTier(user.uid, planTierId);
+            setUsers(prev => prev.map(u => (u.uid === user.uid ? { ...u, planTierId } : u)));
+            await logAudit('admin_user_plan_update', 'users', user.uid, {
+                email: user.email,
+                planTierId,
+            });
+        } catch (error) {
+            usersPanelLogger.error('プランの変更に失敗', error, { uid: user.uid, planTierId });
+            alert('プランの変更に失敗しました');
+        } finally {
+            setUpdatingPlanUid(null);
+        }
+    };
+
+    const currentMonth = getUsageMonth();
+
+    const toggleExpand = (uid: string) => {
+        setExpandedUids(prev => {
+            const next = new Set(prev);
+            if (next.has(uid)) {
+                next.delete(uid);
+            } else {
+                next.add(uid);
+            }
+            return next;
+        });
+    };
+
+    // 全ユーザーのモデル別合計
+    const modelTotals: Record<string, UsageTotals> = {};
+    for (const user of users) {
+        for (const [model, totals] of Object.entries(user.tokenUsage?.byModel ?? {})) {
+            modelTotals[model] = sumUsageTotals(modelTotals[model] ?? EMPTY_USAGE_TOTALS, totals);
+        }
+    }
+    const overallTotals = Object.values(modelTotals).reduce(sumUsageTotals, EMPTY_USAGE_TOTALS);
+
     return (
         <div>
             <div className="flex items-center justify-between mb-6">
@@ -59,15 +127,61 @@ export default function UsersPanel() {
                         <span>合計: {users.length}人</span>
                     </div>
 
+                    {/* モデル別の使用量（全ユーザー合計） */}
+                    <div className="mb-6 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                        <h3 className="text-sm font-medium text-gray-900 mb-1">モデル別の使用量（全ユーザー）</h3>
+                        <p className="text-xs text-gray-500 mb-3">
+                            推定コストは生成時点の単価表から計算した概算です。ゲストの使用量は含まれません。
+                        </p>
+                        {Object.keys(modelTotals).length === 0 ? (
+                            <p className="text-sm text-gray-500">まだ使用量の記録がありません</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-gray-500">
+                                        <th className="py-1 text-left font-medium">モデル</th>
+                                        <th className="py-1 text-right font-medium">生成回数</th>
+                                        <th className="py-1 text-right font-medium">入力</th>
+                                        <th className="py-1 text-right font-medium">出力（思考含む）</th>
+                                        <th className="py-1 text-right font-medium">推定コスト</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sortByCost(modelTotals).map(([model, totals]) => (
+                                        <tr key={model} className="text-gray-700">
+                                            <td className="py-1">{getGeminiModelLabel(model)}</td>
+                                            <td className="py-1 text-right">{totals.generationCount}</td>
+                                            <td className="py-1 text-right">{formatTokenCount(totals.promptTokens)}</td>
+                                            <td className="py-1 text-right">{formatTokenCount(totals.candidatesTokens + totals.thoughtsTokens)}</td>
+                                            <td className="py-1 text-right">{formatCostUsd(totals.estimatedCostUsd)}</td>
+                                        </tr>
+                                    ))}
+                                    <tr className="border-t border-gray-200 font-medium text-gray-900">
+                                        <td className="py-1">合計</td>
+                                        <td className="py-1 text-right">{overallTotals.generationCount}</td>
+                                        <td className="py-1 text-right">{formatTokenCount(overallTotals.promptTokens)}</td>
+                                        <td className="py-1 text-right">{formatTokenCount(overallTotals.candidatesTokens + overallTotals.thoughtsTokens)}</td>
+                                        <td className="py-1 text-right">{formatCostUsd(overallTotals.estimatedCostUsd)}</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
                     <div className="overflow-x-auto">
                         <table className="w-full">
                             <thead className="bg-gray-50">
                                 <tr>
+                                    <th className="w-8"></th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">メール</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">表示名</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">権限</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">プラン</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">今月の利用量</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">プロンプト</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">文書</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">トークン</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">推定コスト</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">登録日</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">最終ログイン</th>
                                 </tr>
@@ -82,9 +196,30 @@ export default function UsersPanel() {
                                             ? user.lastLoginAt
                                             : user.lastLoginAt.toDate())
                                         : null;
+                                    const usageByModel = sortByCost(user.tokenUsage?.byModel ?? {});
+                                    const isExpanded = expandedUids.has(user.uid);
+                                    const quotaStatus = settings
+                                        ? toQuotaStatus(settings, user.planTierId, user.monthlyUsage, currentMonth)
+                                        : null;
 
                                     return (
-                                        <tr key={user.uid} className="hover:bg-gray-50">
+                                        <React.Fragment key={user.uid}>
+                                        <tr className="hover:bg-gray-50">
+                                            <td className="pl-2 py-3">
+                                                {usageByModel.length > 0 && (
+                                                    <button
+                                                        onClick={() => toggleExpand(user.uid)}
+                                                        className="text-gray-500 hover:text-gray-700"
+                                                        title="モデル別の使用量"
+                                                    >
+                                                        {isExpanded ? (
+                                                            <ChevronDown className="w-4 h-4" />
+                                                        ) : (
+                                                            <ChevronRight className="w-4 h-4" />
+                                                        )}
+                                                    </button>
+                                                )}
+                                            </td>
                                             <td className="px-4 py-3 text-sm text-gray-900">{user.email}</td>
                                             <td className="px-4 py-3 text-sm text-gray-600">{user.displayName || '-'}</td>
                                             <td className="px-4 py-3 text-sm">
@@ -98,8 +233,37 @@ export default function UsersPanel() {
                                                     </span>
                                                 )}
                                             </td>
+                                            <td className="px-4 py-3 text-sm">
+                                                {settings && quotaStatus && (
+                                                    <select
+                                                        value={quotaStatus.tier.id}
+                                                        onChange={(e) => handlePlanChange(user, e.target.value)}
+                                                        disabled={updatingPlanUid === user.uid}
+                                                        className="px-2 py-1 border border-gray-300 rounded text-xs bg-white disabled:opacity-50"
+                                                    >
+                                                        {settings.planTiers.map(tier => (
+                                                            <option key={tier.id} value={tier.id}>
+                                                                {tier.name}{!user.planTierId && tier.id === quotaStatus.tier.id ? '（既定）' : ''}
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-3 text-xs text-gray-600 whitespace-nowrap">
+                                                {quotaStatus && Object.values(quotaStatus.items).map(item => (
+                                                    <div key={item.kind} className={item.remaining <= 0 ? 'text-red-600 font-semibold' : ''}>
+                                                        {QUOTA_KIND_LABELS[item.kind]}: {formatQuotaItem(item)}
+                                                    </div>
+                                                ))}
+                                            </td>
                                             <td className="px-4 py-3 text-sm text-gray-600">{user.promptCount || 0}</td>
                                             <td className="px-4 py-3 text-sm text-gray-600">{user.documentCount || 0}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-600">
+                                                {formatTokenCount(user.tokenUsage?.total.totalTokens ?? 0)}
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-gray-600">
+                                                {formatCostUsd(user.tokenUsage?.total.estimatedCostUsd ?? 0)}
+                                            </td>
                                             <td className="px-4 py-3 text-sm text-gray-600">
                                                 {createdAt.toLocaleDateString('ja-JP')}
                                             </td>
@@ -107,6 +271,18 @@ export default function UsersPanel() {
                                                 {lastLoginAt ? lastLoginAt.toLocaleDateString('ja-JP') : '-'}
                                             </td>
                                         </tr>
+                                        {isExpanded && usageByModel.map(([model, totals]) => (
+                                            <tr key={`${user.uid}-${model}`} className="bg-gray-50 text-xs text-gray-600">
+                                                <td></td>
+                                                <td className="px-4 py-2" colSpan={7}>
+                                                    {getGeminiModelLabel(model)}（{totals.generationCount}回、入力 {formatTokenCount(totals.promptTokens)} / 出力 {formatTokenCount(totals.candidatesTokens + totals.thoughtsTokens)}）
+                                                </td>
+                                                <td className="px-4 py-2">{formatTokenCount(totals.totalTokens)}</td>
+                                                <td className="px-4 py-2">{formatCostUsd(totals.estimatedCostUsd)}</td>
+                                                <td colSpan={2}></td>
+                                            </tr>
+                                        ))}
+                                        </React.Fragment>
                                     );
                                 })}
                             </tbody>
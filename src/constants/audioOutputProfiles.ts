@@ -0,0 +1,68 @@
+/**
+ * 変換後の音声の出力形式
+ * 文書生成には話し声が聞き取れれば十分なため、低ビットレートのモノラルにすると Base64 の送信量を大きく減らせる。
+ * 出力形式ごとに FFmpeg のエンコーダー・拡張子・MIMEタイプ（Storage と文書生成APIに渡す値）を決める。
+ */
+
+export type AudioOutputProfileId = 'speech_opus' | 'speech_aac' | 'mp3';
+
+export interface AudioOutputProfile {
+    id: AudioOutputProfileId;
+    label: string;
+    description: string;
+    /** FFmpeg のエンコーダー */
+    codec: 'libopus' | 'aac' | 'libmp3lame';
+    /** 出力ファイルの拡張子（コンテナは拡張子から決まる） */
+    extension: 'ogg' | 'aac' | 'mp3';
+    mimeType: 'audio/ogg' | 'audio/aac' | 'audio/mpeg';
+    /** 固定のビットレート（未指定の場合は変換設定のビットレート） */
+    bitrate?: string;
+    /** 固定のサンプルレート（未指定の場合は変換設定のサンプルレート） */
+    sampleRate?: number;
+    /** 固定のチャンネル数（未指定の場合は入力のまま） */
+    channels?: number;
+}
+
+export const AUDIO_OUTPUT_PROFILES: Record<AudioOutputProfileId, AudioOutputProfile> = {
+    speech_opus: {
+        id: 'speech_opus',
+        label: '音声向け Opus（24 kbps・モノラル・16 kHz）',
+        description: 'MP3 192 kbps の約1/8のサイズ。会議や講義の文書生成に十分な音質です',
+        codec: 'libopus',
+        extension: 'ogg',
+        mimeType: 'audio/ogg',
+        bitrate: '24k',
+        sampleRate: 16000,
+        channels: 1,
+    },
+    speech_aac: {
+        id: 'speech_aac',
+        label: '音声向け AAC（48 kbps・モノラル）',
+        description: 'Opus を再生できない環境でも扱いやすい形式です',
+        codec: 'aac',
+        extension: 'aac',
+        mimeType: 'audio/aac',
+        bitrate: '48k',
+        sampleRate: 44100,
+        channels: 1,
+    },
+    mp3: {
+        id: 'mp3',
+        label: 'MP3',
+        description: 'ビットレートとサンプルレートを指定して変換します（従来の形式）',
+        codec: 'libmp3lame',
+        extension: 'mp3',
+        mimeType: 'audio/mpeg',
+    },
+};
+
+export const DEFAULT_AUDIO_OUTPUT_PROFILE_ID: AudioOutputProfileId = 'mp3';
+
+export const getAudioOutputProfile = (id: AudioOutputProfileId): AudioOutputProfile =>
+    AUDIO_OUTPUT_PROFILES[id] ?? AUDIO_OUTPUT_PROFILES[DEFAULT_AUDIO_OUTPUT_PROFILE_ID];
+
+/**
+ * MIME タイプから出力形式を取得（変換していない音声・動画など、出力形式にない場合は undefined）
+ */
+export const findAudioOutputProfileByMimeType = (mimeType: string): AudioOutputProfile | undefined =>
+    Object.values(AUDIO_OUTPUT_PROFILES).find(profile => profile.mimeType === mimeType);
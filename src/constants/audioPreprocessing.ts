@@ -0,0 +1,67 @@
+/**
+ * 音声の前処理（文書生成に送る前に FFmpeg で整える）
+ * 長い無音を削ると音声が短くなり、文書生成の入力トークン（＝コスト）もその分減る。
+ */
+
+export interface AudioPreprocessingOptions {
+    /** 長い無音を削除（silenceremove） */
+    trimSilence: boolean;
+    /** 音量を揃える（loudnorm） */
+    normalizeLoudness: boolean;
+    /** モノラルにまとめる */
+    downmixToMono: boolean;
+    /** 低音のノイズ（空調・机の振動など）を除去（highpass） */
+    highPassFilter: boolean;
+}
+
+export const DEFAULT_AUDIO_PREPROCESSING: AudioPreprocessingOptions = {
+    trimSilence: false,
+    normalizeLoudness: false,
+    downmixToMono: false,
+    highPassFilter: false,
+};
+
+export const AUDIO_PREPROCESSING_CONFIG = {
+    /** この音量（dB）以下が続く部分を無音とみなす */
+    SILENCE_THRESHOLD_DB: -40,
+    /** この長さ（秒）以上の無音を削除の対象にする */
+    SILENCE_MIN_DURATION: 2,
+    /** 削除した箇所に残す無音の長さ（秒）。話の区切りが分かるように少し残す */
+    SILENCE_KEEP_DURATION: 0.5,
+    /** ハイパスフィルターのカットオフ周波数（Hz） */
+    HIGH_PASS_FREQUENCY: 80,
+    /** loudnorm の目標値（統合ラウドネス・トゥルーピーク・ラウドネスレンジ） */
+    LOUDNORM_TARGET: 'I=-16:TP=-1.5:LRA=11',
+} as const;
+
+export const AUDIO_PREPROCESSING_OPTIONS: { key: keyof AudioPreprocessingOptions; label: string; description: string }[] = [
+    {
+        key: 'trimSilence',
+        label: '長い無音を削除',
+        description: `${AUDIO_PREPROCESSING_CONFIG.SILENCE_MIN_DURATION}秒以上の無音を短くします。文書生成の入力が短くなり、コストを抑えられます`,
+    },
+    {
+        key: 'normalizeLoudness',
+        label: '音量を揃える',
+        description: '小さい声の話者も聞き取りやすい音量に揃えます',
+    },
+    {
+        key: 'downmixToMono',
+        label: 'モノラルにまとめる',
+        description: '左右のチャンネルを1つにまとめ、ファイルサイズを抑えます',
+    },
+    {
+        key: 'highPassFilter',
+        label: '低音ノイズを除去',
+        description: `${AUDIO_PREPROCESSING_CONFIG.HIGH_PASS_FREQUENCY}Hz以下の空調音や振動音を取り除きます`,
+    },
+];
+
+export const isAudioPreprocessingEnabled = (options: AudioPreprocessingOptions): boolean =>
+    Object.values(options).some(Boolean);
+
+/**
+ * 区間を結合した後の音声に適用する前処理（無音の削除・音量の正規化）が有効か
+ */
+export const isCombinedPreprocessingEnabled = (options: AudioPreprocessingOptions): boolean =>
+    options.trimSilence || options.normalizeLoudness;
@@ -0,0 +1,45 @@
+/**
+ * 音声トラック・チャンネルの選択（ファイルごと）
+ * 画面収録や Zoom / Teams の録画はマイクとシステム音声、通訳チャンネルなどが別トラック・別チャンネルになっていることがあり、
+ * FFmpeg が既定で選ぶトラックが話者の音声とは限らないため、メディア情報をもとに文書生成へ送る音声を選べるようにする。
+ */
+
+import { MediaProbeResult } from '@/types/mediaProbe';
+
+/**
+ * - all: 選んだトラックのチャンネルをそのまま使う
+ * - left / right: 左・右のチャンネルだけを使う（チャンネルごとに話者・言語が分かれている録音向け）
+ * - mix: すべてのチャンネルをモノラルにまとめる
+ */
+export type AudioChannelMode = 'all' | 'left' | 'right' | 'mix';
+
+export interface AudioTrackSelection {
+    /** 使う音声トラックのストリーム番号（空の場合は FFmpeg が選ぶトラック。複数の場合はミックスする） */
+    streamIndices: number[];
+    channelMode: AudioChannelMode;
+}
+
+export const DEFAULT_AUDIO_TRACK_SELECTION: AudioTrackSelection = {
+    streamIndices: [],
+    channelMode: 'all',
+};
+
+export const AUDIO_CHANNEL_MODE_OPTIONS: { value: AudioChannelMode; label: string; requiresStereo: boolean }[] = [
+    { value: 'all', label: 'そのまま', requiresStereo: false },
+    { value: 'left', label: '左チャンネルのみ', requiresStereo: true },
+    { value: 'right', label: '右チャンネルのみ', requiresStereo: true },
+    { value: 'mix', label: 'モノラルにまとめる', requiresStereo: true },
+];
+
+export const isDefaultAudioTrackSelection = (selection: AudioTrackSelection | undefined): boolean =>
+    !selection || (selection.streamIndices.length === 0 && selection.channelMode === 'all');
+
+/**
+ * 左右のチャンネルを選べるか（選んだトラック、未選択の場合はすべてのトラックが2チャンネル以上）
+ */
+export const canSelectAudioChannel = (probe: MediaProbeResult, selection: AudioTrackSelection): boolean => {
+    const tracks = selection.streamIndices.length > 0
+        ? probe.audioTracks.filter(track => selection.streamIndices.includes(track.streamIndex))
+        : probe.audioTracks;
+    return tracks.length > 0 && tracks.every(track => (track.channels ?? 0) >= 2);
+};
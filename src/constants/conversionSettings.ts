@@ -0,0 +1,129 @@
+/**
+ * 変換設定（出力形式・音質・前処理・区間長・動画の直接送信・場面の画像の添付・処理の並列数）
+ * ログインユーザーはプロファイル、ゲストはブラウザに保存し、同じ設定で再現できるよう生成した文書にも記録する。
+ */
+
+import {
+    AUDIO_OUTPUT_PROFILES,
+    AudioOutputProfileId,
+    DEFAULT_AUDIO_OUTPUT_PROFILE_ID,
+    getAudioOutputProfile,
+} from './audioOutputProfiles';
+import { AUDIO_PREPROCESSING_OPTIONS, AudioPreprocessingOptions, DEFAULT_AUDIO_PREPROCESSING } from './audioPreprocessing';
+import { DEFAULT_PROCESSING_SCHEDULE, normalizeProcessingSchedule, ProcessingScheduleSettings } from './processingSchedule';
+
+export interface AudioConversionSettings {
+    outputProfileId: AudioOutputProfileId;
+    /** MP3 のビットレート（出力形式で決まっている場合は使わない） */
+    bitrate: string;
+    /** MP3 のサンプルレート（出力形式で決まっている場合は使わない） */
+    sampleRate: number;
+    preprocessing: AudioPreprocessingOptions;
+    /** 区間の基準の長さ（秒）。区間数の上限を超える場合は自動で長くなる */
+    segmentDuration: number;
+    /** 🎬 音声変換をせずに動画を直接送信する（試験的） */
+    sendVideoDirectly: boolean;
+    /** 動画の場面（スライド・画面）の画像を音声と一緒に添付する（動画ファイルのみ） */
+    includeKeyframes: boolean;
+    /** 音声変換・文書生成の並列数 */
+    schedule: ProcessingScheduleSettings;
+}
+
+export const BITRATE_OPTIONS = [
+    { value: '128k', label: '128 kbps (標準品質)' },
+    { value: '192k', label: '192 kbps (高品質)' },
+    { value: '256k', label: '256 kbps (最高品質)' },
+    { value: '320k', label: '320 kbps (無損品質)' },
+];
+
+export const SAMPLE_RATE_OPTIONS = [
+    { value: 44100, label: '44.1 kHz (CD品質)' },
+    { value: 48000, label: '48 kHz (DVD品質)' },
+    { value: 96000, label: '96 kHz (高解像度)' },
+];
+
+export const SEGMENT_DURATION_OPTIONS = [
+    { value: 30, label: '30秒（標準）' },
+    { value: 60, label: '1分' },
+    { value: 120, label: '2分（区間数が少なく、変換の切り替えが減る）' },
+];
+
+export const DEFAULT_CONVERSION_SETTINGS: AudioConversionSettings = {
+    outputProfileId: DEFAULT_AUDIO_OUTPUT_PROFILE_ID,
+    bitrate: '192k',
+    sampleRate: 44100,
+    preprocessing: DEFAULT_AUDIO_PREPROCESSING,
+    segmentDuration: 30,
+    sendVideoDirectly: false,
+    includeKeyframes: false,
+    schedule: DEFAULT_PROCESSING_SCHEDULE,
+};
+
+/**
+ * 保存済みの設定を検証し、不正・未設定の項目は既定値で補う（以前のバージョンで保存した設定にも対応）
+ */
+export const normalizeConversionSettings = (data: Partial<AudioConversionSettings> | undefined | null): AudioConversionSettings => {
+    const defaults = DEFAULT_CONVERSION_SETTINGS;
+    if (!data) {
+        return defaults;
+    }
+
+    const preprocessing: AudioPreprocessingOptions = {
+        trimSilence: data.preprocessing?.trimSilence === true,
+        normalizeLoudness: data.preprocessing?.normalizeLoudness === true,
+        downmixToMono: data.preprocessing?.downmixToMono === true,
+        highPassFilter: data.preprocessing?.highPassFilter === true,
+    };
+
+    return {
+        outputProfileId: data.outputProfileId && data.outputProfileId in AUDIO_OUTPUT_PROFILES
+            ? data.outputProfileId
+            : defaults.outputProfileId,
+        bitrate: BITRATE_OPTIONS.some(option => option.value === data.bitrate) ? data.bitrate! : defaults.bitrate,
+        sampleRate: SAMPLE_RATE_OPTIONS.some(option => option.value === data.sampleRate) ? data.sampleRate! : defaults.sampleRate,
+        preprocessing,
+        segmentDuration: SEGMENT_DURATION_OPTIONS.some(option => option.value === data.segmentDuration)
+            ? data.segmentDuration!
+            : defaults.segmentDuration,
+        sendVideoDirectly: data.sendVideoDirectly === true,
+        includeKeyframes: data.includeKeyframes === true,
+        schedule: normalizeProcessingSchedule(data.schedule),
+    };
+};
+
+/**
+ * 実際に変換に使うビットレート・サンプルレート（出力形式で決まっている場合はその値）
+ */
+export const getEffectiveEncoding = (settings: AudioConversionSettings): { bitrate: string; sampleRate: number } => {
+    const profile = getAudioOutputProfile(settings.outputProfileId);
+    return {
+        bitrate: profile.bitrate ?? settings.bitrate,
+        sampleRate: profile.sampleRate ?? settings.sampleRate,
+    };
+};
+
+/**
+ * 場面の画像を添付するか
+ * 動画を直接送信する場合は映像ごと送るため不要。無音を削除する場合は音声の時刻が元の動画とずれ、
+ * 画像の時刻と対応しなくなるため添付しない
+ */
+export const shouldAttachKeyframes = (settings: AudioConversionSettings): boolean =>
+    settings.includeKeyframes && !settings.sendVideoDirectly && !settings.preprocessing.trimSilence;
+
+/**
+ * 文書の詳細に表示する変換設定の要約
+ */
+export const formatConversionSettings = (settings: AudioConversionSettings): string => {
+    const profile = getAudioOutputProfile(settings.outputProfileId);
+    const { bitrate, sampleRate } = getEffectiveEncoding(settings);
+    const preprocessingLabels = AUDIO_PREPROCESSING_OPTIONS
+        .filter(({ key }) => settings.preprocessing[key])
+        .map(({ label }) => label);
+    return [
+        `${profile.extension.toUpperCase()} ${bitrate}bps / ${(sampleRate / 1000).toFixed(1)}kHz`,
+        `区間 ${settings.segmentDuration}秒`,
+        ...(preprocessingLabels.length > 0 ? [`前処理: ${preprocessingLabels.join('・')}`] : []),
+        ...(settings.sendVideoDirectly ? ['動画は直接送信'] : []),
+        ...(shouldAttachKeyframes(settings) ? ['場面の画像を添付'] : []),
+    ].join('、');
+};
@@ -0,0 +1,69 @@
+/**
+ * FFmpeg コア（WebAssembly）の配信設定
+ * コアはアプリ自身から配信する（public/ffmpeg/ は scripts/copy-ffmpeg-core.ts が node_modules からコピー）。
+ * バージョンを上げる場合は package.json の @ffmpeg/core・@ffmpeg/core-mt と integrity をあわせて更新すること。
+ */
+
+export const FFMPEG_CORE_VERSION = '0.12.6';
+
+export type FFmpegCoreVariant = 'st' | 'mt';
+
+export interface FFmpegCoreAsset {
+    fileName: string;
+    mimeType: string;
+    /** Subresource Integrity 形式の SHA-384 */
+    integrity: string;
+}
+
+export interface FFmpegCoreBuild {
+    packageName: string;
+    core: FFmpegCoreAsset;
+    wasm: FFmpegCoreAsset;
+    /** マルチスレッド版のみ */
+    worker?: FFmpegCoreAsset;
+}
+
+export const FFMPEG_CORE_BUILDS: Record<FFmpegCoreVariant, FFmpegCoreBuild> = {
+    st: {
+        packageName: '@ffmpeg/core',
+        core: {
+            fileName: 'ffmpeg-core.js',
+            mimeType: 'text/javascript',
+            integrity: 'sha384-c9jtXGMa7FHb4zjdEQbYHSk+IhD2qPKTKyyD05+FsJ4hTo1G67o9cgo7APw3U9Lv',
+        },
+        wasm: {
+            fileName: 'ffmpeg-core.wasm',
+            mimeType: 'application/wasm',
+            integrity: 'sha384-SnAthyn82idS4YdVo46XOl86g1sUylqtN6BEYmPDFqzVO3Z3O/Xj1tVlyFqgyW4K',
+        },
+    },
+    mt: {
+        packageName: '@ffmpeg/core-mt',
+        core: {
+            fileName: 'ffmpeg-core.js',
+            mimeType: 'text/javascript',
+            integrity: 'sha384-rq7flgHVWaVfB458CIGLKgbt2TRqlzr4C9BqlLCEzZEsEgmrVcjEESuJ6Xn1KvYd',
+        },
+        wasm: {
+            fileName: 'ffmpeg-core.wasm',
+            mimeType: 'application/wasm',
+            integrity: 'sha384-FycsKH8SDTkBt19cTwetE082xjCaWrSu1JpBG7O1+kZRu1xnfgD4rAiCnpRPQQSX',
+        },
+        worker: {
+            fileName: 'ffmpeg-core.worker.js',
+            mimeType: 'text/javascript',
+            integrity: 'sha384-IGj8Y6pLWgXZtqj+ZjMWpgRKD1EkLkAVuzqyuvXDUeXz0B2IdrUxG25oWKdHHcVr',
+        },
+    },
+};
+
+/**
+ * コアの配信元（アプリからの相対パス）。バージョンごとにパスを分け、古いキャッシュと混ざらないようにする
+ */
+export const getFFmpegCoreBasePath = (variant: FFmpegCoreVariant): string =>
+    `/ffmpeg/${FFMPEG_CORE_VERSION}/${variant}`;
+
+/**
+ * マルチスレッド版を使う設定か（next.config.ts の COOP/COEP ヘッダーと対になる）
+ */
+export const FFMPEG_MULTI_THREAD_ENABLED = process.env.NEXT_PUBLIC_FFMPEG_MULTI_THREAD === 'true';
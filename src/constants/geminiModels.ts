@@ -34,6 +34,44 @@ export const GEMINI_MODEL_OPTIONS: GeminiModelOption[] = [
     }
 ];
 
+/**
+ * モデルごとの単価（USD / 100万トークン）
+ * 料金改定時はここを更新する。集計済みの推定コストは生成時点の単価で保存されるため遡って変わらない。
+ * 長いプロンプト（20万トークン超）の割増単価は考慮しない。
+ */
+export interface GeminiModelPricing {
+    inputPerMillion: number; // テキスト・画像・動画の入力
+    audioInputPerMillion: number; // 音声の入力
+    outputPerMillion: number; // 出力（思考トークンを含む）
+}
+
+export const GEMINI_MODEL_PRICING: Record<string, GeminiModelPricing> = {
+    'gemini-2.5-pro': { inputPerMillion: 1.25, audioInputPerMillion: 1.25, outputPerMillion: 10 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, audioInputPerMillion: 1.0, outputPerMillion: 2.5 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.1, audioInputPerMillion: 0.3, outputPerMillion: 0.4 },
+    'gemini-3-pro-preview': { inputPerMillion: 2, audioInputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-3.1-pro-preview': { inputPerMillion: 2, audioInputPerMillion: 2, outputPerMillion: 12 },
+};
+
+/**
+ * トークン数から推定コスト（USD）を計算。単価表にないモデルは 0 を返す
+ */
+export function estimateGeminiCostUsd(
+    model: string,
+    usage: { promptTokens: number; audioPromptTokens: number; candidatesTokens: number; thoughtsTokens: number }
+): number {
+    const pricing = GEMINI_MODEL_PRICING[model];
+    if (!pricing) {
+        return 0;
+    }
+    const nonAudioPromptTokens = Math.max(0, usage.promptTokens - usage.audioPromptTokens);
+    return (
+        nonAudioPromptTokens * pricing.inputPerMillion +
+        usage.audioPromptTokens * pricing.audioInputPerMillion +
+        (usage.candidatesTokens + usage.thoughtsTokens) * pricing.outputPerMillion
+    ) / 1_000_000;
+}
+
 const GEMINI_MODEL_MAP = new Map(GEMINI_MODEL_OPTIONS.map(option => [option.value, option]));
 
 export function getGeminiModelLabel(model: string): string {
@@ -0,0 +1,58 @@
+/**
+ * 処理の並列数（音声変換・文書生成）
+ * 文書生成はファイル数 × プロンプト数のリクエストが一度に出ると 429 になりやすいため、全体とモデルごとに上限を設ける。
+ */
+
+export interface ProcessingScheduleSettings {
+    /** 同時に音声変換するファイル数（変換ごとに FFmpeg を読み込むためメモリを多く使う） */
+    conversionConcurrency: number;
+    /** 同時に実行する文書生成リクエストの数（全体） */
+    generationConcurrency: number;
+    /** 同じモデルに同時に送る文書生成リクエストの数 */
+    perModelConcurrency: number;
+}
+
+export const CONVERSION_CONCURRENCY_OPTIONS = [
+    { value: 1, label: '1（標準）' },
+    { value: 2, label: '2（メモリに余裕がある場合）' },
+];
+
+export const GENERATION_CONCURRENCY_OPTIONS = [
+    { value: 1, label: '1' },
+    { value: 2, label: '2' },
+    { value: 4, label: '4（標準）' },
+    { value: 8, label: '8' },
+];
+
+export const PER_MODEL_CONCURRENCY_OPTIONS = [
+    { value: 1, label: '1（無料枠など上限が低い場合）' },
+    { value: 2, label: '2（標準）' },
+    { value: 4, label: '4' },
+    { value: 8, label: '8' },
+];
+
+export const DEFAULT_PROCESSING_SCHEDULE: ProcessingScheduleSettings = {
+    conversionConcurrency: 1,
+    generationConcurrency: 4,
+    perModelConcurrency: 2,
+};
+
+/**
+ * 保存済みの並列数を検証し、不正・未設定の項目は既定値で補う
+ */
+export const normalizeProcessingSchedule = (
+    data: Partial<ProcessingScheduleSettings> | undefined | null
+): ProcessingScheduleSettings => {
+    const defaults = DEFAULT_PROCESSING_SCHEDULE;
+    return {
+        conversionConcurrency: CONVERSION_CONCURRENCY_OPTIONS.some(option => option.value === data?.conversionConcurrency)
+            ? data!.conversionConcurrency!
+            : defaults.conversionConcurrency,
+        generationConcurrency: GENERATION_CONCURRENCY_OPTIONS.some(option => option.value === data?.generationConcurrency)
+            ? data!.generationConcurrency!
+            : defaults.generationConcurrency,
+        perModelConcurrency: PER_MODEL_CONCURRENCY_OPTIONS.some(option => option.value === data?.perModelConcurrency)
+            ? data!.perModelConcurrency!
+            : defaults.perModelConcurrency,
+    };
+};
@@ -0,0 +1,33 @@
+/**
+ * サーバー処理（メディアをアップロードし、サーバーの Worker がネイティブの FFmpeg で変換・文書生成する）
+ * タブを閉じても処理が続き、FFmpeg（WebAssembly）を動かせないモバイル端末でも使える。
+ * API ルートとブラウザの両方で参照するため NEXT_PUBLIC_ の環境変数で有効にする。
+ */
+
+import type { ServerJob } from '@/types/serverJob';
+
+export const SERVER_PROCESSING_ENABLED = process.env.NEXT_PUBLIC_ENABLE_SERVER_PROCESSING === 'true';
+
+/** アップロードできるメディアの上限（MB、NEXT_PUBLIC_SERVER_PROCESSING_MAX_UPLOAD_MB で変更できる） */
+const MAX_UPLOAD_MB = Number(process.env.NEXT_PUBLIC_SERVER_PROCESSING_MAX_UPLOAD_MB) || 1024;
+
+export const SERVER_PROCESSING_CONFIG = {
+    /** ブラウザが処理状況を取得する間隔（ミリ秒） */
+    POLL_INTERVAL_MS: 2000,
+    /** Worker が新しいジョブを確認する間隔（ミリ秒） */
+    WORKER_POLL_INTERVAL_MS: 2000,
+    /** Worker が処理中に中止の要求を確認する間隔（ミリ秒） */
+    CANCEL_CHECK_INTERVAL_MS: 1000,
+    /** 処理中のジョブの更新時刻を書き込む間隔（長い文書生成の間も停止とみなされないように） */
+    HEARTBEAT_INTERVAL_MS: 60 * 1000,
+    /** 更新が途絶えた処理中のジョブを、Worker が停止したとみなして取り直すまでの時間（ミリ秒） */
+    STALE_CLAIM_MS: 10 * 60 * 1000,
+    /** 終了したジョブのファイルを残す期間（ミリ秒） */
+    RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+    /** 登録できるリクエストの大きさの上限（バイト、メディアと登録内容を含む） */
+    MAX_UPLOAD_BYTES: MAX_UPLOAD_MB * 1024 * 1024,
+} as const;
+
+/** 完了または失敗して、Worker がこれ以上更新しないジョブか */
+export const isServerJobFinished = (job: ServerJob): boolean =>
+    job.status.status === 'completed' || job.status.status === 'error';
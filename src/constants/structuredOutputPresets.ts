@@ -0,0 +1,78 @@
+import { OutputSchema } from '@/types/structuredOutput';
+
+export interface StructuredOutputPreset {
+    id: string;
+    label: string;
+    schema: OutputSchema;
+}
+
+const ACTION_ITEMS_SCHEMA: OutputSchema = {
+    type: 'array',
+    description: 'アクションアイテム',
+    items: {
+        type: 'object',
+        properties: {
+            task: { type: 'string', description: 'タスク' },
+            owner: { type: 'string', description: '担当者', nullable: true },
+            dueDate: { type: 'string', description: '期限', format: 'date', nullable: true },
+        },
+        required: ['task'],
+    },
+};
+
+const DECISIONS_SCHEMA: OutputSchema = {
+    type: 'array',
+    description: '決定事項',
+    items: {
+        type: 'object',
+        properties: {
+            decision: { type: 'string', description: '決定内容' },
+            rationale: { type: 'string', description: '理由・背景', nullable: true },
+        },
+        required: ['decision'],
+    },
+};
+
+const ATTENDEES_SCHEMA: OutputSchema = {
+    type: 'array',
+    description: '参加者',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string', description: '氏名' },
+            role: { type: 'string', description: '役割・所属', nullable: true },
+        },
+        required: ['name'],
+    },
+};
+
+/**
+ * プロンプト編集画面で選べる構造化出力のひな形
+ */
+export const STRUCTURED_OUTPUT_PRESETS: StructuredOutputPreset[] = [
+    {
+        id: 'meeting_minutes',
+        label: '議事録（参加者・決定事項・アクションアイテム）',
+        schema: {
+            type: 'object',
+            properties: {
+                summary: { type: 'string', description: '要約' },
+                attendees: ATTENDEES_SCHEMA,
+                decisions: DECISIONS_SCHEMA,
+                actionItems: ACTION_ITEMS_SCHEMA,
+            },
+            required: ['summary', 'attendees', 'decisions', 'actionItems'],
+        },
+    },
+    {
+        id: 'action_items',
+        label: 'アクションアイテムのみ',
+        schema: {
+            type: 'object',
+            properties: {
+                actionItems: ACTION_ITEMS_SCHEMA,
+            },
+            required: ['actionItems'],
+        },
+    },
+];
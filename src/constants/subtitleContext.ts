@@ -0,0 +1,37 @@
+/**
+ * 埋め込み字幕の利用（ファイルごと）
+ * 字幕付きの動画は、字幕をテキストとして添付すると固有名詞などの聞き間違いが減り、
+ * 字幕だけで生成すれば音声を送らないため費用も大きく下がる。
+ */
+
+import { MediaSubtitleTrack } from '@/types/mediaProbe';
+
+/**
+ * - with_audio: 音声と一緒に字幕を添付する
+ * - subtitles_only: 音声を送らず、字幕だけで生成する
+ */
+export type SubtitleContextMode = 'with_audio' | 'subtitles_only';
+
+export interface SubtitleContextSelection {
+    /** 使う字幕トラックのストリーム番号 */
+    streamIndex: number;
+    mode: SubtitleContextMode;
+}
+
+export const SUBTITLE_CONTEXT_MODE_OPTIONS: { value: SubtitleContextMode; label: string; description: string }[] = [
+    {
+        value: 'with_audio',
+        label: '音声と一緒に添付',
+        description: '字幕を参考に、固有名詞や専門用語の聞き間違いを減らします',
+    },
+    {
+        value: 'subtitles_only',
+        label: '字幕だけで生成',
+        description: '音声の変換と送信を省くため、速く安く生成できます（字幕にない発言は反映されません）',
+    },
+];
+
+/** テキストとして取り出せる字幕の形式（PGS・DVD などの画像の字幕は対象外） */
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'webvtt', 'ass', 'ssa', 'mov_text', 'text', 'subviewer', 'microdvd'];
+
+export const isTextSubtitleTrack = (track: MediaSubtitleTrack): boolean => TEXT_SUBTITLE_CODECS.includes(track.codec);
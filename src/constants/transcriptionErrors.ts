@@ -0,0 +1,56 @@
+/**
+ * 文書生成エラーの分類コード
+ * プロバイダーはベンダー固有のエラーをこのコードに分類し、UIはコードから表示文言と再開可否を決める
+ */
+export type TranscriptionErrorCode =
+    | 'network'
+    | 'auth'
+    | 'quota'
+    | 'model_not_found'
+    | 'payload_too_large'
+    | 'safety_blocked'
+    | 'empty_response'
+    | 'invalid_output'
+    | 'server_error'
+    | 'cancelled'
+    | 'unknown';
+
+/** 時間をおけば解消する可能性があり、自動リトライの対象とするコード */
+export const TRANSIENT_ERROR_CODES: readonly TranscriptionErrorCode[] = ['network', 'quota', 'server_error'];
+
+/** 同じ入力のまま「再開」しても成功しないため、再開ボタンを出さないコード */
+const NON_RESUMABLE_ERROR_CODES: readonly TranscriptionErrorCode[] = [
+    'auth',
+    'model_not_found',
+    'payload_too_large',
+    'safety_blocked',
+];
+
+export const TRANSCRIPTION_ERROR_MESSAGES: Record<TranscriptionErrorCode, string> = {
+    network: 'ネットワークエラー: インターネット接続を確認してください。',
+    auth: 'APIキーが無効か、アクセスが拒否されました。.env.localファイルとAPIキーの権限を確認してください。',
+    quota: 'APIの利用上限（レート制限）に達しました。しばらく待ってから再開してください。',
+    model_not_found: '指定されたモデルが見つかりません。プロンプトのモデル設定を確認してください。',
+    payload_too_large: '動画/音声ファイルが大きすぎます。より小さいファイルを使用してください。',
+    safety_blocked: '安全性フィルターにより生成がブロックされました。内容やプロンプトを見直してください。',
+    empty_response: 'AIから空の応答が返されました。再開してください。',
+    invalid_output: 'AIの出力がプロンプトで指定したJSON形式に一致しませんでした。再開するか、スキーマを見直してください。',
+    server_error: 'AIサービスが一時的に利用できません。しばらく待ってから再開してください。',
+    cancelled: '処理を中止しました。再開すると続きから処理します。',
+    unknown: '不明なエラーが発生しました',
+};
+
+export const isTranscriptionErrorCode = (value: unknown): value is TranscriptionErrorCode =>
+    typeof value === 'string' && value in TRANSCRIPTION_ERROR_MESSAGES;
+
+export const isTransientErrorCode = (code: TranscriptionErrorCode): boolean =>
+    TRANSIENT_ERROR_CODES.includes(code);
+
+/**
+ * 再開ボタンを表示するかどうか（コードがないエラーは従来通り再開可能とする）
+ */
+export const isResumableErrorCode = (code?: TranscriptionErrorCode): boolean =>
+    !code || !NON_RESUMABLE_ERROR_CODES.includes(code);
+
+export const getTranscriptionErrorMessage = (code: TranscriptionErrorCode): string =>
+    TRANSCRIPTION_ERROR_MESSAGES[code];
@@ -0,0 +1,104 @@
+import { DEFAULT_GEMINI_MODEL, GEMINI_MODEL_OPTIONS, getGeminiModelLabel } from './geminiModels';
+
+export type TranscriptionProviderId = 'gemini' | 'mock';
+
+export interface TranscriptionModelOption {
+    value: string;
+    label: string;
+    description: string;
+}
+
+export interface TranscriptionProviderOption {
+    value: TranscriptionProviderId;
+    label: string;
+    description: string;
+    defaultModel: string;
+    models: TranscriptionModelOption[];
+    /** 開発環境（または明示的に有効化した場合）のみ選択肢に表示する */
+    developmentOnly?: boolean;
+}
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderId = 'gemini';
+
+export const MOCK_MODEL_OPTIONS: TranscriptionModelOption[] = [
+    {
+        value: 'mock-document',
+        label: 'Mock Document',
+        description: '入力メディアとプロンプトから決定論的なMarkdownを返すローカル用モデル。APIキー・ネットワーク不要',
+    },
+];
+
+export const TRANSCRIPTION_PROVIDER_OPTIONS: TranscriptionProviderOption[] = [
+    {
+        value: 'gemini',
+        label: 'Google Gemini',
+        description: 'Gemini API で音声・動画から文書を生成します',
+        defaultModel: DEFAULT_GEMINI_MODEL,
+        models: GEMINI_MODEL_OPTIONS,
+    },
+    {
+        value: 'mock',
+        label: 'ローカルモック',
+        description: '外部APIを呼び出さずに固定形式の文書を返します（開発・テスト用）',
+        defaultModel: MOCK_MODEL_OPTIONS[0].value,
+        models: MOCK_MODEL_OPTIONS,
+        developmentOnly: true,
+    },
+];
+
+const PROVIDER_MAP = new Map(TRANSCRIPTION_PROVIDER_OPTIONS.map(option => [option.value, option]));
+
+/**
+ * モックプロバイダーを選択肢に表示するかどうか
+ * 本番ビルドでも NEXT_PUBLIC_ENABLE_MOCK_TRANSCRIPTION=true で有効化できる
+ */
+function isDevelopmentProviderEnabled(): boolean {
+    return process.env.NODE_ENV === 'development'
+        || process.env.NEXT_PUBLIC_ENABLE_MOCK_TRANSCRIPTION === 'true';
+}
+
+export function isTranscriptionProviderId(value: unknown): value is TranscriptionProviderId {
+    return typeof value === 'string' && PROVIDER_MAP.has(value as TranscriptionProviderId);
+}
+
+/**
+ * Firestore から読み込んだ値をプロバイダーIDに正規化（未設定・不明な値は既定プロバイダー）
+ */
+export function normalizeTranscriptionProvider(value: unknown): TranscriptionProviderId {
+    return isTranscriptionProviderId(value) ? value : DEFAULT_TRANSCRIPTION_PROVIDER;
+}
+
+/**
+ * UI で選択可能なプロバイダー一覧
+ * @param currentProvider 現在設定されているプロバイダー（開発用でも表示を維持する）
+ */
+export function getSelectableTranscriptionProviders(currentProvider?: TranscriptionProviderId): TranscriptionProviderOption[] {
+    const showDevelopmentProviders = isDevelopmentProviderEnabled();
+    return TRANSCRIPTION_PROVIDER_OPTIONS.filter(option =>
+        !option.developmentOnly || showDevelopmentProviders || option.value === currentProvider
+    );
+}
+
+export function getTranscriptionProviderLabel(provider: TranscriptionProviderId): string {
+    return PROVIDER_MAP.get(provider)?.label || provider;
+}
+
+export function getProviderModelOptions(provider: TranscriptionProviderId): TranscriptionModelOption[] {
+    return PROVIDER_MAP.get(provider)?.models || [];
+}
+
+export function getProviderDefaultModel(provider: TranscriptionProviderId): string {
+    return PROVIDER_MAP.get(provider)?.defaultModel || DEFAULT_GEMINI_MODEL;
+}
+
+/**
+ * プロバイダーとモデルの組み合わせから表示ラベルを取得
+ * Gemini の場合は従来どおりモデル名のみを表示する
+ */
+export function getTranscriptionModelLabel(provider: TranscriptionProviderId, model: string): string {
+    if (provider === 'gemini') {
+        return getGeminiModelLabel(model);
+    }
+    const modelLabel = getProviderModelOptions(provider).find(option => option.value === model)?.label || model;
+    return `${getTranscriptionProviderLabel(provider)} / ${modelLabel}`;
+}
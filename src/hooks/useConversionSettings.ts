@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { loadConversionSettings, saveConversionSettings } from '@/lib/conversionSettings';
+import { AudioConversionSettings, DEFAULT_CONVERSION_SETTINGS } from '@/constants/conversionSettings';
+
+/**
+ * 変換設定を管理するカスタムフック
+ * ログイン状態が変わるたびに保存済みの設定を読み込み、変更はすぐに保存する
+ */
+export const useConversionSettings = () => {
+    const { user, loading } = useAuth();
+    const [conversionSettings, setConversionSettings] = useState<AudioConversionSettings>(DEFAULT_CONVERSION_SETTINGS);
+
+    useEffect(() => {
+        if (loading) {
+            return;
+        }
+        let cancelled = false;
+        loadConversionSettings().then(settings => {
+            if (!cancelled) {
+                setConversionSettings(settings);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [user, loading]);
+
+    const updateConversionSettings = useCallback((update: Partial<AudioConversionSettings>) => {
+        const next = { ...conversionSettings, ...update };
+        setConversionSettings(next);
+        void saveConversionSettings(next);
+    }, [conversionSettings]);
+
+    return { conversionSettings, updateConversionSettings };
+};
@@ -1,16 +1,49 @@
 import { useState, useCallback } from 'react';
-import { FileWithPrompts } from '@/types/processing';
+import { FileWithPrompts, MediaTrimRange } from '@/types/processing';
+import { MediaProbeResult, MediaProbeState } from '@/types/mediaProbe';
+import { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import { SubtitleContextSelection } from '@/constants/subtitleContext';
 
-export const useFileManagement = (bulkSelectedPromptIds: string[]) => {
+/**
+ * @param probeMedia 選択したファイルのメディア情報を取得する関数（省略時は取得しない）
+ */
+export const useFileManagement = (
+    bulkSelectedPromptIds: string[],
+    probeMedia?: (file: File) => Promise<MediaProbeResult>
+) => {
     const [selectedFiles, setSelectedFiles] = useState<FileWithPrompts[]>([]);
 
+    const setMediaProbe = useCallback((file: File, mediaProbe: MediaProbeState) => {
+        setSelectedFiles(prev => prev.map(fileWithPrompts =>
+            fileWithPrompts.file === file ? { ...fileWithPrompts, mediaProbe } : fileWithPrompts
+        ));
+    }, []);
+
     const handleFilesSelected = useCallback((files: File[]) => {
         const filesWithPrompts: FileWithPrompts[] = files.map(file => ({
             file,
-            selectedPromptIds: [...bulkSelectedPromptIds]
+            selectedPromptIds: [...bulkSelectedPromptIds],
+            ...(probeMedia && { mediaProbe: { status: 'probing' as const } }),
         }));
         setSelectedFiles(prev => [...prev, ...filesWithPrompts]);
-    }, [bulkSelectedPromptIds]);
+
+        if (!probeMedia) {
+            return;
+        }
+        // Worker では1件ずつ処理されるため、選択した順に取得して表示を更新する
+        void (async () => {
+            for (const file of files) {
+                try {
+                    setMediaProbe(file, { status: 'done', result: await probeMedia(file) });
+                } catch (error) {
+                    setMediaProbe(file, {
+                        status: 'error',
+                        error: error instanceof Error ? error.message : 'メディア情報を取得できませんでした',
+                    });
+                }
+            }
+        })();
+    }, [bulkSelectedPromptIds, probeMedia, setMediaProbe]);
 
     const handleRemoveFile = useCallback((index: number) => {
         setSelectedFiles(prev => prev.filter((_, i) => i !== index));
@@ -31,6 +64,31 @@ export const useFileManagement = (bulkSelectedPromptIds: string[]) => {
         }));
     }, []);
 
+    const setAudioTrackSelection = useCallback((fileIndex: number, audioTrackSelection: AudioTrackSelection) => {
+        setSelectedFiles(prev => prev.map((fileWithPrompts, idx) =>
+            idx === fileIndex ? { ...fileWithPrompts, audioTrackSelection } : fileWithPrompts
+        ));
+    }, []);
+
+    // 範囲を指定しない（ファイル全体を処理する）場合は undefined
+    const setTrimRange = useCallback((fileIndex: number, trimRange: MediaTrimRange | undefined) => {
+        setSelectedFiles(prev => prev.map((fileWithPrompts, idx) =>
+            idx === fileIndex ? { ...fileWithPrompts, trimRange } : fileWithPrompts
+        ));
+    }, []);
+
+    // 埋め込み字幕を使わない場合は undefined
+    const setSubtitleContext = useCallback((fileIndex: number, subtitleContext: SubtitleContextSelection | undefined) => {
+        setSelectedFiles(prev => prev.map((fileWithPrompts, idx) =>
+            idx === fileIndex ? { ...fileWithPrompts, subtitleContext } : fileWithPrompts
+        ));
+    }, []);
+
+    // 再読み込み前に中断した処理のファイルを復元
+    const restoreFiles = useCallback((files: FileWithPrompts[]) => {
+        setSelectedFiles(files);
+    }, []);
+
     const clearFiles = useCallback(() => {
         setSelectedFiles([]);
     }, []);
@@ -50,6 +108,10 @@ export const useFileManagement = (bulkSelectedPromptIds: string[]) => {
         handleFilesSelected,
         handleRemoveFile,
         toggleFilePrompt,
+        setAudioTrackSelection,
+        setTrimRange,
+        setSubtitleContext,
+        restoreFiles,
         clearFiles,
         cleanupDeletedPrompts,
     };
@@ -0,0 +1,129 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { FileProcessingStatus, FileWithPrompts } from '@/types/processing';
+import { AudioConversionSettings } from '@/constants/conversionSettings';
+import {
+    clearPersistedSession,
+    loadPersistedSession,
+    PersistedProcessingSession,
+    savePersistedStatuses,
+    startPersistedSession,
+} from '@/lib/processingQueueStore';
+import { createLogger } from '@/lib/logger';
+
+const processingPersistenceLogger = createLogger('useProcessingPersistence');
+
+/** ステータスを保存する間隔（進捗の更新ごとに書き込まないようにまとめる） */
+const SAVE_INTERVAL_MS = 1000;
+
+/** 処理キューを保存できなかった場合の案内 */
+const PERSISTENCE_UNAVAILABLE_NOTICES = {
+    storage: 'ブラウザの空き容量が足りないため、この処理は保存していません。処理は続けますが、ページを再読み込みすると続きから再開できません。',
+    error: 'この処理を保存できませんでした。処理は続けますが、ページを再読み込みすると続きから再開できません。',
+} as const;
+
+/**
+ * 処理キュー（ファイル・ステータス・変換済み音声）を IndexedDB に保存し、再読み込み後に復元する
+ * 保存できなくても処理は続け、再読み込み後に再開できないことを案内する
+ */
+export const useProcessingPersistence = (
+    processingStatuses: FileProcessingStatus[],
+    selectedFiles: FileWithPrompts[]
+) => {
+    // 開始・復元した処理の変換設定（再開時に同じ設定を使う）
+    const [sessionSettings, setSessionSettings] = useState<AudioConversionSettings | null>(null);
+    // 再読み込み前の処理を復元した場合に案内を表示する
+    const [isRestoredSession, setIsRestoredSession] = useState(false);
+    // 処理キューを保存できなかった場合の案内（再読み込み後は再開できない）
+    const [persistenceNotice, setPersistenceNotice] = useState<string | null>(null);
+    const sessionActiveRef = useRef(false);
+    const latestRef = useRef({ processingStatuses, selectedFiles });
+    const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        latestRef.current = { processingStatuses, selectedFiles };
+        if (!sessionActiveRef.current || processingStatuses.length === 0 || saveTimerRef.current) {
+            return;
+        }
+        saveTimerRef.current = setTimeout(() => {
+            saveTimerRef.current = null;
+            if (!sessionActiveRef.current) {
+                return;
+            }
+            const latest = latestRef.current;
+            savePersistedStatuses(latest.processingStatuses, latest.selectedFiles.map(file => file.file)).catch((error) => {
+                processingPersistenceLogger.warn('処理キューを保存できません', { error: String(error) });
+            });
+        }, SAVE_INTERVAL_MS);
+    }, [processingStatuses, selectedFiles]);
+
+    useEffect(() => () => {
+        if (saveTimerRef.current) {
+            clearTimeout(saveTimerRef.current);
+        }
+    }, []);
+
+    // 新しい処理を開始する（以前の保存内容は消える）
+    const startSession = useCallback((files: FileWithPrompts[], settings: AudioConversionSettings) => {
+        sessionActiveRef.current = true;
+        setSessionSettings(settings);
+        setIsRestoredSession(false);
+        setPersistenceNotice(null);
+        startPersistedSession(files, settings)
+            .then((persisted) => {
+                if (!persisted) {
+                    setPersistenceNotice(PERSISTENCE_UNAVAILABLE_NOTICES.storage);
+                }
+            })
+            .catch((error) => {
+                processingPersistenceLogger.warn('処理キューの保存を開始できません（再読み込み後は再開できません）', {
+                    error: String(error),
+                });
+                setPersistenceNotice(PERSISTENCE_UNAVAILABLE_NOTICES.error);
+            });
+    }, []);
+
+    // 再読み込み前に中断した処理を読み込む（現在のユーザーの未完了の処理がない場合は null）
+    const restoreSession = useCallback(async (): Promise<PersistedProcessingSession | null> => {
+        try {
+            const session = await loadPersistedSession();
+            if (session) {
+                sessionActiveRef.current = true;
+                setSessionSettings(session.settings);
+                setIsRestoredSession(true);
+            }
+            return session;
+        } catch (error) {
+            processingPersistenceLogger.warn('中断した処理を読み込めません', { error: String(error) });
+            return null;
+        }
+    }, []);
+
+    // 処理を終了して保存内容を消す（クリア・新しい処理を開始する場合）
+    const clearSession = useCallback(() => {
+        sessionActiveRef.current = false;
+        setSessionSettings(null);
+        setIsRestoredSession(false);
+        setPersistenceNotice(null);
+        clearPersistedSession().catch((error) => {
+            processingPersistenceLogger.warn('処理キューを削除できません', { error: String(error) });
+        });
+    }, []);
+
+    // 認証状態の変化などで画面の処理を破棄する（保存内容は残し、同じユーザーで再度復元できる）
+    const detachSession = useCallback(() => {
+        sessionActiveRef.current = false;
+        setSessionSettings(null);
+        setIsRestoredSession(false);
+        setPersistenceNotice(null);
+    }, []);
+
+    return {
+        sessionSettings,
+        isRestoredSession,
+        persistenceNotice,
+        startSession,
+        restoreSession,
+        clearSession,
+        detachSession,
+    };
+};
@@ -1,44 +1,182 @@
 import { useCallback } from 'react';
-import { VideoConverter } from '@/lib/ffmpeg';
-import { GeminiClient } from '@/lib/gemini';
-import { FileWithPrompts, FileProcessingStatus, DebugErrorMode } from '@/types/processing';
-import { convertVideoToAudioSegments, resumeVideoConversion } from '@/lib/videoConversionService';
+import { FFmpegLoadError } from '@/lib/ffmpeg';
+import { ConversionWorkerClient } from '@/lib/conversionWorker';
+import { FileWithPrompts, FileProcessingStatus, DebugErrorMode, MapReduceGroup, SegmentAction, SegmentStatus } from '@/types/processing';
+import {
+    convertVideoToAudioSegments,
+    convertVideoToSegmentBlobs,
+    groupSegmentBlobs,
+    resumeVideoConversion,
+    resumeVideoConversionToSegmentBlobs,
+} from '@/lib/videoConversionService';
+import { isAudioPreprocessingEnabled } from '@/constants/audioPreprocessing';
+import { isDefaultAudioTrackSelection } from '@/constants/audioTrackSelection';
+import { AudioConversionSettings } from '@/constants/conversionSettings';
+import { MAP_REDUCE_CONFIG } from '@/lib/mapReduceGeneration';
 import { createLogger } from '@/lib/logger';
+import {
+    findQuotaShortfalls,
+    formatQuotaItem,
+    formatQuotaValue,
+    getQuotaStatus,
+    QUOTA_KIND_LABELS,
+    QuotaKind,
+    recordCurrentUserUsage,
+} from '@/lib/quota';
+import { getMediaDurationSeconds } from '@/utils/mediaDuration';
+import { calculateOverallProgress } from '@/utils/progressCalculator';
 
 interface UseProcessingWorkflowProps {
-    converterRef: React.MutableRefObject<VideoConverter | null>;
-    geminiClientRef: React.MutableRefObject<GeminiClient | null>;
-    audioConversionQueueRef: React.MutableRefObject<boolean>;
+    converterRef: React.MutableRefObject<ConversionWorkerClient | null>;
+    activeConversionCountRef: React.MutableRefObject<number>;
+    conversionAbortControllersRef: React.MutableRefObject<Map<number, AbortController>>;
+    // 変換するファイルを選ぶ時点の処理の順番を参照する
+    processingStatusesRef: React.MutableRefObject<FileProcessingStatus[]>;
     ffmpegLoaded: boolean;
     setFfmpegLoaded: (loaded: boolean) => void;
+    setFfmpegLoadError: (error: FFmpegLoadError | null) => void;
     setProcessingStatuses: React.Dispatch<React.SetStateAction<FileProcessingStatus[]>>;
-    processTranscription: (file: FileWithPrompts, fileIndex: number, audioBlob: Blob, bitrate: string, sampleRate: number) => Promise<void>;
-    processTranscriptionResume: (file: FileWithPrompts, fileIndex: number, audioBlob: Blob, completedPromptIds: string[], bitrate: string, sampleRate: number) => Promise<void>;
+    processTranscription: (file: FileWithPrompts, fileIndex: number, audioBlob: Blob | null, settings: AudioConversionSettings) => Promise<void>;
+    processTranscriptionResume: (file: FileWithPrompts, fileIndex: number, audioBlob: Blob | null, completedPromptIds: string[], settings: AudioConversionSettings) => Promise<void>;
+    processMapReduceTranscription: (file: FileWithPrompts, fileIndex: number, groups: MapReduceGroup[], completedPromptIds: string[], cachedMapResults: Record<string, string>, settings: AudioConversionSettings) => Promise<void>;
     debugErrorMode: DebugErrorMode;
-    // 🎬 動画を直接送信するフラグ（試験的）
-    sendVideoDirectly?: boolean;
+    // 長時間録音モード: 区間グループごとに生成してから統合する
+    mapReduceMode?: boolean;
+    // サーバー処理: メディアをアップロードし、サーバーで変換・文書生成する（useServerProcessing）
+    serverProcessingMode?: boolean;
+    runServerProcessing?: (selectedFiles: FileWithPrompts[], settings: AudioConversionSettings, onJobAccepted?: (fileIndex: number) => Promise<void>) => Promise<void>;
+    resumeServerFile?: (fileIndex: number, file: FileWithPrompts, status: FileProcessingStatus, settings: AudioConversionSettings) => Promise<void>;
 }
 
 const processingWorkflowLogger = createLogger('useProcessingWorkflow');
 
 export const useProcessingWorkflow = ({
     converterRef,
-    geminiClientRef,
-    audioConversionQueueRef,
+    activeConversionCountRef,
+    conversionAbortControllersRef,
+    processingStatusesRef,
     ffmpegLoaded,
     setFfmpegLoaded,
+    setFfmpegLoadError,
     setProcessingStatuses,
     processTranscription,
     processTranscriptionResume,
+    processMapReduceTranscription,
     debugErrorMode,
-    sendVideoDirectly = false, // 🎬 動画を直接送信するフラグ（デフォルトはfalse）
+    mapReduceMode = false,
+    serverProcessingMode = false,
+    runServerProcessing,
+    resumeServerFile,
 }: UseProcessingWorkflowProps) => {
 
+    // FFmpegを初回のみロード（失敗した場合は理由を画面に表示して false を返す）
+    const ensureFfmpegLoaded = useCallback(async (): Promise<boolean> => {
+        if (!converterRef.current) {
+            converterRef.current = new ConversionWorkerClient();
+        }
+        if (ffmpegLoaded) {
+            return true;
+        }
+
+        try {
+            await converterRef.current.load();
+            setFfmpegLoaded(true);
+            setFfmpegLoadError(null);
+            return true;
+        } catch (error) {
+            processingWorkflowLogger.error('FFmpegの読み込みに失敗', error);
+            // 同じ Worker では再読み込みできないため、再試行時は作り直す
+            converterRef.current?.terminate();
+            converterRef.current = null;
+            setFfmpegLoadError(error instanceof FFmpegLoadError ? error : new FFmpegLoadError('init', 'st'));
+            return false;
+        }
+    }, [converterRef, ffmpegLoaded, setFfmpegLoaded, setFfmpegLoadError]);
+
+    // 音声変換を中止できるようにコントローラーを登録して実行（ProcessingStatusList の中止ボタンから abort される）
+    const runCancellableConversion = useCallback(async <T>(
+        fileIndex: number,
+        run: (signal: AbortSignal) => Promise<T>
+    ): Promise<T> => {
+        const controller = new AbortController();
+        conversionAbortControllersRef.current.set(fileIndex, controller);
+        try {
+            return await run(controller.signal);
+        } finally {
+            if (conversionAbortControllersRef.current.get(fileIndex) === controller) {
+                conversionAbortControllersRef.current.delete(fileIndex);
+            }
+        }
+    }, [conversionAbortControllersRef]);
+
+    // 音声変換中のファイル数を数える（新規の処理と再開処理で同じカウンターを使い、
+    // 再開処理の変換が終わっても、並行して変換中の他のファイルのロックを外さない）
+    const beginConversion = useCallback(() => {
+        activeConversionCountRef.current++;
+    }, [activeConversionCountRef]);
+
+    const endConversion = useCallback(() => {
+        activeConversionCountRef.current = Math.max(activeConversionCountRef.current - 1, 0);
+    }, [activeConversionCountRef]);
+
+    // 変換中のファイルがなくなるまで待つ（再開処理の音声変換を、実行中の変換の後にする）。待った時間（ミリ秒）を返す
+    const waitForIdleConversion = useCallback(async (): Promise<number> => {
+        let waitedMs = 0;
+        while (activeConversionCountRef.current > 0) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+            waitedMs += 100;
+        }
+        return waitedMs;
+    }, [activeConversionCountRef]);
+
+    // マップリデュース用に区間変換してグループ化（音声変換キューのロック内で呼ぶこと）
+    // 再開時は完了済みの区間を再利用する
+    const convertToMapReduceGroups = useCallback(async (
+        file: FileWithPrompts,
+        fileIndex: number,
+        resumeStatus: FileProcessingStatus | null,
+        settings: AudioConversionSettings,
+        converter: ConversionWorkerClient
+    ): Promise<MapReduceGroup[] | null> => {
+        const groups = await runCancellableConversion(fileIndex, async (signal) => {
+            const audioSegments = resumeStatus && resumeStatus.segments.length > 0
+                ? await resumeVideoConversionToSegmentBlobs(
+                    file, fileIndex, resumeStatus, converter, settings, debugErrorMode, setProcessingStatuses, signal
+                )
+                : await convertVideoToSegmentBlobs(
+                    file, fileIndex, converter, settings, debugErrorMode, setProcessingStatuses, signal
+                );
+            if (!audioSegments) {
+                return null;
+            }
+
+            return groupSegmentBlobs(
+                audioSegments,
+                fileIndex,
+                converter,
+                settings,
+                MAP_REDUCE_CONFIG.GROUP_DURATION_SECONDS,
+                setProcessingStatuses,
+                resumeStatus !== null,
+                signal
+            );
+        });
+        if (groups) {
+            setProcessingStatuses(prev =>
+                prev.map((status, idx) =>
+                    idx === fileIndex
+                        ? { ...status, mapReduceGroups: groups }
+                        : status
+                )
+            );
+        }
+        return groups;
+    }, [runCancellableConversion, debugErrorMode, setProcessingStatuses]);
+
     // メイン処理
     const handleStartProcessing = useCallback(async (
         selectedFiles: FileWithPrompts[],
-        bitrate: string,
-        sampleRate: number
+        settings: AudioConversionSettings
     ) => {
         if (selectedFiles.length === 0) return;
 
@@ -49,8 +187,52 @@ export const useProcessingWorkflow = ({
             return;
         }
 
+        // 今月のプラン上限を確認（ログインユーザーのみ）。FFmpeg の読み込み前に止める
+        // ファイルごとの処理時間（秒）。ブラウザでは FFmpeg を読み込んでから、サーバー処理ではジョブが登録されてから計上する
+        let fileMediaSeconds: number[] = [];
+        const quotaStatus = await getQuotaStatus();
+        if (quotaStatus) {
+            // 範囲を指定したファイルはその長さだけを計上する
+            const durations = await Promise.all(selectedFiles.map(file =>
+                file.trimRange ? file.trimRange.endTime - file.trimRange.startTime : getMediaDurationSeconds(file.file)
+            ));
+            fileMediaSeconds = durations.map(duration => duration ?? 0);
+            const mediaSeconds = fileMediaSeconds.reduce((sum, seconds) => sum + seconds, 0);
+            if (durations.some(duration => duration === null)) {
+                processingWorkflowLogger.warn('長さを取得できないファイルは処理時間の計上から除外', {
+                    fileNames: selectedFiles.filter((_, idx) => durations[idx] === null).map(file => file.file.name),
+                });
+            }
+
+            const required: Record<QuotaKind, number> = {
+                mediaMinutes: mediaSeconds / 60,
+                documents: selectedFiles.reduce((sum, file) => sum + file.selectedPromptIds.length, 0),
+                storageBytes: 0,
+            };
+            const shortfalls = findQuotaShortfalls(quotaStatus, required);
+            if (shortfalls.length > 0) {
+                processingWorkflowLogger.warn('月間上限により処理を開始しない', {
+                    tierId: quotaStatus.tier.id,
+                    kinds: shortfalls.map(item => item.kind),
+                });
+                const lines = shortfalls.map(item => {
+                    const requiredText = required[item.kind] > 0 ? `、今回 ${formatQuotaValue(item.kind, required[item.kind])}` : '';
+                    return `・${QUOTA_KIND_LABELS[item.kind]}: ${formatQuotaItem(item)}${requiredText}`;
+                });
+                alert(
+                    `今月のプラン（${quotaStatus.tier.name}）の上限に達するため開始できません。\n\n` +
+                    `${lines.join('\n')}\n\n` +
+                    '上限は翌月1日にリセットされます。プランの変更は管理者に依頼してください。'
+                );
+                return;
+            }
+        }
+
+        // サーバー処理はブラウザで FFmpeg を読み込まず、アップロードしてサーバーの処理を待つ
+        const usesServer = serverProcessingMode && Boolean(runServerProcessing);
+
         // 初期ステータスを設定
-        const initialStatuses: FileProcessingStatus[] = selectedFiles.map(fileWithPrompts => ({
+        const initialStatuses: FileProcessingStatus[] = selectedFiles.map((fileWithPrompts, index) => ({
             fileName: fileWithPrompts.file.name,
             status: 'waiting',
             phase: 'waiting',
@@ -58,41 +240,109 @@ export const useProcessingWorkflow = ({
             totalTranscriptions: fileWithPrompts.selectedPromptIds.length,
             transcriptionCount: 0,
             completedPromptIds: [],
-            segmentDuration: 30,
+            segmentDuration: settings.segmentDuration,
             segments: [],
             completedSegmentIndices: [],
+            // 字幕だけで生成するファイルはテキストのみのため、長時間録音モードでも1回で生成する（サーバー処理は常に1回で生成）
+            generationMode: mapReduceMode && !usesServer && fileWithPrompts.subtitleContext?.mode !== 'subtitles_only' ? 'map_reduce' : 'single',
+            queuePosition: index,
+            ...(usesServer && { serverProcessing: true }),
         }));
         setProcessingStatuses(initialStatuses);
 
-        // VideoConverterインスタンスを作成
-        if (!converterRef.current) {
-            converterRef.current = new VideoConverter();
+        if (usesServer) {
+            try {
+                // 登録されたジョブの処理時間を計上する（記録できない場合はそのジョブを中止する）
+                await runServerProcessing!(selectedFiles, settings, (fileIndex) =>
+                    recordCurrentUserUsage({ mediaSeconds: fileMediaSeconds[fileIndex] ?? 0 })
+                );
+            } catch (error) {
+                processingWorkflowLogger.error('サーバー処理でエラーが発生', error);
+                alert('処理中にエラーが発生しました: ' + (error instanceof Error ? error.message : '不明なエラー'));
+            }
+            return;
         }
 
-        // GeminiClientインスタンスを作成
-        if (!geminiClientRef.current) {
-            geminiClientRef.current = new GeminiClient();
+        // FFmpegを読み込めない場合は開始前の画面に戻し、案内を表示する
+        if (!(await ensureFfmpegLoaded())) {
+            setProcessingStatuses([]);
+            return;
+        }
+
+        // 読み込めたら処理時間を計上（途中で失敗・中止しても処理したものとして扱う）
+        try {
+            await recordCurrentUserUsage({ mediaSeconds: fileMediaSeconds.reduce((sum, seconds) => sum + seconds, 0) });
+        } catch (error) {
+            processingWorkflowLogger.error('処理時間を計上できないため処理を開始しない', error);
+            alert('利用量を記録できないため開始できません。通信状態を確認してから再度お試しください');
+            setProcessingStatuses([]);
+            return;
         }
 
         try {
-            // FFmpegを初回のみロード
-            if (!ffmpegLoaded) {
-                await converterRef.current.load();
-                setFfmpegLoaded(true);
-            }
 
-            // パイプライン処理: 音声変換（直列）→ 変換完了次第、文書生成を並列開始
+            // パイプライン処理: 音声変換（設定した並列数まで）→ 変換完了次第、文書生成を開始（文書生成の並列数は useVideoProcessing で制御）
             const transcriptionPromises: Promise<void>[] = [];
 
-            for (let i = 0; i < selectedFiles.length; i++) {
+            // 処理の順番が最も早い未着手のファイルを選ぶ（待機中に並べ替えられるため、枠が空くたびに選び直す）
+            const dispatchedIndices = new Set<number>();
+            const takeNextFileIndex = (): number | null => {
+                const getQueuePosition = (index: number) => processingStatusesRef.current[index]?.queuePosition ?? index;
+                let next: number | null = null;
+                for (let i = 0; i < selectedFiles.length; i++) {
+                    if (!dispatchedIndices.has(i) && (next === null || getQueuePosition(i) < getQueuePosition(next))) {
+                        next = i;
+                    }
+                }
+                if (next !== null) {
+                    dispatchedIndices.add(next);
+                }
+                return next;
+            };
+
+            const startFile = async (i: number, converter: ConversionWorkerClient) => {
                 const file = selectedFiles[i];
 
+                // 字幕だけで生成する場合は音声を変換・送信しない
+                if (file.subtitleContext?.mode === 'subtitles_only') {
+                    processingWorkflowLogger.info('埋め込み字幕だけで生成', { fileName: file.file.name });
+                    transcriptionPromises.push(processTranscription(file, i, null, settings));
+                    return;
+                }
+
+                // 長時間録音モード: 音声・動画とも区間変換し、区間グループごとに生成してから統合
+                if (mapReduceMode) {
+                    beginConversion();
+                    try {
+                        setProcessingStatuses(prev =>
+                            prev.map((status, idx) =>
+                                idx === i
+                                    ? { ...status, status: 'converting', phase: 'audio_conversion', audioConversionProgress: 0 }
+                                    : status
+                            )
+                        );
+
+                        const groups = await convertToMapReduceGroups(file, i, null, settings, converter);
+                        if (groups) {
+                            transcriptionPromises.push(
+                                processMapReduceTranscription(file, i, groups, [], {}, settings)
+                            );
+                        }
+                    } finally {
+                        endConversion();
+                    }
+                    return;
+                }
+
                 // 音声ファイルかどうかを判定
                 const isAudioFile = file.file.type.startsWith('audio/') ||
                     file.file.name.toLowerCase().match(/\.(mp3|wav|m4a|aac|ogg|flac)$/);
 
-                if (isAudioFile) {
-                    // 音声ファイルの場合：音声変換をスキップして直接文書生成へ
+                // トラック・チャンネルを選んだ場合は、その音声だけを取り出すため変換する
+                const usesDefaultAudioTrack = isDefaultAudioTrackSelection(file.audioTrackSelection);
+
+                if (isAudioFile && !isAudioPreprocessingEnabled(settings.preprocessing) && usesDefaultAudioTrack && !file.trimRange) {
+                    // 音声ファイルの場合：前処理・トラックの選択・範囲の指定がなければ音声変換をスキップして直接文書生成へ
                     setProcessingStatuses(prev =>
                         prev.map((status, idx) =>
                             idx === i
@@ -100,12 +350,15 @@ export const useProcessingWorkflow = ({
                                 : status
                         )
                     );
-                    const transcriptionPromise = processTranscription(file, i, file.file as Blob, bitrate, sampleRate);
+                    const transcriptionPromise = processTranscription(file, i, file.file as Blob, settings);
                     transcriptionPromises.push(transcriptionPromise);
                 } else {
-                    // 動画ファイルの場合
+                    // 動画ファイル（または前処理・トラックの選択・範囲の指定を行う音声ファイル）の場合
+                    if (settings.sendVideoDirectly && !isAudioFile && !usesDefaultAudioTrack) {
+                        processingWorkflowLogger.info('音声トラックを選択しているため、動画を直接送信せずに音声へ変換', { fileName: file.file.name });
+                    }
                     // 🎬 動画を直接送信する場合
-                    if (sendVideoDirectly) {
+                    if (settings.sendVideoDirectly && !isAudioFile && usesDefaultAudioTrack) {
                         processingWorkflowLogger.info('動画を直接送信モードで処理', { fileName: file.file.name });
 
                         // 音声変換をスキップして動画を直接使用
@@ -117,21 +370,44 @@ export const useProcessingWorkflow = ({
                             )
                         );
 
+                        // 範囲を指定した場合は、その範囲だけを切り出して送る
+                        let videoBlob: Blob = file.file;
+                        if (file.trimRange) {
+                            try {
+                                videoBlob = await converter.extractClip(file.file, file.trimRange);
+                            } catch (error) {
+                                processingWorkflowLogger.error('範囲の切り出しに失敗', error, { fileName: file.file.name });
+                                setProcessingStatuses(prev =>
+                                    prev.map((status, idx) =>
+                                        idx === i
+                                            ? {
+                                                ...status,
+                                                status: 'error',
+                                                error: error instanceof Error ? error.message : '範囲の切り出しに失敗しました',
+                                                failedPhase: 'audio_conversion',
+                                            }
+                                            : status
+                                    )
+                                );
+                                return;
+                            }
+                        }
+
                         // 動画Blobをキャッシュしてから文書生成を並列で開始
                         setProcessingStatuses(prev =>
                             prev.map((status, idx) =>
                                 idx === i
-                                    ? { ...status, convertedAudioBlob: file.file as Blob }
+                                    ? { ...status, convertedAudioBlob: videoBlob }
                                     : status
                             )
                         );
 
-                        // processTranscriptionに動画Blobを渡す（内部でGeminiClient.transcribeVideoを使用する必要あり）
-                        const transcriptionPromise = processTranscription(file, i, file.file as Blob, bitrate, sampleRate);
+                        // processTranscriptionに動画Blobを渡す（動画のMIMEタイプのままプロバイダーへ送信される）
+                        const transcriptionPromise = processTranscription(file, i, videoBlob, settings);
                         transcriptionPromises.push(transcriptionPromise);
                     } else {
-                        // 通常の音声変換処理：区間変換が必要（直列処理）
-                        audioConversionQueueRef.current = true;
+                        // 通常の音声変換処理：区間変換が必要（変換の枠ごとに1ファイルずつ）
+                        beginConversion();
 
                         try {
                             // 動画の長さを取得と区間変換
@@ -143,15 +419,15 @@ export const useProcessingWorkflow = ({
                                 )
                             );
 
-                            const audioBlob = await convertVideoToAudioSegments(
+                            const audioBlob = await runCancellableConversion(i, signal => convertVideoToAudioSegments(
                                 file,
                                 i,
-                                converterRef.current!,
-                                bitrate,
-                                sampleRate,
+                                converter,
+                                settings,
                                 debugErrorMode,
-                                setProcessingStatuses
-                            );
+                                setProcessingStatuses,
+                                signal
+                            ));
 
                             if (audioBlob) {
                                 // 音声変換が成功したら、Blobをキャッシュしてすぐに文書生成を並列で開始
@@ -162,15 +438,50 @@ export const useProcessingWorkflow = ({
                                             : status
                                     )
                                 );
-                                const transcriptionPromise = processTranscription(file, i, audioBlob, bitrate, sampleRate);
+                                const transcriptionPromise = processTranscription(file, i, audioBlob, settings);
                                 transcriptionPromises.push(transcriptionPromise);
                             }
                         } finally {
                             // 音声変換処理完了
-                            audioConversionQueueRef.current = false;
+                            endConversion();
                         }
                     }
                 }
+            };
+
+            // 変換の枠ごとに順番に処理する（2つ目以降の枠は別の Worker で FFmpeg を読み込み、終了後に破棄する）
+            const extraConverters: ConversionWorkerClient[] = [];
+            const runConversionSlot = async (slotIndex: number) => {
+                let converter = converterRef.current!;
+                if (slotIndex > 0) {
+                    converter = new ConversionWorkerClient();
+                    extraConverters.push(converter);
+                    try {
+                        await converter.load();
+                    } catch (error) {
+                        processingWorkflowLogger.warn('追加の音声変換を準備できないため、残りの枠で変換', {
+                            slotIndex,
+                            error: String(error),
+                        });
+                        return;
+                    }
+                }
+                for (let i = takeNextFileIndex(); i !== null; i = takeNextFileIndex()) {
+                    await startFile(i, converter);
+                }
+            };
+
+            const slotCount = Math.min(settings.schedule.conversionConcurrency, selectedFiles.length);
+            processingWorkflowLogger.info('処理を開始', {
+                fileCount: selectedFiles.length,
+                conversionConcurrency: slotCount,
+                generationConcurrency: settings.schedule.generationConcurrency,
+                perModelConcurrency: settings.schedule.perModelConcurrency,
+            });
+            try {
+                await Promise.all(Array.from({ length: slotCount }, (_, slotIndex) => runConversionSlot(slotIndex)));
+            } finally {
+                extraConverters.forEach(converter => converter.terminate());
             }
 
             // すべての文書生成が完了するまで待機
@@ -181,14 +492,19 @@ export const useProcessingWorkflow = ({
         }
     }, [
         converterRef,
-        geminiClientRef,
-        audioConversionQueueRef,
-        ffmpegLoaded,
-        setFfmpegLoaded,
+        processingStatusesRef,
+        ensureFfmpegLoaded,
+        runCancellableConversion,
+        beginConversion,
+        endConversion,
         setProcessingStatuses,
         processTranscription,
+        processMapReduceTranscription,
+        convertToMapReduceGroups,
         debugErrorMode,
-        sendVideoDirectly // 🎬 動画直接送信フラグ
+        mapReduceMode,
+        serverProcessingMode,
+        runServerProcessing
     ]);
 
     // 再開処理
@@ -196,8 +512,7 @@ export const useProcessingWorkflow = ({
         fileIndex: number,
         selectedFiles: FileWithPrompts[],
         processingStatuses: FileProcessingStatus[],
-        bitrate: string,
-        sampleRate: number
+        settings: AudioConversionSettings
     ) => {
         processingWorkflowLogger.info('再開処理を開始', { fileIndex });
 
@@ -239,43 +554,80 @@ export const useProcessingWorkflow = ({
         setProcessingStatuses(prev =>
             prev.map((s, idx) =>
                 idx === fileIndex
-                    ? { ...s, isResuming: true, error: undefined }
+                    ? { ...s, isResuming: true, error: undefined, errorCode: undefined }
                     : s
             )
         );
 
         try {
-            processingWorkflowLogger.info('再開処理に必要なインスタンスを準備', { fileIndex });
-            if (!converterRef.current) {
-                converterRef.current = new VideoConverter();
-                processingWorkflowLogger.info('VideoConverter を新規作成', { fileIndex });
-            }
-
-            if (!geminiClientRef.current) {
-                geminiClientRef.current = new GeminiClient();
-                processingWorkflowLogger.info('GeminiClient を新規作成', { fileIndex });
+            if (status.serverProcessing && resumeServerFile) {
+                processingWorkflowLogger.info('サーバー処理を再開', { fileIndex, jobId: status.serverJobId });
+                await resumeServerFile(fileIndex, file, status, settings);
+                return;
             }
 
-            if (!ffmpegLoaded) {
-                processingWorkflowLogger.info('FFmpeg を読み込み', { fileIndex });
-                await converterRef.current.load();
-                setFfmpegLoaded(true);
-                processingWorkflowLogger.info('FFmpeg の読み込みが完了', { fileIndex });
+            processingWorkflowLogger.info('再開処理に必要なインスタンスを準備', { fileIndex });
+            if (!(await ensureFfmpegLoaded())) {
+                throw new Error('音声変換エンジン（FFmpeg）を読み込めないため再開できません');
             }
 
             processingWorkflowLogger.info('再開処理の分岐を判定', { fileIndex });
 
-            // 音声変換済みの場合は、文書生成のみを実行
-            if (status.convertedAudioBlob) {
+            if (file.subtitleContext?.mode === 'subtitles_only') {
+                processingWorkflowLogger.info('埋め込み字幕だけで生成を再開', { fileIndex });
+                await processTranscriptionResume(file, fileIndex, null, status.completedPromptIds, settings);
+            } else if (status.generationMode === 'map_reduce') {
+                // 長時間録音モード: 区間グループとマップ結果のキャッシュがあれば再利用し、未完了の生成のみ行う
+                let groups = status.mapReduceGroups ?? null;
+                if (!groups) {
+                    processingWorkflowLogger.info('区間グループが未作成のため音声変換を再開', { fileIndex });
+                    await waitForIdleConversion();
+                    beginConversion();
+                    try {
+                        setProcessingStatuses(prev =>
+                            prev.map((s, idx) =>
+                                idx === fileIndex
+                                    ? { ...s, status: 'converting', phase: 'audio_conversion' }
+                                    : s
+                            )
+                        );
+                        groups = await convertToMapReduceGroups(file, fileIndex, status, settings, converterRef.current!);
+                    } finally {
+                        endConversion();
+                    }
+                }
+
+                if (groups) {
+                    processingWorkflowLogger.info('マップリデュース生成を再開', {
+                        fileIndex,
+                        groupCount: groups.length,
+                        cachedMapResults: Object.keys(status.mapResults ?? {}).length,
+                    });
+                    await processMapReduceTranscription(
+                        file,
+                        fileIndex,
+                        groups,
+                        status.completedPromptIds,
+                        status.mapResults ?? {},
+                        settings
+                    );
+                }
+            } else if (status.convertedAudioBlob) {
+                // 音声変換済みの場合は、文書生成のみを実行
                 processingWorkflowLogger.info('音声変換済みのため文書生成のみを再開', { fileIndex });
-                await processTranscriptionResume(file, fileIndex, status.convertedAudioBlob, status.completedPromptIds, bitrate, sampleRate);
+                await processTranscriptionResume(file, fileIndex, status.convertedAudioBlob, status.completedPromptIds, settings);
             } else {
                 processingWorkflowLogger.info('音声未変換のためファイルタイプを判定', { fileIndex });
 
                 const isAudioFile = file.file.type.startsWith('audio/') ||
                     file.file.name.toLowerCase().match(/\.(mp3|wav|m4a|aac|ogg|flac)$/);
 
-                if (isAudioFile) {
+                if (
+                    isAudioFile &&
+                    !isAudioPreprocessingEnabled(settings.preprocessing) &&
+                    isDefaultAudioTrackSelection(file.audioTrackSelection) &&
+                    !file.trimRange
+                ) {
                     processingWorkflowLogger.info('音声ファイルを検出したため変換をスキップ', { fileIndex });
                     setProcessingStatuses(prev =>
                         prev.map((s, idx) =>
@@ -284,9 +636,9 @@ export const useProcessingWorkflow = ({
                                 : s
                         )
                     );
-                    await processTranscriptionResume(file, fileIndex, file.file as Blob, status.completedPromptIds, bitrate, sampleRate);
+                    await processTranscriptionResume(file, fileIndex, file.file as Blob, status.completedPromptIds, settings);
                 } else {
-                    processingWorkflowLogger.info('動画ファイルを検出したため音声変換を再開', { fileIndex });
+                    processingWorkflowLogger.info('動画ファイル（または前処理を行う音声ファイル）のため音声変換を再開', { fileIndex });
                     setProcessingStatuses(prev =>
                         prev.map((s, idx) =>
                             idx === fileIndex
@@ -296,21 +648,14 @@ export const useProcessingWorkflow = ({
                     );
 
                     processingWorkflowLogger.info('音声変換キューの空きを確認', { fileIndex });
-                    let waitCount = 0;
-                    while (audioConversionQueueRef.current) {
-                        waitCount++;
-                        await new Promise(resolve => setTimeout(resolve, 100));
-                    }
-                    if (waitCount > 0) {
-                        processingWorkflowLogger.info('音声変換キューの待機が完了', {
-                            fileIndex,
-                            waitedMs: waitCount * 100,
-                        });
+                    const waitedMs = await waitForIdleConversion();
+                    if (waitedMs > 0) {
+                        processingWorkflowLogger.info('音声変換キューの待機が完了', { fileIndex, waitedMs });
                     } else {
                         processingWorkflowLogger.info('音声変換キューに即座に参加', { fileIndex });
                     }
 
-                    audioConversionQueueRef.current = true;
+                    beginConversion();
                     processingWorkflowLogger.info('音声変換キューをロック', { fileIndex });
 
                     try {
@@ -323,16 +668,16 @@ export const useProcessingWorkflow = ({
                             )
                         );
 
-                        const audioBlob = await resumeVideoConversion(
+                        const audioBlob = await runCancellableConversion(fileIndex, signal => resumeVideoConversion(
                             file,
                             fileIndex,
                             status,
                             converterRef.current!,
-                            bitrate,
-                            sampleRate,
+                            settings,
                             debugErrorMode,
-                            setProcessingStatuses
-                        );
+                            setProcessingStatuses,
+                            signal
+                        ));
 
                         if (audioBlob) {
                             setProcessingStatuses(prev =>
@@ -342,11 +687,11 @@ export const useProcessingWorkflow = ({
                                         : s
                                 )
                             );
-                            await processTranscriptionResume(file, fileIndex, audioBlob, status.completedPromptIds, bitrate, sampleRate);
+                            await processTranscriptionResume(file, fileIndex, audioBlob, status.completedPromptIds, settings);
                         }
                     } finally {
                         processingWorkflowLogger.info('音声変換キューのロックを解除', { fileIndex });
-                        audioConversionQueueRef.current = false;
+                        endConversion();
                     }
                 }
             }
@@ -377,18 +722,72 @@ export const useProcessingWorkflow = ({
         }
     }, [
         converterRef,
-        geminiClientRef,
-        audioConversionQueueRef,
-        ffmpegLoaded,
-        setFfmpegLoaded,
+        ensureFfmpegLoaded,
+        runCancellableConversion,
+        beginConversion,
+        endConversion,
+        waitForIdleConversion,
         setProcessingStatuses,
         processTranscriptionResume,
-        debugErrorMode
+        processMapReduceTranscription,
+        convertToMapReduceGroups,
+        debugErrorMode,
+        resumeServerFile
     ]);
 
+    // 区間ごとの操作: 失敗・スキップした区間を変換し直す（retry）、失敗した区間を飛ばして続行する（skip）
+    // 音声変換で失敗したファイルのみ。区間を更新してから再開処理で残りの区間を変換する
+    const handleSegmentAction = useCallback(async (
+        fileIndex: number,
+        segmentIndex: number,
+        action: SegmentAction,
+        selectedFiles: FileWithPrompts[],
+        processingStatuses: FileProcessingStatus[],
+        settings: AudioConversionSettings
+    ) => {
+        const status = processingStatuses[fileIndex];
+        const segment = status?.segments[segmentIndex];
+        const allowed = action === 'skip' ? segment?.status === 'error' : segment?.status === 'error' || segment?.status === 'skipped';
+        if (!status || !segment || !allowed || status.status !== 'error' || status.failedPhase !== 'audio_conversion' || status.isResuming) {
+            processingWorkflowLogger.warn('区間の操作を実行できない状態のためスキップ', { fileIndex, segmentIndex, action });
+            return;
+        }
+
+        processingWorkflowLogger.info(action === 'skip' ? '区間を飛ばして続行' : '区間を変換し直す', {
+            fileIndex,
+            segmentIndex,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+        });
+        const updatedSegment: SegmentStatus = action === 'skip'
+            ? { ...segment, status: 'skipped', progress: 0 }
+            : { ...segment, status: 'pending', progress: 0, error: undefined };
+        const updatedSegments = status.segments.map(s => s.segmentIndex === segmentIndex ? updatedSegment : s);
+        const updatedStatus: FileProcessingStatus = {
+            ...status,
+            segments: updatedSegments,
+            audioConversionProgress: calculateOverallProgress(updatedSegments),
+        };
+        setProcessingStatuses(prev =>
+            prev.map((s, idx) =>
+                idx === fileIndex
+                    ? { ...s, segments: updatedSegments, audioConversionProgress: updatedStatus.audioConversionProgress }
+                    : s
+            )
+        );
+
+        await handleResumeFile(
+            fileIndex,
+            selectedFiles,
+            processingStatuses.map((s, idx) => idx === fileIndex ? updatedStatus : s),
+            settings
+        );
+    }, [setProcessingStatuses, handleResumeFile]);
+
     return {
         handleStartProcessing,
         handleResumeFile,
+        handleSegmentAction,
     };
 };
 
@@ -0,0 +1,334 @@
+import { useRef, useCallback } from 'react';
+import { FileProcessingStatus, FileWithPrompts } from '@/types/processing';
+import { ServerJob, ServerJobPrompt } from '@/types/serverJob';
+import { Prompt } from '@/lib/prompts';
+import { validatePromptPermission } from '@/lib/promptPermissions';
+import {
+    getServerJob,
+    requestServerJobCancellation,
+    saveServerDocument,
+    submitServerJob,
+} from '@/lib/serverProcessing';
+import { createLogger } from '@/lib/logger';
+import { AudioConversionSettings } from '@/constants/conversionSettings';
+import { isServerJobFinished, SERVER_PROCESSING_CONFIG } from '@/constants/serverProcessing';
+
+const serverProcessingLogger = createLogger('useServerProcessing');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * サーバー処理（メディアをアップロードし、サーバーの Worker が変換・文書生成する）
+ * ジョブの進捗を取得して処理状況に反映し、生成された文書をサーバーに保存させる（上限は登録時にサーバーで消費済み）。
+ * タブを閉じてもサーバーの処理は続き、再読み込み後に watchServerJobs で取得を再開する。
+ */
+export const useServerProcessing = (
+    availablePrompts: Prompt[],
+    setProcessingStatuses: React.Dispatch<React.SetStateAction<FileProcessingStatus[]>>,
+    onDocumentSaved?: () => void
+) => {
+    // 進捗を取得中のジョブ（同じジョブを二重に取得・保存しない）
+    const activeJobsRef = useRef<Map<string, Promise<void>>>(new Map());
+    // アップロード中のファイルごとの中止用コントローラー
+    const uploadAbortControllersRef = useRef<Map<number, AbortController>>(new Map());
+    // 画面の処理を破棄するたびに進め、以前の取得を止める
+    const watchGenerationRef = useRef(0);
+
+    const updateStatus = useCallback((fileIndex: number, update: (status: FileProcessingStatus) => FileProcessingStatus) => {
+        setProcessingStatuses(prev =>
+            prev.map((status, idx) => idx === fileIndex ? update(status) : status)
+        );
+    }, [setProcessingStatuses]);
+
+    // サーバーは Firestore を読まないため、プロンプトの内容ごと送る
+    const buildServerPrompts = useCallback((promptIds: string[]): ServerJobPrompt[] => {
+        return availablePrompts
+            .filter(prompt => promptIds.includes(prompt.id!))
+            .map(prompt => {
+                validatePromptPermission(prompt);
+                return {
+                    id: prompt.id!,
+                    name: prompt.name,
+                    content: prompt.content,
+                    model: prompt.model,
+                    provider: prompt.provider,
+                    ...(prompt.outputSchema && { outputSchema: prompt.outputSchema }),
+                };
+            });
+    }, [availablePrompts]);
+
+    // ジョブで生成された未保存の文書をサーバーに Firestore へ保存させ、受け取り済みにする
+    // savedPromptIds: 受け取りの記録が反映される前の取得で保存を繰り返し要求しないよう、保存した文書を記録する
+    const saveJobDocuments = useCallback(async (
+        job: ServerJob,
+        fileIndex: number,
+        savedPromptIds: Set<string>
+    ) => {
+        for (const document of job.documents) {
+            if (!document.acknowledged && !savedPromptIds.has(document.promptId)) {
+                const documentId = await saveServerDocument(job.id, document.promptId);
+                serverProcessingLogger.info('サーバーで生成した文書を保存', { jobId: job.id, promptId: document.promptId, documentId });
+                onDocumentSaved?.();
+                savedPromptIds.add(document.promptId);
+            }
+            updateStatus(fileIndex, status => status.completedPromptIds.includes(document.promptId)
+                ? status
+                : {
+                    ...status,
+                    transcriptionCount: status.transcriptionCount + 1,
+                    completedPromptIds: [...status.completedPromptIds, document.promptId],
+                }
+            );
+        }
+    }, [updateStatus, onDocumentSaved]);
+
+    // ジョブが終わるまで進捗を取得する（画面の処理を破棄した場合は途中で止める）
+    const watchJob = useCallback((jobId: string, fileIndex: number): Promise<void> => {
+        const existing = activeJobsRef.current.get(jobId);
+        if (existing) {
+            return existing;
+        }
+
+        const generation = watchGenerationRef.current;
+        const watching = (async () => {
+            const savedPromptIds = new Set<string>();
+            while (watchGenerationRef.current === generation) {
+                let job: ServerJob | null;
+                try {
+                    job = await getServerJob(jobId);
+                } catch (error) {
+                    serverProcessingLogger.warn('ジョブの進捗を取得できないため再試行', { jobId, error: String(error) });
+                    await sleep(SERVER_PROCESSING_CONFIG.POLL_INTERVAL_MS);
+                    continue;
+                }
+                if (watchGenerationRef.current !== generation) {
+                    return;
+                }
+                if (!job) {
+                    serverProcessingLogger.warn('サーバーのジョブが見つかりません', { jobId, fileIndex });
+                    updateStatus(fileIndex, status => ({
+                        ...status,
+                        status: 'error',
+                        error: 'サーバーのジョブが見つかりません（保存期間を過ぎたか、サーバーのデータが削除されました）',
+                        failedPhase: 'text_generation',
+                        serverJobId: undefined,
+                    }));
+                    return;
+                }
+
+                try {
+                    await saveJobDocuments(job, fileIndex, savedPromptIds);
+                } catch (error) {
+                    serverProcessingLogger.error('サーバーで生成した文書を保存できません', error, { jobId, fileIndex });
+                    updateStatus(fileIndex, status => ({
+                        ...status,
+                        status: 'error',
+                        error: `生成した文書を保存できません: ${error instanceof Error ? error.message : '不明なエラー'}`,
+                        failedPhase: 'text_generation',
+                    }));
+                    return;
+                }
+
+                const { status, phase, audioConversionProgress, mediaUploadProgress, removedDuration, error, errorCode, failedPhase } = job.status;
+                updateStatus(fileIndex, current => ({
+                    ...current,
+                    status,
+                    phase,
+                    audioConversionProgress,
+                    mediaUploadProgress,
+                    removedDuration,
+                    error,
+                    errorCode,
+                    failedPhase,
+                }));
+                if (isServerJobFinished(job)) {
+                    serverProcessingLogger.info('サーバー処理が終了', { jobId, fileIndex, status });
+                    return;
+                }
+                await sleep(SERVER_PROCESSING_CONFIG.POLL_INTERVAL_MS);
+            }
+        })().finally(() => {
+            if (activeJobsRef.current.get(jobId) === watching) {
+                activeJobsRef.current.delete(jobId);
+            }
+        });
+
+        activeJobsRef.current.set(jobId, watching);
+        return watching;
+    }, [updateStatus, saveJobDocuments]);
+
+    // メディアをアップロードしてジョブを登録する（失敗した場合はエラーを表示して null を返す）
+    // onJobAccepted: 登録されたジョブの利用量を計上する。失敗した場合はジョブの中止を要求し、エラーを表示する
+    const submitFile = useCallback(async (
+        file: FileWithPrompts,
+        fileIndex: number,
+        promptIds: string[],
+        settings: AudioConversionSettings,
+        onJobAccepted?: (fileIndex: number) => Promise<void>
+    ): Promise<string | null> => {
+        const controller = new AbortController();
+        uploadAbortControllersRef.current.set(fileIndex, controller);
+        updateStatus(fileIndex, status => ({
+            ...status,
+            status: 'transcribing',
+            phase: 'media_upload',
+            mediaUploadProgress: 0,
+            error: undefined,
+            errorCode: undefined,
+        }));
+
+        try {
+            if (file.subtitleContext) {
+                serverProcessingLogger.info('サーバー処理では埋め込み字幕を添付しない', { fileName: file.file.name });
+            }
+            const job = await submitServerJob(file.file, {
+                fileName: file.file.name,
+                mimeType: file.file.type,
+                prompts: buildServerPrompts(promptIds),
+                settings,
+                ...(file.audioTrackSelection && { audioTrackSelection: file.audioTrackSelection }),
+                ...(file.trimRange && { trimRange: file.trimRange }),
+                ...(file.mediaProbe?.status === 'done' && { mediaInfo: file.mediaProbe.result }),
+            }, {
+                abortSignal: controller.signal,
+                onUploadProgress: (ratio) => updateStatus(fileIndex, status => ({
+                    ...status,
+                    mediaUploadProgress: Math.round(ratio * 100),
+                })),
+            });
+            try {
+                await onJobAccepted?.(fileIndex);
+            } catch (error) {
+                serverProcessingLogger.error('利用量を記録できないためジョブを中止', error, { jobId: job.id, fileIndex });
+                requestServerJobCancellation(job.id).catch((cancelError) => {
+                    serverProcessingLogger.warn('ジョブの中止を要求できません', { jobId: job.id, error: String(cancelError) });
+                });
+                updateStatus(fileIndex, status => ({
+                    ...status,
+                    status: 'error',
+                    error: '利用量を記録できないため処理を中止しました。通信状態を確認してから再度お試しください',
+                    failedPhase: 'audio_conversion',
+                }));
+                return null;
+            }
+            updateStatus(fileIndex, status => ({
+                ...status,
+                status: 'waiting',
+                phase: 'waiting',
+                mediaUploadProgress: 100,
+                serverJobId: job.id,
+            }));
+            return job.id;
+        } catch (error) {
+            serverProcessingLogger.error('サーバー処理のジョブを登録できません', error, { fileName: file.file.name, fileIndex });
+            updateStatus(fileIndex, status => ({
+                ...status,
+                status: 'error',
+                error: error instanceof Error ? error.message : '不明なエラー',
+                errorCode: controller.signal.aborted ? 'cancelled' : undefined,
+                failedPhase: 'audio_conversion',
+            }));
+            return null;
+        } finally {
+            if (uploadAbortControllersRef.current.get(fileIndex) === controller) {
+                uploadAbortControllersRef.current.delete(fileIndex);
+            }
+        }
+    }, [updateStatus, buildServerPrompts]);
+
+    // 処理の順番にアップロードし、すべてのジョブが終わるまで待つ
+    const runServerProcessing = useCallback(async (
+        selectedFiles: FileWithPrompts[],
+        settings: AudioConversionSettings,
+        onJobAccepted?: (fileIndex: number) => Promise<void>
+    ) => {
+        serverProcessingLogger.info('サーバー処理を開始', { fileCount: selectedFiles.length });
+        const watching: Promise<void>[] = [];
+        for (const [fileIndex, file] of selectedFiles.entries()) {
+            const jobId = await submitFile(file, fileIndex, file.selectedPromptIds, settings, onJobAccepted);
+            if (jobId) {
+                watching.push(watchJob(jobId, fileIndex));
+            }
+        }
+        await Promise.all(watching);
+    }, [submitFile, watchJob]);
+
+    /**
+     * サーバー処理のファイルを再開する
+     * 処理中のジョブは進捗の取得だけを再開し、終了したジョブは未保存の文書を保存してから残りのプロンプトで登録し直す
+     */
+    const resumeServerFile = useCallback(async (
+        fileIndex: number,
+        file: FileWithPrompts,
+        status: FileProcessingStatus,
+        settings: AudioConversionSettings
+    ) => {
+        let completedPromptIds = status.completedPromptIds;
+        if (status.serverJobId) {
+            const job = await getServerJob(status.serverJobId);
+            if (job && !isServerJobFinished(job)) {
+                serverProcessingLogger.info('処理中のジョブの進捗の取得を再開', { fileIndex, jobId: job.id });
+                await watchJob(job.id, fileIndex);
+                return;
+            }
+            if (job) {
+                await saveJobDocuments(job, fileIndex, new Set());
+                completedPromptIds = [...new Set([...completedPromptIds, ...job.documents.map(document => document.promptId)])];
+            }
+        }
+
+        const remainingPromptIds = file.selectedPromptIds.filter(promptId => !completedPromptIds.includes(promptId));
+        if (remainingPromptIds.length === 0) {
+            updateStatus(fileIndex, current => ({ ...current, status: 'completed', phase: 'completed', error: undefined, errorCode: undefined }));
+            return;
+        }
+
+        serverProcessingLogger.info('残りのプロンプトでジョブを登録し直す', { fileIndex, promptCount: remainingPromptIds.length });
+        const jobId = await submitFile(file, fileIndex, remainingPromptIds, settings);
+        if (jobId) {
+            await watchJob(jobId, fileIndex);
+        }
+    }, [watchJob, saveJobDocuments, submitFile, updateStatus]);
+
+    // アップロード中は送信を止め、登録済みのジョブは中止を要求する
+    const cancelServerFile = useCallback((fileIndex: number, status: FileProcessingStatus) => {
+        const uploadController = uploadAbortControllersRef.current.get(fileIndex);
+        if (uploadController) {
+            serverProcessingLogger.info('アップロードの中止を要求', { fileIndex });
+            uploadController.abort();
+        }
+        if (status.serverJobId) {
+            serverProcessingLogger.info('サーバー処理の中止を要求', { fileIndex, jobId: status.serverJobId });
+            requestServerJobCancellation(status.serverJobId).catch((error) => {
+                serverProcessingLogger.error('サーバー処理の中止を要求できません', error, { fileIndex });
+                alert('サーバー処理の中止を要求できませんでした。通信状態を確認してから再度お試しください');
+            });
+        }
+    }, []);
+
+    // 再読み込み前に登録したジョブの進捗の取得を再開する
+    const watchServerJobs = useCallback((statuses: FileProcessingStatus[], files: FileWithPrompts[]) => {
+        statuses.forEach((status, fileIndex) => {
+            if (status.serverJobId && files[fileIndex] && status.status !== 'completed' && status.status !== 'error') {
+                serverProcessingLogger.info('再読み込み前のジョブの進捗の取得を再開', { fileIndex, jobId: status.serverJobId });
+                watchJob(status.serverJobId, fileIndex);
+            }
+        });
+    }, [watchJob]);
+
+    // 画面の処理を破棄する（サーバーの処理は続き、同じユーザーで復元すれば取得を再開できる）
+    const detachServerJobs = useCallback(() => {
+        watchGenerationRef.current++;
+        uploadAbortControllersRef.current.forEach(controller => controller.abort());
+        uploadAbortControllersRef.current.clear();
+        activeJobsRef.current.clear();
+    }, []);
+
+    return {
+        runServerProcessing,
+        resumeServerFile,
+        cancelServerFile,
+        watchServerJobs,
+        detachServerJobs,
+    };
+};
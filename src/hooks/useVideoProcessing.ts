@@ -1,15 +1,95 @@
-import { useState, useRef, useCallback } from 'react';
-import { VideoConverter } from '@/lib/ffmpeg';
-import { GeminiClient } from '@/lib/gemini';
-import { saveTranscription } from '@/lib/firestore';
-import { uploadAudioToStorage } from '@/lib/storage';
-import { FileProcessingStatus, FileWithPrompts, DebugErrorMode } from '@/types/processing';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { FFmpegLoadError } from '@/lib/ffmpeg';
+import { ConversionWorkerClient } from '@/lib/conversionWorker';
+import {
+    DocumentGenerationOptions,
+    DocumentGenerationRequest,
+    getTranscriptionProvider,
+    prepareMediaForProviders,
+    releasePreparedMedia,
+    TranscriptionImage,
+    TranscriptionMedia,
+    TranscriptionResult,
+} from '@/lib/transcriptionProvider';
+import { saveTranscription, StructuredOutputRecord } from '@/lib/firestore';
+import { uploadAudioToStorage, uploadKeyframesToStorage } from '@/lib/storage';
+import { FileProcessingStatus, FileWithPrompts, DebugErrorMode, MapReduceGroup, QueueMoveDirection } from '@/types/processing';
 import { Prompt } from '@/lib/prompts';
 import { validatePromptPermission } from '@/lib/promptPermissions';
 import { createLogger } from '@/lib/logger';
+import { TranscriptionError } from '@/lib/transcriptionErrors';
+import { buildMapPrompt, buildReduceRequest, getMapResultKey, MAP_REDUCE_CONFIG } from '@/lib/mapReduceGeneration';
+import { addTokenUsage } from '@/lib/tokenUsage';
+import { structuredDataToMarkdown } from '@/lib/structuredOutput';
+import { TokenUsage } from '@/types/usage';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { AudioConversionSettings, getEffectiveEncoding, shouldAttachKeyframes } from '@/constants/conversionSettings';
+import { runWithConcurrency } from '@/utils/concurrency';
+import { buildSubtitleContextText, parseSrt } from '@/lib/subtitles';
+import { TranscriptionProviderId } from '@/constants/transcriptionProviders';
+import { buildKeyframeInstruction, buildKeyframeLabel } from '@/lib/keyframes';
+import { DocumentKeyframe } from '@/types/keyframes';
+import { blobToBase64 } from '@/utils/base64';
+import { GenerationScheduler } from '@/lib/generationScheduler';
+import { buildLostRangesInstruction, getLostTimeRanges, LostTimeRange, withLostRangesNote } from '@/lib/segmentGaps';
 
 const videoProcessingLogger = createLogger('useVideoProcessing');
 
+/** 生成した文書と一緒に保存する情報 */
+interface DocumentSaveOptions {
+    audioStoragePath?: string;
+    keyframes?: DocumentKeyframe[];
+    /** 変換をスキップした区間（文書の先頭に注記する） */
+    lostRanges: LostTimeRange[];
+    /** 生成の使用量に加算する使用量（プロンプトごとに保存の直前に取り出す） */
+    takeAdditionalUsage?: (prompt: Prompt) => TokenUsage | undefined;
+    /** 生成結果にエラーの説明がない場合のメッセージ */
+    fallbackErrorMessage: string;
+}
+
+/** 文書生成に添付する動画の場面の画像と、Storage に保存した画像 */
+interface KeyframeAttachment {
+    images: TranscriptionImage[];
+    storedKeyframes: DocumentKeyframe[];
+}
+
+/**
+ * 添付テキスト（欠落した範囲の説明・場面の画像の指示・埋め込み字幕）をまとめる
+ * 画像を Storage に保存できなかった場合と構造化出力の場合は、文書中にマーカーを入れさせない
+ */
+const buildContextText = (
+    keyframeAttachment: KeyframeAttachment | undefined,
+    subtitleContextText: string | undefined,
+    lostRanges: LostTimeRange[],
+    prompt: Prompt
+): string | undefined => {
+    const keyframeInstruction = keyframeAttachment && keyframeAttachment.storedKeyframes.length > 0 && !prompt.outputSchema
+        ? buildKeyframeInstruction(keyframeAttachment.images.length)
+        : undefined;
+    return [buildLostRangesInstruction(lostRanges), keyframeInstruction, subtitleContextText].filter(Boolean).join('\n\n') || undefined;
+};
+
+/**
+ * 生成結果から保存する本文を決める
+ * 構造化出力のプロンプトは検証済みデータを Markdown にした本文と、データ・スキーマを併せて保存する
+ */
+function toSavedDocument(prompt: Prompt, result: TranscriptionResult): { text: string; structuredOutput?: StructuredOutputRecord } {
+    if (prompt.outputSchema && result.structuredData) {
+        return {
+            text: structuredDataToMarkdown(result.structuredData, prompt.outputSchema),
+            structuredOutput: { schema: prompt.outputSchema, data: result.structuredData },
+        };
+    }
+    return { text: result.text ?? '' };
+}
+
+/**
+ * ファイル選択時に取得したメディア情報（取得中・失敗の場合は undefined）
+ */
+function getMediaInfo(file: FileWithPrompts): MediaProbeResult | undefined {
+    return file.mediaProbe?.status === 'done' ? file.mediaProbe.result : undefined;
+}
+
 export const useVideoProcessing = (
     availablePrompts: Prompt[],
     debugErrorMode: DebugErrorMode,
@@ -18,38 +98,450 @@ export const useVideoProcessing = (
     const [processingStatuses, setProcessingStatuses] = useState<FileProcessingStatus[]>([]);
     const [isProcessing, setIsProcessing] = useState(false);
     const [ffmpegLoaded, setFfmpegLoaded] = useState(false);
-    const converterRef = useRef<VideoConverter | null>(null);
-    const geminiClientRef = useRef<GeminiClient | null>(null);
-    const audioConversionQueueRef = useRef<boolean>(false);
+    // FFmpeg を読み込めなかった場合の理由（画面に案内を表示する）
+    const [ffmpegLoadError, setFfmpegLoadError] = useState<FFmpegLoadError | null>(null);
+    const converterRef = useRef<ConversionWorkerClient | null>(null);
+    // 音声変換中のファイル数（新規の処理と再開処理で共有し、再開処理は0になるまで変換を待つ）
+    const activeConversionCountRef = useRef<number>(0);
+    // 音声変換中のファイルごとの中止用コントローラー（useProcessingWorkflow が登録する）
+    const conversionAbortControllersRef = useRef<Map<number, AbortController>>(new Map());
+    // 文書生成中のファイルごとの中止用コントローラー
+    const transcriptionAbortControllersRef = useRef<Map<number, AbortController>>(new Map());
+    // 文書生成の並列数と送信順の制御（全ファイルで共有する）
+    const generationSchedulerRef = useRef<GenerationScheduler | null>(null);
+    // 送信順を決める時点の処理の順番を参照する
+    const processingStatusesRef = useRef<FileProcessingStatus[]>([]);
+
+    useEffect(() => {
+        processingStatusesRef.current = processingStatuses;
+    }, [processingStatuses]);
+
+    // ストリーミング受信中のテキストをプレビューに反映（text が null の場合はプレビューを削除）
+    const updateLivePreview = useCallback((fileIndex: number, prompt: Prompt, text: string | null) => {
+        setProcessingStatuses(prev =>
+            prev.map((status, idx) => {
+                if (idx !== fileIndex) {
+                    return status;
+                }
+                const livePreviews = { ...status.livePreviews };
+                if (text === null) {
+                    delete livePreviews[prompt.id!];
+                } else {
+                    // 構造化出力は生成途中のJSONをコードブロックとして表示する
+                    livePreviews[prompt.id!] = {
+                        promptName: prompt.name,
+                        text: prompt.outputSchema ? `\`\`\`json\n${text}\n\`\`\`` : text,
+                    };
+                }
+                return { ...status, livePreviews };
+            })
+        );
+    }, []);
 
-    // 文書生成処理（並列実行される）
-    const processTranscription = useCallback(async (
+    // 文書生成を並列数の上限と処理の順番に従って実行する（回数制限を受けた場合は間隔を空けて再送する）
+    const runScheduledGeneration = useCallback((
+        fileIndex: number,
+        modelKey: string,
+        settings: AudioConversionSettings,
+        abortSignal: AbortSignal,
+        generate: (options: Pick<DocumentGenerationOptions, 'onRateLimited'>) => Promise<TranscriptionResult>
+    ): Promise<TranscriptionResult> => {
+        const limits = {
+            globalConcurrency: settings.schedule.generationConcurrency,
+            perModelConcurrency: settings.schedule.perModelConcurrency,
+        };
+        if (generationSchedulerRef.current) {
+            generationSchedulerRef.current.setLimits(limits);
+        } else {
+            generationSchedulerRef.current = new GenerationScheduler(limits);
+        }
+        return generationSchedulerRef.current.run({
+            modelKey,
+            abortSignal,
+            getPriority: () => processingStatusesRef.current[fileIndex]?.queuePosition ?? fileIndex,
+        }, generate);
+    }, []);
+
+    // 画面を離れたら音声変換の Worker を終了してメモリを解放
+    useEffect(() => {
+        const converter = converterRef;
+        return () => {
+            converter.current?.terminate();
+            converter.current = null;
+        };
+    }, []);
+
+    // 処理中のファイルを中止（音声変換は実行中の区間の終了後、文書生成はストリーミング中の生成も途中で止める）
+    const cancelFile = useCallback((fileIndex: number) => {
+        const conversionController = conversionAbortControllersRef.current.get(fileIndex);
+        if (conversionController) {
+            videoProcessingLogger.info('音声変換の中止を要求', { fileIndex });
+            conversionController.abort();
+        }
+        const controller = transcriptionAbortControllersRef.current.get(fileIndex);
+        if (controller) {
+            videoProcessingLogger.info('文書生成の中止を要求', { fileIndex });
+            controller.abort();
+        }
+    }, []);
+
+    // 待機中のファイルの処理の順番を変える（前後の待機中のファイルと入れ替える。先頭は全ファイルより前にする）
+    const moveQueuedFile = useCallback((fileIndex: number, direction: QueueMoveDirection) => {
+        videoProcessingLogger.info('処理の順番を変更', { fileIndex, direction });
+        setProcessingStatuses(prev => {
+            const getPosition = (index: number) => prev[index].queuePosition ?? index;
+            if (prev[fileIndex]?.status !== 'waiting') {
+                return prev;
+            }
+            if (direction === 'top') {
+                const firstPosition = Math.min(...prev.map((_, index) => getPosition(index)));
+                return prev.map((status, index) =>
+                    index === fileIndex ? { ...status, queuePosition: firstPosition - 1 } : status
+                );
+            }
+            const queued = prev
+                .map((status, index) => ({ index, status }))
+                .filter(entry => entry.status.status === 'waiting')
+                .sort((a, b) => getPosition(a.index) - getPosition(b.index));
+            const current = queued.findIndex(entry => entry.index === fileIndex);
+            const target = queued[direction === 'up' ? current - 1 : current + 1];
+            if (!target) {
+                return prev;
+            }
+            const sourcePosition = getPosition(fileIndex);
+            const targetPosition = getPosition(target.index);
+            return prev.map((status, index) => {
+                if (index === fileIndex) {
+                    return { ...status, queuePosition: targetPosition };
+                }
+                if (index === target.index) {
+                    return { ...status, queuePosition: sourcePosition };
+                }
+                return status;
+            });
+        });
+    }, []);
+
+    // メディア情報を取得（音声変換と同じ Worker を使い、実行中の変換がある場合はその後に取得する）
+    const probeMedia = useCallback((file: File): Promise<MediaProbeResult> => {
+        if (!converterRef.current) {
+            converterRef.current = new ConversionWorkerClient();
+        }
+        return converterRef.current.probeMedia(file);
+    }, []);
+
+    // 埋め込み字幕を添付するテキストにする（字幕を使わない場合は undefined）
+    // 音声と一緒に添付する場合は取り出せなくても音声だけで続け、字幕だけで生成する場合はエラーにする
+    const loadSubtitleContext = useCallback(async (file: FileWithPrompts): Promise<string | undefined> => {
+        const { subtitleContext } = file;
+        if (!subtitleContext) {
+            return undefined;
+        }
+        try {
+            if (!converterRef.current) {
+                converterRef.current = new ConversionWorkerClient();
+            }
+            const srt = await converterRef.current.extractSubtitles(file.file, subtitleContext.streamIndex);
+            const contextText = buildSubtitleContextText(parseSrt(srt), subtitleContext.mode, file.trimRange);
+            if (!contextText) {
+                throw new Error('字幕トラックに字幕がありません（範囲を指定した場合は範囲内に字幕がありません）');
+            }
+            videoProcessingLogger.info('埋め込み字幕を添付', {
+                fileName: file.file.name,
+                streamIndex: subtitleContext.streamIndex,
+                mode: subtitleContext.mode,
+                contextTextLength: contextText.length,
+            });
+            return contextText;
+        } catch (error) {
+            if (subtitleContext.mode === 'subtitles_only') {
+                throw error;
+            }
+            videoProcessingLogger.warn('字幕を取り出せないため、音声だけで生成', {
+                fileName: file.file.name,
+                error: String(error),
+            });
+            return undefined;
+        }
+    }, []);
+
+    // 動画の場面（スライド・画面）の画像を取り出し、添付用の Base64 と Storage への保存を並列で行う
+    // 設定で無効な場合（無音を削除する場合を含む）・映像がない場合は undefined。取り出せなくても音声だけで続ける
+    // 再開時は前回 Storage に保存した画像を使い、同じ画像を再びアップロードしない
+    const loadKeyframes = useCallback(async (
+        file: FileWithPrompts,
+        fileIndex: number,
+        settings: AudioConversionSettings
+    ): Promise<KeyframeAttachment | undefined> => {
+        const hasVideo = file.file.type.startsWith('video/')
+            && (file.mediaProbe?.status !== 'done' || Boolean(file.mediaProbe.result.video));
+        if (!shouldAttachKeyframes(settings) || !hasVideo) {
+            return undefined;
+        }
+        try {
+            if (!converterRef.current) {
+                converterRef.current = new ConversionWorkerClient();
+            }
+            const keyframes = await converterRef.current.extractKeyframes(file.file, file.trimRange);
+            if (keyframes.length === 0) {
+                return undefined;
+            }
+            const cachedKeyframes = processingStatusesRef.current[fileIndex]?.storedKeyframes;
+            const reusesStoredKeyframes = cachedKeyframes?.length === keyframes.length;
+            const [images, storedKeyframes] = await Promise.all([
+                Promise.all(keyframes.map(async (keyframe, index) => ({
+                    mimeType: keyframe.image.type,
+                    base64Data: await blobToBase64(keyframe.image),
+                    label: buildKeyframeLabel(index, keyframe.time),
+                }))),
+                reusesStoredKeyframes ? cachedKeyframes : uploadKeyframesToStorage(keyframes, file.file.name),
+            ]);
+            if (!reusesStoredKeyframes && storedKeyframes.length > 0) {
+                setProcessingStatuses(prev =>
+                    prev.map((status, idx) => idx === fileIndex ? { ...status, storedKeyframes } : status)
+                );
+            }
+            videoProcessingLogger.info('場面の画像を添付', {
+                fileName: file.file.name,
+                keyframeCount: keyframes.length,
+                storedKeyframeCount: storedKeyframes.length,
+                reusesStoredKeyframes,
+            });
+            return { images, storedKeyframes };
+        } catch (error) {
+            videoProcessingLogger.warn('場面の画像を取り出せないため、画像なしで生成', {
+                fileName: file.file.name,
+                error: String(error),
+            });
+            return undefined;
+        }
+    }, []);
+
+    // マップリデュース生成の区間グループを1つの音声に結合して Storage に保存する
+    // 結合・保存できなくても文書生成は続ける（保存先のパスなしで文書を保存する）
+    const uploadGroupedAudio = useCallback(async (
+        file: FileWithPrompts,
+        groups: MapReduceGroup[],
+        settings: AudioConversionSettings
+    ): Promise<string | undefined> => {
+        const { bitrate, sampleRate } = getEffectiveEncoding(settings);
+        try {
+            if (!converterRef.current) {
+                converterRef.current = new ConversionWorkerClient();
+            }
+            const concatResult = await converterRef.current.concatenateAudioSegments(groups.map(group => group.audioBlob));
+            if (!concatResult.success || !concatResult.outputBlob) {
+                throw new Error(concatResult.error || '音声結合に失敗しました');
+            }
+            const storagePath = await uploadAudioToStorage(concatResult.outputBlob, file.file.name, {
+                originalFileName: file.file.name,
+                originalFileType: file.file.type.startsWith('video/') ? 'video' : 'audio',
+                bitrate,
+                sampleRate: String(sampleRate),
+            });
+            return storagePath ?? undefined;
+        } catch (error) {
+            videoProcessingLogger.warn('区間グループの音声を保存できないため、音声なしで文書を保存', {
+                fileName: file.file.name,
+                error: String(error),
+            });
+            return undefined;
+        }
+    }, []);
+
+    // 事前アップロードの進捗を反映（アップロードしない場合は呼ばれない）
+    const updateMediaUploadProgress = useCallback((fileIndex: number, ratio: number) => {
+        setProcessingStatuses(prev =>
+            prev.map((status, idx) =>
+                idx === fileIndex
+                    ? { ...status, phase: 'media_upload', mediaUploadProgress: Math.round(ratio * 100) }
+                    : status
+            )
+        );
+    }, []);
+
+    // プロンプトごとに文書を生成して保存する（並列数の上限まで同時に送信し、保存したプロンプトを完了として記録する）
+    // 生成に失敗したプロンプトがある場合は TranscriptionError を投げる
+    const generateAndSaveDocuments = useCallback(async (
+        file: FileWithPrompts,
+        fileIndex: number,
+        prompts: Prompt[],
+        settings: AudioConversionSettings,
+        abortSignal: AbortSignal,
+        buildRequest: (prompt: Prompt) => DocumentGenerationRequest,
+        saveOptions: DocumentSaveOptions
+    ) => {
+        const { bitrate, sampleRate } = getEffectiveEncoding(settings);
+        const originalFileType = file.file.type.startsWith('video/') ? 'video' as const : 'audio' as const;
+
+        await Promise.all(
+            prompts.map(async (prompt) => {
+                try {
+                    videoProcessingLogger.info(`プロンプト「${prompt.name}」の処理を開始`, {
+                        fileIndex,
+                        promptId: prompt.id,
+                        promptModel: prompt.model,
+                        promptProvider: prompt.provider,
+                    });
+
+                    const result = await runScheduledGeneration(
+                        fileIndex,
+                        `${prompt.provider}:${prompt.model}`,
+                        settings,
+                        abortSignal,
+                        (scheduleOptions) => getTranscriptionProvider(prompt.provider).generateDocument(buildRequest(prompt), {
+                            ...scheduleOptions,
+                            abortSignal,
+                            // 再試行で生成をやり直す場合は空文字列が届くため、プレビューを一旦消す
+                            onPartialText: (text) => updateLivePreview(fileIndex, prompt, text || null),
+                        })
+                    );
+
+                    videoProcessingLogger.info(`プロンプト「${prompt.name}」の文書生成呼び出し完了`, {
+                        fileIndex,
+                        promptId: prompt.id,
+                        success: result.success,
+                        textLength: result.text?.length,
+                    });
+
+                    if (!result.success || !result.text) {
+                        throw new TranscriptionError(
+                            result.errorCode ?? 'unknown',
+                            result.error || saveOptions.fallbackErrorMessage
+                        );
+                    }
+
+                    const additionalUsage = saveOptions.takeAdditionalUsage?.(prompt);
+                    const usage = result.usage && additionalUsage
+                        ? addTokenUsage(result.usage, additionalUsage)
+                        : result.usage ?? additionalUsage;
+
+                    // Firestoreに保存
+                    const savedDocument = toSavedDocument(prompt, result);
+                    await saveTranscription(
+                        file.file.name,
+                        withLostRangesNote(savedDocument.text, saveOptions.lostRanges),
+                        prompt.name,
+                        originalFileType,
+                        bitrate,
+                        sampleRate,
+                        undefined,
+                        saveOptions.audioStoragePath,
+                        usage,
+                        savedDocument.structuredOutput,
+                        settings,
+                        getMediaInfo(file),
+                        file.trimRange,
+                        saveOptions.keyframes
+                    );
+                    videoProcessingLogger.info('Firestoreへの保存が完了', {
+                        fileIndex,
+                        promptId: prompt.id,
+                    });
+
+                    updateLivePreview(fileIndex, prompt, null);
+
+                    // 文書一覧を更新
+                    if (onDocumentSaved) {
+                        onDocumentSaved();
+                    }
+
+                    // 進捗を更新（完了したプロンプトIDを記録）
+                    setProcessingStatuses(prev =>
+                        prev.map((status, idx) =>
+                            idx === fileIndex
+                                ? {
+                                    ...status,
+                                    transcriptionCount: status.transcriptionCount + 1,
+                                    completedPromptIds: [...status.completedPromptIds, prompt.id!],
+                                }
+                                : status
+                        )
+                    );
+                } catch (promptError) {
+                    videoProcessingLogger.error(
+                        `プロンプト「${prompt.name}」での文書生成中にエラー`,
+                        promptError,
+                        { promptId: prompt.id, fileIndex }
+                    );
+                    throw promptError;
+                }
+            })
+        );
+    }, [onDocumentSaved, runScheduledGeneration, updateLivePreview]);
+
+    // 文書生成が失敗・中止されたことを反映する
+    const markTranscriptionFailed = useCallback((fileIndex: number, error: unknown, abortSignal: AbortSignal) => {
+        setProcessingStatuses(prev =>
+            prev.map((status, idx) =>
+                idx === fileIndex
+                    ? {
+                        ...status,
+                        status: 'error',
+                        error: error instanceof Error ? error.message : '不明なエラー',
+                        errorCode: abortSignal.aborted
+                            ? 'cancelled'
+                            : error instanceof TranscriptionError ? error.code : undefined,
+                        failedPhase: 'text_generation',
+                        livePreviews: undefined,
+                    }
+                    : status
+            )
+        );
+    }, []);
+
+    // 文書生成処理（開始・再開共通 - 未完了のプロンプトのみ処理）
+    const runTranscription = useCallback(async (
         file: FileWithPrompts,
         fileIndex: number,
-        audioBlob: Blob,
-        bitrate: string,
-        sampleRate: number
+        audioBlob: Blob | null, // 字幕だけで生成する場合は null
+        completedPromptIds: string[],
+        settings: AudioConversionSettings,
+        isResume: boolean
     ) => {
+        const { bitrate, sampleRate } = getEffectiveEncoding(settings);
+        const abortController = new AbortController();
+        transcriptionAbortControllersRef.current.set(fileIndex, abortController);
+
         try {
             // デバッグ用: 意図的にGeminiエラーを発生させる
             if (debugErrorMode.geminiError && fileIndex === debugErrorMode.errorAtFileIndex) {
                 throw new Error('[デバッグ] 意図的に発生させたGemini APIエラー');
             }
 
-            // 文書生成開始
+            // 文書生成開始（再開時は生成済みの文書数を引き継ぐ）
             setProcessingStatuses(prev =>
                 prev.map((status, idx) =>
                     idx === fileIndex
-                        ? { ...status, status: 'transcribing', phase: 'text_generation', transcriptionCount: 0 }
+                        ? {
+                            ...status,
+                            status: 'transcribing',
+                            phase: 'text_generation',
+                            error: undefined,
+                            errorCode: undefined,
+                            transcriptionCount: isResume ? status.transcriptionCount : 0,
+                        }
                         : status
                 )
             );
 
-            // 選択されたプロンプト情報を取得
+            // 選択されたプロンプトのうち、未完了のものだけを取得
             const selectedPrompts = availablePrompts.filter(p =>
-                file.selectedPromptIds.includes(p.id!)
+                file.selectedPromptIds.includes(p.id!) && !completedPromptIds.includes(p.id!)
             );
 
+            // 未完了のプロンプトがない場合は完了扱い
+            if (selectedPrompts.length === 0) {
+                setProcessingStatuses(prev =>
+                    prev.map((status, idx) =>
+                        idx === fileIndex
+                            ? { ...status, status: 'completed', phase: 'completed' }
+                            : status
+                    )
+                );
+                return;
+            }
+
             // プロンプト利用権限をチェック
             for (const prompt of selectedPrompts) {
                 try {
@@ -62,127 +554,87 @@ export const useVideoProcessing = (
                 }
             }
 
-            videoProcessingLogger.info('文書生成を開始', {
+            videoProcessingLogger.info(isResume ? '文書生成を再開' : '文書生成を開始', {
                 fileName: file.file.name,
                 fileIndex,
                 promptCount: selectedPrompts.length,
                 promptNames: selectedPrompts.map(p => p.name),
-                blobMimeType: audioBlob.type,
-                blobSizeInMB: (audioBlob.size / 1024 / 1024).toFixed(2),
+                blobMimeType: audioBlob?.type,
+                blobSizeInMB: audioBlob ? (audioBlob.size / 1024 / 1024).toFixed(2) : undefined,
             });
 
-            // 同一Blobを複数FileReaderで同時読みすると大容量で空になることがあるため、
-            // Base64は1回だけ取得し、全プロンプトで共有する
-            const mimeType = audioBlob.type || (audioBlob.type?.startsWith('video/') ? 'video/mp4' : 'audio/mpeg');
+            // 大容量のメディアはプロバイダーへ事前アップロードし、それ以外は Base64 を1回だけ取得して全プロンプトで共有する
+            const mimeType = audioBlob?.type || 'audio/mpeg';
             const originalFileType = file.file.type.startsWith('video/') ? 'video' as const : 'audio' as const;
+            // 変換をスキップした区間（文書に含まれない範囲）
+            const lostRanges = getLostTimeRanges(processingStatusesRef.current[fileIndex]?.segments ?? []);
+
+            // 動画を直接送信する場合は映像ごと送るため、場面の画像は添付しない
+            const keyframeAttachmentPromise = mimeType.startsWith('video/')
+                ? Promise.resolve(undefined)
+                : loadKeyframes(file, fileIndex, settings);
+
+            // 送信用メディアの準備・Storage アップロード・埋め込み字幕と場面の画像の取り出しを並列実行（字幕だけで生成する場合は音声を扱わない）
+            // 送信用メディアは、一緒に送る画像を含めてインライン送信の上限を判定するため、画像の取り出しを待ってから準備する
+            const preparedMediaPromise = audioBlob
+                ? keyframeAttachmentPromise.then(attachment => prepareMediaForProviders(selectedPrompts.map(p => p.provider), audioBlob, {
+                    fileName: file.file.name,
+                    mimeType,
+                    images: attachment?.images,
+                    abortSignal: abortController.signal,
+                    onProgress: (ratio) => updateMediaUploadProgress(fileIndex, ratio),
+                }))
+                : Promise.resolve(new Map<TranscriptionProviderId, TranscriptionMedia>());
+            const [preparedMedia, audioStoragePath, subtitleContextText, keyframeAttachment] = await Promise.all([
+                preparedMediaPromise,
+                audioBlob
+                    ? uploadAudioToStorage(audioBlob, file.file.name, {
+                        originalFileName: file.file.name,
+                        originalFileType,
+                        bitrate,
+                        sampleRate: String(sampleRate),
+                    })
+                    : null,
+                loadSubtitleContext(file),
+                keyframeAttachmentPromise,
+            ]).catch(async (error) => {
+                // 他の処理が失敗した場合も、準備の終わった事前アップロードは削除する
+                await preparedMediaPromise.then(releasePreparedMedia, () => undefined);
+                throw error;
+            });
 
-            // Base64変換と Storage アップロードを並列実行
-            const [base64Data, audioStoragePath] = await Promise.all([
-                geminiClientRef.current!.getBase64(audioBlob).catch((base64Error) => {
-                    videoProcessingLogger.error('Base64変換に失敗', base64Error, { fileIndex });
-                    throw new Error('音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。');
-                }),
-                uploadAudioToStorage(audioBlob, file.file.name, {
-                    originalFileName: file.file.name,
-                    originalFileType,
-                    bitrate,
-                    sampleRate: String(sampleRate),
-                }),
-            ]);
-
-            if (!base64Data || base64Data.length === 0) {
-                videoProcessingLogger.error('Base64データが空です', { fileIndex, blobSize: audioBlob.size });
-                throw new Error('音声/動画データの読み取りに失敗しました。');
-            }
-
-            // 各プロンプトで文書生成（並列処理・同一Base64を共有）
-            await Promise.all(
-                selectedPrompts.map(async (prompt) => {
-                    try {
-                        const isVideoBlob = mimeType.startsWith('video/');
-                        videoProcessingLogger.info(`プロンプト「${prompt.name}」の処理を開始`, {
-                            fileIndex,
-                            promptId: prompt.id,
-                            promptModel: prompt.model,
-                            isVideoBlob,
-                        });
-
-                        const transcriptionResult = await geminiClientRef.current!.transcribeWithBase64(
-                            base64Data,
-                            mimeType,
-                            file.file.name,
-                            prompt.content,
-                            prompt.model
-                        );
-
-                        videoProcessingLogger.info(`プロンプト「${prompt.name}」の Gemini API 呼び出し完了`, {
-                            fileIndex,
-                            promptId: prompt.id,
-                            success: transcriptionResult.success,
-                            textLength: transcriptionResult.text?.length,
-                        });
-
-                        if (transcriptionResult.success && transcriptionResult.text) {
-                            videoProcessingLogger.info('Firestoreへ保存を開始', {
-                                fileIndex,
-                                promptId: prompt.id,
-                                promptName: prompt.name,
-                            });
-                            // Firestoreに保存
-                            await saveTranscription(
-                                file.file.name,
-                                transcriptionResult.text,
-                                prompt.name,
-                                originalFileType,
-                                bitrate,
-                                sampleRate,
-                                undefined,
-                                audioStoragePath ?? undefined
-                            );
-                            videoProcessingLogger.info('Firestoreへの保存が完了', {
-                                fileIndex,
-                                promptId: prompt.id,
-                            });
-
-                            // 文書一覧を更新
-                            if (onDocumentSaved) {
-                                onDocumentSaved();
-                            }
-
-                            // 進捗を更新（完了したプロンプトIDを記録）
-                            setProcessingStatuses(prev =>
-                                prev.map((status, idx) => {
-                                    if (idx === fileIndex) {
-                                        const newCount = status.transcriptionCount + 1;
-                                        const completedPromptIds = [...status.completedPromptIds, prompt.id!];
-                                        return {
-                                            ...status,
-                                            transcriptionCount: newCount,
-                                            completedPromptIds,
-                                        };
-                                    }
-                                    return status;
-                                })
-                            );
-                        } else if (!transcriptionResult.success) {
-                            videoProcessingLogger.error(
-                                `プロンプト「${prompt.name}」での文書生成が失敗`,
-                                transcriptionResult.error,
-                                { promptId: prompt.id, fileIndex }
-                            );
-                            throw new Error(transcriptionResult.error || 'Gemini API処理失敗');
-                        }
-                    } catch (promptError) {
-                        videoProcessingLogger.error(
-                            `プロンプト「${prompt.name}」での文書生成中にエラー`,
-                            promptError,
-                            { promptId: prompt.id, fileIndex }
-                        );
-                        throw promptError;
-                    }
-                })
+            setProcessingStatuses(prev =>
+                prev.map((status, idx) =>
+                    idx === fileIndex
+                        ? { ...status, phase: 'text_generation' }
+                        : status
+                )
             );
 
+            // 各プロンプトで文書生成（準備済みメディアを共有し、完了後に事前アップロード分を削除）
+            await generateAndSaveDocuments(
+                file,
+                fileIndex,
+                selectedPrompts,
+                settings,
+                abortController.signal,
+                (prompt) => ({
+                    media: preparedMedia.get(prompt.provider),
+                    contextText: buildContextText(keyframeAttachment, subtitleContextText, lostRanges, prompt),
+                    images: keyframeAttachment?.images,
+                    fileName: file.file.name,
+                    prompt: prompt.content,
+                    model: prompt.model,
+                    outputSchema: prompt.outputSchema,
+                }),
+                {
+                    audioStoragePath: audioStoragePath ?? undefined,
+                    keyframes: keyframeAttachment?.storedKeyframes,
+                    lostRanges,
+                    fallbackErrorMessage: '文書生成処理失敗',
+                }
+            ).finally(() => releasePreparedMedia(preparedMedia));
+
             // 完了
             setProcessingStatuses(prev =>
                 prev.map((status, idx) =>
@@ -194,212 +646,244 @@ export const useVideoProcessing = (
         } catch (error) {
             videoProcessingLogger.error(`ファイル ${file.file.name} の文書生成に失敗`, error, {
                 fileIndex,
+                resume: isResume,
             });
-            setProcessingStatuses(prev =>
-                prev.map((status, idx) =>
-                    idx === fileIndex
-                        ? {
-                            ...status,
-                            status: 'error',
-                            error: error instanceof Error ? error.message : '不明なエラー',
-                            failedPhase: 'text_generation'
-                        }
-                        : status
-                )
-            );
+            markTranscriptionFailed(fileIndex, error, abortController.signal);
+        } finally {
+            if (transcriptionAbortControllersRef.current.get(fileIndex) === abortController) {
+                transcriptionAbortControllersRef.current.delete(fileIndex);
+            }
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [availablePrompts, debugErrorMode]);
+    }, [
+        availablePrompts,
+        debugErrorMode,
+        generateAndSaveDocuments,
+        loadKeyframes,
+        loadSubtitleContext,
+        markTranscriptionFailed,
+        updateMediaUploadProgress,
+    ]);
+
+    // 文書生成処理（並列実行される）
+    const processTranscription = useCallback((
+        file: FileWithPrompts,
+        fileIndex: number,
+        audioBlob: Blob | null,
+        settings: AudioConversionSettings
+    ) => runTranscription(file, fileIndex, audioBlob, [], settings, false), [runTranscription]);
 
     // 文書生成処理（再開用 - 未完了のプロンプトのみ処理）
-    const processTranscriptionResume = useCallback(async (
+    const processTranscriptionResume = useCallback((
+        file: FileWithPrompts,
+        fileIndex: number,
+        audioBlob: Blob | null,
+        completedPromptIds: string[],
+        settings: AudioConversionSettings
+    ) => runTranscription(file, fileIndex, audioBlob, completedPromptIds, settings, true), [runTranscription]);
+
+    // 文書生成処理（マップリデュース: 区間グループごとに書き出してから統合、開始・再開共通）
+    const processMapReduceTranscription = useCallback(async (
         file: FileWithPrompts,
         fileIndex: number,
-        audioBlob: Blob,
+        groups: MapReduceGroup[],
         completedPromptIds: string[],
-        bitrate: string,
-        sampleRate: number
+        cachedMapResults: Record<string, string>,
+        settings: AudioConversionSettings
     ) => {
+        const abortController = new AbortController();
+        transcriptionAbortControllersRef.current.set(fileIndex, abortController);
+
         try {
             // デバッグ用: 意図的にGeminiエラーを発生させる
             if (debugErrorMode.geminiError && fileIndex === debugErrorMode.errorAtFileIndex) {
                 throw new Error('[デバッグ] 意図的に発生させたGemini APIエラー');
             }
 
-            // 文書生成開始
-            setProcessingStatuses(prev =>
-                prev.map((status, idx) =>
-                    idx === fileIndex
-                        ? { ...status, status: 'transcribing', phase: 'text_generation', error: undefined }
-                        : status
-                )
-            );
-
-            // 選択されたプロンプトのうち、未完了のものだけを取得
             const selectedPrompts = availablePrompts.filter(p =>
                 file.selectedPromptIds.includes(p.id!) && !completedPromptIds.includes(p.id!)
             );
-
-            // 未完了のプロンプトがない場合は完了扱い
-            if (selectedPrompts.length === 0) {
-                setProcessingStatuses(prev =>
-                    prev.map((status, idx) =>
-                        idx === fileIndex
-                            ? { ...status, status: 'completed', phase: 'completed' }
-                            : status
-                    )
-                );
-                return;
+            for (const prompt of selectedPrompts) {
+                validatePromptPermission(prompt);
             }
 
-            videoProcessingLogger.info('文書生成を再開', {
+            // マップ生成はプロバイダー・モデルの組み合わせごとに1回だけ行い、同じモデルのプロンプト間で共有する
+            const mapTargets = Array.from(
+                new Map(selectedPrompts.map(p => [`${p.provider}:${p.model}`, { provider: p.provider, model: p.model }])).values()
+            );
+            const mapResults: Record<string, string> = { ...cachedMapResults };
+            const mapTasks = mapTargets.flatMap(target =>
+                groups.map(group => ({ ...target, group, key: getMapResultKey(target.provider, target.model, group.groupIndex) }))
+            );
+            const pendingMapTasks = mapTasks.filter(task => mapResults[task.key] === undefined);
+            // 今回の実行で発生したマップ生成の使用量（モデルごとに、そのモデルで最初に保存する統合文書へ計上する）
+            const mapUsageByModel = new Map<string, TokenUsage>();
+            const mimeType = groups[0]?.audioBlob.type || 'audio/mpeg';
+            // 変換をスキップした区間（文書に含まれない範囲）
+            const lostRanges = getLostTimeRanges(processingStatusesRef.current[fileIndex]?.segments ?? []);
+
+            videoProcessingLogger.info('マップリデュース生成を開始', {
                 fileName: file.file.name,
                 fileIndex,
+                groupCount: groups.length,
                 promptCount: selectedPrompts.length,
-                promptNames: selectedPrompts.map(p => p.name),
-                blobMimeType: audioBlob.type,
-                blobSizeInMB: (audioBlob.size / 1024 / 1024).toFixed(2),
+                mapTaskCount: mapTasks.length,
+                cachedMapTaskCount: mapTasks.length - pendingMapTasks.length,
             });
 
-            // Base64は1回だけ取得し、全プロンプトで共有する（大容量時の空データ対策）
-            const mimeType = audioBlob.type || (audioBlob.type?.startsWith('video/') ? 'video/mp4' : 'audio/mpeg');
-            const originalFileType = file.file.type.startsWith('video/') ? 'video' as const : 'audio' as const;
+            setProcessingStatuses(prev =>
+                prev.map((status, idx) =>
+                    idx === fileIndex
+                        ? {
+                            ...status,
+                            status: 'transcribing',
+                            phase: 'map_generation',
+                            error: undefined,
+                            errorCode: undefined,
+                            mapProgress: { completed: mapTasks.length - pendingMapTasks.length, total: mapTasks.length },
+                        }
+                        : status
+                )
+            );
 
-            // Base64変換と Storage アップロードを並列実行
-            const [base64Data, audioStoragePath] = await Promise.all([
-                geminiClientRef.current!.getBase64(audioBlob).catch((base64Error) => {
-                    videoProcessingLogger.error('Base64変換に失敗（再開）', base64Error, { fileIndex });
-                    throw new Error('音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。');
-                }),
-                uploadAudioToStorage(audioBlob, file.file.name, {
-                    originalFileName: file.file.name,
-                    originalFileType,
-                    bitrate,
-                    sampleRate: String(sampleRate),
-                }),
+            // 文書と一緒に保存する音声と、統合時に添付する場面の画像・埋め込み字幕は、マップ生成と並行して用意する
+            // （いずれも用意できなくても文書生成は続ける）
+            const attachmentsPromise = Promise.all([
+                uploadGroupedAudio(file, groups, settings),
+                loadKeyframes(file, fileIndex, settings),
+                loadSubtitleContext(file),
             ]);
 
-            if (!base64Data || base64Data.length === 0) {
-                videoProcessingLogger.error('Base64データが空です（再開）', { fileIndex, blobSize: audioBlob.size });
-                throw new Error('音声/動画データの読み取りに失敗しました。');
-            }
+            // マップ: 区間グループごとに内容を書き出す（結果はステータスにキャッシュし、再開時に再利用）
+            await runWithConcurrency(pendingMapTasks, MAP_REDUCE_CONFIG.MAP_CONCURRENCY, async (task) => {
+                const preparedMedia = await prepareMediaForProviders([task.provider], task.group.audioBlob, {
+                    fileName: `${file.file.name} (区間${task.group.groupIndex + 1})`,
+                    mimeType,
+                    abortSignal: abortController.signal,
+                });
 
-            // 各プロンプトで文書生成（並列処理・同一Base64を共有）
-            await Promise.all(
-                selectedPrompts.map(async (prompt) => {
-                    try {
-                        const isVideoBlob = mimeType.startsWith('video/');
-                        videoProcessingLogger.info(`プロンプト「${prompt.name}」の処理を開始（再開）`, {
-                            fileIndex,
-                            promptId: prompt.id,
-                            promptModel: prompt.model,
-                            isVideoBlob,
-                        });
-
-                        const transcriptionResult = await geminiClientRef.current!.transcribeWithBase64(
-                            base64Data,
-                            mimeType,
-                            file.file.name,
-                            prompt.content,
-                            prompt.model
+                try {
+                    const media = preparedMedia.get(task.provider);
+                    if (!media) {
+                        throw new TranscriptionError('unknown', `区間${task.group.groupIndex + 1}の音声を送信用に準備できませんでした`);
+                    }
+                    const mapResult = await runScheduledGeneration(
+                        fileIndex,
+                        `${task.provider}:${task.model}`,
+                        settings,
+                        abortController.signal,
+                        (scheduleOptions) => getTranscriptionProvider(task.provider).generateDocument({
+                            media,
+                            fileName: file.file.name,
+                            prompt: buildMapPrompt(task.group, groups.length),
+                            model: task.model,
+                        }, { ...scheduleOptions, abortSignal: abortController.signal })
+                    );
+
+                    if (!mapResult.success || !mapResult.text) {
+                        throw new TranscriptionError(
+                            mapResult.errorCode ?? 'unknown',
+                            mapResult.error || `区間${task.group.groupIndex + 1}の文書生成に失敗しました`
                         );
+                    }
 
-                        videoProcessingLogger.info(`プロンプト「${prompt.name}」の Gemini API 呼び出し完了（再開）`, {
-                            fileIndex,
-                            promptId: prompt.id,
-                            success: transcriptionResult.success,
-                            textLength: transcriptionResult.text?.length,
-                        });
-
-                        if (transcriptionResult.success && transcriptionResult.text) {
-                            videoProcessingLogger.info('Firestoreへ保存を開始（再開）', {
-                                fileIndex,
-                                promptId: prompt.id,
-                                promptName: prompt.name,
-                            });
-                            // Firestoreに保存
-                            await saveTranscription(
-                                file.file.name,
-                                transcriptionResult.text,
-                                prompt.name,
-                                originalFileType,
-                                bitrate,
-                                sampleRate,
-                                undefined,
-                                audioStoragePath ?? undefined
-                            );
-                            videoProcessingLogger.info('Firestoreへの保存が完了（再開）', {
-                                fileIndex,
-                                promptId: prompt.id,
-                            });
-
-                            // 文書一覧を更新
-                            if (onDocumentSaved) {
-                                onDocumentSaved();
-                            }
-
-                            // 進捗を更新（完了したプロンプトIDを記録）
-                            setProcessingStatuses(prev =>
-                                prev.map((status, idx) => {
-                                    if (idx === fileIndex) {
-                                        const newCount = status.transcriptionCount + 1;
-                                        const newCompletedPromptIds = [...status.completedPromptIds, prompt.id!];
-                                        return {
-                                            ...status,
-                                            transcriptionCount: newCount,
-                                            completedPromptIds: newCompletedPromptIds,
-                                        };
-                                    }
-                                    return status;
-                                })
-                            );
-                        } else if (!transcriptionResult.success) {
-                            videoProcessingLogger.error(
-                                `プロンプト「${prompt.name}」での文書生成が失敗`,
-                                transcriptionResult.error,
-                                { promptId: prompt.id, fileIndex }
-                            );
-                            throw new Error(transcriptionResult.error || 'Gemini API処理失敗');
-                        }
-                    } catch (promptError) {
-                        videoProcessingLogger.error(
-                            `プロンプト「${prompt.name}」での文書生成中にエラー`,
-                            promptError,
-                            { promptId: prompt.id, fileIndex }
-                        );
-                        throw promptError;
+                    mapResults[task.key] = mapResult.text;
+                    if (mapResult.usage) {
+                        const modelKey = `${task.provider}:${task.model}`;
+                        const accumulated = mapUsageByModel.get(modelKey);
+                        mapUsageByModel.set(modelKey, accumulated ? addTokenUsage(accumulated, mapResult.usage) : mapResult.usage);
                     }
-                })
-            );
+                    setProcessingStatuses(prev =>
+                        prev.map((status, idx) =>
+                            idx === fileIndex
+                                ? {
+                                    ...status,
+                                    mapResults: { ...status.mapResults, [task.key]: mapResult.text! },
+                                    mapProgress: {
+                                        completed: (status.mapProgress?.completed ?? 0) + 1,
+                                        total: mapTasks.length,
+                                    },
+                                }
+                                : status
+                        )
+                    );
+                } finally {
+                    await releasePreparedMedia(preparedMedia);
+                }
+            });
 
-            // 完了
+            // リデュース: プロンプトごとに区間の書き出しを統合して文書を作る
+            const [audioStoragePath, keyframeAttachment, subtitleContextText] = await attachmentsPromise;
             setProcessingStatuses(prev =>
                 prev.map((status, idx) =>
                     idx === fileIndex
-                        ? { ...status, status: 'completed', phase: 'completed' }
+                        ? { ...status, phase: 'text_generation' }
                         : status
                 )
             );
-        } catch (error) {
-            videoProcessingLogger.error(`ファイル ${file.file.name} の文書生成に失敗`, error, {
+
+            await generateAndSaveDocuments(
+                file,
                 fileIndex,
-                resume: true,
-            });
+                selectedPrompts,
+                settings,
+                abortController.signal,
+                (prompt) => {
+                    const mapTexts = groups.map(group => mapResults[getMapResultKey(prompt.provider, prompt.model, group.groupIndex)]);
+                    const { prompt: reducePrompt, contextText } = buildReduceRequest(prompt.content, groups, mapTexts, lostRanges);
+                    return {
+                        // 場面の画像の指示と埋め込み字幕は区間ごとの書き出しの後ろに添付する（欠落した範囲はプロンプトで示す）
+                        contextText: [contextText, buildContextText(keyframeAttachment, subtitleContextText, [], prompt)]
+                            .filter(Boolean)
+                            .join('\n\n'),
+                        images: keyframeAttachment?.images,
+                        fileName: file.file.name,
+                        prompt: reducePrompt,
+                        model: prompt.model,
+                        outputSchema: prompt.outputSchema,
+                    };
+                },
+                {
+                    audioStoragePath,
+                    keyframes: keyframeAttachment?.storedKeyframes,
+                    lostRanges,
+                    // マップ生成の使用量は、そのモデルで最初に保存する統合文書へ計上する
+                    takeAdditionalUsage: (prompt) => {
+                        const modelKey = `${prompt.provider}:${prompt.model}`;
+                        const mapUsage = mapUsageByModel.get(modelKey);
+                        mapUsageByModel.delete(modelKey);
+                        return mapUsage;
+                    },
+                    fallbackErrorMessage: '文書の統合に失敗しました',
+                }
+            );
+
             setProcessingStatuses(prev =>
                 prev.map((status, idx) =>
                     idx === fileIndex
-                        ? {
-                            ...status,
-                            status: 'error',
-                            error: error instanceof Error ? error.message : '不明なエラー',
-                            failedPhase: 'text_generation'
-                        }
+                        ? { ...status, status: 'completed', phase: 'completed' }
                         : status
                 )
             );
+        } catch (error) {
+            videoProcessingLogger.error(`ファイル ${file.file.name} のマップリデュース生成に失敗`, error, {
+                fileIndex,
+            });
+            markTranscriptionFailed(fileIndex, error, abortController.signal);
+        } finally {
+            if (transcriptionAbortControllersRef.current.get(fileIndex) === abortController) {
+                transcriptionAbortControllersRef.current.delete(fileIndex);
+            }
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [availablePrompts, debugErrorMode]);
+    }, [
+        availablePrompts,
+        debugErrorMode,
+        generateAndSaveDocuments,
+        loadKeyframes,
+        loadSubtitleContext,
+        markTranscriptionFailed,
+        runScheduledGeneration,
+        uploadGroupedAudio,
+    ]);
 
     return {
         processingStatuses,
@@ -408,11 +892,18 @@ export const useVideoProcessing = (
         setIsProcessing,
         ffmpegLoaded,
         setFfmpegLoaded,
+        ffmpegLoadError,
+        setFfmpegLoadError,
         converterRef,
-        geminiClientRef,
-        audioConversionQueueRef,
+        activeConversionCountRef,
+        conversionAbortControllersRef,
+        processingStatusesRef,
         processTranscription,
         processTranscriptionResume,
+        processMapReduceTranscription,
+        cancelFile,
+        moveQueuedFile,
+        probeMedia,
     };
 };
 
@@ -15,13 +15,34 @@ export interface DefaultPromptTemplate {
     model?: string;
 }
 
+/**
+ * プラン（ユーザーごとの月間上限、0 は無制限）
+ */
+export interface PlanTier {
+    id: string;
+    name: string;
+    monthlyMediaMinutes: number; // 処理できる動画・音声の長さ（分）
+    monthlyDocuments: number; // 生成できる文書数
+    monthlyStorageBytes: number; // Storage に保存できる音声のサイズ（バイト）
+}
+
 export interface AdminSettings {
     maxPromptSize: number; // バイト単位
     maxDocumentSize: number; // バイト単位
+    /**
+     * 1時間あたりの作成上限（0 は無制限）
+     * ゲストは全員で1つの枠（ownerId "GUEST"）を共有する
+     */
     rateLimit: {
-        promptsPerHour: number;
+        promptsPerHour: number; // ログインユーザー（ユーザーごと）
         documentsPerHour: number;
+        guestPromptsPerHour: number; // ゲスト（全ゲスト合計）
+        guestDocumentsPerHour: number;
     };
+    /** ログインユーザーに割り当てるプラン一覧（ゲストには適用しない） */
+    planTiers: PlanTier[];
+    /** プランが割り当てられていないユーザーに適用するプラン */
+    defaultPlanTierId: string;
     defaultPrompts?: DefaultPromptTemplate[];
     updatedAt?: Date;
     updatedBy?: string;
@@ -162,16 +183,55 @@ export const INITIAL_DEFAULT_PROMPTS: DefaultPromptTemplate[] = [
     },
 ];
 
+const GB = 1024 * 1024 * 1024;
+
+export const INITIAL_PLAN_TIERS: PlanTier[] = [
+    { id: 'free', name: 'フリー', monthlyMediaMinutes: 60, monthlyDocuments: 30, monthlyStorageBytes: 0.5 * GB },
+    { id: 'standard', name: 'スタンダード', monthlyMediaMinutes: 600, monthlyDocuments: 300, monthlyStorageBytes: 5 * GB },
+    { id: 'unlimited', name: '無制限', monthlyMediaMinutes: 0, monthlyDocuments: 0, monthlyStorageBytes: 0 },
+];
+
+/**
+ * セキュリティルールで月間利用量の上限を検証するための、プラン ID ごとの上限（利用量と同じ単位、0 は無制限）
+ * ルールでは配列を検索できないため、プランを保存するたびに planTiers から作って一緒に保存する
+ */
+const toPlanTierLimits = (planTiers: PlanTier[]) =>
+    Object.fromEntries(planTiers.map(tier => [tier.id, {
+        mediaSeconds: tier.monthlyMediaMinutes * 60,
+        documents: tier.monthlyDocuments,
+        storageBytes: tier.monthlyStorageBytes,
+    }]));
+
 const DEFAULT_SETTINGS: AdminSettings = {
     maxPromptSize: 50000, // 50KB
     maxDocumentSize: 500000, // 500KB
     rateLimit: {
         promptsPerHour: 100,
         documentsPerHour: 50,
+        guestPromptsPerHour: 100,
+        guestDocumentsPerHour: 50,
     },
+    planTiers: INITIAL_PLAN_TIERS,
+    defaultPlanTierId: 'standard',
     defaultPrompts: INITIAL_DEFAULT_PROMPTS,
 };
 
+/**
+ * 保存されている管理者設定を既定値で補う（設定が存在しない場合は既定値）
+ * 項目追加前に保存された設定も扱えるようにする（firestore.rules の既定値と揃えること）
+ */
+export function normalizeAdminSettings(data: AdminSettings | undefined): AdminSettings {
+    if (!data) {
+        return DEFAULT_SETTINGS;
+    }
+    return {
+        ...data,
+        rateLimit: { ...DEFAULT_SETTINGS.rateLimit, ...data.rateLimit },
+        planTiers: data.planTiers?.length ? data.planTiers : DEFAULT_SETTINGS.planTiers,
+        defaultPlanTierId: data.defaultPlanTierId ?? DEFAULT_SETTINGS.defaultPlanTierId,
+    };
+}
+
 /**
  * 管理者設定を取得
  * 設定が存在しない場合、デフォルト設定を自動的に保存する（初回マイグレーション）
@@ -200,13 +260,14 @@ export async function getAdminSettings(): Promise<AdminSettings> {
                 data.defaultPrompts = INITIAL_DEFAULT_PROMPTS;
             }
 
-            return data;
+            return normalizeAdminSettings(data);
         }
 
         // 設定が存在しない場合、デフォルト設定を保存
         adminSettingsLogger.info('管理者設定が存在しないため初期設定を作成', { configId: 'config' });
         await setDoc(docRef, {
             ...DEFAULT_SETTINGS,
+            planTierLimits: toPlanTierLimits(DEFAULT_SETTINGS.planTiers),
             updatedAt: serverTimestamp(),
         });
 
@@ -230,6 +291,7 @@ export async function updateAdminSettings(
             docRef,
             {
                 ...settings,
+                ...(settings.planTiers && { planTierLimits: toPlanTierLimits(settings.planTiers) }),
                 updatedAt: serverTimestamp(),
                 updatedBy,
             },
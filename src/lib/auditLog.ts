@@ -24,7 +24,8 @@ export type AuditAction =
     | 'user_password_change'
     | 'user_display_name_update'
     | 'admin_settings_update'
-    | 'admin_user_view';
+    | 'admin_user_view'
+    | 'admin_user_plan_update';
 
 export interface AuditLog {
     id?: string;
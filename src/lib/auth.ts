@@ -130,6 +130,14 @@ export function getCurrentUserId(): string {
     return auth.currentUser?.uid ?? 'GUEST';
 }
 
+/**
+ * 現在のユーザーの ID トークンを取得（ゲストの場合は null）
+ * サーバーの API に所有者を証明するために送る
+ */
+export async function getCurrentIdToken(): Promise<string | null> {
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+}
+
 /**
  * 所有者タイプを取得（"user" または "guest"）
  */
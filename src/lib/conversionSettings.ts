@@ -0,0 +1,47 @@
+/**
+ * 変換設定の保存と読み込み
+ * ログインユーザーはユーザープロファイル（users/{uid}.conversionSettings）、ゲストはこのブラウザの localStorage に保存する。
+ */
+
+import { getCurrentUserId, getOwnerType } from './auth';
+import { getUserProfile, updateUserConversionSettings } from './userManagement';
+import { createLogger } from './logger';
+import { AudioConversionSettings, normalizeConversionSettings } from '@/constants/conversionSettings';
+
+const conversionSettingsLogger = createLogger('conversionSettings');
+
+const GUEST_STORAGE_KEY = 'conversionSettings';
+
+/**
+ * 現在のユーザー（ゲストはこのブラウザ）の変換設定を取得
+ * 未保存・取得失敗の場合は既定値を返す
+ */
+export async function loadConversionSettings(): Promise<AudioConversionSettings> {
+    if (getOwnerType() === 'user') {
+        const profile = await getUserProfile(getCurrentUserId());
+        return normalizeConversionSettings(profile?.conversionSettings);
+    }
+
+    try {
+        const stored = localStorage.getItem(GUEST_STORAGE_KEY);
+        return normalizeConversionSettings(stored ? JSON.parse(stored) : undefined);
+    } catch (error) {
+        conversionSettingsLogger.warn('保存済みの変換設定を読み込めないため既定値を使用', { error: String(error) });
+        return normalizeConversionSettings(undefined);
+    }
+}
+
+/**
+ * 変換設定を保存（失敗しても処理は止めず、ログのみ記録）
+ */
+export async function saveConversionSettings(settings: AudioConversionSettings): Promise<void> {
+    try {
+        if (getOwnerType() === 'user') {
+            await updateUserConversionSettings(getCurrentUserId(), settings);
+        } else {
+            localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(settings));
+        }
+    } catch (error) {
+        conversionSettingsLogger.error('変換設定の保存に失敗', error, { ownerType: getOwnerType() });
+    }
+}
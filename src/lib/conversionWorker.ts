@@ -0,0 +1,244 @@
+/**
+ * 音声変換 Worker のクライアント
+ * FFmpeg は Worker 内で動かし、メインスレッドからはジョブの開始・中止とイベントの受け取りだけを行う。
+ */
+
+import { CombinedAudioProcessing, ConversionResult, FFmpegLoadError } from './ffmpeg';
+import { SegmentPlan } from './segmentPlanning';
+import { createLogger } from './logger';
+import { FFmpegCoreVariant } from '@/constants/ffmpegCore';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { MediaTrimRange } from '@/types/processing';
+import { VideoKeyframe } from '@/types/keyframes';
+import { ConversionWorkerEvent, ConversionWorkerRequest, ConvertSegmentsOptions } from '@/types/conversionWorker';
+
+const conversionWorkerClientLogger = createLogger('conversionWorkerClient');
+
+export interface SegmentJobHandlers {
+    /** 無音区間の解析の進捗（区間を指定せずに開始した場合のみ） */
+    onAnalysisProgress?: (ratio: number) => void;
+    /** 区間を作成した（区間を指定せずに開始した場合のみ） */
+    onSegmentsPlanned?: (plan: SegmentPlan) => void;
+    onSegmentStart?: (segmentIndex: number) => void;
+    onSegmentProgress?: (segmentIndex: number, ratio: number) => void;
+    onSegmentDone?: (segmentIndex: number, outputBlob: Blob) => void;
+}
+
+/**
+ * 区間変換ジョブの結果
+ * - completed: すべての区間を変換した
+ * - cancelled: 中止した（変換済みの区間は onSegmentDone で通知済み）
+ * - failed: 区間の変換、または動画の解析に失敗した
+ */
+export type SegmentJobOutcome =
+    | { status: 'completed' }
+    | { status: 'cancelled' }
+    | { status: 'failed'; error: string; segmentIndex?: number };
+
+export interface SegmentConversionJob {
+    promise: Promise<SegmentJobOutcome>;
+    /** 実行中の区間の変換が終わった時点で中止し、共有入力ファイルを削除する */
+    cancel: () => void;
+}
+
+type EventListener = (event: ConversionWorkerEvent) => void;
+
+export class ConversionWorkerClient {
+    private worker: Worker;
+    private nextRequestId = 1;
+    private listeners = new Map<number, EventListener>();
+    private loadedVariant: FFmpegCoreVariant | null = null;
+
+    constructor() {
+        this.worker = new Worker(new URL('../workers/conversion.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.addEventListener('message', (event: MessageEvent<ConversionWorkerEvent>) => {
+            this.listeners.get(event.data.requestId)?.(event.data);
+        });
+        this.worker.addEventListener('error', (event) => {
+            conversionWorkerClientLogger.error('音声変換Workerでエラーが発生', event.error ?? event.message);
+            // 応答が返らなくなるため、待機中のリクエストをすべて失敗させる
+            for (const [requestId, listener] of this.listeners) {
+                listener({ type: 'job_error', requestId, error: '音声変換の処理が異常終了しました' });
+            }
+        });
+    }
+
+    /** 読み込んだコアの種類（未読み込みの場合は null） */
+    get coreVariant(): FFmpegCoreVariant | null {
+        return this.loadedVariant;
+    }
+
+    private send(request: ConversionWorkerRequest, listener: EventListener): void {
+        this.listeners.set(request.requestId, listener);
+        this.worker.postMessage(request);
+    }
+
+    load(): Promise<void> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.send({ type: 'load', requestId }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'loaded') {
+                    this.loadedVariant = event.variant;
+                    resolve();
+                } else if (event.type === 'load_error') {
+                    reject(new FFmpegLoadError(event.reason, event.variant, event.assetUrl));
+                } else {
+                    reject(new FFmpegLoadError('init', 'st'));
+                }
+            });
+        });
+    }
+
+    /**
+     * 動画の区間を順に音声へ変換するジョブを開始
+     */
+    convertSegments(file: File, options: ConvertSegmentsOptions, handlers: SegmentJobHandlers = {}): SegmentConversionJob {
+        const requestId = this.nextRequestId++;
+        let settled = false;
+
+        const promise = new Promise<SegmentJobOutcome>((resolve) => {
+            const finish = (outcome: SegmentJobOutcome) => {
+                settled = true;
+                this.listeners.delete(requestId);
+                resolve(outcome);
+            };
+
+            this.send({ type: 'convert_segments', requestId, file, ...options }, (event) => {
+                switch (event.type) {
+                    case 'analysis_progress':
+                        handlers.onAnalysisProgress?.(event.ratio);
+                        break;
+                    case 'segments_planned':
+                        handlers.onSegmentsPlanned?.(event.plan);
+                        break;
+                    case 'segment_start':
+                        handlers.onSegmentStart?.(event.segmentIndex);
+                        break;
+                    case 'segment_progress':
+                        handlers.onSegmentProgress?.(event.segmentIndex, event.ratio);
+                        break;
+                    case 'segment_done':
+                        handlers.onSegmentDone?.(event.segmentIndex, event.outputBlob);
+                        break;
+                    case 'segment_error':
+                        finish({ status: 'failed', error: event.error, segmentIndex: event.segmentIndex });
+                        break;
+                    case 'job_error':
+                        finish({ status: 'failed', error: event.error });
+                        break;
+                    case 'job_cancelled':
+                        finish({ status: 'cancelled' });
+                        break;
+                    case 'job_done':
+                        finish({ status: 'completed' });
+                        break;
+                }
+            });
+        });
+
+        return {
+            promise,
+            cancel: () => {
+                if (!settled) {
+                    this.worker.postMessage({ type: 'cancel', requestId } satisfies ConversionWorkerRequest);
+                }
+            },
+        };
+    }
+
+    /**
+     * 複数の音声セグメントを1つのファイルに結合（processing を指定すると無音の削除・音量の正規化を結合後に適用する）
+     */
+    concatenateAudioSegments(segments: Blob[], processing?: CombinedAudioProcessing): Promise<ConversionResult> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve) => {
+            this.send({ type: 'concat', requestId, segments, processing }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'concat_done') {
+                    resolve(event.result);
+                } else {
+                    resolve({ success: false, error: event.type === 'job_error' ? event.error : '音声結合に失敗しました' });
+                }
+            });
+        });
+    }
+
+    /**
+     * メディア情報（コンテナ・長さ・映像・音声トラック・字幕トラック・チャプター）を取得
+     * 区間変換ジョブと同じ順番待ちに入るため、実行中のジョブがある場合はその後に取得する
+     */
+    probeMedia(file: File): Promise<MediaProbeResult> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.send({ type: 'probe', requestId, file }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'probe_done') {
+                    resolve(event.result);
+                } else {
+                    reject(new Error(event.type === 'job_error' ? event.error : 'メディア情報を取得できませんでした'));
+                }
+            });
+        });
+    }
+
+    /**
+     * 指定範囲を再エンコードせずに切り出す（動画を直接送信する場合に、範囲だけを送るために使う）
+     */
+    extractClip(file: File, range: MediaTrimRange): Promise<Blob> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.send({ type: 'extract_clip', requestId, file, range }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'clip_done') {
+                    resolve(event.clip);
+                } else {
+                    reject(new Error(event.type === 'job_error' ? event.error : '範囲の切り出しに失敗しました'));
+                }
+            });
+        });
+    }
+
+    /**
+     * 字幕トラックを SRT のテキストとして取り出す（テキストの字幕のみ）
+     */
+    extractSubtitles(file: File, streamIndex: number): Promise<string> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.send({ type: 'extract_subtitles', requestId, file, streamIndex }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'subtitles_done') {
+                    resolve(event.srt);
+                } else {
+                    reject(new Error(event.type === 'job_error' ? event.error : '字幕を取り出せませんでした'));
+                }
+            });
+        });
+    }
+
+    /**
+     * 場面（スライド・画面）が切り替わった時点の画像を取り出す（範囲を指定した場合は範囲内のみ）
+     */
+    extractKeyframes(file: File, range?: MediaTrimRange): Promise<VideoKeyframe[]> {
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.send({ type: 'extract_keyframes', requestId, file, range }, (event) => {
+                this.listeners.delete(requestId);
+                if (event.type === 'keyframes_done') {
+                    resolve(event.keyframes);
+                } else {
+                    reject(new Error(event.type === 'job_error' ? event.error : '場面の画像を取り出せませんでした'));
+                }
+            });
+        });
+    }
+
+    /**
+     * Worker を終了（FFmpeg のメモリと WASM FS 上のファイルもすべて解放される）
+     */
+    terminate(): void {
+        this.worker.terminate();
+        this.listeners.clear();
+        this.loadedVariant = null;
+    }
+}
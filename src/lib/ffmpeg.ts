@@ -1,6 +1,28 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { FFFSType, FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
 import { createLogger } from './logger';
+import {
+    FFMPEG_CORE_BUILDS,
+    FFMPEG_MULTI_THREAD_ENABLED,
+    FFmpegCoreAsset,
+    FFmpegCoreVariant,
+    getFFmpegCoreBasePath,
+} from '@/constants/ffmpegCore';
+import { SilenceInterval } from './segmentPlanning';
+import { AudioPreprocessingOptions } from '@/constants/audioPreprocessing';
+import { AUDIO_OUTPUT_PROFILES, AudioOutputProfile } from '@/constants/audioOutputProfiles';
+import { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { parseMediaProbeLog } from './mediaProbe';
+import {
+    buildAudioInputArgs,
+    buildEncodeArgs,
+    buildPreprocessingFilters,
+    getRemovedDuration,
+    parseInputDuration,
+} from './ffmpegArgs';
+import { KEYFRAME_EXTRACTION_CONFIG, selectDistinctKeyframes } from './keyframes';
+import { VideoKeyframe } from '@/types/keyframes';
 
 export interface ConversionProgress {
     ratio: number;
@@ -10,6 +32,20 @@ export interface ConversionResult {
     success: boolean;
     outputBlob?: Blob;
     error?: string;
+    /** 無音の削除で短くなった長さ（秒、無音を削除した場合のみ） */
+    removedDuration?: number;
+}
+
+/**
+ * 区間変換で再利用する入力
+ * mountPoint がある場合は WORKERFS でマウントしており、ファイル本体は WASM メモリに載っていない
+ */
+export interface SharedInput {
+    /** FFmpeg に渡す入力パス */
+    path: string;
+    mountPoint?: string;
+    /** WASM メモリ上に置いた入力のサイズ（マウントした場合は 0） */
+    residentBytes: number;
 }
 
 export interface SegmentConversionResult {
@@ -21,30 +57,152 @@ export interface SegmentConversionResult {
     error?: string;
 }
 
+/**
+ * 区間を結合した音声に適用する前処理（無音の削除・音量の正規化）とエンコードの設定
+ */
+export interface CombinedAudioProcessing {
+    preprocessing: AudioPreprocessingOptions;
+    bitrate: string;
+    sampleRate: number;
+    /** 結合する区間の長さの合計（秒）。無音の削除で短くなった長さを求めるために使う */
+    inputDuration: number;
+}
+
 const ffmpegLogger = createLogger('ffmpeg');
 
+// 分けて解析した範囲の境目で途切れた無音区間をつなげる際の許容差（秒）
+const SILENCE_CHUNK_JOIN_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * FFmpeg を読み込めなかった理由
+ * - network: コアのファイルを取得できない（プロキシ・フィルタリング、配置漏れなど）
+ * - integrity: 取得したファイルが想定のバージョンと一致しない（破損・古いキャッシュ）
+ * - unsupported: ブラウザが WebAssembly に対応していない
+ * - init: 取得はできたが初期化に失敗（メモリ不足など）
+ */
+export type FFmpegLoadFailureReason = 'network' | 'integrity' | 'unsupported' | 'init';
+
+const FFMPEG_LOAD_FAILURE_MESSAGES: Record<FFmpegLoadFailureReason, string> = {
+    network: '音声変換エンジン（FFmpeg）のファイルを取得できませんでした。ネットワークの制限やサーバーへの配置を確認してください。',
+    integrity: '音声変換エンジン（FFmpeg）のファイルが破損しているか、バージョンが一致しません。ブラウザのキャッシュを削除して再読み込みしてください。',
+    unsupported: 'このブラウザは WebAssembly に対応していないため、音声変換を実行できません。最新のブラウザをご利用ください。',
+    init: '音声変換エンジン（FFmpeg）の初期化に失敗しました。メモリが不足している可能性があります。他のタブを閉じてから再度お試しください。',
+};
+
+export class FFmpegLoadError extends Error {
+    readonly reason: FFmpegLoadFailureReason;
+    readonly variant: FFmpegCoreVariant;
+    /** 取得に失敗したファイルの URL（network / integrity の場合） */
+    readonly assetUrl?: string;
+
+    constructor(reason: FFmpegLoadFailureReason, variant: FFmpegCoreVariant, assetUrl?: string) {
+        super(FFMPEG_LOAD_FAILURE_MESSAGES[reason]);
+        this.name = 'FFmpegLoadError';
+        this.reason = reason;
+        this.variant = variant;
+        this.assetUrl = assetUrl;
+    }
+}
+
+/**
+ * マルチスレッド版のコアを使えるか（設定で有効化され、クロスオリジン分離されている場合のみ）
+ */
+export function canUseMultiThreadCore(): boolean {
+    return FFMPEG_MULTI_THREAD_ENABLED
+        && typeof SharedArrayBuffer !== 'undefined'
+        && globalThis.crossOriginIsolated === true;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+/**
+ * コアのファイルを取得し、integrity を検証してから Blob URL にする
+ * 検証には SubtleCrypto を使い、使えない環境（非 HTTPS）ではブラウザの SRI 検証に任せる
+ */
+async function fetchVerifiedBlobURL(asset: FFmpegCoreAsset, variant: FFmpegCoreVariant): Promise<string> {
+    const url = `${getFFmpegCoreBasePath(variant)}/${asset.fileName}`;
+    const canVerify = typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+
+    let response: Response;
+    try {
+        response = await fetch(url, canVerify ? undefined : { integrity: asset.integrity });
+    } catch (error) {
+        ffmpegLogger.error('FFmpegコアの取得に失敗', error, { url });
+        throw new FFmpegLoadError('network', variant, url);
+    }
+    if (!response.ok) {
+        ffmpegLogger.error('FFmpegコアの取得に失敗', undefined, { url, status: response.status });
+        throw new FFmpegLoadError('network', variant, url);
+    }
+
+    const buffer = await response.arrayBuffer();
+    if (canVerify) {
+        const integrity = `sha384-${toBase64(await crypto.subtle.digest('SHA-384', buffer))}`;
+        if (integrity !== asset.integrity) {
+            ffmpegLogger.error('FFmpegコアの integrity が一致しません', undefined, { url, expected: asset.integrity, actual: integrity });
+            throw new FFmpegLoadError('integrity', variant, url);
+        }
+    }
+
+    return URL.createObjectURL(new Blob([buffer], { type: asset.mimeType }));
+}
+
 export class VideoConverter {
     private ffmpeg: FFmpeg;
     private isLoaded = false;
+    private loadedVariant: FFmpegCoreVariant | null = null;
 
     constructor() {
         this.ffmpeg = new FFmpeg();
     }
 
+    /** 読み込んだコアの種類（未読み込みの場合は null） */
+    get coreVariant(): FFmpegCoreVariant | null {
+        return this.loadedVariant;
+    }
+
     async load(): Promise<void> {
         if (this.isLoaded) return;
 
+        if (typeof WebAssembly === 'undefined') {
+            throw new FFmpegLoadError('unsupported', 'st');
+        }
+
+        // マルチスレッド版が使える場合は優先し、失敗したらシングルスレッド版で読み込み直す
+        if (canUseMultiThreadCore()) {
+            try {
+                await this.loadCore('mt');
+                return;
+            } catch (error) {
+                ffmpegLogger.warn('マルチスレッド版のFFmpegを読み込めないため、シングルスレッド版を使用します', { error: String(error) });
+                this.ffmpeg.terminate();
+                this.ffmpeg = new FFmpeg();
+            }
+        }
+
+        await this.loadCore('st');
+    }
+
+    private async loadCore(variant: FFmpegCoreVariant): Promise<void> {
+        const build = FFMPEG_CORE_BUILDS[variant];
+        const [coreURL, wasmURL, workerURL] = await Promise.all([
+            fetchVerifiedBlobURL(build.core, variant),
+            fetchVerifiedBlobURL(build.wasm, variant),
+            build.worker ? fetchVerifiedBlobURL(build.worker, variant) : Promise.resolve(undefined),
+        ]);
+
         try {
-            const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
-            await this.ffmpeg.load({
-                coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-                wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-            });
-            this.isLoaded = true;
+            await this.ffmpeg.load({ coreURL, wasmURL, ...(workerURL && { workerURL }) });
         } catch (error) {
-            ffmpegLogger.error('FFmpegの読み込みに失敗しました:', error);
-            throw new Error('FFmpegの初期化に失敗しました');
+            ffmpegLogger.error('FFmpegの初期化に失敗しました', error, { variant });
+            throw new FFmpegLoadError('init', variant);
         }
+
+        this.isLoaded = true;
+        this.loadedVariant = variant;
+        ffmpegLogger.info('FFmpegの読み込みが完了', { variant });
     }
 
     /**
@@ -55,144 +213,389 @@ export class VideoConverter {
             await this.load();
         }
 
-        const inputFileName = `probe_${Date.now()}.${videoFile.name.split('.').pop()}`;
-
+        const input = await this.prepareSharedInput(videoFile, `probe_${Date.now()}`);
         try {
-            await this.ffmpeg.writeFile(inputFileName, await fetchFile(videoFile));
-
-            // FFmpegのログを収集
-            let duration = 0;
-            let hasAudioStream = false;
-            const logHandler = ({ message }: { message: string }) => {
-                // "Duration: 00:01:23.45" のような形式を探す
-                const durationMatch = message.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-                if (durationMatch) {
-                    const hours = parseInt(durationMatch[1]);
-                    const minutes = parseInt(durationMatch[2]);
-                    const seconds = parseInt(durationMatch[3]);
-                    duration = hours * 3600 + minutes * 60 + seconds;
-                }
-
-                // 音声ストリームがあるかチェック
-                // "Stream #0:1(und): Audio: aac ..." のようなパターンを探す
-                if (message.includes('Stream') && message.includes('Audio:')) {
-                    hasAudioStream = true;
-                }
-            };
+            return await this.getInputDuration(input.path);
+        } catch (error) {
+            ffmpegLogger.error('動画長さ取得エラー:', error);
+            throw error;
+        } finally {
+            await this.releaseSharedInput(input);
+        }
+    }
 
-            this.ffmpeg.on('log', logHandler);
+    /**
+     * 入力ファイルを共有入力として用意（後続の区間変換で再利用する）
+     * WORKERFS でマウントできれば WASM メモリにコピーせずに読み込み、できない場合は書き込みにフォールバックする
+     * @param videoFile 動画ファイル
+     * @param baseName 共有入力の名前（マウントポイント、またはファイル名に使う）
+     */
+    async prepareSharedInput(videoFile: File, baseName: string): Promise<SharedInput> {
+        if (!this.isLoaded) {
+            await this.load();
+        }
 
-            try {
-                // -i オプションで動画情報を取得（エラーになるが、ログに情報が出力される）
-                await this.ffmpeg.exec(['-i', inputFileName]);
-            } catch {
-                // このコマンドはエラーになるのが正常（出力ファイルを指定していないため）
-            } finally {
-                this.ffmpeg.off('log', logHandler);
+        const extension = videoFile.name.split('.').pop();
+        const mountPoint = `/${baseName}`;
+        try {
+            await this.ffmpeg.createDir(mountPoint);
+            const mounted = await this.ffmpeg.mount(
+                FFFSType.WORKERFS,
+                { blobs: [{ name: `input.${extension}`, data: videoFile }] },
+                mountPoint
+            );
+            if (mounted) {
+                ffmpegLogger.info('入力ファイルをWORKERFSでマウント', { mountPoint, fileSize: videoFile.size });
+                return { path: `${mountPoint}/input.${extension}`, mountPoint, residentBytes: 0 };
             }
-
-            // クリーンアップ
+            await this.ffmpeg.deleteDir(mountPoint);
+        } catch (error) {
+            ffmpegLogger.warn('WORKERFSでマウントできないため、入力ファイルを書き込みます', { mountPoint, error: String(error) });
             try {
-                await this.ffmpeg.deleteFile(inputFileName);
+                await this.ffmpeg.deleteDir(mountPoint);
             } catch {
                 // 削除エラーは無視
             }
+        }
 
-            if (duration === 0) {
-                throw new Error('動画の長さを取得できませんでした');
-            }
+        const path = `/${baseName}.${extension}`;
+        await this.ffmpeg.writeFile(path, await fetchFile(videoFile));
+        return { path, residentBytes: videoFile.size };
+    }
 
-            if (!hasAudioStream) {
-                throw new Error('この動画には音声トラックが含まれていません。音声付きの動画をアップロードしてください。');
+    /**
+     * 共有入力を解放（マウントの解除、または書き込んだファイルの削除。エラーは無視）
+     */
+    async releaseSharedInput(input: SharedInput): Promise<void> {
+        try {
+            if (input.mountPoint) {
+                await this.ffmpeg.unmount(input.mountPoint);
+                await this.ffmpeg.deleteDir(input.mountPoint);
+            } else {
+                await this.ffmpeg.deleteFile(input.path);
             }
-
-            return duration;
-        } catch (error) {
-            ffmpegLogger.error('動画長さ取得エラー:', error);
-            throw error;
+        } catch {
+            // 削除エラーは無視
         }
     }
 
     /**
-     * 動画の長さを取得し、ファイルを共有ファイルとして保持（後続処理で再利用可能）
-     * @param videoFile 動画ファイル
-     * @param sharedFileName 共有ファイルとして保存する名前
-     * @returns 動画の長さと共有ファイル名
+     * 中断された処理で残った共有入力（マウントポイントまたはファイル）を削除
+     * @param prefix 共有入力の名前の接頭辞
+     * @returns 削除した名前
      */
-    async getVideoDurationWithSharedFile(
-        videoFile: File,
-        sharedFileName: string
-    ): Promise<{ duration: number; sharedFileName: string }> {
+    async removeStaleSharedInputs(prefix: string): Promise<string[]> {
         if (!this.isLoaded) {
-            await this.load();
+            return [];
+        }
+
+        const staleNodes = (await this.ffmpeg.listDir('/')).filter(node => node.name.startsWith(prefix));
+        for (const node of staleNodes) {
+            const path = `/${node.name}`;
+            await this.releaseSharedInput(node.isDir ? { path, mountPoint: path, residentBytes: 0 } : { path, residentBytes: 0 });
         }
+        return staleNodes.map(node => node.name);
+    }
+
+    /**
+     * 共有入力のメディア情報（コンテナ・長さ・映像・音声トラック・字幕トラック・チャプター）を取得
+     */
+    async probeMedia(inputPath: string): Promise<MediaProbeResult> {
+        // FFmpegのログを収集
+        const logs: string[] = [];
+        const logHandler = ({ message }: { message: string }) => {
+            logs.push(message);
+        };
+
+        this.ffmpeg.on('log', logHandler);
 
         try {
-            // ファイルをFFmpegに書き込み（共有ファイルとして保持）
-            await this.ffmpeg.writeFile(sharedFileName, await fetchFile(videoFile));
+            // -i オプションで動画情報を取得
+            await this.ffmpeg.exec(['-i', inputPath]);
+        } catch {
+            // このコマンドはエラーになるのが正常（出力ファイルを指定していないため）
+        } finally {
+            this.ffmpeg.off('log', logHandler);
+        }
+
+        const result = parseMediaProbeLog(logs);
+        if (!result) {
+            throw new Error('メディアの情報を取得できませんでした。対応していない形式か、ファイルが破損している可能性があります。');
+        }
+        return result;
+    }
+
+    /**
+     * 共有入力の長さ（秒）を取得し、音声ストリームがあることを確認
+     */
+    async getInputDuration(inputPath: string): Promise<number> {
+        const { duration, audioTracks } = await this.probeMedia(inputPath);
+
+        if (duration === 0) {
+            throw new Error('動画の長さを取得できませんでした');
+        }
+
+        if (audioTracks.length === 0) {
+            throw new Error('この動画には音声トラックが含まれていません。音声付きの動画をアップロードしてください。');
+        }
+
+        return duration;
+    }
+
+    /**
+     * 共有入力の音声から無音区間を検出（silencedetect）
+     * @param noiseDb 無音とみなす音量（dB）
+     * @param minDuration 無音とみなす長さ（秒）
+     */
+    async detectSilences(
+        inputPath: string,
+        options: {
+            noiseDb: number;
+            minDuration: number;
+            /** 入力の長さ（秒）。この長さを chunkDuration ごとに分けて解析する */
+            duration: number;
+            chunkDuration: number;
+            onProgress?: (progress: ConversionProgress) => void;
+            audioTrackSelection?: AudioTrackSelection;
+            /** 検出する範囲（省略時は全体）。検出した位置は元メディア上の位置で返す */
+            range?: { startTime: number; endTime: number };
+            /** 分けた範囲の解析の前に確認し、true の場合はそこまでに検出した無音区間を返して終える */
+            isCancelled?: () => boolean;
+        }
+    ): Promise<SilenceInterval[]> {
+        const { noiseDb, minDuration, duration, chunkDuration, onProgress, audioTrackSelection, range, isCancelled } = options;
+        const analysisStart = range?.startTime ?? 0;
+        const analysisEnd = range?.endTime ?? duration;
+        const chunkCount = Math.max(1, Math.ceil((analysisEnd - analysisStart) / chunkDuration));
+        const silences: SilenceInterval[] = [];
+
+        for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+            if (isCancelled?.()) {
+                ffmpegLogger.info('無音区間の検出を中止', { inputPath, chunkIndex, chunkCount });
+                return silences;
+            }
+
+            // -ss で入力をシークすると検出位置は範囲の先頭からの時間になるため、元メディア上の位置に戻す
+            const chunkStart = analysisStart + chunkIndex * chunkDuration;
+            const chunkEnd = Math.min(analysisEnd, chunkStart + chunkDuration);
+            let silenceStart: number | null = null;
 
-            // FFmpegのログを収集
-            let duration = 0;
-            let hasAudioStream = false;
+            // "silence_start: 12.345" と "silence_end: 13.1 | silence_duration: 0.755" の組を集める
             const logHandler = ({ message }: { message: string }) => {
-                // "Duration: 00:01:23.45" のような形式を探す
-                const durationMatch = message.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-                if (durationMatch) {
-                    const hours = parseInt(durationMatch[1]);
-                    const minutes = parseInt(durationMatch[2]);
-                    const seconds = parseInt(durationMatch[3]);
-                    duration = hours * 3600 + minutes * 60 + seconds;
+                const startMatch = message.match(/silence_start: (-?[\d.]+)/);
+                if (startMatch) {
+                    silenceStart = Math.max(0, parseFloat(startMatch[1])) + chunkStart;
                 }
-
-                // 音声ストリームがあるかチェック
-                if (message.includes('Stream') && message.includes('Audio:')) {
-                    hasAudioStream = true;
+                const endMatch = message.match(/silence_end: ([\d.]+)/);
+                if (endMatch && silenceStart !== null) {
+                    silences.push({ start: silenceStart, end: parseFloat(endMatch[1]) + chunkStart });
+                    silenceStart = null;
+                }
+            };
+            const progressHandler = ({ progress }: { progress: number }) => {
+                if (onProgress) {
+                    onProgress({ ratio: (chunkIndex + Math.min(Math.max(progress, 0), 1)) / chunkCount });
                 }
             };
 
             this.ffmpeg.on('log', logHandler);
-
+            this.ffmpeg.on('progress', progressHandler);
             try {
-                // -i オプションで動画情報を取得
-                await this.ffmpeg.exec(['-i', sharedFileName]);
-            } catch {
-                // このコマンドはエラーになるのが正常（出力ファイルを指定していないため）
+                await this.ffmpeg.exec([
+                    '-ss', chunkStart.toString(),
+                    '-to', chunkEnd.toString(),
+                    '-i', inputPath,
+                    '-vn',
+                    // 変換するのと同じトラック・チャンネルの無音を検出する
+                    ...buildAudioInputArgs([`silencedetect=noise=${noiseDb}dB:d=${minDuration}`], audioTrackSelection),
+                    '-f', 'null',
+                    '-',
+                ]);
             } finally {
                 this.ffmpeg.off('log', logHandler);
+                this.ffmpeg.off('progress', progressHandler);
             }
 
-            if (duration === 0) {
-                throw new Error('動画の長さを取得できませんでした');
+            // 範囲の終わりまで続いた無音は範囲の終わりで閉じ、次の範囲の先頭の無音とつなげる
+            if (silenceStart !== null) {
+                silences.push({ start: silenceStart, end: chunkEnd });
             }
+        }
 
-            if (!hasAudioStream) {
-                // エラー時は共有ファイルを削除
-                try {
-                    await this.ffmpeg.deleteFile(sharedFileName);
-                } catch {
-                    // 削除エラーは無視
-                }
-                throw new Error('この動画には音声トラックが含まれていません。音声付きの動画をアップロードしてください。');
+        const mergedSilences = silences.reduce<SilenceInterval[]>((merged, silence) => {
+            const last = merged[merged.length - 1];
+            if (last && silence.start <= last.end + SILENCE_CHUNK_JOIN_TOLERANCE_SECONDS) {
+                last.end = Math.max(last.end, silence.end);
+            } else {
+                merged.push({ ...silence });
             }
+            return merged;
+        }, []);
 
-            // 共有ファイルは削除せずに返す（後続処理で使用）
-            return { duration, sharedFileName };
-        } catch (error) {
-            ffmpegLogger.error('動画情報取得エラー:', error);
-            // エラー時は共有ファイルを削除
+        ffmpegLogger.info('無音区間の検出が完了', { inputPath, silenceCount: mergedSilences.length, chunkCount });
+        return mergedSilences;
+    }
+
+    /**
+     * 共有入力の指定範囲を切り出す（再エンコードせずにコピーするため、開始位置は直前のキーフレームになる）
+     * 動画を直接送信する場合に、処理する範囲だけを送るために使う
+     */
+    async extractClip(inputPath: string, startTime: number, endTime: number, mimeType: string): Promise<Blob> {
+        const extension = inputPath.split('.').pop();
+        const outputFileName = `clip_${Date.now()}.${extension}`;
+
+        try {
+            await this.ffmpeg.exec([
+                '-ss', startTime.toString(),
+                '-to', endTime.toString(),
+                '-i', inputPath,
+                '-map', '0:v?',
+                '-map', '0:a?',
+                '-c', 'copy',
+                '-y',
+                outputFileName,
+            ]);
+            const data = await this.ffmpeg.readFile(outputFileName);
+            return new Blob([new Uint8Array(data as Uint8Array)], { type: mimeType });
+        } finally {
             try {
-                await this.ffmpeg.deleteFile(sharedFileName);
+                await this.ffmpeg.deleteFile(outputFileName);
+            } catch {
+                // 削除エラーは無視
+            }
+        }
+    }
+
+    /**
+     * 共有入力の字幕トラックを SRT のテキストとして取り出す（SRT・WebVTT・ASS など、テキストの字幕のみ）
+     * @param streamIndex 字幕トラックのストリーム番号
+     */
+    async extractSubtitles(inputPath: string, streamIndex: number): Promise<string> {
+        const outputFileName = `subtitles_${Date.now()}.srt`;
+        const ffmpegLogs: string[] = [];
+        const logHandler = ({ message }: { message: string }) => {
+            ffmpegLogs.push(message);
+        };
+
+        this.ffmpeg.on('log', logHandler);
+        try {
+            const exitCode = await this.ffmpeg.exec([
+                '-i', inputPath,
+                '-map', `0:${streamIndex}`,
+                '-c:s', 'srt',
+                '-f', 'srt',
+                '-y',
+                outputFileName,
+            ]);
+            if (exitCode !== 0) {
+                ffmpegLogger.error('字幕の取り出しに失敗', undefined, { streamIndex, recentLogs: ffmpegLogs.slice(-10) });
+                throw new Error('字幕を取り出せませんでした。画像の字幕（PGS・DVD など）には対応していません。');
+            }
+            const data = await this.ffmpeg.readFile(outputFileName);
+            return typeof data === 'string' ? data : new TextDecoder().decode(data);
+        } finally {
+            this.ffmpeg.off('log', logHandler);
+            try {
+                await this.ffmpeg.deleteFile(outputFileName);
+            } catch {
+                // 削除エラーは無視
+            }
+        }
+    }
+
+    /**
+     * 共有入力の映像から、場面（スライド・画面）が切り替わった時点の画像を取り出す
+     * 先頭の画像と select='gt(scene,…)' で選んだ画像のうち、ほぼ同じ画像を除いたものを時刻順に返す
+     * @param range 取り出す範囲（省略時は全体）。画像の位置は元メディア上の位置で返す
+     */
+    async extractKeyframes(inputPath: string, range?: { startTime: number; endTime: number }): Promise<VideoKeyframe[]> {
+        const config = KEYFRAME_EXTRACTION_CONFIG;
+        // -ss で入力をシークすると画像の時刻は範囲の先頭からの時間になるため、元メディア上の位置に戻す
+        const offset = range?.startTime ?? 0;
+        const outputPrefix = `keyframe_${Date.now()}`;
+        const signatureFileName = `${outputPrefix}_signatures.raw`;
+        const signatureBytes = config.SIGNATURE_SIZE * config.SIGNATURE_SIZE;
+
+        // showinfo が出力する "pts_time:12.345" を、選ばれた画像の時刻として集める
+        const times: number[] = [];
+        const logHandler = ({ message }: { message: string }) => {
+            const match = message.includes('showinfo') ? message.match(/pts_time:\s*(-?[\d.]+)/) : null;
+            if (match) {
+                times.push(Math.max(0, parseFloat(match[1])) + offset);
+            }
+        };
+
+        this.ffmpeg.on('log', logHandler);
+        try {
+            // 画像（JPEG）と、ほぼ同じ画像の判定に使う縮小画像（グレースケールの生データ）を同時に書き出す
+            await this.ffmpeg.exec([
+                ...(range ? ['-ss', range.startTime.toString(), '-to', range.endTime.toString()] : []),
+                '-i', inputPath,
+                '-an',
+                '-sn',
+                '-filter_complex',
+                `[0:v:0]select='eq(n,0)+gt(scene,${config.SCENE_THRESHOLD})',showinfo,split=2[full][small];` +
+                `[full]scale=${config.IMAGE_WIDTH}:-2[keyframe];` +
+                `[small]scale=${config.SIGNATURE_SIZE}:${config.SIGNATURE_SIZE},format=gray[signature]`,
+                '-vsync', 'vfr',
+                '-map', '[keyframe]',
+                '-frames:v', config.MAX_CANDIDATES.toString(),
+                '-q:v', config.JPEG_QUALITY.toString(),
+                '-y',
+                `${outputPrefix}_%04d.jpg`,
+                '-map', '[signature]',
+                '-frames:v', config.MAX_CANDIDATES.toString(),
+                '-f', 'rawvideo',
+                '-y',
+                signatureFileName,
+            ]);
+
+            const imageFileNames = (await this.ffmpeg.listDir('/'))
+                .map(node => node.name)
+                .filter(name => name.startsWith(outputPrefix) && name.endsWith('.jpg'))
+                .sort();
+            const signatures = await this.ffmpeg.readFile(signatureFileName) as Uint8Array;
+            const candidateCount = Math.min(imageFileNames.length, times.length, Math.floor(signatures.length / signatureBytes));
+
+            const candidates = Array.from({ length: candidateCount }, (_, i) => ({
+                fileName: imageFileNames[i],
+                time: times[i],
+                signature: signatures.subarray(i * signatureBytes, (i + 1) * signatureBytes),
+            }));
+            const selected = selectDistinctKeyframes(candidates);
+
+            const keyframes: VideoKeyframe[] = [];
+            for (const candidate of selected) {
+                const data = await this.ffmpeg.readFile(candidate.fileName);
+                keyframes.push({
+                    time: Math.round(candidate.time * 100) / 100,
+                    image: new Blob([new Uint8Array(data as Uint8Array)], { type: 'image/jpeg' }),
+                });
+            }
+
+            ffmpegLogger.info('場面の画像の取り出しが完了', {
+                inputPath,
+                candidateCount,
+                keyframeCount: keyframes.length,
+            });
+            return keyframes;
+        } finally {
+            this.ffmpeg.off('log', logHandler);
+            try {
+                const outputs = (await this.ffmpeg.listDir('/')).filter(node => node.name.startsWith(outputPrefix));
+                for (const output of outputs) {
+                    await this.ffmpeg.deleteFile(`/${output.name}`);
+                }
             } catch {
                 // 削除エラーは無視
             }
-            throw error;
         }
     }
 
     /**
      * 動画の指定区間を音声に変換（入力ファイル名を指定）
      */
-    async convertSegmentToMp3(
+    async convertSegmentToAudio(
         videoFile: File,
         startTime: number,
         endTime: number,
@@ -201,18 +604,29 @@ export class VideoConverter {
             bitrate?: string;
             sampleRate?: number;
             onProgress?: (progress: ConversionProgress) => void;
-            inputFileName?: string; // 既に書き込み済みのファイル名（オプション）
+            inputFileName?: string; // 共有入力のパス（書き込み済み、またはマウント済み。オプション）
+            preprocessing?: AudioPreprocessingOptions;
+            outputProfile?: AudioOutputProfile;
+            audioTrackSelection?: AudioTrackSelection;
         } = {}
     ): Promise<SegmentConversionResult> {
         if (!this.isLoaded) {
             await this.load();
         }
 
-        const { bitrate = '192k', sampleRate = 44100, onProgress, inputFileName: providedInputFileName } = options;
+        const {
+            bitrate = '192k',
+            sampleRate = 44100,
+            onProgress,
+            inputFileName: providedInputFileName,
+            preprocessing,
+            outputProfile = AUDIO_OUTPUT_PROFILES.mp3,
+            audioTrackSelection,
+        } = options;
 
         // 入力ファイル名が提供されていない場合は新しく作成
         const inputFileName = providedInputFileName || `input_seg${segmentIndex}_${Date.now()}.${videoFile.name.split('.').pop()}`;
-        const outputFileName = `output_seg${segmentIndex}_${Date.now()}.mp3`;
+        const outputFileName = `output_seg${segmentIndex}_${Date.now()}.${outputProfile.extension}`;
         const shouldWriteFile = !providedInputFileName; // 入力ファイル名が提供されていない場合のみ書き込み
         const shouldDeleteInputFile = shouldWriteFile; // 自分で書き込んだ場合のみ削除
 
@@ -264,15 +678,15 @@ export class VideoConverter {
 
             try {
                 ffmpegLogger.info(`[区間${segmentIndex}] FFmpeg exec開始`);
-                // 区間を指定してMP3に変換
+                // 区間を指定して出力形式の音声に変換
                 await this.ffmpeg.exec([
                     '-ss', startTime.toString(),
                     '-to', endTime.toString(),
                     '-i', inputFileName,
                     '-vn', // ビデオストリームを無効化
-                    '-acodec', 'libmp3lame',
-                    '-ab', bitrate,
-                    '-ar', sampleRate.toString(),
+                    // 無音の削除・音量の正規化は結合後に行う（concatenateAudioSegments）
+                    ...buildAudioInputArgs(buildPreprocessingFilters(preprocessing, 'segment'), audioTrackSelection),
+                    ...buildEncodeArgs(outputProfile, bitrate, sampleRate, preprocessing),
                     '-y', // 出力ファイルを上書き
                     outputFileName
                 ]);
@@ -305,7 +719,7 @@ export class VideoConverter {
             ffmpegLogger.info(`[区間${segmentIndex}] 出力ファイル読み取り開始`);
             const data = await this.ffmpeg.readFile(outputFileName);
             const uint8Array = new Uint8Array(data as Uint8Array);
-            const outputBlob = new Blob([uint8Array], { type: 'audio/mpeg' });
+            const outputBlob = new Blob([uint8Array], { type: outputProfile.mimeType });
             ffmpegLogger.info(`[区間${segmentIndex}] 出力Blob作成完了 (${outputBlob.size} bytes)`);
 
             // 一時ファイルを削除
@@ -327,7 +741,7 @@ export class VideoConverter {
                 segmentIndex,
                 startTime,
                 endTime,
-                outputBlob
+                outputBlob,
             };
         } catch (error) {
             ffmpegLogger.error(`区間${segmentIndex}の変換エラー:`, error);
@@ -365,9 +779,14 @@ export class VideoConverter {
     }
 
     /**
-     * 複数の音声セグメントを1つのファイルに結合
+     * 複数の音声セグメントを1つのファイルに結合（セグメントは outputProfile の形式で変換済みであること）
+     * processing で無音の削除・音量の正規化を指定した場合は、結合した音声全体に1回だけ適用して再エンコードする
      */
-    async concatenateAudioSegments(segments: Blob[]): Promise<ConversionResult> {
+    async concatenateAudioSegments(
+        segments: Blob[],
+        outputProfile: AudioOutputProfile = AUDIO_OUTPUT_PROFILES.mp3,
+        processing?: CombinedAudioProcessing
+    ): Promise<ConversionResult> {
         if (!this.isLoaded) {
             await this.load();
         }
@@ -379,23 +798,32 @@ export class VideoConverter {
             };
         }
 
-        // セグメントが1つだけの場合は結合不要
-        if (segments.length === 1) {
+        const combinedFilters = buildPreprocessingFilters(processing?.preprocessing, 'combined');
+
+        // セグメントが1つだけで前処理もない場合は結合不要
+        if (segments.length === 1 && combinedFilters.length === 0) {
             return {
                 success: true,
                 outputBlob: segments[0]
             };
         }
 
+        // 無音の削除量を求めるため、出力の長さをログから取得する
+        const ffmpegLogs: string[] = [];
+        const logHandler = ({ message }: { message: string }) => {
+            ffmpegLogs.push(message);
+        };
+
         const timestamp = Date.now();
         const concatListFileName = `concat_list_${timestamp}.txt`;
-        const outputFileName = `output_concat_${timestamp}.mp3`;
+        const { extension } = outputProfile;
+        const outputFileName = `output_concat_${timestamp}.${extension}`;
 
         try {
             // セグメントをFFmpegに書き込み、concatリストを作成
             const fileList: string[] = [];
             for (let i = 0; i < segments.length; i++) {
-                const segmentFileName = `segment_${i}_${timestamp}.mp3`;
+                const segmentFileName = `segment_${i}_${timestamp}.${extension}`;
                 const segmentData = new Uint8Array(await segments[i].arrayBuffer());
                 await this.ffmpeg.writeFile(segmentFileName, segmentData);
                 fileList.push(`file '${segmentFileName}'`);
@@ -408,27 +836,37 @@ export class VideoConverter {
                 new TextEncoder().encode(concatListContent)
             );
 
-            // FFmpegのconcatプロトコルで結合
-            await this.ffmpeg.exec([
-                '-f', 'concat',
-                '-safe', '0',
-                '-i', concatListFileName,
-                '-c', 'copy',
-                '-y',
-                outputFileName
-            ]);
+            // FFmpegのconcatプロトコルで結合（前処理がある場合は結合した音声に適用して再エンコード）
+            this.ffmpeg.on('log', logHandler);
+            try {
+                await this.ffmpeg.exec([
+                    '-f', 'concat',
+                    '-safe', '0',
+                    '-i', concatListFileName,
+                    ...(processing && combinedFilters.length > 0
+                        ? [
+                            '-af', combinedFilters.join(','),
+                            ...buildEncodeArgs(outputProfile, processing.bitrate, processing.sampleRate, processing.preprocessing),
+                        ]
+                        : ['-c', 'copy']),
+                    '-y',
+                    outputFileName
+                ]);
+            } finally {
+                this.ffmpeg.off('log', logHandler);
+            }
 
             // 出力ファイルを読み取り
             const data = await this.ffmpeg.readFile(outputFileName);
             const uint8Array = new Uint8Array(data as Uint8Array);
-            const outputBlob = new Blob([uint8Array], { type: 'audio/mpeg' });
+            const outputBlob = new Blob([uint8Array], { type: outputProfile.mimeType });
 
             // 一時ファイルを削除
             try {
                 await this.ffmpeg.deleteFile(concatListFileName);
                 await this.ffmpeg.deleteFile(outputFileName);
                 for (let i = 0; i < segments.length; i++) {
-                    await this.ffmpeg.deleteFile(`segment_${i}_${timestamp}.mp3`);
+                    await this.ffmpeg.deleteFile(`segment_${i}_${timestamp}.${extension}`);
                 }
             } catch {
                 // 削除エラーは無視
@@ -436,7 +874,10 @@ export class VideoConverter {
 
             return {
                 success: true,
-                outputBlob
+                outputBlob,
+                removedDuration: processing?.preprocessing.trimSilence
+                    ? getRemovedDuration(processing.inputDuration, ffmpegLogs)
+                    : undefined,
             };
         } catch (error) {
             ffmpegLogger.error('音声結合エラー:', error);
@@ -446,7 +887,7 @@ export class VideoConverter {
                 await this.ffmpeg.deleteFile(concatListFileName);
                 await this.ffmpeg.deleteFile(outputFileName);
                 for (let i = 0; i < segments.length; i++) {
-                    await this.ffmpeg.deleteFile(`segment_${i}_${timestamp}.mp3`);
+                    await this.ffmpeg.deleteFile(`segment_${i}_${timestamp}.${extension}`);
                 }
             } catch {
                 // 削除エラーは無視
@@ -459,22 +900,38 @@ export class VideoConverter {
         }
     }
 
-    async convertToMp3(
+    async convertToAudio(
         videoFile: File,
         options: {
             bitrate?: string;
             sampleRate?: number;
             onProgress?: (progress: ConversionProgress) => void;
+            preprocessing?: AudioPreprocessingOptions;
+            outputProfile?: AudioOutputProfile;
+            audioTrackSelection?: AudioTrackSelection;
         } = {}
     ): Promise<ConversionResult> {
         if (!this.isLoaded) {
             await this.load();
         }
 
-        const { bitrate = '192k', sampleRate = 44100, onProgress } = options;
+        const {
+            bitrate = '192k',
+            sampleRate = 44100,
+            onProgress,
+            preprocessing,
+            outputProfile = AUDIO_OUTPUT_PROFILES.mp3,
+            audioTrackSelection,
+        } = options;
 
         const inputFileName = `input_${Date.now()}.${videoFile.name.split('.').pop()}`;
-        const outputFileName = `output_${Date.now()}.mp3`;
+        const outputFileName = `output_${Date.now()}.${outputProfile.extension}`;
+
+        // 無音の削除量を求めるため、入力と出力の長さをログから取得する
+        const ffmpegLogs: string[] = [];
+        const logHandler = ({ message }: { message: string }) => {
+            ffmpegLogs.push(message);
+        };
 
         try {
             // ファイルをFFmpegに書き込み
@@ -489,28 +946,29 @@ export class VideoConverter {
 
             // 進捗監視の設定
             this.ffmpeg.on('progress', progressHandler);
+            this.ffmpeg.on('log', logHandler);
 
             try {
-                // MP3に変換
+                // 出力形式の音声に変換
                 await this.ffmpeg.exec([
                     '-i', inputFileName,
                     '-vn', // ビデオストリームを無効化
-                    '-acodec', 'libmp3lame',
-                    '-ab', bitrate,
-                    '-ar', sampleRate.toString(),
+                    ...buildAudioInputArgs(buildPreprocessingFilters(preprocessing), audioTrackSelection),
+                    ...buildEncodeArgs(outputProfile, bitrate, sampleRate, preprocessing),
                     '-y', // 出力ファイルを上書き
                     outputFileName
                 ]);
             } finally {
                 // 進捗監視を解除
                 this.ffmpeg.off('progress', progressHandler);
+                this.ffmpeg.off('log', logHandler);
             }
 
             // 出力ファイルを読み取り
             const data = await this.ffmpeg.readFile(outputFileName);
             // Uint8Arrayに変換してからBlobを作成
             const uint8Array = new Uint8Array(data as Uint8Array);
-            const outputBlob = new Blob([uint8Array], { type: 'audio/mpeg' });
+            const outputBlob = new Blob([uint8Array], { type: outputProfile.mimeType });
 
             // 一時ファイルを削除（エラーを無視）
             try {
@@ -526,7 +984,10 @@ export class VideoConverter {
 
             return {
                 success: true,
-                outputBlob
+                outputBlob,
+                removedDuration: preprocessing?.trimSilence
+                    ? getRemovedDuration(parseInputDuration(ffmpegLogs), ffmpegLogs)
+                    : undefined,
             };
         } catch (error) {
             ffmpegLogger.error('変換エラー:', error);
@@ -550,11 +1011,12 @@ export class VideoConverter {
         }
     }
 
-    async convertMultipleToMp3(
+    async convertMultipleToAudio(
         videoFiles: File[],
         options: {
             bitrate?: string;
             sampleRate?: number;
+            outputProfile?: AudioOutputProfile;
             onProgress?: (fileIndex: number, progress: ConversionProgress) => void;
         } = {}
     ): Promise<ConversionResult[]> {
@@ -562,7 +1024,7 @@ export class VideoConverter {
 
         for (let i = 0; i < videoFiles.length; i++) {
             const file = videoFiles[i];
-            const result = await this.convertToMp3(file, {
+            const result = await this.convertToAudio(file, {
                 ...options,
                 onProgress: (progress) => {
                     if (options.onProgress) {
@@ -576,7 +1038,7 @@ export class VideoConverter {
         return results;
     }
 
-    // サポートされている動画形式をチェック
+    // サポートされている動画形式をチェック（字幕トラックは probeMedia で確認し、extractSubtitles で取り出す）
     static isSupportedFormat(file: File): boolean {
         const supportedFormats = ['mp4', 'mov', 'avi', 'mkv', 'webm'];
         const extension = file.name.split('.').pop()?.toLowerCase();
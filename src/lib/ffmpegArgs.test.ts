@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO_OUTPUT_PROFILES } from '@/constants/audioOutputProfiles';
+import { AudioPreprocessingOptions, DEFAULT_AUDIO_PREPROCESSING } from '@/constants/audioPreprocessing';
+import {
+    buildAudioInputArgs,
+    buildEncodeArgs,
+    buildPreprocessingFilters,
+    getRemovedDuration,
+    parseInputDuration,
+    parseOutputDuration,
+} from './ffmpegArgs';
+
+const ALL_PREPROCESSING: AudioPreprocessingOptions = {
+    trimSilence: true,
+    normalizeLoudness: true,
+    downmixToMono: true,
+    highPassFilter: true,
+};
+
+describe('buildPreprocessingFilters', () => {
+    it('前処理がなければフィルターを返さない', () => {
+        expect(buildPreprocessingFilters()).toEqual([]);
+        expect(buildPreprocessingFilters(DEFAULT_AUDIO_PREPROCESSING)).toEqual([]);
+    });
+
+    it('低音ノイズ除去 → 無音の削除 → 音量の正規化の順に並べる', () => {
+        const filters = buildPreprocessingFilters(ALL_PREPROCESSING);
+
+        expect(filters).toHaveLength(3);
+        expect(filters[0]).toBe('highpass=f=80');
+        expect(filters[1]).toMatch(/^silenceremove=/);
+        expect(filters[2]).toBe('loudnorm=I=-16:TP=-1.5:LRA=11');
+    });
+
+    it('区間ごとの変換では低音ノイズ除去だけを適用する', () => {
+        expect(buildPreprocessingFilters(ALL_PREPROCESSING, 'segment')).toEqual(['highpass=f=80']);
+    });
+
+    it('結合後の音声には無音の削除と音量の正規化だけを適用する', () => {
+        const filters = buildPreprocessingFilters(ALL_PREPROCESSING, 'combined');
+
+        expect(filters).toHaveLength(2);
+        expect(filters.some(filter => filter.startsWith('highpass'))).toBe(false);
+    });
+});
+
+describe('buildAudioInputArgs', () => {
+    it('トラックを選ばなければフィルターだけを指定する', () => {
+        expect(buildAudioInputArgs([])).toEqual([]);
+        expect(buildAudioInputArgs(['highpass=f=80'])).toEqual(['-af', 'highpass=f=80']);
+    });
+
+    it('トラックを1つ選んだ場合は -map で指定し、チャンネルの選択を先に適用する', () => {
+        const args = buildAudioInputArgs(['highpass=f=80'], { streamIndices: [2], channelMode: 'left' });
+
+        expect(args).toEqual(['-map', '0:2', '-af', 'pan=mono|c0=c0,highpass=f=80']);
+    });
+
+    it('トラックを複数選んだ場合は amix でミックスしてからフィルターを適用する', () => {
+        const args = buildAudioInputArgs(['highpass=f=80'], { streamIndices: [1, 2], channelMode: 'all' });
+
+        expect(args).toEqual([
+            '-filter_complex',
+            '[0:1][0:2]amix=inputs=2:duration=longest:normalize=0,highpass=f=80[aout]',
+            '-map',
+            '[aout]',
+        ]);
+    });
+});
+
+describe('buildEncodeArgs', () => {
+    it('出力形式で決まっている値を変換設定より優先する', () => {
+        expect(buildEncodeArgs(AUDIO_OUTPUT_PROFILES.speech_opus, '192k', 44100)).toEqual([
+            '-acodec', 'libopus', '-ab', '24k', '-ar', '16000', '-ac', '1',
+        ]);
+    });
+
+    it('出力形式で決まっていない値は変換設定を使い、モノラル化の指定があればチャンネル数を指定する', () => {
+        expect(buildEncodeArgs(AUDIO_OUTPUT_PROFILES.mp3, '192k', 44100)).toEqual([
+            '-acodec', 'libmp3lame', '-ab', '192k', '-ar', '44100',
+        ]);
+        expect(buildEncodeArgs(AUDIO_OUTPUT_PROFILES.mp3, '192k', 44100, ALL_PREPROCESSING)).toEqual([
+            '-acodec', 'libmp3lame', '-ab', '192k', '-ar', '44100', '-ac', '1',
+        ]);
+    });
+});
+
+describe('FFmpeg のログの解析', () => {
+    const logs = [
+        'Input #0, mov,mp4,m4a,3gp,3g2,mj2, from \'input.mp4\':',
+        '  Duration: 00:01:30.50, start: 0.000000, bitrate: 1024 kb/s',
+        'size=     256kB time=00:00:30.00 bitrate= 69.9kbits/s speed=10x',
+        'size=     512kB time=00:01:10.25 bitrate= 59.7kbits/s speed=12x',
+    ];
+
+    it('入力の長さと、最後の進捗の出力の長さを秒で取得する', () => {
+        expect(parseInputDuration(logs)).toBe(90.5);
+        expect(parseOutputDuration(logs)).toBe(70.25);
+    });
+
+    it('長さがログにない場合は null を返す', () => {
+        expect(parseInputDuration([])).toBeNull();
+        expect(parseOutputDuration(['no progress'])).toBeNull();
+    });
+
+    it('無音の削除で短くなった長さを求める', () => {
+        expect(getRemovedDuration(90.5, logs)).toBe(20.25);
+        expect(getRemovedDuration(null, logs)).toBeUndefined();
+        expect(getRemovedDuration(90.5, [])).toBeUndefined();
+    });
+});
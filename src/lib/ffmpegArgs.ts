@@ -0,0 +1,146 @@
+/**
+ * FFmpeg の引数の組み立てとログの解析
+ * ブラウザの FFmpeg（WebAssembly）とサーバー処理のネイティブ FFmpeg で同じ変換になるよう共有する。
+ */
+
+import { AUDIO_PREPROCESSING_CONFIG, AudioPreprocessingOptions } from '@/constants/audioPreprocessing';
+import { AudioOutputProfile } from '@/constants/audioOutputProfiles';
+import { AudioTrackSelection } from '@/constants/audioTrackSelection';
+
+/**
+ * 前処理を適用する段階
+ * - segment: 区間ごとの変換。前後の区間に関係しないフィルター（低音ノイズ除去）だけを適用する
+ * - combined: 区間を結合した後の音声。無音の削除と音量の正規化は区間ごとに行うと区間ごとに音量が揃わず、
+ *   区間の中で削った無音の分だけ区間の位置もずれるため、結合後に1回だけ適用する
+ * - all: ファイル全体を1回で変換する場合（すべて適用する）
+ */
+export type PreprocessingStage = 'segment' | 'combined' | 'all';
+
+/**
+ * 前処理のオプションを FFmpeg のフィルターに変換（モノラル化は buildEncodeArgs で指定）
+ * 順序: 低音ノイズ除去 → 無音の削除 → 音量の正規化（無音を削ってから音量を測る）
+ */
+export function buildPreprocessingFilters(options?: AudioPreprocessingOptions, stage: PreprocessingStage = 'all'): string[] {
+    if (!options) {
+        return [];
+    }
+
+    const {
+        SILENCE_THRESHOLD_DB,
+        SILENCE_MIN_DURATION,
+        SILENCE_KEEP_DURATION,
+        HIGH_PASS_FREQUENCY,
+        LOUDNORM_TARGET,
+    } = AUDIO_PREPROCESSING_CONFIG;
+    const filters: string[] = [];
+    if (options.highPassFilter && stage !== 'combined') {
+        filters.push(`highpass=f=${HIGH_PASS_FREQUENCY}`);
+    }
+    if (stage === 'segment') {
+        return filters;
+    }
+    if (options.trimSilence) {
+        filters.push(
+            `silenceremove=stop_periods=-1:stop_duration=${SILENCE_MIN_DURATION}` +
+            `:stop_threshold=${SILENCE_THRESHOLD_DB}dB:stop_silence=${SILENCE_KEEP_DURATION}`
+        );
+    }
+    if (options.normalizeLoudness) {
+        filters.push(`loudnorm=${LOUDNORM_TARGET}`);
+    }
+
+    return filters;
+}
+
+/**
+ * 音声トラック・チャンネルの選択を FFmpeg のフィルターに変換
+ */
+function buildChannelFilters(selection?: AudioTrackSelection): string[] {
+    switch (selection?.channelMode) {
+        case 'left':
+            return ['pan=mono|c0=c0'];
+        case 'right':
+            return ['pan=mono|c0=c1'];
+        case 'mix':
+            return ['aformat=channel_layouts=mono'];
+        default:
+            return [];
+    }
+}
+
+/**
+ * 入力する音声ストリームとフィルターの引数
+ * トラックを1つ選んだ場合は -map で指定し、複数選んだ場合は amix でミックスしてからフィルターを適用する
+ * @param filters 選んだ音声に適用するフィルター（チャンネルの選択の後に適用）
+ */
+export function buildAudioInputArgs(filters: string[], selection?: AudioTrackSelection): string[] {
+    const allFilters = [...buildChannelFilters(selection), ...filters];
+    const streamIndices = selection?.streamIndices ?? [];
+
+    if (streamIndices.length <= 1) {
+        return [
+            ...(streamIndices.length === 1 ? ['-map', `0:${streamIndices[0]}`] : []),
+            ...(allFilters.length > 0 ? ['-af', allFilters.join(',')] : []),
+        ];
+    }
+
+    const inputs = streamIndices.map(index => `[0:${index}]`).join('');
+    const graph = [`${inputs}amix=inputs=${streamIndices.length}:duration=longest:normalize=0`, ...allFilters].join(',');
+    return ['-filter_complex', `${graph}[aout]`, '-map', '[aout]'];
+}
+
+/**
+ * 出力形式に応じたエンコーダーの引数
+ * 出力形式でビットレート・サンプルレート・チャンネル数が決まっている場合は変換設定より優先する
+ */
+export function buildEncodeArgs(
+    profile: AudioOutputProfile,
+    bitrate: string,
+    sampleRate: number,
+    preprocessing?: AudioPreprocessingOptions
+): string[] {
+    const channels = profile.channels ?? (preprocessing?.downmixToMono ? 1 : undefined);
+    return [
+        '-acodec', profile.codec,
+        '-ab', profile.bitrate ?? bitrate,
+        '-ar', (profile.sampleRate ?? sampleRate).toString(),
+        ...(channels ? ['-ac', channels.toString()] : []),
+    ];
+}
+
+/**
+ * FFmpeg の進捗ログ（"time=00:01:23.45"）の最後の値から出力の長さ（秒）を取得
+ */
+export function parseOutputDuration(logs: string[]): number | null {
+    for (let i = logs.length - 1; i >= 0; i--) {
+        const match = logs[i].match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+        if (match) {
+            return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+        }
+    }
+    return null;
+}
+
+/**
+ * 入力の長さ（"Duration: 00:01:23.45"）を秒で取得
+ */
+export function parseInputDuration(logs: string[]): number | null {
+    for (const log of logs) {
+        const match = log.match(/Duration: (\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)/);
+        if (match) {
+            return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+        }
+    }
+    return null;
+}
+
+/**
+ * 無音の削除で短くなった長さ（秒）。長さを取得できない場合は undefined
+ */
+export function getRemovedDuration(inputDuration: number | null, logs: string[]): number | undefined {
+    const outputDuration = parseOutputDuration(logs);
+    if (inputDuration === null || outputDuration === null) {
+        return undefined;
+    }
+    return Math.max(0, Math.round((inputDuration - outputDuration) * 100) / 100);
+}
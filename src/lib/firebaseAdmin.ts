@@ -0,0 +1,29 @@
+/**
+ * サーバー（API ルート）で使う Firebase Admin SDK
+ * ブラウザから送られた ID トークンの検証と、レート制限・月間上限の確認のための読み取りに使う。
+ * 認証情報は scripts/create-admin.ts と同じ serviceAccountKey.json か、なければ GOOGLE_APPLICATION_CREDENTIALS の既定の認証情報を使う。
+ * Node.js の API を使うため、API ルートからのみ読み込むこと。
+ */
+
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { App, applicationDefault, cert, getApp, getApps, initializeApp } from 'firebase-admin/app';
+import { Auth, getAuth } from 'firebase-admin/auth';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+
+const SERVICE_ACCOUNT_KEY_PATH = path.join(process.cwd(), 'serviceAccountKey.json');
+
+// 初回の利用時に初期化する（認証情報がない環境でもモジュールの読み込みだけでは失敗しない）
+const getAdminApp = (): App => {
+    if (getApps().length > 0) {
+        return getApp();
+    }
+    return initializeApp({
+        credential: existsSync(SERVICE_ACCOUNT_KEY_PATH) ? cert(SERVICE_ACCOUNT_KEY_PATH) : applicationDefault(),
+        projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    });
+};
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
+
+export const getAdminFirestore = (): Firestore => getFirestore(getAdminApp());
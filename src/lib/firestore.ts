@@ -1,7 +1,6 @@
 import { db } from './firebase';
 import {
     collection,
-    addDoc,
     getDocs,
     query,
     orderBy,
@@ -16,8 +15,17 @@ import {
 import { getCurrentUserId, getOwnerType } from './auth';
 import { logAudit } from './auditLog';
 import { validateDocumentSize } from './adminSettings';
-import { updateUserStats } from './userManagement';
+import { recordMonthlyUsage, recordUserTokenUsage, updateUserStats } from './userManagement';
+import { getUsageMonth } from './quota';
+import { estimateCostUsd } from './tokenUsage';
+import { TokenUsage } from '@/types/usage';
+import { OutputSchema, StructuredData } from '@/types/structuredOutput';
+import { AudioConversionSettings } from '@/constants/conversionSettings';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { MediaTrimRange } from '@/types/processing';
+import { DocumentKeyframe } from '@/types/keyframes';
 import { createLogger } from './logger';
+import { createWithRateLimit } from './rateLimit';
 
 const firestoreLogger = createLogger('firestore');
 
@@ -35,6 +43,19 @@ export interface TranscriptionDocument {
     bitrate?: string;
     sampleRate?: number;
     audioStoragePath?: string;
+    usage?: TokenUsage & { estimatedCostUsd: number }; // 生成時のトークン使用量と推定コスト
+    outputSchema?: OutputSchema; // 構造化出力のプロンプトで生成した場合のスキーマ（生成時点）
+    structuredData?: StructuredData; // スキーマ検証済みの生成結果（transcription はこれを Markdown にしたもの）
+    conversionSettings?: AudioConversionSettings; // 生成時の変換設定（再現用）
+    mediaInfo?: MediaProbeResult; // 元ファイルのメディア情報（コンテナ・長さ・トラック・チャプター）
+    trimRange?: MediaTrimRange; // 処理した範囲（範囲を指定した場合のみ。元メディア上の位置）
+    keyframes?: DocumentKeyframe[]; // 生成に添付した動画の場面の画像（本文のマーカーの位置に表示）
+}
+
+/** 構造化出力のプロンプトで生成した文書に保存するデータ */
+export interface StructuredOutputRecord {
+    schema: OutputSchema;
+    data: StructuredData;
 }
 
 // エイリアス（後方互換性のため）
@@ -45,6 +66,12 @@ export interface Transcription {
     text: string; // transcription のエイリアス
     promptName: string;
     createdAt: Timestamp | Date;
+    outputSchema?: OutputSchema;
+    structuredData?: StructuredData;
+    conversionSettings?: AudioConversionSettings;
+    mediaInfo?: MediaProbeResult;
+    trimRange?: MediaTrimRange;
+    keyframes?: DocumentKeyframe[];
 }
 
 /**
@@ -58,7 +85,13 @@ export async function saveTranscription(
     bitrate?: string,
     sampleRate?: number,
     title?: string,
-    audioStoragePath?: string
+    audioStoragePath?: string,
+    usage?: TokenUsage,
+    structuredOutput?: StructuredOutputRecord,
+    conversionSettings?: AudioConversionSettings,
+    mediaInfo?: MediaProbeResult,
+    trimRange?: MediaTrimRange,
+    keyframes?: DocumentKeyframe[]
 ): Promise<string> {
     try {
         const userId = getCurrentUserId();
@@ -74,7 +107,9 @@ export async function saveTranscription(
             );
         }
 
-        const docRef = await addDoc(collection(db, 'transcriptions'), {
+        // レート制限の枠を消費して作成（上限に達している場合は RateLimitError）
+        const docRef = doc(collection(db, 'transcriptions'));
+        await createWithRateLimit('documents', docRef, {
             title: title || fileName, // デフォルトはfileName
             fileName,
             originalFileType,
@@ -87,14 +122,35 @@ export async function saveTranscription(
             createdBy: userId,
             createdAt: serverTimestamp(),
             ...(audioStoragePath && { audioStoragePath }),
+            ...(usage && { usage: { ...usage, estimatedCostUsd: estimateCostUsd(usage) } }),
+            ...(structuredOutput && { outputSchema: structuredOutput.schema, structuredData: structuredOutput.data }),
+            ...(conversionSettings && { conversionSettings }),
+            ...(mediaInfo && { mediaInfo }),
+            ...(trimRange && { trimRange }),
+            ...(keyframes && keyframes.length > 0 && { keyframes }),
         });
 
+        // 当月の文書数に加算（記録できない場合は、計上されない文書を残さないよう削除して失敗にする）
+        if (ownerType === 'user') {
+            try {
+                await recordMonthlyUsage(userId, getUsageMonth(), { documents: 1 });
+            } catch (error) {
+                await deleteDoc(docRef).catch((deleteError) => {
+                    firestoreLogger.warn('利用量を記録できなかった文書を削除できません', { documentId: docRef.id, error: String(deleteError) });
+                });
+                throw error;
+            }
+        }
+
         // 監査ログを記録
         await logAudit('document_create', 'document', docRef.id, { fileName, promptName, ownerType });
 
         // ユーザー統計を更新
         if (ownerType === 'user') {
             await updateUserStats(userId, 0, 1);
+            if (usage) {
+                await recordUserTokenUsage(userId, usage);
+            }
         }
 
         return docRef.id;
@@ -167,6 +223,13 @@ export async function getTranscriptionDocuments(limitCount: number = 20): Promis
                 bitrate: data.bitrate,
                 sampleRate: data.sampleRate,
                 audioStoragePath: data.audioStoragePath,
+                usage: data.usage,
+                outputSchema: data.outputSchema,
+                structuredData: data.structuredData,
+                conversionSettings: data.conversionSettings,
+                mediaInfo: data.mediaInfo,
+                trimRange: data.trimRange,
+                keyframes: data.keyframes,
                 createdAt,
             });
         });
@@ -230,6 +293,12 @@ export async function getTranscriptions(limitCount: number = 100): Promise<Trans
                 text: data.transcription, // transcription を text にマッピング
                 promptName: data.promptName || '不明',
                 createdAt,
+                outputSchema: data.outputSchema,
+                structuredData: data.structuredData,
+                conversionSettings: data.conversionSettings,
+                mediaInfo: data.mediaInfo,
+                trimRange: data.trimRange,
+                keyframes: data.keyframes,
             });
         });
 
@@ -263,6 +332,12 @@ export async function getTranscriptionsByOwnerId(ownerId: string, limitCount: nu
                 text: data.transcription,
                 promptName: data.promptName || '不明',
                 createdAt,
+                outputSchema: data.outputSchema,
+                structuredData: data.structuredData,
+                conversionSettings: data.conversionSettings,
+                mediaInfo: data.mediaInfo,
+                trimRange: data.trimRange,
+                keyframes: data.keyframes,
             });
         });
 
@@ -1,58 +1,172 @@
-import { GoogleGenAI } from '@google/genai';
-import { DEFAULT_GEMINI_MODEL } from '../constants/geminiModels';
+import {
+    ApiError,
+    FileState,
+    FinishReason,
+    GenerateContentResponse,
+    GenerateContentResponseUsageMetadata,
+    GoogleGenAI,
+    MediaModality,
+    Part,
+    Schema,
+    Type,
+    createPartFromUri,
+} from '@google/genai';
+import { TranscriptionErrorCode } from '../constants/transcriptionErrors';
+import { DEFAULT_GEMINI_MODEL, GEMINI_MODEL_OPTIONS } from '../constants/geminiModels';
+import { TranscriptionModelOption } from '../constants/transcriptionProviders';
+import { blobToBase64 } from '../utils/base64';
+import type {
+    DocumentGenerationOptions,
+    DocumentGenerationRequest,
+    MediaUploadOptions,
+    TranscriptionImage,
+    TranscriptionProvider,
+    TranscriptionResult,
+    UploadedMedia,
+} from './transcriptionProvider';
 import { createLogger } from './logger';
+import { parseRetryAfterHeader, TranscriptionError, waitWithAbort, withRetry } from './transcriptionErrors';
+import type { TokenUsage } from '../types/usage';
+import type { OutputSchema, OutputSchemaType, StructuredData } from '../types/structuredOutput';
+import { parseStructuredOutput } from './structuredOutput';
 
 const geminiLogger = createLogger('gemini');
 
-export interface TranscriptionResult {
-    success: boolean;
-    text?: string;
-    error?: string;
+export type { TranscriptionResult } from './transcriptionProvider';
+
+/**
+ * Files API（再開可能アップロード）の設定
+ */
+const GEMINI_FILE_UPLOAD_CONFIG = {
+    UPLOAD_ENDPOINT: 'https://generativelanguage.googleapis.com/upload/v1beta/files',
+    /** チャンクサイズ（256KiBの倍数である必要がある） */
+    CHUNK_SIZE_BYTES: 8 * 1024 * 1024,
+    MAX_CHUNK_RETRIES: 3,
+    RETRY_DELAY_MS: 1000,
+    POLL_INTERVAL_MS: 2000,
+    /** ACTIVE になるまでの最大待ち時間 */
+    ACTIVE_TIMEOUT_MS: 5 * 60 * 1000,
+} as const;
+
+interface GeminiUploadedFile {
+    name: string;
+    uri: string;
+    mimeType?: string;
 }
 
-export class GeminiClient {
-    private genAI: GoogleGenAI;
-    private defaultModel: string;
+/** 生成結果がブロックされたとみなす終了理由 */
+const BLOCKED_FINISH_REASONS: readonly FinishReason[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.RECITATION,
+];
+
+function getBlockReason(response: GenerateContentResponse): string | undefined {
+    const promptBlockReason = response.promptFeedback?.blockReason;
+    if (promptBlockReason) {
+        return promptBlockReason;
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    return finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+}
 
-    constructor(defaultModel: string = DEFAULT_GEMINI_MODEL) {
-        const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+/**
+ * usageMetadata を TokenUsage に変換（音声の入力トークンはモダリティ別の内訳から取り出す）
+ */
+function toTokenUsage(model: string, metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) {
+        return undefined;
+    }
+    const audioPromptTokens = (metadata.promptTokensDetails ?? [])
+        .filter(detail => detail.modality === MediaModality.AUDIO)
+        .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const candidatesTokens = metadata.candidatesTokenCount ?? 0;
+    const thoughtsTokens = metadata.thoughtsTokenCount ?? 0;
+    return {
+        provider: 'gemini',
+        model,
+        promptTokens,
+        audioPromptTokens,
+        candidatesTokens,
+        thoughtsTokens,
+        totalTokens: metadata.totalTokenCount ?? promptTokens + candidatesTokens + thoughtsTokens,
+    };
+}
 
-        if (!apiKey) {
-            throw new Error('NEXT_PUBLIC_GEMINI_API_KEY が設定されていません');
-        }
+const GEMINI_SCHEMA_TYPES: Record<OutputSchemaType, Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+};
+
+/**
+ * 構造化出力のスキーマを Gemini の responseSchema に変換（項目の記述順を出力順として指定する）
+ */
+function toGeminiSchema(schema: OutputSchema): Schema {
+    return {
+        type: GEMINI_SCHEMA_TYPES[schema.type],
+        ...(schema.description && { description: schema.description }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(
+                Object.entries(schema.properties).map(([key, propertySchema]) => [key, toGeminiSchema(propertySchema)])
+            ),
+            propertyOrdering: Object.keys(schema.properties),
+        }),
+        ...(schema.required && { required: schema.required }),
+        ...(schema.items && { items: toGeminiSchema(schema.items) }),
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.format && { format: schema.format }),
+        ...(schema.nullable && { nullable: true }),
+    };
+}
 
-        this.genAI = new GoogleGenAI({ apiKey });
-        this.defaultModel = defaultModel;
+function classifyHttpStatus(status: number, message: string): TranscriptionErrorCode {
+    if (status === 401 || status === 403 || message.includes('API_KEY_INVALID') || message.includes('API key not valid')) {
+        return 'auth';
+    }
+    if (status === 404) {
+        return 'model_not_found';
     }
+    if (status === 413 || (status === 400 && /payload|too large|exceeds/i.test(message))) {
+        return 'payload_too_large';
+    }
+    if (status === 408 || status === 429) {
+        return status === 429 ? 'quota' : 'network';
+    }
+    if (status >= 500) {
+        return 'server_error';
+    }
+    return 'unknown';
+}
 
-    /**
-     * 動画ファイルから文字起こしと文書生成を行う（直接送信）
-     * @param videoBlob 動画ファイルのBlob
-     * @param fileName ファイル名
-     * @param customPrompt カスタムプロンプト（オプション）
-     * @param modelName 使用するGeminiモデル。未指定の場合は既定モデル。
-     */
-    async transcribeVideo(
-        videoBlob: Blob,
-        fileName: string,
-        customPrompt?: string,
-        modelName?: string
-    ): Promise<TranscriptionResult> {
-        try {
-            geminiLogger.info('transcribeVideo 開始', {
-                fileName,
-                mimeType: videoBlob.type,
-                sizeInMB: (videoBlob.size / 1024 / 1024).toFixed(2),
-                modelName: modelName || this.defaultModel,
-                hasCustomPrompt: Boolean(customPrompt),
-                customPromptLength: customPrompt?.length,
-            });
+/**
+ * 429 応答本文の RetryInfo（"retryDelay": "37s"）から待ち時間を取り出す
+ * SDK のエラーからはレスポンスヘッダーを参照できないため、本文側を使う
+ */
+function parseRetryDelay(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+}
 
-            // BlobをBase64に変換
-            const base64Video = await this.blobToBase64(videoBlob);
+function errorFromResponse(response: Response, context: string): TranscriptionError {
+    const message = `${context}: ${response.status} ${response.statusText}`;
+    return new TranscriptionError(classifyHttpStatus(response.status, message), message, {
+        retryAfterMs: parseRetryAfterHeader(response.headers.get('retry-after')),
+    });
+}
 
-            // プロンプトの作成（カスタムプロンプトがあればそれを使用）
-            const prompt = customPrompt || `
+/**
+ * カスタムプロンプト未指定時に使う既定の文書生成プロンプト
+ */
+function buildDefaultDocumentPrompt(mimeType: string): string {
+    return mimeType.startsWith('video/')
+        ? `
 以下の動画ファイルの内容を分析し、以下の形式でMarkdown文書を作成してください：
 
 # タイトル
@@ -70,108 +184,8 @@ export class GeminiClient {
 - （重要なポイント3）
 
 動画が日本語の場合は日本語で、英語の場合は英語で文書を作成してください。
-`.trim();
-
-            // BlobのmimeTypeを取得（デフォルトはvideo/mp4）
-            const mimeType = videoBlob.type || 'video/mp4';
-
-            geminiLogger.info('Gemini API へ動画を送信', {
-                fileName,
-                mimeType,
-                sizeInMB: (videoBlob.size / 1024 / 1024).toFixed(2),
-                modelName: modelName || this.defaultModel,
-                promptLength: prompt.length,
-            });
-
-            // Gemini APIにリクエスト
-            const targetModel = (modelName || this.defaultModel || DEFAULT_GEMINI_MODEL).trim();
-            const result = await this.genAI.models.generateContent({
-                model: targetModel,
-                contents: [
-                    {
-                        role: 'user',
-                        parts: [
-                            { text: prompt },
-                            { inlineData: { mimeType, data: base64Video } },
-                        ],
-                    },
-                ],
-            });
-
-            geminiLogger.info('generateContent のレスポンスを受信', { fileName });
-
-            const text = result.text ?? '';
-
-            geminiLogger.info('動画の直接送信による文書生成が成功', {
-                fileName,
-                modelName: modelName || this.defaultModel,
-                generatedTextLength: text.length,
-            });
-
-            return {
-                success: true,
-                text,
-            };
-        } catch (error) {
-            geminiLogger.error('動画の直接送信でエラーが発生', error, { fileName, modelName });
-
-            // より詳細なエラー情報を返す
-            let errorMessage = '不明なエラーが発生しました';
-            if (error instanceof Error) {
-                errorMessage = error.message;
-
-                // ネットワークエラーチェック
-                if (errorMessage.includes('fetch') ||
-                    errorMessage.includes('network') ||
-                    errorMessage.includes('Failed to fetch') ||
-                    errorMessage.includes('NetworkError') ||
-                    errorMessage.toLowerCase().includes('offline')) {
-                    errorMessage = 'ネットワークエラー: インターネット接続を確認してください。';
-                }
-                // APIキーのエラーチェック
-                else if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key not valid')) {
-                    errorMessage = 'Gemini APIキーが無効です。.env.localファイルを確認してください。';
-                } else if (errorMessage.includes('not found') || errorMessage.includes('404')) {
-                    errorMessage = `指定されたモデルが見つかりません（${modelName || this.defaultModel}）。Gemini APIキーとモデル名を確認してください。`;
-                } else if (errorMessage.includes('PERMISSION_DENIED')) {
-                    errorMessage = 'Gemini APIへのアクセスが拒否されました。APIキーの権限を確認してください。';
-                } else if (errorMessage.includes('file too large') || errorMessage.includes('payload')) {
-                    errorMessage = '動画ファイルが大きすぎます。より小さいファイルを使用してください。';
-                }
-            }
-
-            return {
-                success: false,
-                error: errorMessage,
-            };
-        }
-    }
-
-    /**
-     * 音声ファイルから文字起こしと文書生成を行う
-     * @param modelName 使用するGeminiモデル。未指定の場合は既定モデル。
-     */
-    async transcribeAudio(
-        audioBlob: Blob,
-        fileName: string,
-        customPrompt?: string,
-        modelName?: string
-    ): Promise<TranscriptionResult> {
-        try {
-            geminiLogger.info('transcribeAudio 開始', {
-                fileName,
-                mimeType: audioBlob.type,
-                sizeInMB: (audioBlob.size / 1024 / 1024).toFixed(2),
-                modelName: modelName || this.defaultModel,
-                hasCustomPrompt: Boolean(customPrompt),
-                customPromptLength: customPrompt?.length,
-            });
-
-            // BlobをBase64に変換
-            const base64Audio = await this.blobToBase64(audioBlob);
-
-            // プロンプトの作成（カスタムプロンプトがあればそれを使用）
-            const prompt = customPrompt || `
+`.trim()
+        : `
 以下の音声ファイルの内容を分析し、以下の形式でMarkdown文書を作成してください：
 
 # タイトル
@@ -190,76 +204,89 @@ export class GeminiClient {
 
 音声が日本語の場合は日本語で、英語の場合は英語で文書を作成してください。
 `.trim();
+}
 
-            // BlobのmimeTypeを取得（デフォルトはaudio/mp3）
-            const mimeType = audioBlob.type || 'audio/mp3';
+export class GeminiClient implements TranscriptionProvider {
+    readonly id = 'gemini' as const;
+    private genAI: GoogleGenAI;
+    private apiKey: string;
+    private defaultModel: string;
 
-            geminiLogger.info('Gemini API へ音声を送信', {
-                fileName,
-                mimeType,
-                sizeInMB: (audioBlob.size / 1024 / 1024).toFixed(2),
-                modelName: modelName || this.defaultModel,
-                promptLength: prompt.length,
-            });
+    constructor(defaultModel: string = DEFAULT_GEMINI_MODEL) {
+        const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
 
-            // Gemini APIにリクエスト
-            const targetModel = (modelName || this.defaultModel || DEFAULT_GEMINI_MODEL).trim();
-            const result = await this.genAI.models.generateContent({
-                model: targetModel,
-                contents: [
-                    {
-                        role: 'user',
-                        parts: [
-                            { text: prompt },
-                            { inlineData: { mimeType, data: base64Audio } },
-                        ],
-                    },
-                ],
-            });
+        if (!apiKey) {
+            throw new Error('NEXT_PUBLIC_GEMINI_API_KEY が設定されていません');
+        }
 
-            geminiLogger.info('generateContent のレスポンスを受信', { fileName });
+        this.genAI = new GoogleGenAI({ apiKey });
+        this.apiKey = apiKey;
+        this.defaultModel = defaultModel;
+    }
+
+    /**
+     * 動画ファイルから文字起こしと文書生成を行う（直接送信）
+     * @param videoBlob 動画ファイルのBlob
+     * @param fileName ファイル名
+     * @param customPrompt カスタムプロンプト（オプション）
+     * @param modelName 使用するGeminiモデル。未指定の場合は既定モデル。
+     */
+    async transcribeVideo(
+        videoBlob: Blob,
+        fileName: string,
+        customPrompt?: string,
+        modelName?: string
+    ): Promise<TranscriptionResult> {
+        geminiLogger.info('transcribeVideo 開始', {
+            fileName,
+            mimeType: videoBlob.type,
+            sizeInMB: (videoBlob.size / 1024 / 1024).toFixed(2),
+            modelName: modelName || this.defaultModel,
+            hasCustomPrompt: Boolean(customPrompt),
+        });
 
-            const text = result.text ?? '';
+        // BlobのmimeTypeを取得（デフォルトはvideo/mp4）
+        return this.transcribeBlob(videoBlob, videoBlob.type || 'video/mp4', fileName, customPrompt, modelName);
+    }
 
-            geminiLogger.info('音声の文書生成が成功', {
-                fileName,
-                modelName: modelName || this.defaultModel,
-                generatedTextLength: text.length,
-            });
+    /**
+     * 音声ファイルから文字起こしと文書生成を行う
+     * @param modelName 使用するGeminiモデル。未指定の場合は既定モデル。
+     */
+    async transcribeAudio(
+        audioBlob: Blob,
+        fileName: string,
+        customPrompt?: string,
+        modelName?: string
+    ): Promise<TranscriptionResult> {
+        geminiLogger.info('transcribeAudio 開始', {
+            fileName,
+            mimeType: audioBlob.type,
+            sizeInMB: (audioBlob.size / 1024 / 1024).toFixed(2),
+            modelName: modelName || this.defaultModel,
+            hasCustomPrompt: Boolean(customPrompt),
+        });
 
-            return {
-                success: true,
-                text,
-            };
-        } catch (error) {
-            geminiLogger.error('Gemini API呼び出しでエラーが発生', error, { fileName, modelName });
-
-            // より詳細なエラー情報を返す
-            let errorMessage = '不明なエラーが発生しました';
-            if (error instanceof Error) {
-                errorMessage = error.message;
-
-                // ネットワークエラーチェック
-                if (errorMessage.includes('fetch') ||
-                    errorMessage.includes('network') ||
-                    errorMessage.includes('Failed to fetch') ||
-                    errorMessage.includes('NetworkError') ||
-                    errorMessage.toLowerCase().includes('offline')) {
-                    errorMessage = 'ネットワークエラー: インターネット接続を確認してください。';
-                }
-                // APIキーのエラーチェック
-                else if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key not valid')) {
-                    errorMessage = 'Gemini APIキーが無効です。.env.localファイルを確認してください。';
-                } else if (errorMessage.includes('not found') || errorMessage.includes('404')) {
-                    errorMessage = `指定されたモデルが見つかりません（${modelName || this.defaultModel}）。Gemini APIキーとモデル名を確認してください。`;
-                } else if (errorMessage.includes('PERMISSION_DENIED')) {
-                    errorMessage = 'Gemini APIへのアクセスが拒否されました。APIキーの権限を確認してください。';
-                }
-            }
+        // BlobのmimeTypeを取得（デフォルトはaudio/mp3）
+        return this.transcribeBlob(audioBlob, audioBlob.type || 'audio/mp3', fileName, customPrompt, modelName);
+    }
 
+    private async transcribeBlob(
+        blob: Blob,
+        mimeType: string,
+        fileName: string,
+        customPrompt?: string,
+        modelName?: string
+    ): Promise<TranscriptionResult> {
+        try {
+            const base64Data = await blobToBase64(blob);
+            return this.transcribeWithBase64(base64Data, mimeType, fileName, customPrompt, modelName);
+        } catch (error) {
+            geminiLogger.error('Base64変換に失敗', error, { fileName });
             return {
                 success: false,
-                error: errorMessage,
+                error: '音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。',
+                errorCode: 'unknown',
             };
         }
     }
@@ -270,165 +297,533 @@ export class GeminiClient {
      * 呼び出し元で1回だけ呼び、その結果を transcribeWithBase64 に渡すこと。
      */
     async getBase64(blob: Blob): Promise<string> {
-        return this.blobToBase64(blob);
+        return blobToBase64(blob);
+    }
+
+    /**
+     * TranscriptionProvider 実装: Base64化済み、または Files API にアップロード済みのメディアから文書を生成
+     * メディアがない場合はプロンプトと添付テキストのみで生成する
+     */
+    async generateDocument(
+        request: DocumentGenerationRequest,
+        options?: DocumentGenerationOptions
+    ): Promise<TranscriptionResult> {
+        const { media } = request;
+        if (!media) {
+            geminiLogger.info('Gemini API へ送信（テキストのみ）', {
+                fileName: request.fileName,
+                contextTextLength: request.contextText?.length ?? 0,
+            });
+            return this.generateWithParts({
+                fileName: request.fileName,
+                customPrompt: request.prompt,
+                modelName: request.model,
+                contextText: request.contextText,
+                images: request.images,
+                outputSchema: request.outputSchema,
+            }, options);
+        }
+        if (media.type === 'uploaded') {
+            return this.transcribeWithFileUri(
+                media.uri,
+                media.mimeType,
+                request.fileName,
+                request.prompt,
+                request.model,
+                options,
+                request.contextText,
+                request.outputSchema,
+                request.images
+            );
+        }
+        return this.transcribeWithBase64(
+            media.base64Data,
+            media.mimeType,
+            request.fileName,
+            request.prompt,
+            request.model,
+            options,
+            request.contextText,
+            request.outputSchema,
+            request.images
+        );
+    }
+
+    /**
+     * TranscriptionProvider 実装: 利用可能なGeminiモデル一覧
+     */
+    listModels(): TranscriptionModelOption[] {
+        return GEMINI_MODEL_OPTIONS;
+    }
+
+    /**
+     * Gemini SDK / 通信のエラーを TranscriptionError に分類する
+     * HTTPステータスを優先し、ステータスが取れない場合のみメッセージから推定する
+     */
+    classifyError(error: unknown, modelName?: string): TranscriptionError {
+        if (error instanceof TranscriptionError) {
+            return error;
+        }
+        if (!(error instanceof Error)) {
+            return new TranscriptionError('unknown', String(error), { cause: error });
+        }
+        if (error.name === 'AbortError') {
+            return new TranscriptionError('cancelled', error.message, { cause: error });
+        }
+
+        const errorMessage = error.message;
+        const status = error instanceof ApiError ? error.status : undefined;
+
+        if (status !== undefined) {
+            const code = classifyHttpStatus(status, errorMessage);
+            const detail = code === 'model_not_found'
+                ? `${errorMessage} (model: ${modelName || this.defaultModel})`
+                : errorMessage;
+            return new TranscriptionError(code, detail, {
+                retryAfterMs: parseRetryDelay(errorMessage),
+                cause: error,
+            });
+        }
+
+        // ステータスが取れない（fetch自体の失敗など）場合はメッセージから推定
+        if (errorMessage.includes('fetch') ||
+            errorMessage.includes('network') ||
+            errorMessage.includes('Failed to fetch') ||
+            errorMessage.includes('NetworkError') ||
+            errorMessage.toLowerCase().includes('offline')) {
+            return new TranscriptionError('network', errorMessage, { cause: error });
+        }
+        if (errorMessage.includes('API_KEY_INVALID') ||
+            errorMessage.includes('API key not valid') ||
+            errorMessage.includes('PERMISSION_DENIED')) {
+            return new TranscriptionError('auth', errorMessage, { cause: error });
+        }
+        if (errorMessage.includes('RESOURCE_EXHAUSTED')) {
+            return new TranscriptionError('quota', errorMessage, {
+                retryAfterMs: parseRetryDelay(errorMessage),
+                cause: error,
+            });
+        }
+        if (errorMessage.includes('file too large') || errorMessage.includes('payload')) {
+            return new TranscriptionError('payload_too_large', errorMessage, { cause: error });
+        }
+
+        return new TranscriptionError('unknown', errorMessage, { cause: error });
     }
 
     /**
      * 既にBase64化したメディアで文書生成を行う（getBase64 を1回だけ行い、複数プロンプトで共有する用途）
      * @param base64Data Base64文字列（data URLのプレフィックスなし）
      * @param mimeType 'video/mp4' または 'audio/mpeg' など
+     * @param options onPartialText を指定するとストリーミングで生成する
+     * @param contextText メディアの後ろに添付するテキスト資料
+     * @param images メディアの後ろに添付する画像（動画の場面の画像など）
      */
     async transcribeWithBase64(
         base64Data: string,
         mimeType: string,
         fileName: string,
         customPrompt?: string,
-        modelName?: string
+        modelName?: string,
+        options?: DocumentGenerationOptions,
+        contextText?: string,
+        outputSchema?: OutputSchema,
+        images?: TranscriptionImage[]
     ): Promise<TranscriptionResult> {
-        try {
-            if (!base64Data || base64Data.length === 0) {
-                geminiLogger.error('Base64データが空のため送信をスキップ', { fileName, mimeType });
-                return {
-                    success: false,
-                    error: '音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。',
-                };
-            }
-
-            const defaultPrompt = mimeType.startsWith('video/')
-                ? `
-以下の動画ファイルの内容を分析し、以下の形式でMarkdown文書を作成してください：
-
-# タイトル
-（動画の主題を簡潔に）
-
-## 要約
-（内容の要約を3-5文で）
-
-## 詳細な内容
-（話されている内容を詳しく記述）
-
-## キーポイント
-- （重要なポイント1）
-- （重要なポイント2）
-- （重要なポイント3）
-
-動画が日本語の場合は日本語で、英語の場合は英語で文書を作成してください。
-`.trim()
-                : `
-以下の音声ファイルの内容を分析し、以下の形式でMarkdown文書を作成してください：
-
-# タイトル
-（音声の主題を簡潔に）
-
-## 要約
-（内容の要約を3-5文で）
-
-## 詳細な内容
-（話されている内容を詳しく記述）
+        if (!base64Data || base64Data.length === 0) {
+            geminiLogger.error('Base64データが空のため送信をスキップ', { fileName, mimeType });
+            return {
+                success: false,
+                error: '音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。',
+                errorCode: 'unknown',
+            };
+        }
 
-## キーポイント
-- （重要なポイント1）
-- （重要なポイント2）
-- （重要なポイント3）
+        geminiLogger.info('Gemini API へ送信（Base64共有）', {
+            fileName,
+            mimeType,
+            base64LengthChars: base64Data.length,
+        });
 
-音声が日本語の場合は日本語で、英語の場合は英語で文書を作成してください。
-`.trim();
+        return this.generateWithParts({
+            mediaPart: { inlineData: { mimeType, data: base64Data } },
+            mimeType,
+            fileName,
+            customPrompt,
+            modelName,
+            contextText,
+            images,
+            outputSchema,
+        }, options);
+    }
 
-            const prompt = customPrompt || defaultPrompt;
+    /**
+     * Files API にアップロード済みのメディアを参照して文書生成を行う
+     * @param fileUri uploadMedia が返したURI
+     */
+    async transcribeWithFileUri(
+        fileUri: string,
+        mimeType: string,
+        fileName: string,
+        customPrompt?: string,
+        modelName?: string,
+        options?: DocumentGenerationOptions,
+        contextText?: string,
+        outputSchema?: OutputSchema,
+        images?: TranscriptionImage[]
+    ): Promise<TranscriptionResult> {
+        geminiLogger.info('Gemini API へ送信（Files API参照）', { fileName, mimeType, fileUri });
+
+        return this.generateWithParts({
+            mediaPart: createPartFromUri(fileUri, mimeType),
+            mimeType,
+            fileName,
+            customPrompt,
+            modelName,
+            contextText,
+            images,
+            outputSchema,
+        }, options);
+    }
 
-            geminiLogger.info('Gemini API へ送信（Base64共有）', {
-                fileName,
-                mimeType,
-                base64LengthChars: base64Data.length,
-                modelName: modelName || this.defaultModel,
-                promptLength: prompt.length,
-            });
+    private async generateWithParts(
+        input: {
+            mediaPart?: Part;
+            mimeType?: string;
+            fileName: string;
+            customPrompt?: string;
+            modelName?: string;
+            contextText?: string;
+            images?: TranscriptionImage[];
+            outputSchema?: OutputSchema;
+        },
+        options: DocumentGenerationOptions = {}
+    ): Promise<TranscriptionResult> {
+        const { mediaPart, mimeType = 'audio/mpeg', fileName, customPrompt, modelName, contextText, images = [], outputSchema } = input;
+        const { onPartialText, abortSignal, onRateLimited } = options;
 
+        try {
+            const prompt = customPrompt || buildDefaultDocumentPrompt(mimeType);
+            const parts: Part[] = [{ text: prompt }];
+            if (mediaPart) {
+                parts.push(mediaPart);
+            }
+            for (const image of images) {
+                parts.push({ text: image.label });
+                parts.push({ inlineData: { mimeType: image.mimeType, data: image.base64Data } });
+            }
+            if (contextText) {
+                parts.push({ text: contextText });
+            }
             const targetModel = (modelName || this.defaultModel || DEFAULT_GEMINI_MODEL).trim();
-            const result = await this.genAI.models.generateContent({
+            const generationParams = {
                 model: targetModel,
                 contents: [
                     {
                         role: 'user',
-                        parts: [
-                            { text: prompt },
-                            { inlineData: { mimeType, data: base64Data } },
-                        ],
+                        parts,
                     },
                 ],
+                config: {
+                    abortSignal,
+                    // 構造化出力: スキーマに沿ったJSONのみを返させる
+                    ...(outputSchema && {
+                        responseMimeType: 'application/json',
+                        responseSchema: toGeminiSchema(outputSchema),
+                    }),
+                },
+            };
+
+            geminiLogger.info('generateContent を呼び出し', {
+                fileName,
+                modelName: targetModel,
+                promptLength: prompt.length,
+                imageCount: images.length,
+                streaming: Boolean(onPartialText),
+                structuredOutput: Boolean(outputSchema),
             });
 
-            geminiLogger.info('generateContent のレスポンスを受信', { fileName });
+            // 一時的なエラー（ネットワーク・429・5xx）は指数バックオフで再試行する
+            const { text, usageMetadata, structuredData } = await withRetry(async () => {
+                let generatedText = '';
+                let blockReason: string | undefined;
+                let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+
+                if (onPartialText) {
+                    // ストリーミング: 受信したチャンクを累積し、途中経過を通知する
+                    const stream = await this.genAI.models.generateContentStream(generationParams);
+                    for await (const chunk of stream) {
+                        blockReason ??= getBlockReason(chunk);
+                        // 使用量は最終チャンクに累計で入る
+                        usageMetadata = chunk.usageMetadata ?? usageMetadata;
+                        const chunkText = chunk.text ?? '';
+                        if (chunkText) {
+                            generatedText += chunkText;
+                            onPartialText(generatedText);
+                        }
+                    }
+                    geminiLogger.info('generateContentStream のストリームが終了', { fileName });
+                } else {
+                    const result = await this.genAI.models.generateContent(generationParams);
+                    geminiLogger.info('generateContent のレスポンスを受信', { fileName });
+                    blockReason = getBlockReason(result);
+                    usageMetadata = result.usageMetadata;
+                    generatedText = result.text ?? '';
+                }
 
-            const text = result.text ?? '';
+                if (blockReason) {
+                    throw new TranscriptionError('safety_blocked', `Response blocked: ${blockReason}`);
+                }
+                if (generatedText.trim().length === 0) {
+                    throw new TranscriptionError('empty_response', 'Gemini returned an empty response');
+                }
+
+                let structuredData: StructuredData | undefined;
+                if (outputSchema) {
+                    const parsed = parseStructuredOutput(generatedText, outputSchema);
+                    if (!parsed.success) {
+                        throw new TranscriptionError('invalid_output', parsed.error ?? 'Structured output did not match the schema');
+                    }
+                    structuredData = parsed.data;
+                }
+                return { text: generatedText, usageMetadata, structuredData };
+            }, {
+                abortSignal,
+                classify: (error) => this.classifyError(error, targetModel),
+                onRetry: (error, _attempt, delayMs) => {
+                    if (error.code === 'quota') {
+                        onRateLimited?.(delayMs);
+                    }
+                    // ストリームは最初から受信し直すため、途中まで受信したテキストを破棄させる
+                    onPartialText?.('');
+                },
+            });
 
+            const usage = toTokenUsage(targetModel, usageMetadata);
             geminiLogger.info('文書生成が成功', {
                 fileName,
-                modelName: modelName || this.defaultModel,
+                modelName: targetModel,
                 generatedTextLength: text.length,
+                totalTokens: usage?.totalTokens,
             });
 
             return {
                 success: true,
                 text,
+                usage,
+                structuredData,
             };
         } catch (error) {
-            geminiLogger.error('Gemini API呼び出しでエラーが発生', error, { fileName, modelName });
-
-            let errorMessage = '不明なエラーが発生しました';
-            if (error instanceof Error) {
-                errorMessage = error.message;
-                if (errorMessage.includes('fetch') || errorMessage.includes('network') || errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError') || errorMessage.toLowerCase().includes('offline')) {
-                    errorMessage = 'ネットワークエラー: インターネット接続を確認してください。';
-                } else if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key not valid')) {
-                    errorMessage = 'Gemini APIキーが無効です。.env.localファイルを確認してください。';
-                } else if (errorMessage.includes('not found') || errorMessage.includes('404')) {
-                    errorMessage = `指定されたモデルが見つかりません（${modelName || this.defaultModel}）。Gemini APIキーとモデル名を確認してください。`;
-                } else if (errorMessage.includes('PERMISSION_DENIED')) {
-                    errorMessage = 'Gemini APIへのアクセスが拒否されました。APIキーの権限を確認してください。';
-                } else if (errorMessage.includes('file too large') || errorMessage.includes('payload')) {
-                    errorMessage = '動画/音声ファイルが大きすぎます。より小さいファイルを使用してください。';
-                }
+            if (abortSignal?.aborted) {
+                geminiLogger.info('文書生成が中止されました', { fileName, modelName });
+                return { success: false, error: 'Generation cancelled', errorCode: 'cancelled' };
             }
 
+            const classified = this.classifyError(error, modelName);
+            geminiLogger.error('Gemini API呼び出しでエラーが発生', error, { fileName, modelName, code: classified.code });
+
             return {
                 success: false,
-                error: errorMessage,
+                error: classified.message,
+                errorCode: classified.code,
             };
         }
     }
 
     /**
-     * BlobをBase64文字列に変換
+     * TranscriptionProvider 実装: Files API へ再開可能アップロードを行い、処理完了（ACTIVE）まで待つ
+     * SDK の files.upload は進捗を通知できないため、再開可能アップロードのプロトコルを直接扱う。
+     * チャンク送信に失敗した場合はサーバー側の受信済みサイズを問い合わせ、その位置から再送する。
      */
-    private async blobToBase64(blob: Blob): Promise<string> {
-        geminiLogger.info('Base64変換を開始', {
-            mimeType: blob.type,
-            sizeInMB: (blob.size / 1024 / 1024).toFixed(2),
-            sizeInBytes: blob.size,
-        });
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = reader.result as string;
-                // "data:audio/mpeg;base64," の部分を削除
-                const base64Data = base64String?.split(',')[1] ?? '';
-                if (!base64Data) {
-                    geminiLogger.error('Base64変換結果が空です', { blobSize: blob.size, mimeType: blob.type });
-                    reject(new Error('音声/動画データの読み取りに失敗しました。'));
-                    return;
+    async uploadMedia(blob: Blob, options: MediaUploadOptions): Promise<UploadedMedia> {
+        const { fileName, mimeType, onProgress, abortSignal } = options;
+
+        try {
+            geminiLogger.info('Files API へのアップロードを開始', {
+                fileName,
+                mimeType,
+                fileSizeMB: (blob.size / 1024 / 1024).toFixed(2),
+            });
+
+            const uploadUrl = await withRetry(
+                () => this.startResumableUpload(blob.size, mimeType, fileName, abortSignal),
+                { abortSignal, classify: (error) => this.classifyError(error) }
+            );
+            let offset = 0;
+            let retryCount = 0;
+            let uploadedFile: GeminiUploadedFile | null = null;
+
+            onProgress?.(0);
+
+            while (!uploadedFile) {
+                const end = Math.min(offset + GEMINI_FILE_UPLOAD_CONFIG.CHUNK_SIZE_BYTES, blob.size);
+                const isLastChunk = end >= blob.size;
+
+                try {
+                    const response = await fetch(uploadUrl, {
+                        method: 'POST',
+                        headers: {
+                            'X-Goog-Upload-Command': isLastChunk ? 'upload, finalize' : 'upload',
+                            'X-Goog-Upload-Offset': String(offset),
+                        },
+                        body: blob.slice(offset, end),
+                        signal: abortSignal,
+                    });
+
+                    if (!response.ok) {
+                        throw errorFromResponse(response, 'Files API upload failed');
+                    }
+
+                    if (isLastChunk) {
+                        const body = await response.json() as { file?: GeminiUploadedFile };
+                        if (!body.file?.name || !body.file.uri) {
+                            throw new Error('Files API upload finalized without file metadata');
+                        }
+                        uploadedFile = body.file;
+                    }
+
+                    offset = end;
+                    retryCount = 0;
+                    onProgress?.(offset / blob.size);
+                } catch (chunkError) {
+                    retryCount++;
+                    const classified = this.classifyError(chunkError);
+                    if (!classified.isTransient || retryCount > GEMINI_FILE_UPLOAD_CONFIG.MAX_CHUNK_RETRIES || abortSignal?.aborted) {
+                        throw classified;
+                    }
+
+                    geminiLogger.warn('チャンク送信に失敗したため受信済み位置から再開', {
+                        fileName,
+                        offset,
+                        retryCount,
+                        error: chunkError instanceof Error ? chunkError.message : String(chunkError),
+                    });
+
+                    await waitWithAbort(
+                        classified.retryAfterMs ?? GEMINI_FILE_UPLOAD_CONFIG.RETRY_DELAY_MS * 2 ** (retryCount - 1),
+                        abortSignal
+                    );
+                    offset = await this.queryUploadedBytes(uploadUrl, offset, abortSignal);
                 }
-                geminiLogger.info('Base64変換が完了', {
-                    base64LengthChars: base64Data.length,
-                    estimatedEncodedSizeMB: (base64Data.length * 0.75 / 1024 / 1024).toFixed(2),
-                });
-                resolve(base64Data);
-            };
-            reader.onerror = (e) => {
-                geminiLogger.error('Base64変換でエラーが発生', e);
-                reject(e);
+            }
+
+            const uploadedName = uploadedFile.name;
+            let activeFile: GeminiUploadedFile;
+            try {
+                activeFile = await this.waitForFileActive(uploadedName, fileName, abortSignal);
+            } catch (processingError) {
+                // 処理の失敗・タイムアウト・中止の場合は呼び出し元にファイルを渡せないため、ここで削除する（削除の失敗は自動削除に任せる）
+                await this.genAI.files.delete({ name: uploadedName }).catch(() => undefined);
+                throw processingError;
+            }
+
+            geminiLogger.info('Files API へのアップロードが完了', {
+                fileName,
+                name: activeFile.name,
+                uri: activeFile.uri,
+            });
+
+            return {
+                type: 'uploaded',
+                mimeType: activeFile.mimeType || mimeType,
+                uri: activeFile.uri,
+                name: activeFile.name,
+                sizeBytes: blob.size,
             };
-            reader.readAsDataURL(blob);
+        } catch (error) {
+            const classified = this.classifyError(error);
+            geminiLogger.error('Files API へのアップロードに失敗', error, { fileName, code: classified.code });
+            throw classified;
+        }
+    }
+
+    /**
+     * TranscriptionProvider 実装: アップロード済みファイルを削除（48時間で自動削除されるため失敗はログのみ）
+     */
+    async deleteUploadedMedia(media: UploadedMedia): Promise<void> {
+        try {
+            await this.genAI.files.delete({ name: media.name });
+            geminiLogger.info('Files API のアップロード済みファイルを削除', { name: media.name });
+        } catch (error) {
+            geminiLogger.warn('Files API のファイル削除に失敗（自動削除に任せます）', {
+                name: media.name,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private async startResumableUpload(
+        sizeBytes: number,
+        mimeType: string,
+        displayName: string,
+        abortSignal?: AbortSignal
+    ): Promise<string> {
+        const response = await fetch(GEMINI_FILE_UPLOAD_CONFIG.UPLOAD_ENDPOINT, {
+            method: 'POST',
+            headers: {
+                'x-goog-api-key': this.apiKey,
+                'X-Goog-Upload-Protocol': 'resumable',
+                'X-Goog-Upload-Command': 'start',
+                'X-Goog-Upload-Header-Content-Length': String(sizeBytes),
+                'X-Goog-Upload-Header-Content-Type': mimeType,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ file: { displayName } }),
+            signal: abortSignal,
         });
+
+        const uploadUrl = response.headers.get('x-goog-upload-url');
+        if (!response.ok) {
+            throw errorFromResponse(response, 'Files API upload start failed');
+        }
+        if (!uploadUrl) {
+            throw new TranscriptionError('unknown', 'Files API upload start returned no upload URL');
+        }
+
+        return uploadUrl;
+    }
+
+    /**
+     * 再開可能アップロードでサーバーが受信済みのバイト数を問い合わせる
+     * 問い合わせ自体に失敗した場合は直前の位置から再送する
+     */
+    private async queryUploadedBytes(uploadUrl: string, fallbackOffset: number, abortSignal?: AbortSignal): Promise<number> {
+        try {
+            const response = await fetch(uploadUrl, {
+                method: 'POST',
+                headers: { 'X-Goog-Upload-Command': 'query' },
+                signal: abortSignal,
+            });
+            const received = Number(response.headers.get('x-goog-upload-size-received'));
+            return Number.isFinite(received) && response.ok ? received : fallbackOffset;
+        } catch {
+            return fallbackOffset;
+        }
+    }
+
+    /**
+     * アップロード直後のファイルは PROCESSING 状態のため、ACTIVE になるまでポーリングする
+     */
+    private async waitForFileActive(name: string, fileName: string, abortSignal?: AbortSignal): Promise<GeminiUploadedFile> {
+        const deadline = Date.now() + GEMINI_FILE_UPLOAD_CONFIG.ACTIVE_TIMEOUT_MS;
+
+        while (Date.now() < deadline) {
+            const file = await withRetry(
+                () => this.genAI.files.get({ name, config: { abortSignal } }),
+                { abortSignal, classify: (error) => this.classifyError(error) }
+            );
+
+            if (file.state === FileState.ACTIVE && file.name && file.uri) {
+                return { name: file.name, uri: file.uri, mimeType: file.mimeType };
+            }
+            if (file.state === FileState.FAILED) {
+                throw new TranscriptionError('unknown', `Files API processing failed: ${file.error?.message ?? 'unknown error'}`);
+            }
+
+            geminiLogger.info('アップロード済みファイルの処理完了を待機中', { fileName, name, state: file.state });
+            await waitWithAbort(GEMINI_FILE_UPLOAD_CONFIG.POLL_INTERVAL_MS, abortSignal);
+        }
+
+        throw new TranscriptionError('server_error', 'Files API processing timed out');
     }
 }
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GENERATION_SCHEDULER_CONFIG, GenerationScheduler } from './generationScheduler';
+import { MockTranscriptionProvider } from './mockTranscription';
+import { TranscriptionResult } from './transcriptionProvider';
+
+const provider = new MockTranscriptionProvider();
+
+const QUOTA_RESULT: TranscriptionResult = { success: false, error: '429', errorCode: 'quota' };
+
+/** 外から完了させる生成（同時に実行されている数と順番を確認するため） */
+function createControlledGeneration() {
+    const started: string[] = [];
+    const pending = new Map<string, () => void>();
+    const generate = (name: string) => () => {
+        started.push(name);
+        return new Promise<TranscriptionResult>((resolve) => {
+            pending.set(name, () => resolve(provider.generateDocument({ fileName: name, contextText: name })));
+        });
+    };
+    const finish = (name: string) => {
+        pending.get(name)?.();
+        pending.delete(name);
+    };
+    return { started, generate, finish };
+}
+
+// 待機中のリクエストへの割り当て（Promise の解決）を進める
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('GenerationScheduler', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('全体の同時実行数を超えるリクエストは待たせ、優先度の高い順に送る', async () => {
+        const scheduler = new GenerationScheduler({ globalConcurrency: 1, perModelConcurrency: 1 });
+        const { started, generate, finish } = createControlledGeneration();
+
+        const first = scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate('first'));
+        const low = scheduler.run({ modelKey: 'mock:a', getPriority: () => 2 }, generate('low'));
+        const high = scheduler.run({ modelKey: 'mock:a', getPriority: () => 1 }, generate('high'));
+        await flush();
+        expect(started).toEqual(['first']);
+
+        finish('first');
+        await first;
+        await flush();
+        expect(started).toEqual(['first', 'high']);
+
+        finish('high');
+        await flush();
+        finish('low');
+        const results = await Promise.all([high, low]);
+        expect(results.every(result => result.success)).toBe(true);
+        expect(started).toEqual(['first', 'high', 'low']);
+    });
+
+    it('モデルごとの同時実行数を超える場合は、別のモデルのリクエストを先に送る', async () => {
+        const scheduler = new GenerationScheduler({ globalConcurrency: 2, perModelConcurrency: 1 });
+        const { started, generate, finish } = createControlledGeneration();
+
+        const runs = [
+            scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate('a1')),
+            scheduler.run({ modelKey: 'mock:a', getPriority: () => 1 }, generate('a2')),
+            scheduler.run({ modelKey: 'mock:b', getPriority: () => 2 }, generate('b1')),
+        ];
+        await flush();
+        expect(started).toEqual(['a1', 'b1']);
+
+        finish('a1');
+        finish('b1');
+        await flush();
+        finish('a2');
+        await Promise.all(runs);
+        expect(started).toEqual(['a1', 'b1', 'a2']);
+    });
+
+    it('待機中に中止されたリクエストは生成せずに cancelled を返す', async () => {
+        const scheduler = new GenerationScheduler({ globalConcurrency: 1, perModelConcurrency: 1 });
+        const { generate, finish } = createControlledGeneration();
+        const controller = new AbortController();
+        const waitingGeneration = vi.fn(generate('waiting'));
+
+        const first = scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate('first'));
+        const waiting = scheduler.run({ modelKey: 'mock:a', getPriority: () => 1, abortSignal: controller.signal }, waitingGeneration);
+        controller.abort();
+
+        await expect(waiting).resolves.toMatchObject({ success: false, errorCode: 'cancelled' });
+        finish('first');
+        await first;
+        expect(waitingGeneration).not.toHaveBeenCalled();
+    });
+
+    it('回数制限で失敗したリクエストは送信を止めた後に再送する', async () => {
+        vi.useFakeTimers();
+        const scheduler = new GenerationScheduler({ globalConcurrency: 2, perModelConcurrency: 2 });
+        const generate = vi.fn()
+            .mockResolvedValueOnce(QUOTA_RESULT)
+            .mockImplementation(() => provider.generateDocument({ fileName: 'retry', contextText: 'retry' }));
+
+        const result = scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate);
+        await vi.advanceTimersByTimeAsync(GENERATION_SCHEDULER_CONFIG.DEFAULT_BACKOFF_MS - 1);
+        expect(generate).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toMatchObject({ success: true });
+        expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    it('回数制限で失敗し続けた場合は上限回数まで再送して失敗を返す', async () => {
+        vi.useFakeTimers();
+        const scheduler = new GenerationScheduler({ globalConcurrency: 1, perModelConcurrency: 1 });
+        const generate = vi.fn().mockResolvedValue(QUOTA_RESULT);
+
+        const result = scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate);
+        await vi.advanceTimersByTimeAsync(GENERATION_SCHEDULER_CONFIG.MAX_BACKOFF_MS);
+
+        await expect(result).resolves.toEqual(QUOTA_RESULT);
+        expect(generate).toHaveBeenCalledTimes(GENERATION_SCHEDULER_CONFIG.MAX_REQUEUE_COUNT + 1);
+    });
+
+    it('回数制限を受けたモデルは同時実行数を半分にし、成功が続いたら戻す', async () => {
+        vi.useFakeTimers();
+        const scheduler = new GenerationScheduler({ globalConcurrency: 4, perModelConcurrency: 2 });
+        const { started, generate, finish } = createControlledGeneration();
+
+        scheduler.reportRateLimit('mock:a', 0);
+        await vi.advanceTimersByTimeAsync(GENERATION_SCHEDULER_CONFIG.DEFAULT_BACKOFF_MS);
+
+        const runBatch = async (names: string[]) => {
+            const runs = names.map(name => scheduler.run({ modelKey: 'mock:a', getPriority: () => 0 }, generate(name)));
+            await vi.advanceTimersByTimeAsync(0);
+            return runs;
+        };
+        const finishAll = async (names: string[], runs: Promise<TranscriptionResult>[]) => {
+            for (const name of names) {
+                finish(name);
+                await vi.advanceTimersByTimeAsync(0);
+            }
+            await Promise.all(runs);
+        };
+
+        const reduced = ['r1', 'r2'];
+        const reducedRuns = await runBatch(reduced);
+        expect(started).toEqual(['r1']);
+        await finishAll(reduced, reducedRuns);
+
+        // ここまでの2件に加えてもう1件成功すると、同時実行数が元に戻る
+        const recovery = ['s1'];
+        await finishAll(recovery, await runBatch(recovery));
+
+        const restored = ['t1', 't2'];
+        const restoredRuns = await runBatch(restored);
+        expect(started.slice(-2)).toEqual(['t1', 't2']);
+        await finishAll(restored, restoredRuns);
+    });
+});
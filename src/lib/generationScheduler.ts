@@ -0,0 +1,227 @@
+/**
+ * 文書生成リクエストの送信順と並列数の制御
+ * 全体とモデルごとの同時実行数を制限し、待機中のリクエストは優先度（処理の順番）の高いものから送る。
+ * 回数制限（429）を受けたモデルは一定時間送信を止めて同時実行数を下げ、成功が続いたら元に戻す。
+ */
+
+import { DocumentGenerationOptions, TranscriptionResult } from './transcriptionProvider';
+import { createLogger } from './logger';
+
+const generationSchedulerLogger = createLogger('generationScheduler');
+
+export const GENERATION_SCHEDULER_CONFIG = {
+    /** サーバーから待ち時間の指定がない場合に送信を止める時間（ミリ秒） */
+    DEFAULT_BACKOFF_MS: 10000,
+    /** 送信を止める時間の上限（ミリ秒） */
+    MAX_BACKOFF_MS: 120000,
+    /** 回数制限で最終的に失敗したリクエストを待ち行列に戻す回数の上限 */
+    MAX_REQUEUE_COUNT: 2,
+    /** 下げた同時実行数を1つ戻すのに必要な連続成功数 */
+    RECOVERY_SUCCESS_COUNT: 3,
+} as const;
+
+export interface GenerationSchedulerLimits {
+    /** 全体の同時実行数 */
+    globalConcurrency: number;
+    /** モデルごとの同時実行数 */
+    perModelConcurrency: number;
+}
+
+export interface GenerationTask {
+    /** プロバイダーとモデルの組み合わせ（`${provider}:${model}`） */
+    modelKey: string;
+    /** 小さいほど先に送る。送信の直前に評価するため、待機中に順番を変えられる */
+    getPriority: () => number;
+    abortSignal?: AbortSignal;
+}
+
+interface Waiter {
+    modelKey: string;
+    getPriority: () => number;
+    sequence: number;
+    start: () => void;
+}
+
+interface ModelState {
+    active: number;
+    /** 回数制限で下げた後の同時実行数（perModelConcurrency 以下） */
+    limit: number;
+    /** この時刻まで新しいリクエストを送らない */
+    pausedUntil: number;
+    successStreak: number;
+}
+
+const CANCELLED_RESULT: TranscriptionResult = { success: false, error: 'Generation cancelled', errorCode: 'cancelled' };
+
+export class GenerationScheduler {
+    private limits: GenerationSchedulerLimits;
+    private active = 0;
+    private waiters: Waiter[] = [];
+    private models = new Map<string, ModelState>();
+    private nextSequence = 0;
+    private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(limits: GenerationSchedulerLimits) {
+        this.limits = limits;
+    }
+
+    /**
+     * 同時実行数を変更する（実行中のリクエストはそのまま、次の送信から反映）
+     */
+    setLimits(limits: GenerationSchedulerLimits): void {
+        this.limits = limits;
+        for (const model of this.models.values()) {
+            model.limit = Math.min(model.limit, limits.perModelConcurrency);
+        }
+        this.dispatch();
+    }
+
+    /**
+     * 枠が空くまで待ってから生成する
+     * 回数制限で失敗した場合は送信を止めたうえで待ち行列に戻し、上限回数まで再送する。
+     * 待機中に中止された場合は生成せずに cancelled の結果を返す（generateDocument と同じく例外は投げない）
+     */
+    async run(
+        task: GenerationTask,
+        generate: (options: Pick<DocumentGenerationOptions, 'onRateLimited'>) => Promise<TranscriptionResult>
+    ): Promise<TranscriptionResult> {
+        for (let requeueCount = 0; ; requeueCount++) {
+            const acquired = await this.acquire(task);
+            if (!acquired) {
+                return CANCELLED_RESULT;
+            }
+
+            let result: TranscriptionResult;
+            try {
+                result = await generate({
+                    onRateLimited: (delayMs) => this.reportRateLimit(task.modelKey, delayMs),
+                });
+            } finally {
+                this.release(task.modelKey);
+            }
+
+            if (result.success) {
+                this.reportSuccess(task.modelKey);
+                return result;
+            }
+            if (result.errorCode !== 'quota' || requeueCount >= GENERATION_SCHEDULER_CONFIG.MAX_REQUEUE_COUNT || task.abortSignal?.aborted) {
+                return result;
+            }
+
+            generationSchedulerLogger.warn('回数制限のため待ち行列に戻して再送します', {
+                modelKey: task.modelKey,
+                requeueCount: requeueCount + 1,
+            });
+            this.reportRateLimit(task.modelKey);
+        }
+    }
+
+    /**
+     * 回数制限を受けたモデルの送信を止め、同時実行数を半分にする
+     */
+    reportRateLimit(modelKey: string, delayMs: number = GENERATION_SCHEDULER_CONFIG.DEFAULT_BACKOFF_MS): void {
+        const model = this.getModelState(modelKey);
+        const pauseMs = Math.min(Math.max(delayMs, GENERATION_SCHEDULER_CONFIG.DEFAULT_BACKOFF_MS), GENERATION_SCHEDULER_CONFIG.MAX_BACKOFF_MS);
+        model.pausedUntil = Math.max(model.pausedUntil, Date.now() + pauseMs);
+        model.limit = Math.max(1, Math.floor(model.limit / 2));
+        model.successStreak = 0;
+
+        generationSchedulerLogger.warn('回数制限のため送信を一時停止', {
+            modelKey,
+            pauseMs,
+            concurrency: model.limit,
+        });
+        this.dispatch();
+    }
+
+    private reportSuccess(modelKey: string): void {
+        const model = this.getModelState(modelKey);
+        if (model.limit >= this.limits.perModelConcurrency) {
+            return;
+        }
+        model.successStreak++;
+        if (model.successStreak >= GENERATION_SCHEDULER_CONFIG.RECOVERY_SUCCESS_COUNT) {
+            model.limit++;
+            model.successStreak = 0;
+            generationSchedulerLogger.info('同時実行数を戻します', { modelKey, concurrency: model.limit });
+            this.dispatch();
+        }
+    }
+
+    private getModelState(modelKey: string): ModelState {
+        let model = this.models.get(modelKey);
+        if (!model) {
+            model = { active: 0, limit: this.limits.perModelConcurrency, pausedUntil: 0, successStreak: 0 };
+            this.models.set(modelKey, model);
+        }
+        return model;
+    }
+
+    // 枠を確保できたら true、待機中に中止された場合は false
+    private acquire(task: GenerationTask): Promise<boolean> {
+        const { abortSignal } = task;
+        if (abortSignal?.aborted) {
+            return Promise.resolve(false);
+        }
+        return new Promise((resolve) => {
+            const onAbort = () => {
+                this.waiters = this.waiters.filter(waiter => waiter !== entry);
+                resolve(false);
+            };
+            const entry: Waiter = {
+                modelKey: task.modelKey,
+                getPriority: task.getPriority,
+                sequence: this.nextSequence++,
+                start: () => {
+                    abortSignal?.removeEventListener('abort', onAbort);
+                    resolve(true);
+                },
+            };
+            abortSignal?.addEventListener('abort', onAbort, { once: true });
+            this.waiters.push(entry);
+            this.dispatch();
+        });
+    }
+
+    private release(modelKey: string): void {
+        this.active--;
+        this.getModelState(modelKey).active--;
+        this.dispatch();
+    }
+
+    // 空いている枠に優先度の高い順で送る（送信を止めているモデルは飛ばし、再開時刻にもう一度割り当てる）
+    private dispatch(): void {
+        const now = Date.now();
+        let nextResumeAt = Infinity;
+        const ordered = [...this.waiters].sort((a, b) => a.getPriority() - b.getPriority() || a.sequence - b.sequence);
+
+        for (const waiter of ordered) {
+            if (this.active >= this.limits.globalConcurrency) {
+                break;
+            }
+            const model = this.getModelState(waiter.modelKey);
+            if (model.pausedUntil > now) {
+                nextResumeAt = Math.min(nextResumeAt, model.pausedUntil);
+                continue;
+            }
+            if (model.active >= model.limit) {
+                continue;
+            }
+            this.waiters = this.waiters.filter(entry => entry !== waiter);
+            this.active++;
+            model.active++;
+            waiter.start();
+        }
+
+        if (this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = null;
+        }
+        if (Number.isFinite(nextResumeAt)) {
+            this.resumeTimer = setTimeout(() => {
+                this.resumeTimer = null;
+                this.dispatch();
+            }, nextResumeAt - now);
+        }
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * 動画の場面（スライド・画面）の画像を文書生成に添付し、文書中の該当箇所に表示する
+ * 講義・デモの録画では音声だけだと画面の内容が失われるため、場面が切り替わった時点の画像を添付する。
+ */
+
+import { formatSeconds } from '@/utils/timeFormat';
+
+export const KEYFRAME_EXTRACTION_CONFIG = {
+    /** 場面の切り替わりとみなす変化量（FFmpeg の select='gt(scene,…)'。0〜1、大きいほど大きな変化のみ） */
+    SCENE_THRESHOLD: 0.3,
+
+    /** 切り替わりの候補として取り出す画像の上限（WASM メモリに書き出すため） */
+    MAX_CANDIDATES: 200,
+
+    /** 添付する画像の上限（多い場合は全体から均等に選ぶ） */
+    MAX_KEYFRAMES: 20,
+
+    /** 画像の幅（px）。スライドの文字が読める程度に縮小する */
+    IMAGE_WIDTH: 960,
+
+    /** JPEG の品質（FFmpeg の -q:v。2〜31、小さいほど高画質） */
+    JPEG_QUALITY: 5,
+
+    /** ほぼ同じ画像の判定に使う縮小画像の一辺（px、グレースケール） */
+    SIGNATURE_SIZE: 16,
+
+    /** 縮小画像の輝度差の平均がこの値以下なら、直前に残した画像とほぼ同じとみなす（0〜255） */
+    DUPLICATE_THRESHOLD: 6,
+} as const;
+
+/**
+ * 縮小画像（グレースケール）の輝度差の平均
+ */
+const signatureDistance = (a: Uint8Array, b: Uint8Array): number => {
+    const length = Math.min(a.length, b.length);
+    if (length === 0) {
+        return Infinity;
+    }
+    let total = 0;
+    for (let i = 0; i < length; i++) {
+        total += Math.abs(a[i] - b[i]);
+    }
+    return total / length;
+};
+
+/**
+ * ほぼ同じ画像（カーソルの移動・アニメーションの途中など）を除き、上限を超える場合は全体から均等に選ぶ
+ * candidates は時刻順であること
+ */
+export function selectDistinctKeyframes<T extends { signature: Uint8Array }>(
+    candidates: T[],
+    maxCount: number = KEYFRAME_EXTRACTION_CONFIG.MAX_KEYFRAMES
+): T[] {
+    const distinct: T[] = [];
+    for (const candidate of candidates) {
+        const previous = distinct[distinct.length - 1];
+        if (!previous || signatureDistance(previous.signature, candidate.signature) > KEYFRAME_EXTRACTION_CONFIG.DUPLICATE_THRESHOLD) {
+            distinct.push(candidate);
+        }
+    }
+    if (distinct.length <= maxCount) {
+        return distinct;
+    }
+    return Array.from({ length: maxCount }, (_, i) => distinct[Math.floor(i * distinct.length / maxCount)]);
+}
+
+/**
+ * 文書中で画像を示すマーカー（番号は1から）
+ */
+export const formatKeyframeMarker = (keyframeIndex: number): string => `[[スライド${keyframeIndex + 1}]]`;
+
+const KEYFRAME_MARKER_LINE = /^\s*\[\[スライド(\d+)\]\]\s*$/;
+
+/**
+ * 各画像の直前に添付する見出し（番号と時刻）
+ */
+export const buildKeyframeLabel = (keyframeIndex: number, time: number): string =>
+    `${formatKeyframeMarker(keyframeIndex)} ${formatSeconds(time)} の画面`;
+
+/**
+ * 画像を添付する場合にプロンプトへ追加する指示
+ */
+export const buildKeyframeInstruction = (keyframeCount: number): string =>
+    [
+        `動画の場面（スライド・画面）が切り替わった時点の画像を${keyframeCount}枚添付しています。各画像の直前に番号と時刻を示しています。`,
+        '画面に表示された文字・図表の内容も文書に反映し、関連する画像がある箇所には、その番号のマーカー（例: [[スライド1]]）を1行に単独で記載してください。',
+    ].join('\n');
+
+export type KeyframeDocumentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'keyframe'; keyframeIndex: number };
+
+/**
+ * 文書をマーカーの行で区切る（存在しない番号のマーカーは本文のまま残す）
+ */
+export function splitByKeyframeMarkers(text: string, keyframeCount: number): KeyframeDocumentBlock[] {
+    const blocks: KeyframeDocumentBlock[] = [];
+    let buffer: string[] = [];
+    const flush = () => {
+        if (buffer.join('').trim()) {
+            blocks.push({ type: 'text', text: buffer.join('\n') });
+        }
+        buffer = [];
+    };
+
+    for (const line of text.split('\n')) {
+        const match = line.match(KEYFRAME_MARKER_LINE);
+        const keyframeIndex = match ? parseInt(match[1]) - 1 : -1;
+        if (keyframeIndex >= 0 && keyframeIndex < keyframeCount) {
+            flush();
+            blocks.push({ type: 'keyframe', keyframeIndex });
+        } else {
+            buffer.push(line);
+        }
+    }
+    flush();
+    return blocks;
+}
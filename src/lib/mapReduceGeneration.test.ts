@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { MapReduceGroup } from '@/types/processing';
+import { buildMapPrompt, buildReduceRequest, getMapResultKey } from './mapReduceGeneration';
+import { MockTranscriptionProvider } from './mockTranscription';
+
+const createGroup = (groupIndex: number, startTime: number, endTime: number): MapReduceGroup => ({
+    groupIndex,
+    startTime,
+    endTime,
+    audioBlob: new Blob([`group-${groupIndex}`], { type: 'audio/mpeg' }),
+});
+
+const GROUPS = [createGroup(0, 0, 600), createGroup(1, 600, 1200), createGroup(2, 1200, 1500)];
+
+describe('getMapResultKey', () => {
+    it('プロバイダー・モデル・グループごとに異なるキーにする', () => {
+        expect(getMapResultKey('mock', 'mock-model', 0)).toBe('mock:mock-model:0');
+        expect(getMapResultKey('gemini', 'mock-model', 0)).not.toBe(getMapResultKey('mock', 'mock-model', 0));
+        expect(getMapResultKey('mock', 'mock-model', 1)).not.toBe(getMapResultKey('mock', 'mock-model', 0));
+    });
+});
+
+describe('buildMapPrompt', () => {
+    it('区間の番号と範囲をプロンプトに含める', () => {
+        const prompt = buildMapPrompt(GROUPS[1], GROUPS.length);
+
+        expect(prompt).toContain('2/3 番目の区間（00:10:00〜00:20:00）');
+    });
+});
+
+describe('buildReduceRequest', () => {
+    it('利用者のプロンプトを指示にし、区間ごとの書き出しを時系列順に添付する', () => {
+        const { prompt, contextText } = buildReduceRequest('議事録を作成してください', GROUPS, ['前半', '中盤', '後半']);
+
+        expect(prompt.startsWith('議事録を作成してください\n\n---\n')).toBe(true);
+        expect(prompt).not.toContain('変換できなかった');
+        expect(contextText).toBe([
+            '## 区間 1（00:00:00〜00:10:00）\n\n前半',
+            '## 区間 2（00:10:00〜00:20:00）\n\n中盤',
+            '## 区間 3（00:20:00〜00:25:00）\n\n後半',
+        ].join('\n\n'));
+    });
+
+    it('欠落した範囲があれば指示に添える', () => {
+        const { prompt } = buildReduceRequest('要約してください', GROUPS, ['a', 'b', 'c'], [{ startTime: 630, endTime: 660 }]);
+
+        expect(prompt).toContain('00:10:30〜00:11:00');
+    });
+
+    it('モックプロバイダーでマップとリデュースを通して文書を作れる', async () => {
+        const provider = new MockTranscriptionProvider();
+        const mapResults = await Promise.all(GROUPS.map(group =>
+            provider.generateDocument({
+                media: { type: 'inline', mimeType: 'audio/mpeg', base64Data: btoa(`group-${group.groupIndex}`) },
+                fileName: `meeting.mp4 区間${group.groupIndex + 1}`,
+                prompt: buildMapPrompt(group, GROUPS.length),
+            })
+        ));
+        expect(mapResults.every(result => result.success)).toBe(true);
+
+        const reduceRequest = buildReduceRequest('議事録を作成してください', GROUPS, mapResults.map(result => result.text!));
+        const reduced = await provider.generateDocument({ fileName: 'meeting.mp4', ...reduceRequest });
+
+        expect(reduced.success).toBe(true);
+        expect(reduced.text).toContain(`添付テキスト長: ${reduceRequest.contextText.length}文字`);
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * マップリデュース生成（長時間録音モード）
+ * 区間グループごとに内容を書き出し（マップ）、その結果を統合してプロンプトの文書を作る（リデュース）。
+ * マップ結果はプロバイダー・モデル・グループ単位でキャッシュし、統合に失敗しても再変換・再マップを不要にする。
+ */
+
+import { TranscriptionProviderId } from '@/constants/transcriptionProviders';
+import { MapReduceGroup } from '@/types/processing';
+import { formatSeconds } from '@/utils/timeFormat';
+import { buildLostRangesInstruction, LostTimeRange } from './segmentGaps';
+
+export const MAP_REDUCE_CONFIG = {
+    /** 1回のマップ生成に渡す音声の最大長（秒） */
+    GROUP_DURATION_SECONDS: 10 * 60,
+    /** 同時に実行するマップ生成の数（レート制限対策） */
+    MAP_CONCURRENCY: 3,
+} as const;
+
+/**
+ * マップ結果キャッシュのキー
+ * マップ用プロンプトは共通のため、同じプロバイダー・モデルのプロンプト間で結果を共有できる
+ */
+export const getMapResultKey = (
+    provider: TranscriptionProviderId,
+    model: string,
+    groupIndex: number
+): string => `${provider}:${model}:${groupIndex}`;
+
+export const buildMapPrompt = (group: MapReduceGroup, totalGroups: number): string => `
+以下は長時間の録音を分割した ${group.groupIndex + 1}/${totalGroups} 番目の区間（${formatSeconds(group.startTime)}〜${formatSeconds(group.endTime)}）です。
+後で録音全体の文書にまとめるための素材として、この区間で話されている内容を時系列のMarkdown箇条書きで書き出してください。
+
+- 発言内容・数値・固有名詞・決定事項・宿題事項は省略しないでください
+- 話者が区別できる場合は話者ごとに記述してください
+- 前後の区間の内容を推測で補わないでください
+- 録音が日本語の場合は日本語で、英語の場合は英語で記述してください
+`.trim();
+
+/**
+ * リデュース用のプロンプトと添付テキストを作る
+ * 利用者のプロンプトをそのまま指示として使い、区間ごとの書き出しは添付テキストとして渡す
+ * 変換をスキップした区間があれば、欠落した範囲を指示に添える
+ */
+export const buildReduceRequest = (
+    userPrompt: string,
+    groups: MapReduceGroup[],
+    mapTexts: string[],
+    lostRanges: LostTimeRange[] = []
+): { prompt: string; contextText: string } => {
+    const lostRangesInstruction = buildLostRangesInstruction(lostRanges);
+    const prompt = `${userPrompt}
+
+---
+この指示の対象となる録音は長時間のため、区間ごとに内容を書き出した結果（時系列順）を添付します。
+添付の各区間を1つの録音の内容として統合し、上記の指示に従って文書を作成してください。
+区間の境目で重複している内容は1つにまとめてください。${lostRangesInstruction ? `\n\n${lostRangesInstruction}` : ''}`;
+
+    const contextText = groups
+        .map((group, index) =>
+            `## 区間 ${group.groupIndex + 1}（${formatSeconds(group.startTime)}〜${formatSeconds(group.endTime)}）\n\n${mapTexts[index]}`
+        )
+        .join('\n\n');
+
+    return { prompt, contextText };
+};
@@ -0,0 +1,202 @@
+/**
+ * FFmpeg の `-i` の出力（ffprobe と同じ形式のストリーム情報）からメディアの情報を読み取る
+ *
+ * 例:
+ *   Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'input.mp4':
+ *     Duration: 00:01:23.45, start: 0.000000, bitrate: 1234 kb/s
+ *     Chapter #0:0: start 0.000000, end 60.000000
+ *     Stream #0:0[0x1](und): Video: h264 (High), yuv420p, 1920x1080 [SAR 1:1 DAR 16:9], 29.97 fps, ... (default)
+ *     Stream #0:1[0x2](jpn): Audio: aac (LC), 48000 Hz, stereo, fltp, 128 kb/s (default)
+ *     Stream #0:2(eng): Subtitle: mov_text (tx3g / 0x67337874)
+ */
+
+import {
+    MediaAudioTrack,
+    MediaChapter,
+    MediaProbeResult,
+    MediaSubtitleTrack,
+    MediaVideoStream,
+} from '@/types/mediaProbe';
+import { formatSeconds } from '@/utils/timeFormat';
+
+/** チャンネル構成ごとのチャンネル数（"N channels" 以外の表記） */
+const CHANNEL_LAYOUT_COUNTS: Record<string, number> = {
+    mono: 1,
+    stereo: 2,
+    '2.1': 3,
+    '3.0': 3,
+    quad: 4,
+    '4.0': 4,
+    '4.1': 5,
+    '5.0': 5,
+    '5.1': 6,
+    '6.1': 7,
+    '7.1': 8,
+};
+
+const STREAM_PATTERN = /Stream #0:(\d+)(?:\[[^\]]*\])?(?:\(([^)]+)\))?: (Video|Audio|Subtitle): (.*)$/;
+const CHAPTER_PATTERN = /Chapter #0:\d+: start (-?\d+(?:\.\d+)?), end (-?\d+(?:\.\d+)?)/;
+const DURATION_PATTERN = /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+const parseLanguage = (language: string | undefined): string | undefined =>
+    language && language !== 'und' ? language : undefined;
+
+const parseCodec = (details: string): string => details.split(/[\s,]/)[0];
+
+const parseVideoStream = (streamIndex: number, details: string): MediaVideoStream => {
+    const resolution = details.match(/, (\d{2,5})x(\d{2,5})/);
+    const frameRate = details.match(/, (\d+(?:\.\d+)?) fps/);
+    return {
+        streamIndex,
+        codec: parseCodec(details),
+        ...(resolution && { width: parseInt(resolution[1]), height: parseInt(resolution[2]) }),
+        ...(frameRate && { frameRate: parseFloat(frameRate[1]) }),
+    };
+};
+
+const parseAudioTrack = (streamIndex: number, language: string | undefined, details: string): MediaAudioTrack => {
+    const sampleRate = details.match(/, (\d+) Hz/);
+    // チャンネル構成はサンプルレートの直後（"48000 Hz, stereo, fltp"）
+    const channelLayout = details.match(/ Hz, ([^,]+)/)?.[1].trim();
+    const channelCount = channelLayout?.match(/^(\d+) channels/);
+    let channels: number | undefined;
+    if (channelCount) {
+        channels = parseInt(channelCount[1]);
+    } else if (channelLayout) {
+        channels = CHANNEL_LAYOUT_COUNTS[channelLayout.replace(/\(.*\)$/, '')];
+    }
+    return {
+        streamIndex,
+        codec: parseCodec(details),
+        ...(language && { language }),
+        ...(channels && { channels }),
+        ...(channelLayout && { channelLayout }),
+        ...(sampleRate && { sampleRate: parseInt(sampleRate[1]) }),
+        isDefault: details.includes('(default)'),
+    };
+};
+
+const parseSubtitleTrack = (streamIndex: number, language: string | undefined, details: string): MediaSubtitleTrack => ({
+    streamIndex,
+    codec: parseCodec(details),
+    ...(language && { language }),
+    isDefault: details.includes('(default)'),
+});
+
+/**
+ * FFmpeg のログからメディアの情報を取得（入力の情報が見つからない場合は null）
+ * @param logs FFmpeg の log イベントのメッセージ（複数行を含んでいてもよい）
+ */
+export function parseMediaProbeLog(logs: string[]): MediaProbeResult | null {
+    const lines = logs.flatMap(log => log.split('\n'));
+
+    let container: string | null = null;
+    let duration = 0;
+    let bitrate: number | undefined;
+    let video: MediaVideoStream | undefined;
+    const audioTracks: MediaAudioTrack[] = [];
+    const subtitleTracks: MediaSubtitleTrack[] = [];
+    const chapters: MediaChapter[] = [];
+    // 直後の Metadata の title を設定する対象（ストリームまたはチャプター）
+    let titleTarget: { title?: string } | null = null;
+
+    for (const line of lines) {
+        // 2つ目以降の入力・出力の情報は対象外
+        if (/^(Input #[1-9]|Output #)/.test(line.trim())) {
+            break;
+        }
+
+        const input = line.match(/Input #0, (.+?), from /);
+        if (input) {
+            container = input[1].split(',')[0];
+            continue;
+        }
+
+        const durationMatch = line.match(DURATION_PATTERN);
+        if (durationMatch) {
+            duration = parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3]);
+            const bitrateMatch = line.match(/bitrate: (\d+) kb\/s/);
+            bitrate = bitrateMatch ? parseInt(bitrateMatch[1]) : undefined;
+            titleTarget = null;
+            continue;
+        }
+
+        const chapter = line.match(CHAPTER_PATTERN);
+        if (chapter) {
+            const item: MediaChapter = { startTime: parseFloat(chapter[1]), endTime: parseFloat(chapter[2]) };
+            chapters.push(item);
+            titleTarget = item;
+            continue;
+        }
+
+        const stream = line.match(STREAM_PATTERN);
+        if (stream) {
+            const streamIndex = parseInt(stream[1]);
+            const language = parseLanguage(stream[2]);
+            const details = stream[4];
+            titleTarget = null;
+            if (stream[3] === 'Video') {
+                // カバー画像（attached pic）は映像として扱わない
+                if (!video && !details.includes('(attached pic)')) {
+                    video = parseVideoStream(streamIndex, details);
+                }
+            } else if (stream[3] === 'Audio') {
+                const track = parseAudioTrack(streamIndex, language, details);
+                audioTracks.push(track);
+                titleTarget = track;
+            } else {
+                const track = parseSubtitleTrack(streamIndex, language, details);
+                subtitleTracks.push(track);
+                titleTarget = track;
+            }
+            continue;
+        }
+
+        const title = line.match(/^\s+title\s*: (.+)$/);
+        if (title && titleTarget && !titleTarget.title) {
+            titleTarget.title = title[1].trim();
+        }
+    }
+
+    if (container === null) {
+        return null;
+    }
+
+    return {
+        container,
+        duration,
+        ...(bitrate !== undefined && { bitrate }),
+        ...(video && { video }),
+        audioTracks,
+        subtitleTracks,
+        chapters,
+    };
+}
+
+/**
+ * 音声トラックの表示名（"jpn・ステレオ（aac）" のような形式。タイトルがある場合は言語の代わりに表示）
+ */
+export const describeAudioTrack = (track: MediaAudioTrack): string => {
+    const channels = track.channels === 1 ? 'モノラル' : track.channels === 2 ? 'ステレオ' : track.channelLayout;
+    const label = [track.title ?? track.language, channels].filter(Boolean).join('・');
+    return `${label || `トラック${track.streamIndex}`}（${track.codec}）`;
+};
+
+/**
+ * ファイル一覧・文書の詳細に表示するメディア情報の要約
+ */
+export const formatMediaProbeSummary = (result: MediaProbeResult): string => {
+    const parts = [`${result.container} ${formatSeconds(result.duration)}`];
+    if (result.video) {
+        const { codec, width, height } = result.video;
+        parts.push(width && height ? `映像 ${width}x${height}（${codec}）` : `映像（${codec}）`);
+    }
+    parts.push(result.audioTracks.length > 0 ? `音声 ${result.audioTracks.length}トラック` : '音声なし');
+    if (result.subtitleTracks.length > 0) {
+        parts.push(`字幕 ${result.subtitleTracks.length}トラック`);
+    }
+    if (result.chapters.length > 0) {
+        parts.push(`チャプター ${result.chapters.length}件`);
+    }
+    return parts.join('、');
+};
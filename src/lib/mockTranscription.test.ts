@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MOCK_MODEL_OPTIONS } from '@/constants/transcriptionProviders';
+import { OutputSchema } from '@/types/structuredOutput';
+import { MockTranscriptionProvider } from './mockTranscription';
+import { TranscriptionError } from './transcriptionErrors';
+import { DocumentGenerationRequest } from './transcriptionProvider';
+
+const REQUEST: DocumentGenerationRequest = {
+    media: { type: 'inline', mimeType: 'audio/mpeg', base64Data: btoa('audio') },
+    fileName: 'meeting.mp3',
+    prompt: '議事録を作成してください\n- 決定事項\n- 宿題事項\n- その他',
+};
+
+describe('MockTranscriptionProvider', () => {
+    it('同じ入力には常に同じ文書を返し、入力が変われば文書も変わる', async () => {
+        const provider = new MockTranscriptionProvider();
+
+        const first = await provider.generateDocument(REQUEST);
+        const second = await new MockTranscriptionProvider().generateDocument(REQUEST);
+        const otherPrompt = await provider.generateDocument({ ...REQUEST, prompt: '要約してください' });
+
+        expect(first.success).toBe(true);
+        expect(second.text).toBe(first.text);
+        expect(otherPrompt.text).not.toBe(first.text);
+        expect(first.text).toContain('# meeting.mp3（モック文書）');
+        expect(first.text).toContain(`- モデル: ${MOCK_MODEL_OPTIONS[0].value}`);
+        expect(first.text).toContain('> 議事録を作成してください\n> - 決定事項\n> - 宿題事項');
+        expect(first.usage).toMatchObject({ provider: 'mock', model: MOCK_MODEL_OPTIONS[0].value });
+    });
+
+    it('メディアのデータが空の場合は失敗を返す', async () => {
+        const result = await new MockTranscriptionProvider().generateDocument({
+            ...REQUEST,
+            media: { type: 'inline', mimeType: 'audio/mpeg', base64Data: '' },
+        });
+
+        expect(result).toMatchObject({ success: false, errorCode: 'unknown' });
+    });
+
+    it('スキーマを指定した場合はスキーマに一致するJSONを返す', async () => {
+        const schema: OutputSchema = {
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                status: { type: 'string', enum: ['open', 'closed'] },
+                items: { type: 'array', items: { type: 'integer' } },
+            },
+        };
+
+        const result = await new MockTranscriptionProvider().generateDocument({ ...REQUEST, outputSchema: schema });
+
+        expect(result.success).toBe(true);
+        expect(JSON.parse(result.text!)).toEqual(result.structuredData);
+        expect(result.structuredData).toMatchObject({ status: 'open', items: [1, 1] });
+    });
+
+    it('ストリーミングでは1行ずつ累積して通知し、最後の通知は文書全体になる', async () => {
+        const onPartialText = vi.fn();
+
+        const result = await new MockTranscriptionProvider().generateDocument(REQUEST, { onPartialText });
+
+        const lineCount = result.text!.split('\n').length;
+        expect(onPartialText).toHaveBeenCalledTimes(lineCount);
+        expect(onPartialText.mock.calls[0][0]).toBe('# meeting.mp3（モック文書）');
+        expect(onPartialText).toHaveBeenLastCalledWith(result.text);
+    });
+
+    it('中止された場合は cancelled を返す', async () => {
+        const result = await new MockTranscriptionProvider().generateDocument(REQUEST, {
+            onPartialText: vi.fn(),
+            abortSignal: AbortSignal.abort(),
+        });
+
+        expect(result).toMatchObject({ success: false, errorCode: 'cancelled' });
+    });
+
+    it('事前アップロードは進捗を段階的に通知し、同じファイルには同じ名前を返す', async () => {
+        const provider = new MockTranscriptionProvider();
+        const blob = new Blob(['audio'], { type: 'audio/mpeg' });
+        const onProgress = vi.fn();
+
+        const uploaded = await provider.uploadMedia(blob, { fileName: 'meeting.mp3', mimeType: 'audio/mpeg', onProgress });
+        const again = await provider.uploadMedia(blob, { fileName: 'meeting.mp3', mimeType: 'audio/mpeg' });
+
+        expect(onProgress.mock.calls.map(([ratio]) => ratio)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+        expect(uploaded).toMatchObject({ type: 'uploaded', mimeType: 'audio/mpeg', sizeBytes: blob.size });
+        expect(uploaded.uri).toBe(`mock://${uploaded.name}`);
+        expect(again.name).toBe(uploaded.name);
+        await expect(provider.uploadMedia(blob, {
+            fileName: 'meeting.mp3',
+            mimeType: 'audio/mpeg',
+            abortSignal: AbortSignal.abort(),
+        })).rejects.toMatchObject({ code: 'cancelled' });
+    });
+
+    it('分類済みのエラーはそのまま、それ以外は unknown に分類する', () => {
+        const provider = new MockTranscriptionProvider();
+        const quota = new TranscriptionError('quota', '429');
+
+        expect(provider.classifyError(quota)).toBe(quota);
+        expect(provider.classifyError(new Error('boom'))).toMatchObject({ code: 'unknown', message: 'boom' });
+    });
+});
@@ -0,0 +1,240 @@
+import { MOCK_MODEL_OPTIONS, TranscriptionModelOption } from '../constants/transcriptionProviders';
+import type {
+    DocumentGenerationOptions,
+    DocumentGenerationRequest,
+    MediaUploadOptions,
+    TranscriptionProvider,
+    TranscriptionResult,
+    UploadedMedia,
+} from './transcriptionProvider';
+import type { OutputSchema, StructuredData } from '../types/structuredOutput';
+import { createLogger } from './logger';
+import { parseStructuredOutput } from './structuredOutput';
+import { TranscriptionError } from './transcriptionErrors';
+
+const mockTranscriptionLogger = createLogger('mockTranscription');
+
+export interface MockTranscriptionOptions {
+    /** 応答までの擬似的な待ち時間（ミリ秒） */
+    latencyMs?: number;
+}
+
+function createDeterministicHash(value: string): string {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash << 5) - hash + value.charCodeAt(i);
+        hash |= 0; // Convert to 32bit integer
+    }
+    return Math.abs(hash).toString(16).padStart(8, '0');
+}
+
+/**
+ * スキーマに一致するサンプルデータを作る（配列は2件、文字列は項目名と入力ハッシュから決定的に生成）
+ */
+function buildSampleValue(schema: OutputSchema, label: string, seed: string): unknown {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, propertySchema]) => [
+                    key,
+                    buildSampleValue(propertySchema, propertySchema.description || key, seed),
+                ])
+            );
+        case 'array':
+            return schema.items
+                ? [1, 2].map(index => buildSampleValue(schema.items!, `${label}${index}`, seed))
+                : [];
+        case 'string':
+            if (schema.enum && schema.enum.length > 0) {
+                return schema.enum[0];
+            }
+            if (schema.format === 'date') {
+                return '2025-01-01';
+            }
+            if (schema.format === 'date-time') {
+                return '2025-01-01T09:00:00Z';
+            }
+            return `モックの${label}（${seed}）`;
+        case 'number':
+        case 'integer':
+            return 1;
+        case 'boolean':
+            return true;
+        default:
+            return null;
+    }
+}
+
+/**
+ * ローカル開発・テスト用の文書生成プロバイダー
+ * 外部APIを呼び出さず、入力（ファイル名・MIMEタイプ・データ長・プロンプト・モデル）のみから
+ * 常に同じMarkdownを返すため、オフラインでもパイプライン全体を通して動作確認できる。
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+    readonly id = 'mock' as const;
+    private latencyMs: number;
+
+    constructor(options: MockTranscriptionOptions = {}) {
+        this.latencyMs = options.latencyMs ?? 0;
+    }
+
+    async generateDocument(
+        request: DocumentGenerationRequest,
+        options: DocumentGenerationOptions = {}
+    ): Promise<TranscriptionResult> {
+        const { onPartialText, abortSignal } = options;
+        const { media, contextText = '', images = [], fileName, prompt = '', model = MOCK_MODEL_OPTIONS[0].value, outputSchema } = request;
+        const mimeType = media?.mimeType ?? 'text/plain';
+
+        try {
+            if (media?.type === 'inline' && media.base64Data.length === 0) {
+                return {
+                    success: false,
+                    error: '音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。',
+                    errorCode: 'unknown',
+                };
+            }
+
+            mockTranscriptionLogger.info('モック文書生成を開始', {
+                fileName,
+                mimeType,
+                mediaType: media?.type ?? 'text',
+                contextTextLength: contextText.length,
+                imageCount: images.length,
+                modelName: model,
+                promptLength: prompt.length,
+            });
+
+            if (this.latencyMs > 0 && !onPartialText) {
+                await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+            }
+
+            const estimatedBytes = !media
+                ? contextText.length
+                : media.type === 'uploaded'
+                    ? media.sizeBytes
+                    : Math.floor(media.base64Data.length * 0.75);
+            const promptPreview = prompt.trim().split('\n').slice(0, 3).join('\n');
+            const mediaLabel = !media ? 'テキスト' : mimeType.startsWith('video/') ? '動画' : '音声';
+
+            const inputHash = createDeterministicHash(`${fileName}:${mimeType}:${estimatedBytes}:${prompt}:${contextText}:${model}`);
+            const sampleData = outputSchema
+                ? buildSampleValue(outputSchema, fileName, inputHash) as StructuredData
+                : undefined;
+
+            const text = sampleData ? JSON.stringify(sampleData, null, 2) : [
+                `# ${fileName}（モック文書）`,
+                '',
+                '> この文書はローカルのモックプロバイダーで生成されました。外部APIは呼び出されていません。',
+                '',
+                '## 入力情報',
+                `- メディア: ${mediaLabel}（${mimeType}、${!media ? '添付テキストのみ' : media.type === 'uploaded' ? '事前アップロード' : 'インライン送信'}）`,
+                `- データサイズ: 約${(estimatedBytes / 1024).toFixed(1)}KB`,
+                `- モデル: ${model}`,
+                `- プロンプト長: ${prompt.length}文字`,
+                `- 添付テキスト長: ${contextText.length}文字`,
+                `- 添付画像: ${images.length}枚`,
+                `- 入力ハッシュ: ${inputHash}`,
+                '',
+                '## プロンプト（先頭3行）',
+                promptPreview ? promptPreview.split('\n').map(line => `> ${line}`).join('\n') : '> （既定のプロンプト）',
+            ].join('\n');
+
+            if (onPartialText) {
+                // ストリーミングの擬似実装: 1行ずつ累積して通知する
+                const lines = text.split('\n');
+                for (let i = 0; i < lines.length; i++) {
+                    if (abortSignal?.aborted) {
+                        return { success: false, error: 'Generation cancelled', errorCode: 'cancelled' };
+                    }
+                    if (this.latencyMs > 0) {
+                        await new Promise(resolve => setTimeout(resolve, this.latencyMs / lines.length));
+                    }
+                    onPartialText(lines.slice(0, i + 1).join('\n'));
+                }
+            }
+
+            if (abortSignal?.aborted) {
+                return { success: false, error: 'Generation cancelled', errorCode: 'cancelled' };
+            }
+
+            // 実プロバイダーと同様に返却前にスキーマ検証を行う
+            let structuredData: StructuredData | undefined;
+            if (outputSchema) {
+                const parsed = parseStructuredOutput(text, outputSchema);
+                if (!parsed.success) {
+                    return { success: false, error: parsed.error, errorCode: 'invalid_output' };
+                }
+                structuredData = parsed.data;
+            }
+
+            // 外部APIの課金はないが、集計画面を確認できるよう文字数から概算した使用量を返す
+            const promptTokens = Math.ceil((prompt.length + contextText.length) / 4) + Math.ceil(estimatedBytes / 1024);
+            const candidatesTokens = Math.ceil(text.length / 4);
+            return {
+                success: true,
+                text,
+                usage: {
+                    provider: 'mock',
+                    model,
+                    promptTokens,
+                    audioPromptTokens: 0,
+                    candidatesTokens,
+                    thoughtsTokens: 0,
+                    totalTokens: promptTokens + candidatesTokens,
+                },
+                structuredData,
+            };
+        } catch (error) {
+            mockTranscriptionLogger.error('モック文書生成でエラーが発生', error, { fileName });
+            const classified = this.classifyError(error);
+            return {
+                success: false,
+                error: classified.message,
+                errorCode: classified.code,
+            };
+        }
+    }
+
+    /**
+     * 事前アップロードの擬似実装（実際には送信せず、進捗のみ段階的に通知する）
+     */
+    async uploadMedia(blob: Blob, options: MediaUploadOptions): Promise<UploadedMedia> {
+        const steps = 4;
+        for (let step = 0; step <= steps; step++) {
+            if (options.abortSignal?.aborted) {
+                throw new TranscriptionError('cancelled', 'Mock upload cancelled');
+            }
+            options.onProgress?.(step / steps);
+            if (this.latencyMs > 0 && step < steps) {
+                await new Promise(resolve => setTimeout(resolve, this.latencyMs / steps));
+            }
+        }
+
+        const name = `files/mock-${createDeterministicHash(`${options.fileName}:${blob.size}`)}`;
+        mockTranscriptionLogger.info('モックの事前アップロードを完了', { fileName: options.fileName, name });
+
+        return {
+            type: 'uploaded',
+            mimeType: options.mimeType,
+            uri: `mock://${name}`,
+            name,
+            sizeBytes: blob.size,
+        };
+    }
+
+    async deleteUploadedMedia(media: UploadedMedia): Promise<void> {
+        mockTranscriptionLogger.info('モックの事前アップロードを削除', { name: media.name });
+    }
+
+    listModels(): TranscriptionModelOption[] {
+        return MOCK_MODEL_OPTIONS;
+    }
+
+    classifyError(error: unknown): TranscriptionError {
+        if (error instanceof TranscriptionError) {
+            return error;
+        }
+        return new TranscriptionError('unknown', error instanceof Error ? error.message : String(error), { cause: error });
+    }
+}
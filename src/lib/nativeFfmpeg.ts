@@ -0,0 +1,129 @@
+/**
+ * ネイティブの FFmpeg による音声変換（サーバー処理の Worker 用）
+ * ブラウザの変換と同じ引数（src/lib/ffmpegArgs.ts）で、ファイル全体を1回で変換する。
+ * FFMPEG_PATH で実行ファイルを指定できる（未指定の場合は PATH 上の ffmpeg）。
+ */
+
+import { spawn } from 'child_process';
+import { AudioConversionSettings, getEffectiveEncoding } from '@/constants/conversionSettings';
+import { getAudioOutputProfile } from '@/constants/audioOutputProfiles';
+import { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import { MediaTrimRange } from '@/types/processing';
+import {
+    buildAudioInputArgs,
+    buildEncodeArgs,
+    buildPreprocessingFilters,
+    getRemovedDuration,
+    parseInputDuration,
+} from './ffmpegArgs';
+import { createLogger } from './logger';
+
+const nativeFfmpegLogger = createLogger('nativeFfmpeg');
+
+const FFMPEG_COMMAND = process.env.FFMPEG_PATH || 'ffmpeg';
+
+/** エラー時にログへ残す FFmpeg の出力の行数 */
+const ERROR_LOG_LINES = 20;
+
+export interface NativeConversionOptions {
+    settings: AudioConversionSettings;
+    audioTrackSelection?: AudioTrackSelection;
+    trimRange?: MediaTrimRange;
+    /** 変換の進捗（0〜1） */
+    onProgress?: (ratio: number) => void;
+    abortSignal?: AbortSignal;
+}
+
+export interface NativeConversionResult {
+    /** 無音の削除で短くなった長さ（秒） */
+    removedDuration?: number;
+}
+
+/**
+ * FFmpeg を実行し、標準エラー出力を1行ずつ渡す
+ */
+function runFfmpeg(args: string[], onLog: (line: string) => void, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) {
+            reject(new Error('音声変換を中止しました'));
+            return;
+        }
+        const child = spawn(FFMPEG_COMMAND, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        const onAbort = () => child.kill('SIGKILL');
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+        let pending = '';
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            // 進捗行は \r で区切られる
+            const lines = (pending + chunk).split(/[\r\n]/);
+            pending = lines.pop() ?? '';
+            lines.filter(Boolean).forEach(onLog);
+        });
+
+        child.on('error', (error) => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            reject(new Error(`FFmpeg を実行できません（${FFMPEG_COMMAND}）: ${error.message}`));
+        });
+        child.on('close', (code) => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            if (pending) {
+                onLog(pending);
+            }
+            if (abortSignal?.aborted) {
+                reject(new Error('音声変換を中止しました'));
+            } else if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`FFmpeg が終了コード ${code} で終了しました`));
+            }
+        });
+    });
+}
+
+/**
+ * メディアを変換設定の出力形式の音声に変換する
+ * 出力のコンテナは outputPath の拡張子で決まるため、出力形式の拡張子を付けること
+ */
+export async function convertMediaWithNativeFfmpeg(
+    inputPath: string,
+    outputPath: string,
+    options: NativeConversionOptions
+): Promise<NativeConversionResult> {
+    const { settings, audioTrackSelection, trimRange, onProgress, abortSignal } = options;
+    const outputProfile = getAudioOutputProfile(settings.outputProfileId);
+    const { bitrate, sampleRate } = getEffectiveEncoding(settings);
+
+    const args = [
+        '-hide_banner',
+        ...(trimRange ? ['-ss', trimRange.startTime.toString(), '-to', trimRange.endTime.toString()] : []),
+        '-i', inputPath,
+        '-vn',
+        ...buildAudioInputArgs(buildPreprocessingFilters(settings.preprocessing), audioTrackSelection),
+        ...buildEncodeArgs(outputProfile, bitrate, sampleRate, settings.preprocessing),
+        '-y',
+        outputPath,
+    ];
+
+    nativeFfmpegLogger.info('音声変換を開始', { inputPath, outputProfile: outputProfile.id, trimRange });
+
+    const logs: string[] = [];
+    let inputDuration: number | null = trimRange ? trimRange.endTime - trimRange.startTime : null;
+    await runFfmpeg(args, (line) => {
+        logs.push(line);
+        inputDuration ??= parseInputDuration([line]);
+        const match = line.match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+        if (match && inputDuration) {
+            const seconds = parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+            onProgress?.(Math.min(1, seconds / inputDuration));
+        }
+    }, abortSignal).catch((error) => {
+        nativeFfmpegLogger.error('音声変換に失敗', error, { inputPath, log: logs.slice(-ERROR_LOG_LINES).join('\n') });
+        throw error;
+    });
+
+    onProgress?.(1);
+    return {
+        removedDuration: settings.preprocessing.trimSilence ? getRemovedDuration(inputDuration, logs) : undefined,
+    };
+}
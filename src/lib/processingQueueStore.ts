@@ -0,0 +1,343 @@
+/**
+ * 処理中のファイル・ステータス・変換済み音声を IndexedDB に保存し、再読み込みやクラッシュの後に再開できるようにする
+ * - files: 選択したファイルとプロンプト・オプション（開始時に1回だけ保存）
+ * - statuses: ファイルごとのステータス（Blob を除く。変化のたびに保存）
+ * - blobs: 区間・区間グループ・結合後の音声（新しい Blob だけを保存）
+ * 保存はベストエフォートで、失敗しても処理は続ける。
+ * 元のファイルをそのまま保存するため、開始時にブラウザの空き容量を確認し、足りない場合は保存しない。
+ */
+
+import { AudioConversionSettings, normalizeConversionSettings } from '@/constants/conversionSettings';
+import { FileProcessingStatus, FileWithPrompts, MapReduceGroup, SegmentStatus } from '@/types/processing';
+import { getCurrentUserId } from './auth';
+import { createLogger } from './logger';
+
+const processingQueueStoreLogger = createLogger('processingQueueStore');
+
+const DB_NAME = 'processing-queue';
+const DB_VERSION = 1;
+const STORE_NAMES = {
+    session: 'session',
+    files: 'files',
+    statuses: 'statuses',
+    blobs: 'blobs',
+} as const;
+const SESSION_KEY = 'current';
+
+/** 変換した音声・区間の音声の保存に見込む容量（元のファイルの合計サイズに対する割合） */
+const CONVERTED_AUDIO_RESERVE_RATIO = 0.2;
+
+/** 再読み込みで中断した処理に表示するエラー */
+export const INTERRUPTED_BY_RELOAD_ERROR = 'ページの再読み込みにより中断されました。「再開」で続きから処理できます';
+
+interface PersistedSessionRecord {
+    ownerId: string;
+    settings: AudioConversionSettings;
+    fileCount: number;
+    startedAt: number;
+}
+
+/** 保存するステータス（Blob は blobs に分けて保存する） */
+interface PersistedStatusRecord extends Omit<
+    FileProcessingStatus,
+    'convertedAudioBlob' | 'livePreviews' | 'isResuming' | 'segments' | 'mapReduceGroups'
+> {
+    segments: Omit<SegmentStatus, 'audioBlob'>[];
+    mapReduceGroups?: Omit<MapReduceGroup, 'audioBlob'>[];
+    /** source: 元のファイルをそのまま使う（音声ファイル・動画の直接送信）、stored: blobs に保存済み */
+    convertedAudio?: 'source' | 'stored';
+}
+
+export interface PersistedProcessingSession {
+    settings: AudioConversionSettings;
+    files: FileWithPrompts[];
+    statuses: FileProcessingStatus[];
+}
+
+const blobKeys = {
+    converted: (fileIndex: number) => `${fileIndex}:converted`,
+    segment: (fileIndex: number, segmentIndex: number) => `${fileIndex}:segment:${segmentIndex}`,
+    group: (fileIndex: number, groupIndex: number) => `${fileIndex}:group:${groupIndex}`,
+};
+
+// 保存済みの Blob（同じ Blob を何度も書き込まない）
+const persistedBlobs = new WeakSet<Blob>();
+
+// ファイルと設定を保存できた処理か（空き容量が足りず保存しなかった場合はステータスも書き込まない）
+let isSessionPersisted = false;
+
+// 書き込みは順番に行う（開始時のファイル保存より前にステータスが書き込まれないように）
+let operationChain: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = operationChain.then(operation);
+    operationChain = result.catch(() => undefined);
+    return result;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB を利用できません'));
+    }
+    databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const storeName of Object.values(STORE_NAMES)) {
+                if (!db.objectStoreNames.contains(storeName)) {
+                    db.createObjectStore(storeName);
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((error) => {
+        databasePromise = null;
+        throw error;
+    });
+    return databasePromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * トランザクションを実行し、完了（書き込みの確定）まで待つ
+ */
+const runTransaction = async <T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    run: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB のトランザクションが中断されました'));
+    });
+    const result = await run(transaction);
+    await completed;
+    return result;
+};
+
+const clearAllStores = (transaction: IDBTransaction) => {
+    for (const storeName of Object.values(STORE_NAMES)) {
+        transaction.objectStore(storeName).clear();
+    }
+};
+
+const toStatusRecord = (status: FileProcessingStatus, sourceFile: File | undefined): PersistedStatusRecord => {
+    const record: PersistedStatusRecord & Partial<Pick<FileProcessingStatus, 'convertedAudioBlob' | 'livePreviews' | 'isResuming'>> = {
+        ...status,
+        segments: status.segments.map(segment => {
+            const persistedSegment = { ...segment };
+            delete persistedSegment.audioBlob;
+            return persistedSegment;
+        }),
+        mapReduceGroups: status.mapReduceGroups?.map(group => ({
+            groupIndex: group.groupIndex,
+            startTime: group.startTime,
+            endTime: group.endTime,
+        })),
+        convertedAudio: status.convertedAudioBlob
+            ? status.convertedAudioBlob === sourceFile ? 'source' : 'stored'
+            : undefined,
+    };
+    delete record.convertedAudioBlob;
+    delete record.livePreviews;
+    delete record.isResuming;
+    return record;
+};
+
+/**
+ * ファイルと変換した音声を保存できる空き容量があるか（容量を取得できないブラウザでは保存を試みる）
+ */
+const hasStorageForFiles = async (files: FileWithPrompts[]): Promise<boolean> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return true;
+    }
+    const { quota, usage } = await navigator.storage.estimate();
+    if (quota === undefined) {
+        return true;
+    }
+    const fileBytes = files.reduce((sum, file) => sum + file.file.size, 0);
+    const requiredBytes = fileBytes * (1 + CONVERTED_AUDIO_RESERVE_RATIO);
+    const availableBytes = quota - (usage ?? 0);
+    if (requiredBytes > availableBytes) {
+        processingQueueStoreLogger.warn('空き容量が足りないため処理キューを保存しない', { requiredBytes, availableBytes });
+        return false;
+    }
+    return true;
+};
+
+/**
+ * 新しい処理を開始したときに、以前の保存内容を消してファイルと設定を保存する
+ * @returns 保存できたか（空き容量が足りない場合は false。再読み込み後は再開できない）
+ */
+export function startPersistedSession(files: FileWithPrompts[], settings: AudioConversionSettings): Promise<boolean> {
+    return enqueue(async () => {
+        isSessionPersisted = false;
+        // 以前の保存内容を消してから空き容量を確認する
+        await runTransaction(Object.values(STORE_NAMES), 'readwrite', clearAllStores);
+        if (!(await hasStorageForFiles(files))) {
+            return false;
+        }
+
+        const session: PersistedSessionRecord = {
+            ownerId: getCurrentUserId(),
+            settings,
+            fileCount: files.length,
+            startedAt: Date.now(),
+        };
+        await runTransaction(Object.values(STORE_NAMES), 'readwrite', (transaction) => {
+            transaction.objectStore(STORE_NAMES.session).put(session, SESSION_KEY);
+            files.forEach((file, fileIndex) => transaction.objectStore(STORE_NAMES.files).put(file, fileIndex));
+        });
+        isSessionPersisted = true;
+        processingQueueStoreLogger.info('処理キューの保存を開始', { fileCount: files.length });
+        return true;
+    });
+}
+
+/**
+ * ステータスと、まだ保存していない音声を保存する
+ * @param sourceFiles ファイルごとの元のファイル（変換せずに使う場合は音声を重複して保存しない）
+ */
+export function savePersistedStatuses(statuses: FileProcessingStatus[], sourceFiles: (File | undefined)[]): Promise<void> {
+    return enqueue(async () => {
+        if (!isSessionPersisted) {
+            return;
+        }
+        const newBlobs: { key: string; blob: Blob }[] = [];
+        const collect = (key: string, blob: Blob | undefined) => {
+            if (blob && !persistedBlobs.has(blob)) {
+                newBlobs.push({ key, blob });
+            }
+        };
+        statuses.forEach((status, fileIndex) => {
+            if (status.convertedAudioBlob !== sourceFiles[fileIndex]) {
+                collect(blobKeys.converted(fileIndex), status.convertedAudioBlob);
+            }
+            status.segments.forEach(segment => collect(blobKeys.segment(fileIndex, segment.segmentIndex), segment.audioBlob));
+            status.mapReduceGroups?.forEach(group => collect(blobKeys.group(fileIndex, group.groupIndex), group.audioBlob));
+        });
+
+        await runTransaction([STORE_NAMES.statuses, STORE_NAMES.blobs], 'readwrite', (transaction) => {
+            statuses.forEach((status, fileIndex) => {
+                transaction.objectStore(STORE_NAMES.statuses).put(toStatusRecord(status, sourceFiles[fileIndex]), fileIndex);
+            });
+            for (const { key, blob } of newBlobs) {
+                transaction.objectStore(STORE_NAMES.blobs).put(blob, key);
+            }
+        });
+        newBlobs.forEach(({ blob }) => persistedBlobs.add(blob));
+    });
+}
+
+/**
+ * 保存した処理を読み込む（現在のユーザーの処理で、未完了のファイルがある場合のみ）
+ * 処理中だったファイルは中断として扱い、再開できる状態にする
+ */
+export function loadPersistedSession(): Promise<PersistedProcessingSession | null> {
+    return enqueue(async () => {
+        const loaded = await runTransaction(Object.values(STORE_NAMES), 'readonly', async (transaction) => {
+            const [session, files, statuses, blobKeyList, blobList] = await Promise.all([
+                requestToPromise(transaction.objectStore(STORE_NAMES.session).get(SESSION_KEY)) as Promise<PersistedSessionRecord | undefined>,
+                requestToPromise(transaction.objectStore(STORE_NAMES.files).getAll()) as Promise<FileWithPrompts[]>,
+                requestToPromise(transaction.objectStore(STORE_NAMES.statuses).getAll()) as Promise<PersistedStatusRecord[]>,
+                requestToPromise(transaction.objectStore(STORE_NAMES.blobs).getAllKeys()),
+                requestToPromise(transaction.objectStore(STORE_NAMES.blobs).getAll()) as Promise<Blob[]>,
+            ]);
+            const blobs = new Map(blobKeyList.map((key, index) => [String(key), blobList[index]]));
+            return { session, files, statuses, blobs };
+        });
+
+        const { session, files, statuses, blobs } = loaded;
+        if (!session || session.ownerId !== getCurrentUserId()) {
+            return null;
+        }
+        if (files.length !== session.fileCount || statuses.length !== session.fileCount) {
+            processingQueueStoreLogger.warn('保存内容が不完全なため復元しない', {
+                fileCount: session.fileCount,
+                savedFiles: files.length,
+                savedStatuses: statuses.length,
+            });
+            return null;
+        }
+        if (statuses.every(status => status.status === 'completed')) {
+            return null;
+        }
+
+        for (const blob of blobs.values()) {
+            persistedBlobs.add(blob);
+        }
+        isSessionPersisted = true;
+
+        const restoredStatuses = statuses.map((record, fileIndex): FileProcessingStatus => {
+            const { convertedAudio, segments, mapReduceGroups, ...rest } = record;
+            const convertedAudioBlob = convertedAudio === 'source'
+                ? files[fileIndex].file
+                : convertedAudio === 'stored' ? blobs.get(blobKeys.converted(fileIndex)) : undefined;
+            const restoredGroups = mapReduceGroups?.map(group => ({ ...group, audioBlob: blobs.get(blobKeys.group(fileIndex, group.groupIndex)) }));
+            const restoredSegments: SegmentStatus[] = segments.map(segment => {
+                const audioBlob = blobs.get(blobKeys.segment(fileIndex, segment.segmentIndex));
+                // 変換中だった区間・音声を保存できなかった区間は変換し直す（スキップした区間はそのまま）
+                if (segment.status === 'skipped') {
+                    return segment;
+                }
+                return segment.status === 'completed' && audioBlob
+                    ? { ...segment, audioBlob }
+                    : { ...segment, status: segment.status === 'error' ? 'error' : 'pending', progress: 0 };
+            });
+
+            const restored: FileProcessingStatus = {
+                ...rest,
+                segments: restoredSegments,
+                completedSegmentIndices: restoredSegments.filter(segment => segment.status === 'completed').map(segment => segment.segmentIndex),
+                ...(convertedAudioBlob && { convertedAudioBlob }),
+                // 区間グループの音声が欠けている場合は作り直す
+                ...(restoredGroups && restoredGroups.every(group => group.audioBlob) && {
+                    mapReduceGroups: restoredGroups as MapReduceGroup[],
+                }),
+            };
+
+            // サーバー処理のジョブはタブを閉じても続くため、復元後に進捗の取得を再開する
+            if (restored.status === 'completed' || restored.status === 'error' || restored.serverJobId) {
+                return restored;
+            }
+            return {
+                ...restored,
+                status: 'error',
+                error: INTERRUPTED_BY_RELOAD_ERROR,
+                failedPhase: restored.status === 'transcribing' ? 'text_generation' : 'audio_conversion',
+            };
+        });
+
+        processingQueueStoreLogger.info('中断した処理を復元', {
+            fileCount: files.length,
+            interruptedCount: restoredStatuses.filter(status => status.status === 'error').length,
+            blobCount: blobs.size,
+        });
+        return {
+            settings: normalizeConversionSettings(session.settings),
+            files,
+            statuses: restoredStatuses,
+        };
+    });
+}
+
+/**
+ * 保存した処理を削除する（新しい処理を始める・クリアする場合）
+ */
+export function clearPersistedSession(): Promise<void> {
+    return enqueue(async () => {
+        isSessionPersisted = false;
+        await runTransaction(Object.values(STORE_NAMES), 'readwrite', clearAllStores);
+    });
+}
@@ -1,7 +1,6 @@
 import { db } from './firebase';
 import {
     collection,
-    addDoc,
     getDocs,
     getDoc,
     query,
@@ -13,13 +12,23 @@ import {
     where,
     serverTimestamp,
     limit,
+    deleteField,
+    DocumentData,
+    DocumentReference,
 } from 'firebase/firestore';
 import { getCurrentUserId, getOwnerType } from './auth';
 import { logAudit } from './auditLog';
 import { validatePromptSize, getDefaultPrompts } from './adminSettings';
 import { updateUserStats } from './userManagement';
 import { DEFAULT_GEMINI_MODEL } from '../constants/geminiModels';
+import {
+    DEFAULT_TRANSCRIPTION_PROVIDER,
+    TranscriptionProviderId,
+    normalizeTranscriptionProvider,
+} from '../constants/transcriptionProviders';
 import { createLogger } from './logger';
+import { createWithRateLimit } from './rateLimit';
+import { OutputSchema } from '@/types/structuredOutput';
 
 const promptsLogger = createLogger('prompts');
 
@@ -44,8 +53,20 @@ function generateDefaultPromptId(ownerId: string, templateName: string): string
     return `default_${ownerId}_${hash}`;
 }
 
+/**
+ * プロンプトのドキュメントを作成
+ * 自分が所有するプロンプトはレート制限の枠を消費する（管理者がゲスト共有のデフォルトプロンプトを作成する場合は対象外）
+ */
+async function createPromptDocument(promptRef: DocumentReference, data: DocumentData & { ownerId: string }): Promise<void> {
+    if (data.ownerId === getCurrentUserId()) {
+        await createWithRateLimit('prompts', promptRef, data);
+    } else {
+        await setDoc(promptRef, data);
+    }
+}
+
 async function ensureDefaultPromptExists(
-    template: { name: string; content: string; model?: string },
+    template: { name: string; content: string; model?: string; provider?: TranscriptionProviderId },
     ownerId: string,
     ownerType: 'guest' | 'user',
     createdBy: string
@@ -58,10 +79,11 @@ async function ensureDefaultPromptExists(
         return;
     }
 
-    await setDoc(promptRef, {
+    await createPromptDocument(promptRef, {
         name: template.name,
         content: template.content,
         model: template.model || DEFAULT_GEMINI_MODEL,
+        provider: template.provider || DEFAULT_TRANSCRIPTION_PROVIDER,
         isDefault: true,
         ownerType,
         ownerId,
@@ -75,7 +97,7 @@ async function ensureDefaultPromptsForOwner(
     ownerId: string,
     ownerType: 'guest' | 'user',
     createdBy: string,
-    templates?: { name: string; content: string; model?: string }[]
+    templates?: { name: string; content: string; model?: string; provider?: TranscriptionProviderId }[]
 ): Promise<void> {
     const defaultPromptTemplates = templates ?? (await getDefaultPrompts());
     await Promise.all(
@@ -90,6 +112,8 @@ export interface Prompt {
     name: string;
     content: string;
     model: string;
+    provider: TranscriptionProviderId; // 文書生成プロバイダー（未設定の既存データは gemini）
+    outputSchema?: OutputSchema; // 指定時は Markdown ではなくこのスキーマに沿ったJSONを生成
     isDefault: boolean;
     ownerType: 'guest' | 'user';
     ownerId: string; // "GUEST" または Auth uid
@@ -195,6 +219,8 @@ async function findExistingPromptsByBaseName(
                     name: data.name,
                     content: data.content,
                     model: data.model || DEFAULT_GEMINI_MODEL,
+                    provider: normalizeTranscriptionProvider(data.provider),
+                outputSchema: data.outputSchema,
                     isDefault: data.isDefault || false,
                     ownerType: ownerType as 'guest' | 'user',
                     ownerId: ownerId,
@@ -249,7 +275,7 @@ function getNextPromptName(existingPrompts: Prompt[], baseName: string): string
  * デフォルトプロンプトを追加（連番付き、決定論的ID）
  */
 async function addDefaultPrompt(
-    template: { name: string; content: string; model?: string },
+    template: { name: string; content: string; model?: string; provider?: TranscriptionProviderId },
     ownerId: string,
     ownerType: 'guest' | 'user',
     createdBy: string
@@ -275,11 +301,12 @@ async function addDefaultPrompt(
         return; // 既に存在するのでスキップ
     }
 
-    // 5. setDocで作成（決定論的ID）
-    await setDoc(promptRef, {
+    // 5. 決定論的IDで作成
+    await createPromptDocument(promptRef, {
         name: newName,
         content: template.content,
         model: template.model || DEFAULT_GEMINI_MODEL,
+        provider: template.provider || DEFAULT_TRANSCRIPTION_PROVIDER,
         isDefault: true,
         ownerType,
         ownerId,
@@ -335,7 +362,9 @@ export async function createPrompt(
     name: string,
     content: string,
     isDefault: boolean = false,
-    model: string = DEFAULT_GEMINI_MODEL
+    model: string = DEFAULT_GEMINI_MODEL,
+    provider: TranscriptionProviderId = DEFAULT_TRANSCRIPTION_PROVIDER,
+    outputSchema?: OutputSchema
 ): Promise<string> {
     const userId = getCurrentUserId();
     const ownerType = getOwnerType();
@@ -352,10 +381,13 @@ export async function createPrompt(
             );
         }
 
-        const docRef = await addDoc(collection(db, 'prompts'), {
+        const docRef = doc(collection(db, 'prompts'));
+        await createWithRateLimit('prompts', docRef, {
             name,
             content,
             model,
+            provider,
+            ...(outputSchema && { outputSchema }),
             isDefault,
             ownerType,
             ownerId: userId,
@@ -434,6 +466,8 @@ export async function getPrompts(): Promise<Prompt[]> {
                 name: data.name,
                 content: data.content,
                 model: data.model || DEFAULT_GEMINI_MODEL,
+                provider: normalizeTranscriptionProvider(data.provider),
+                outputSchema: data.outputSchema,
                 isDefault: data.isDefault || false,
                 ownerType: ownerType as 'guest' | 'user',
                 ownerId: ownerId,
@@ -472,6 +506,8 @@ export async function getPromptsByOwnerId(ownerId: string, limitCount: number =
                 name: data.name,
                 content: data.content,
                 model: data.model || DEFAULT_GEMINI_MODEL,
+                provider: normalizeTranscriptionProvider(data.provider),
+                outputSchema: data.outputSchema,
                 isDefault: data.isDefault || false,
                 ownerType: data.ownerType || 'user',
                 ownerId: data.ownerId || ownerId,
@@ -491,10 +527,11 @@ export async function getPromptsByOwnerId(ownerId: string, limitCount: number =
 /**
  * プロンプトを更新
  * 注意: ownerType と ownerId は変更不可（Firestore Rules で保護）
+ * outputSchema に null を指定すると構造化出力を解除して Markdown 出力に戻す
  */
 export async function updatePrompt(
     promptId: string,
-    updates: { name?: string; content?: string; model?: string }
+    updates: { name?: string; content?: string; model?: string; provider?: TranscriptionProviderId; outputSchema?: OutputSchema | null }
 ): Promise<void> {
     try {
         // コンテンツが更新される場合、サイズチェック
@@ -509,13 +546,18 @@ export async function updatePrompt(
             }
         }
 
+        const { outputSchema, ...fieldUpdates } = updates;
         await updateDoc(doc(db, 'prompts', promptId), {
-            ...updates,
+            ...fieldUpdates,
+            ...(outputSchema !== undefined && { outputSchema: outputSchema ?? deleteField() }),
             updatedAt: serverTimestamp(),
         });
 
-        // 監査ログを記録
-        await logAudit('prompt_update', 'prompt', promptId, updates);
+        // 監査ログを記録（スキーマ本体は大きくなりうるため有無のみ）
+        await logAudit('prompt_update', 'prompt', promptId, {
+            ...fieldUpdates,
+            ...(outputSchema !== undefined && { structuredOutput: outputSchema !== null }),
+        });
     } catch (error) {
         promptsLogger.error('プロンプトの更新に失敗', error, { promptId });
         if (error instanceof Error) {
@@ -0,0 +1,171 @@
+/**
+ * プランごとの月間上限（処理時間・文書数・保存サイズ）
+ * 利用量はユーザープロファイルの monthlyUsage に月ごとに加算し、ゲストには適用しない。
+ */
+
+import { db } from './firebase';
+import { doc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { AdminSettings, getAdminSettings, PlanTier } from './adminSettings';
+import { getCurrentUserId, getOwnerType } from './auth';
+import { getUserProfile, recordMonthlyUsage, toMonthlyUsageMap } from './userManagement';
+import { createLogger } from './logger';
+import { MonthlyUsage } from '@/types/usage';
+
+const quotaLogger = createLogger('quota');
+
+export type QuotaKind = 'mediaMinutes' | 'documents' | 'storageBytes';
+
+export const QUOTA_KIND_LABELS: Record<QuotaKind, string> = {
+    mediaMinutes: '処理時間',
+    documents: '文書生成',
+    storageBytes: '音声の保存',
+};
+
+export interface QuotaItem {
+    kind: QuotaKind;
+    /** 月間上限（0 は無制限） */
+    limit: number;
+    used: number;
+    /** 残り（無制限の場合は Infinity） */
+    remaining: number;
+}
+
+export interface QuotaStatus {
+    month: string;
+    tier: PlanTier;
+    items: Record<QuotaKind, QuotaItem>;
+}
+
+const EMPTY_MONTHLY_USAGE: MonthlyUsage = { mediaSeconds: 0, documents: 0, storageBytes: 0 };
+
+/**
+ * 利用量を集計する月のキー（UTC の "YYYY-MM"）
+ * セキュリティルールがサーバー時刻から求める当月と揃えるため、ローカル時刻ではなく UTC で数える
+ */
+export function getUsageMonth(date: Date = new Date()): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * ユーザーに適用するプランを取得（削除済みのプランが割り当てられている場合は既定プラン）
+ */
+export function resolvePlanTier(settings: AdminSettings, planTierId?: string): PlanTier {
+    return settings.planTiers.find(tier => tier.id === planTierId)
+        ?? settings.planTiers.find(tier => tier.id === settings.defaultPlanTierId)
+        ?? settings.planTiers[0];
+}
+
+function toQuotaItem(kind: QuotaKind, limit: number, used: number): QuotaItem {
+    return {
+        kind,
+        limit,
+        used,
+        remaining: limit === 0 ? Infinity : Math.max(0, limit - used),
+    };
+}
+
+export function toQuotaStatus(
+    settings: AdminSettings,
+    planTierId: string | undefined,
+    monthlyUsage: Record<string, MonthlyUsage> | undefined,
+    month: string = getUsageMonth()
+): QuotaStatus {
+    const tier = resolvePlanTier(settings, planTierId);
+    const usage = monthlyUsage?.[month] ?? EMPTY_MONTHLY_USAGE;
+
+    return {
+        month,
+        tier,
+        items: {
+            mediaMinutes: toQuotaItem('mediaMinutes', tier.monthlyMediaMinutes, usage.mediaSeconds / 60),
+            documents: toQuotaItem('documents', tier.monthlyDocuments, usage.documents),
+            storageBytes: toQuotaItem('storageBytes', tier.monthlyStorageBytes, usage.storageBytes),
+        },
+    };
+}
+
+/**
+ * 現在のユーザーの当月の利用状況を取得（ゲストは null）
+ * 取得に失敗した場合も null を返し、処理は止めない
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus | null> {
+    if (getOwnerType() !== 'user') {
+        return null;
+    }
+
+    const uid = getCurrentUserId();
+    try {
+        const [settings, profile] = await Promise.all([getAdminSettings(), getUserProfile(uid)]);
+        if (!profile) {
+            return null;
+        }
+        return toQuotaStatus(settings, profile.planTierId, profile.monthlyUsage);
+    } catch (error) {
+        quotaLogger.error('月間利用状況の取得に失敗', error, { uid });
+        return null;
+    }
+}
+
+/**
+ * ユーザープロファイルの変更を購読して当月の利用状況を通知する
+ */
+export function subscribeToQuotaStatus(
+    uid: string,
+    settings: AdminSettings,
+    callback: (status: QuotaStatus) => void,
+    onError?: (error: Error) => void
+): Unsubscribe {
+    return onSnapshot(
+        doc(db, 'users', uid),
+        (snapshot) => {
+            const data = snapshot.data();
+            callback(toQuotaStatus(settings, data?.planTierId, toMonthlyUsageMap(data?.monthlyUsage)));
+        },
+        (error) => {
+            quotaLogger.error('月間利用状況の購読に失敗', error, { uid });
+            if (onError) {
+                onError(error as Error);
+            }
+        }
+    );
+}
+
+/**
+ * 使い切っている項目、または今回の必要量に足りない項目を返す
+ */
+export function findQuotaShortfalls(status: QuotaStatus, required: Partial<Record<QuotaKind, number>>): QuotaItem[] {
+    return Object.values(status.items).filter(item =>
+        item.remaining <= 0 || item.remaining < (required[item.kind] ?? 0)
+    );
+}
+
+export function formatQuotaValue(kind: QuotaKind, value: number): string {
+    switch (kind) {
+        case 'mediaMinutes':
+            return `${Math.ceil(value)}分`;
+        case 'documents':
+            return `${value}件`;
+        case 'storageBytes':
+            return value >= 1024 * 1024 * 1024
+                ? `${(value / 1024 / 1024 / 1024).toFixed(1)}GB`
+                : `${(value / 1024 / 1024).toFixed(0)}MB`;
+    }
+}
+
+/**
+ * 「使用量 / 上限」の表示（上限 0 は無制限）
+ */
+export function formatQuotaItem(item: QuotaItem): string {
+    const limit = item.limit === 0 ? '無制限' : formatQuotaValue(item.kind, item.limit);
+    return `${formatQuotaValue(item.kind, item.used)} / ${limit}`;
+}
+
+/**
+ * 現在のユーザーの当月の利用量に加算（ゲストは記録しない）
+ */
+export async function recordCurrentUserUsage(delta: Partial<MonthlyUsage>): Promise<void> {
+    if (getOwnerType() !== 'user') {
+        return;
+    }
+    await recordMonthlyUsage(getCurrentUserId(), getUsageMonth(), delta);
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentReference, Timestamp, runTransaction } from 'firebase/firestore';
+import { normalizeAdminSettings } from './adminSettings';
+import { RATE_LIMIT_WINDOW_MS, RateLimitError, createWithRateLimit, getRateLimitFor, toRateLimitStatus } from './rateLimit';
+
+// 読み込み時に Firebase を初期化しないよう、接続とログイン状態を差し替える
+vi.mock('./firebase', () => ({ db: {}, auth: { currentUser: null } }));
+vi.mock('./auth', () => ({ getCurrentUserId: () => 'user-1', getOwnerType: () => 'user' }));
+vi.mock('./adminSettings', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('./adminSettings')>();
+    return { ...actual, getAdminSettings: async () => actual.normalizeAdminSettings(undefined) };
+});
+vi.mock('firebase/firestore', async (importOriginal) => ({
+    ...await importOriginal<typeof import('firebase/firestore')>(),
+    doc: (_db: unknown, ...path: string[]) => ({ path: path.join('/') }),
+    serverTimestamp: () => 'SERVER_TIMESTAMP',
+    runTransaction: vi.fn(),
+}));
+
+const NOW = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+const counterAt = (windowStartMs: number, count: number) => ({ windowStart: Timestamp.fromMillis(windowStartMs), count });
+
+describe('toRateLimitStatus', () => {
+    it('有効なウィンドウの使用数と、ウィンドウの終わりを返す', () => {
+        const status = toRateLimitStatus('documents', 50, counterAt(NOW - 10 * 60 * 1000, 20), NOW);
+
+        expect(status).toEqual({
+            kind: 'documents',
+            limit: 50,
+            used: 20,
+            remaining: 30,
+            resetAt: new Date(NOW - 10 * 60 * 1000 + RATE_LIMIT_WINDOW_MS),
+        });
+    });
+
+    it('期限切れのウィンドウは未使用として扱う', () => {
+        const status = toRateLimitStatus('documents', 50, counterAt(NOW - RATE_LIMIT_WINDOW_MS, 50), NOW);
+
+        expect(status).toMatchObject({ used: 0, remaining: 50, resetAt: null });
+    });
+
+    it('上限 0 は無制限、使用数が上限を超えていても残りは 0 にする', () => {
+        expect(toRateLimitStatus('prompts', 0, counterAt(NOW, 500), NOW).remaining).toBe(Infinity);
+        expect(toRateLimitStatus('prompts', 10, counterAt(NOW, 12), NOW).remaining).toBe(0);
+    });
+});
+
+describe('getRateLimitFor', () => {
+    it('ゲストとログインユーザーで別の上限を使う', () => {
+        const settings = {
+            ...normalizeAdminSettings(undefined),
+            rateLimit: { promptsPerHour: 1, documentsPerHour: 2, guestPromptsPerHour: 3, guestDocumentsPerHour: 4 },
+        };
+
+        expect(getRateLimitFor(settings, 'prompts', 'user')).toBe(1);
+        expect(getRateLimitFor(settings, 'documents', 'user')).toBe(2);
+        expect(getRateLimitFor(settings, 'prompts', 'guest')).toBe(3);
+        expect(getRateLimitFor(settings, 'documents', 'guest')).toBe(4);
+    });
+});
+
+describe('createWithRateLimit', () => {
+    const targetRef = { path: 'documents/doc-1' } as unknown as DocumentReference;
+    const transaction = { get: vi.fn(), set: vi.fn() };
+
+    const givenCounter = (counter?: ReturnType<typeof counterAt>) => {
+        transaction.get.mockResolvedValue({
+            exists: () => counter !== undefined,
+            data: () => ({ documents: counter }),
+        });
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW });
+        transaction.get.mockReset();
+        transaction.set.mockReset();
+        vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) =>
+            updateFunction(transaction as never)
+        );
+        return () => vi.useRealTimers();
+    });
+
+    it('ウィンドウがなければサーバー時刻で始め、カウンターと文書を一緒に書き込む', async () => {
+        givenCounter(undefined);
+
+        await createWithRateLimit('documents', targetRef, { title: '議事録' });
+
+        expect(transaction.set).toHaveBeenCalledWith(
+            { path: 'rateLimits/user-1' },
+            { documents: { windowStart: 'SERVER_TIMESTAMP', count: 1, lastConsumedAt: 'SERVER_TIMESTAMP' } },
+            { merge: true }
+        );
+        expect(transaction.set).toHaveBeenCalledWith(targetRef, { title: '議事録' });
+    });
+
+    it('有効なウィンドウがあれば開始時刻はそのままで加算する', async () => {
+        const counter = counterAt(NOW - 60 * 1000, 3);
+        givenCounter(counter);
+
+        await createWithRateLimit('documents', targetRef, { title: '議事録' });
+
+        expect(transaction.set).toHaveBeenCalledWith(
+            { path: 'rateLimits/user-1' },
+            { documents: { windowStart: counter.windowStart, count: 4, lastConsumedAt: 'SERVER_TIMESTAMP' } },
+            { merge: true }
+        );
+    });
+
+    it('上限に達している場合は何も書き込まずに RateLimitError を投げる', async () => {
+        givenCounter(counterAt(NOW - 60 * 1000, 50));
+
+        const error = await createWithRateLimit('documents', targetRef, {}).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toMatchObject({ kind: 'documents', limit: 50, resetAt: new Date(NOW - 60 * 1000 + RATE_LIMIT_WINDOW_MS) });
+        expect(transaction.set).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * 作成数のレート制限（1時間ごとの固定ウィンドウ）
+ * 作成者ごとのカウンター（rateLimits/{ownerId}）の更新と対象ドキュメントの作成を同じトランザクションで行い、
+ * firestore.rules でもカウンターが同時に正しく加算されていることを検証するため、クライアントを改変しても回避できない。
+ */
+
+import { db } from './firebase';
+import {
+    doc,
+    DocumentData,
+    DocumentReference,
+    getDoc,
+    runTransaction,
+    serverTimestamp,
+    Timestamp,
+} from 'firebase/firestore';
+import { AdminSettings, getAdminSettings } from './adminSettings';
+import { getCurrentUserId, getOwnerType } from './auth';
+import { createLogger } from './logger';
+
+const rateLimitLogger = createLogger('rateLimit');
+
+export type RateLimitKind = 'prompts' | 'documents';
+
+/** 1ウィンドウの長さ（firestore.rules の duration.value(1, 'h') と揃えること） */
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/** 同じカウンターへの同時書き込み（複数プロンプトの並列保存）で競合した場合の再試行回数 */
+const TRANSACTION_MAX_ATTEMPTS = 10;
+
+const RATE_LIMIT_KIND_LABELS: Record<RateLimitKind, string> = {
+    prompts: 'プロンプトの作成',
+    documents: '文書の生成',
+};
+
+interface RateLimitCounter {
+    windowStart: Timestamp;
+    count: number;
+    lastConsumedAt: Timestamp;
+}
+
+/** 使用状況の計算に使うカウンターの項目（Admin SDK の Timestamp でも計算できるように toMillis だけを使う） */
+export interface RateLimitWindow {
+    windowStart: { toMillis(): number };
+    count: number;
+}
+
+export interface RateLimitStatus {
+    kind: RateLimitKind;
+    /** 1時間あたりの上限（0 は無制限） */
+    limit: number;
+    used: number;
+    /** 残り件数（無制限の場合は Infinity） */
+    remaining: number;
+    /** 現在のウィンドウがリセットされる日時（ウィンドウが始まっていない場合は null） */
+    resetAt: Date | null;
+}
+
+export class RateLimitError extends Error {
+    readonly kind: RateLimitKind;
+    readonly limit: number;
+    readonly resetAt: Date;
+
+    constructor(kind: RateLimitKind, limit: number, resetAt: Date) {
+        super(`${RATE_LIMIT_KIND_LABELS[kind]}の上限（1時間あたり${limit}件）に達しました。${formatResetAt(resetAt)}にリセットされます。`);
+        this.name = 'RateLimitError';
+        this.kind = kind;
+        this.limit = limit;
+        this.resetAt = resetAt;
+    }
+}
+
+export function formatResetAt(resetAt: Date): string {
+    return new Intl.DateTimeFormat('ja-JP', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    }).format(resetAt);
+}
+
+/**
+ * 管理者設定から上限を取得（ゲストとログインユーザーで別）
+ */
+export function getRateLimitFor(settings: AdminSettings, kind: RateLimitKind, ownerType: 'guest' | 'user'): number {
+    const { rateLimit } = settings;
+    if (ownerType === 'guest') {
+        return kind === 'prompts' ? rateLimit.guestPromptsPerHour : rateLimit.guestDocumentsPerHour;
+    }
+    return kind === 'prompts' ? rateLimit.promptsPerHour : rateLimit.documentsPerHour;
+}
+
+function getCounterRef(ownerId: string) {
+    return doc(db, 'rateLimits', ownerId);
+}
+
+/**
+ * 現在のウィンドウの使用状況を計算（期限切れのウィンドウは未使用として扱う）
+ */
+export function toRateLimitStatus(kind: RateLimitKind, limit: number, counter: RateLimitWindow | undefined, now: number): RateLimitStatus {
+    const windowEnd = counter ? counter.windowStart.toMillis() + RATE_LIMIT_WINDOW_MS : 0;
+    const isActiveWindow = counter !== undefined && now < windowEnd;
+    const used = isActiveWindow ? counter.count : 0;
+
+    return {
+        kind,
+        limit,
+        used,
+        remaining: limit === 0 ? Infinity : Math.max(0, limit - used),
+        resetAt: isActiveWindow ? new Date(windowEnd) : null,
+    };
+}
+
+/**
+ * 現在のユーザー（ゲストは共有枠）の使用状況を取得
+ * 取得に失敗した場合は制限なしとして扱う（実際の作成時にはトランザクションとルールで検証される）
+ */
+export async function getRateLimitStatus(kind: RateLimitKind): Promise<RateLimitStatus> {
+    const ownerId = getCurrentUserId();
+    const ownerType = getOwnerType();
+
+    try {
+        const [settings, counterSnap] = await Promise.all([
+            getAdminSettings(),
+            getDoc(getCounterRef(ownerId)),
+        ]);
+        const limit = getRateLimitFor(settings, kind, ownerType);
+        const counter = counterSnap.exists() ? (counterSnap.data()[kind] as RateLimitCounter | undefined) : undefined;
+        return toRateLimitStatus(kind, limit, counter, Date.now());
+    } catch (error) {
+        rateLimitLogger.error('レート制限の状況取得に失敗', error, { kind, ownerType });
+        return { kind, limit: 0, used: 0, remaining: Infinity, resetAt: null };
+    }
+}
+
+/**
+ * レート制限の枠を1件消費してドキュメントを作成する
+ * 上限に達している場合は何も書き込まずに RateLimitError を投げる
+ */
+export async function createWithRateLimit(
+    kind: RateLimitKind,
+    targetRef: DocumentReference,
+    data: DocumentData
+): Promise<void> {
+    const ownerId = getCurrentUserId();
+    const ownerType = getOwnerType();
+    const settings = await getAdminSettings();
+    const limit = getRateLimitFor(settings, kind, ownerType);
+    const counterRef = getCounterRef(ownerId);
+
+    await runTransaction(db, async (transaction) => {
+        const counterSnap = await transaction.get(counterRef);
+        const counter = counterSnap.exists() ? (counterSnap.data()[kind] as RateLimitCounter | undefined) : undefined;
+        const status = toRateLimitStatus(kind, limit, counter, Date.now());
+
+        if (status.remaining < 1) {
+            throw new RateLimitError(kind, limit, status.resetAt ?? new Date(Date.now() + RATE_LIMIT_WINDOW_MS));
+        }
+
+        // 有効なウィンドウがあれば加算、なければサーバー時刻で新しいウィンドウを開始する
+        transaction.set(counterRef, {
+            [kind]: {
+                windowStart: status.resetAt ? counter!.windowStart : serverTimestamp(),
+                count: status.used + 1,
+                lastConsumedAt: serverTimestamp(),
+            },
+        }, { merge: true });
+        transaction.set(targetRef, data);
+    }, { maxAttempts: TRANSACTION_MAX_ATTEMPTS });
+}
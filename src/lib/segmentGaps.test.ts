@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentStatus } from '@/types/processing';
+import { buildLostRangesInstruction, formatLostTimeRanges, getLostTimeRanges, withLostRangesNote } from './segmentGaps';
+
+const createSegment = (segmentIndex: number, startTime: number, endTime: number, status: SegmentStatus['status']): SegmentStatus => ({
+    segmentIndex,
+    startTime,
+    endTime,
+    status,
+    progress: status === 'completed' ? 100 : 0,
+});
+
+describe('getLostTimeRanges', () => {
+    it('スキップした区間だけを開始位置の順に返し、隣り合う区間は1つにまとめる', () => {
+        const segments = [
+            createSegment(4, 120, 150, 'skipped'),
+            createSegment(0, 0, 30, 'completed'),
+            createSegment(2, 60, 90, 'skipped'),
+            createSegment(1, 30, 60, 'skipped'),
+            createSegment(3, 90, 120, 'completed'),
+        ];
+
+        expect(getLostTimeRanges(segments)).toEqual([
+            { startTime: 30, endTime: 90 },
+            { startTime: 120, endTime: 150 },
+        ]);
+    });
+
+    it('失敗しただけの区間は欠落として扱わない', () => {
+        expect(getLostTimeRanges([createSegment(0, 0, 30, 'error')])).toEqual([]);
+    });
+});
+
+describe('欠落した範囲の表示', () => {
+    const ranges = [{ startTime: 30, endTime: 90 }, { startTime: 3600, endTime: 3630 }];
+
+    it('範囲を時刻で並べる', () => {
+        expect(formatLostTimeRanges(ranges)).toBe('00:00:30〜00:01:30、01:00:00〜01:00:30');
+    });
+
+    it('欠落がなければ指示も注記も付けない', () => {
+        expect(buildLostRangesInstruction([])).toBeUndefined();
+        expect(withLostRangesNote('本文', [])).toBe('本文');
+    });
+
+    it('欠落があれば指示に範囲を含め、文書の先頭に注記を付ける', () => {
+        expect(buildLostRangesInstruction(ranges)).toContain(formatLostTimeRanges(ranges));
+        expect(withLostRangesNote('本文', ranges)).toBe(
+            `> ⚠️ 次の範囲は音声を変換できなかったため、この文書に含まれていません: ${formatLostTimeRanges(ranges)}\n\n本文`
+        );
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * 変換をスキップした区間（文書に含まれない範囲）
+ * 変換に失敗した区間を飛ばして続行した場合に、失われた範囲を文書生成の指示・保存する文書・処理状況に示す。
+ */
+
+import { SegmentStatus } from '@/types/processing';
+import { formatSeconds } from '@/utils/timeFormat';
+
+/** 元メディア上の範囲（秒） */
+export interface LostTimeRange {
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * スキップした区間の範囲（隣り合う区間は1つにまとめる）
+ */
+export const getLostTimeRanges = (segments: SegmentStatus[]): LostTimeRange[] => {
+    const ranges: LostTimeRange[] = [];
+    [...segments]
+        .filter(segment => segment.status === 'skipped')
+        .sort((a, b) => a.startTime - b.startTime)
+        .forEach(segment => {
+            const last = ranges[ranges.length - 1];
+            if (last && segment.startTime <= last.endTime) {
+                last.endTime = Math.max(last.endTime, segment.endTime);
+            } else {
+                ranges.push({ startTime: segment.startTime, endTime: segment.endTime });
+            }
+        });
+    return ranges;
+};
+
+export const formatLostTimeRanges = (ranges: LostTimeRange[]): string =>
+    ranges.map(range => `${formatSeconds(range.startTime)}〜${formatSeconds(range.endTime)}`).join('、');
+
+/**
+ * 文書生成の指示に添える説明（欠落した範囲がなければ undefined）
+ * 欠落した範囲は前後を詰めて結合しているため、その内容を推測で補わないよう伝える
+ */
+export const buildLostRangesInstruction = (ranges: LostTimeRange[]): string | undefined => {
+    if (ranges.length === 0) {
+        return undefined;
+    }
+    return `録音の次の範囲は音声を変換できなかったため、添付の内容に含まれていません（前後を詰めています）: ${formatLostTimeRanges(ranges)}\n`
+        + 'この範囲の内容を推測で補わず、必要に応じて欠落があることを文書中に示してください。';
+};
+
+/**
+ * 保存する文書の先頭に、欠落した範囲の注記を付ける
+ */
+export const withLostRangesNote = (text: string, ranges: LostTimeRange[]): string => {
+    if (ranges.length === 0) {
+        return text;
+    }
+    return `> ⚠️ 次の範囲は音声を変換できなかったため、この文書に含まれていません: ${formatLostTimeRanges(ranges)}\n\n${text}`;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { VIDEO_SEGMENT_CONFIG, getMaxSegmentCount, planSegments } from './segmentPlanning';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+describe('planSegments', () => {
+    it('区間長ごとに区切り、最後の区間はメディアの終わりで終える', () => {
+        const plan = planSegments(100, 10);
+
+        expect(plan.totalDuration).toBe(100);
+        expect(plan.segmentDuration).toBe(VIDEO_SEGMENT_CONFIG.PREFERRED_SEGMENT_DURATION);
+        expect(plan.segments).toEqual([
+            { segmentIndex: 0, startTime: 0, endTime: 30, endBoundary: 'fixed' },
+            { segmentIndex: 1, startTime: 30, endTime: 60, endBoundary: 'fixed' },
+            { segmentIndex: 2, startTime: 60, endTime: 90, endBoundary: 'fixed' },
+            { segmentIndex: 3, startTime: 90, endTime: 100, endBoundary: 'end' },
+        ]);
+    });
+
+    it('区間数が上限を超える場合は区間を長くする', () => {
+        const plan = planSegments(600, 5);
+
+        expect(plan.segmentDuration).toBe(120);
+        expect(plan.segments).toHaveLength(5);
+        expect(plan.segments[4]).toMatchObject({ startTime: 480, endTime: 600, endBoundary: 'end' });
+    });
+
+    it('区間長に最も近い無音の中央で区切り、範囲内に無音がなければ区間長で区切る', () => {
+        const plan = planSegments(100, 10, [{ start: 27, end: 29 }, { start: 40, end: 41 }], 30);
+
+        expect(plan.segments).toEqual([
+            { segmentIndex: 0, startTime: 0, endTime: 28, endBoundary: 'silence' },
+            { segmentIndex: 1, startTime: 28, endTime: 58, endBoundary: 'fixed' },
+            { segmentIndex: 2, startTime: 58, endTime: 100, endBoundary: 'end' },
+        ]);
+    });
+
+    it('無音位置で区切ると区間数が上限を超える場合は区間長ごとに区切る', () => {
+        const silences = [{ start: 19, end: 21 }, { start: 39, end: 41 }, { start: 59, end: 61 }];
+        const plan = planSegments(90, 3, silences, 30);
+
+        expect(plan.segments.map(segment => segment.endTime)).toEqual([30, 60, 90]);
+        expect(plan.segments.every(segment => segment.endBoundary !== 'silence')).toBe(true);
+    });
+
+    it('範囲を指定した場合は範囲だけを区切り、位置は元メディア上の位置にする', () => {
+        const plan = planSegments(200, 10, [], 30, { startTime: 50, endTime: 110 });
+
+        expect(plan.totalDuration).toBe(60);
+        expect(plan.segments).toEqual([
+            { segmentIndex: 0, startTime: 50, endTime: 80, endBoundary: 'fixed' },
+            { segmentIndex: 1, startTime: 80, endTime: 110, endBoundary: 'end' },
+        ]);
+    });
+
+    it('範囲外の無音は区切りに使わない', () => {
+        const plan = planSegments(200, 10, [{ start: 10, end: 12 }], 30, { startTime: 50, endTime: 110 });
+
+        expect(plan.segments.every(segment => segment.endBoundary !== 'silence')).toBe(true);
+    });
+});
+
+describe('getMaxSegmentCount', () => {
+    it('作業用のメモリと入力ファイルを除いた空きから区間数を求める', () => {
+        expect(getMaxSegmentCount(0, 1, 2 * GB)).toBe(Math.floor((2 * GB - 256 * MB) / (15 * MB)));
+        expect(getMaxSegmentCount(512 * MB, 1, 2 * GB)).toBe(Math.floor((1536 * MB - 256 * MB) / (15 * MB)));
+    });
+
+    it('同時に変換する数でメモリを分け合う', () => {
+        expect(getMaxSegmentCount(0, 2, 2 * GB)).toBe(Math.floor((1 * GB - 256 * MB) / (15 * MB)));
+    });
+
+    it('空きがなくても1区間は処理する', () => {
+        expect(getMaxSegmentCount(4 * GB, 1, 2 * GB)).toBe(1);
+    });
+});
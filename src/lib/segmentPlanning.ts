@@ -0,0 +1,226 @@
+import { createLogger } from './logger';
+
+/**
+ * 動画区間処理の設定
+ * メモリ制限対策: 区間数が多いとFFmpeg WASMメモリが累積的に不足するため、
+ * 空きメモリから最大区間数を求め、必要に応じて区間長を自動調整します。
+ */
+export const VIDEO_SEGMENT_CONFIG = {
+    /** 推奨される1区間の長さ（秒）*/
+    PREFERRED_SEGMENT_DURATION: 30,
+
+    /** FFmpeg コアのヒープ上限（@ffmpeg/core 0.12 は 2GB） */
+    WASM_HEAP_LIMIT_BYTES: 2 * 1024 * 1024 * 1024,
+
+    /** デコーダーのバッファなど、変換処理そのもののために残しておくメモリ */
+    WORKING_RESERVE_BYTES: 256 * 1024 * 1024,
+
+    /** 各区間の処理で累積するメモリの目安 */
+    BYTES_PER_SEGMENT: 15 * 1024 * 1024,
+
+    /** 端末のメモリのうち変換に使ってよい割合（navigator.deviceMemory が取れる場合のみ） */
+    DEVICE_MEMORY_RATIO: 0.5,
+
+    /** 無音位置で区切る場合の区間長の下限・上限（区間長に対する割合） */
+    MIN_SEGMENT_DURATION_RATIO: 0.5,
+    MAX_SEGMENT_DURATION_RATIO: 1.5,
+
+    /** 無音とみなす音量（dB）と長さ（秒）。FFmpeg の silencedetect に渡す */
+    SILENCE_NOISE_DB: -30,
+    SILENCE_MIN_DURATION: 0.3,
+
+    /** 無音区間の解析を分ける長さ（秒）。分けた範囲ごとに中止の要求を確認する */
+    SILENCE_ANALYSIS_CHUNK_DURATION: 10 * 60,
+} as const;
+
+/**
+ * 区間の終わりをどこで区切ったか
+ * - silence: 無音（話の切れ目）の位置
+ * - fixed: 範囲内に無音がなかったため区間長で区切った
+ * - end: メディアの終わり
+ */
+export type SegmentBoundary = 'silence' | 'fixed' | 'end';
+
+/** 変換する区間の範囲（元メディア上の位置、秒） */
+export interface SegmentRange {
+    segmentIndex: number;
+    startTime: number;
+    endTime: number;
+    endBoundary?: SegmentBoundary;
+}
+
+/** silencedetect で検出した無音区間（秒） */
+export interface SilenceInterval {
+    start: number;
+    end: number;
+}
+
+export interface SegmentPlan {
+    /** 処理する長さ（秒、範囲を指定した場合はその長さ） */
+    totalDuration: number;
+    segmentDuration: number;
+    segments: SegmentRange[];
+}
+
+const segmentPlanningLogger = createLogger('segmentPlanning');
+
+/**
+ * 変換に使えるメモリ（WASM ヒープ上限と、分かる場合は端末のメモリから小さい方）
+ */
+export function getConversionMemoryBudgetBytes(): number {
+    const { WASM_HEAP_LIMIT_BYTES, DEVICE_MEMORY_RATIO } = VIDEO_SEGMENT_CONFIG;
+    // navigator.deviceMemory は Chromium 系のみ（GB 単位、8 で頭打ち）
+    const deviceMemoryGb = (globalThis.navigator as (Navigator & { deviceMemory?: number }) | undefined)?.deviceMemory;
+    if (!deviceMemoryGb) {
+        return WASM_HEAP_LIMIT_BYTES;
+    }
+    return Math.min(WASM_HEAP_LIMIT_BYTES, deviceMemoryGb * 1024 * 1024 * 1024 * DEVICE_MEMORY_RATIO);
+}
+
+/**
+ * 空きメモリから最大区間数を計算
+ * 複数のファイルを同時に変換する場合は、端末のメモリを変換の数で分け合う
+ * @param residentInputBytes WASM メモリ上に置いた入力ファイルのサイズ（WORKERFS でマウントした場合は 0）
+ * @param conversionConcurrency 同時に変換するファイル数
+ */
+export function getMaxSegmentCount(
+    residentInputBytes: number,
+    conversionConcurrency: number = 1,
+    memoryBudgetBytes: number = getConversionMemoryBudgetBytes()
+): number {
+    const { WORKING_RESERVE_BYTES, BYTES_PER_SEGMENT } = VIDEO_SEGMENT_CONFIG;
+    const budgetPerConversion = memoryBudgetBytes / Math.max(1, conversionConcurrency);
+    const headroomBytes = budgetPerConversion - WORKING_RESERVE_BYTES - residentInputBytes;
+    return Math.max(1, Math.floor(headroomBytes / BYTES_PER_SEGMENT));
+}
+
+/** 区間の位置は 0.01 秒単位にそろえる */
+const roundTime = (seconds: number): number => Math.round(seconds * 100) / 100;
+
+/**
+ * 区間長ごとに区切る
+ */
+function planFixedSegments(totalDuration: number, segmentDuration: number): SegmentRange[] {
+    const segments: SegmentRange[] = [];
+    let currentTime = 0;
+    while (currentTime < totalDuration) {
+        const endTime = Math.min(currentTime + segmentDuration, totalDuration);
+        segments.push({
+            segmentIndex: segments.length,
+            startTime: currentTime,
+            endTime,
+            endBoundary: endTime === totalDuration ? 'end' : 'fixed',
+        });
+        currentTime = endTime;
+    }
+    return segments;
+}
+
+/**
+ * 無音の中央で区切る（下限〜上限の範囲内で、区間長に最も近い無音を選ぶ）
+ * 範囲内に無音がない場合は区間長で区切る
+ */
+function planSilenceAlignedSegments(
+    totalDuration: number,
+    segmentDuration: number,
+    silences: SilenceInterval[]
+): SegmentRange[] {
+    const { MIN_SEGMENT_DURATION_RATIO, MAX_SEGMENT_DURATION_RATIO } = VIDEO_SEGMENT_CONFIG;
+    const minDuration = segmentDuration * MIN_SEGMENT_DURATION_RATIO;
+    const maxDuration = segmentDuration * MAX_SEGMENT_DURATION_RATIO;
+    const cutPoints = silences.map(silence => roundTime((silence.start + silence.end) / 2));
+
+    const segments: SegmentRange[] = [];
+    let currentTime = 0;
+    while (currentTime < totalDuration) {
+        // 残りが上限以内なら最後の区間にする
+        if (totalDuration - currentTime <= maxDuration) {
+            segments.push({ segmentIndex: segments.length, startTime: currentTime, endTime: totalDuration, endBoundary: 'end' });
+            break;
+        }
+
+        const targetTime = currentTime + segmentDuration;
+        const candidates = cutPoints.filter(point =>
+            point >= currentTime + minDuration && point <= currentTime + maxDuration
+        );
+        const endTime = candidates.length > 0
+            ? candidates.reduce((best, point) => Math.abs(point - targetTime) < Math.abs(best - targetTime) ? point : best)
+            : targetTime;
+
+        segments.push({
+            segmentIndex: segments.length,
+            startTime: currentTime,
+            endTime,
+            endBoundary: candidates.length > 0 ? 'silence' : 'fixed',
+        });
+        currentTime = endTime;
+    }
+    return segments;
+}
+
+/**
+ * 動画の長さから区間を作成（区間数が上限を超える場合は区間を自動延長）
+ * 無音区間を渡した場合は、区切りを無音の位置に合わせる
+ * preferredSegmentDuration: 区間の基準の長さ（変換設定の区間長）
+ * trimRange: 処理する範囲（指定した場合はその範囲だけを区切る。区間の位置は元メディア上の位置のまま）
+ */
+export function planSegments(
+    mediaDuration: number,
+    maxSegmentCount: number,
+    silences: SilenceInterval[] = [],
+    preferredSegmentDuration: number = VIDEO_SEGMENT_CONFIG.PREFERRED_SEGMENT_DURATION,
+    trimRange?: { startTime: number; endTime: number }
+): SegmentPlan {
+    // 範囲の先頭を 0 として区切り、最後に元メディア上の位置へ戻す
+    const rangeStart = trimRange ? Math.max(0, Math.min(trimRange.startTime, mediaDuration)) : 0;
+    const rangeEnd = trimRange ? Math.max(rangeStart, Math.min(trimRange.endTime, mediaDuration)) : mediaDuration;
+    const totalDuration = roundTime(rangeEnd - rangeStart);
+    const rangeSilences = silences
+        .map(silence => ({ start: silence.start - rangeStart, end: silence.end - rangeStart }))
+        .filter(silence => silence.end > 0 && silence.start < totalDuration);
+
+    const estimatedSegmentCount = Math.ceil(totalDuration / preferredSegmentDuration);
+
+    let segmentDuration: number;
+    if (estimatedSegmentCount > maxSegmentCount) {
+        // 区間数が上限を超える場合、区間を長くして区間数を削減
+        segmentDuration = Math.ceil(totalDuration / maxSegmentCount);
+        segmentPlanningLogger.info(
+            `区間数最適化: ${estimatedSegmentCount}区間 → ${maxSegmentCount}区間以内 ` +
+            `(区間長: ${preferredSegmentDuration}秒 → ${segmentDuration}秒)`
+        );
+    } else {
+        // 上限以内なら推奨値をそのまま使用
+        segmentDuration = preferredSegmentDuration;
+    }
+
+    let segments = planFixedSegments(totalDuration, segmentDuration);
+    if (rangeSilences.length > 0) {
+        const silenceAlignedSegments = planSilenceAlignedSegments(totalDuration, segmentDuration, rangeSilences);
+        // 短い区間が続いて上限を超える場合は、区間長ごとの区切りのままにする
+        if (silenceAlignedSegments.length <= maxSegmentCount) {
+            segments = silenceAlignedSegments;
+        } else {
+            segmentPlanningLogger.warn('無音位置で区切ると区間数が上限を超えるため、区間長ごとに区切ります', {
+                segmentCount: silenceAlignedSegments.length,
+                maxSegmentCount,
+            });
+        }
+    }
+
+    if (rangeStart > 0) {
+        segments = segments.map(segment => ({
+            ...segment,
+            startTime: roundTime(segment.startTime + rangeStart),
+            endTime: roundTime(segment.endTime + rangeStart),
+        }));
+    }
+
+    segmentPlanningLogger.info(
+        `区間生成完了: ${segments.length}区間 (動画長: ${totalDuration}秒、区間長: ${segmentDuration}秒、` +
+        `無音位置での区切り: ${segments.filter(segment => segment.endBoundary === 'silence').length}箇所)`,
+        trimRange ? { rangeStart, rangeEnd } : undefined
+    );
+
+    return { totalDuration, segmentDuration, segments };
+}
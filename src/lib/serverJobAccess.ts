@@ -0,0 +1,85 @@
+/**
+ * サーバー処理の API の認証と、ジョブを登録する前の上限の消費
+ * 所有者はブラウザが送る Firebase の ID トークンを firebase-admin で検証して決め、リクエストの内容やヘッダーは信用しない。
+ * サーバー処理はログインユーザーのみ使える（ゲストは全員で1つの枠を共有するため、大きなアップロードを受け付けない）。
+ * レート制限と月間上限は、ブラウザの保存と同じカウンターを登録前にサーバーで加算する（API を直接呼び出しても回避できない）。
+ * Node.js の API を使うため、API ルートからのみ読み込むこと。
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminFirestore } from './firebaseAdmin';
+import { AdminSettings, normalizeAdminSettings } from './adminSettings';
+import { RATE_LIMIT_WINDOW_MS, RateLimitError, RateLimitWindow, getRateLimitFor, toRateLimitStatus } from './rateLimit';
+import { formatQuotaItem, getUsageMonth, toQuotaStatus } from './quota';
+import { toMonthlyUsageMap } from './userManagement';
+import { createLogger } from './logger';
+
+const serverJobAccessLogger = createLogger('serverJobAccess');
+
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * リクエストの所有者（ログインユーザーの UID）を決める（ID トークンがない、または不正な場合は null）
+ */
+export async function resolveRequestOwner(request: Request): Promise<string | null> {
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith(BEARER_PREFIX)) {
+        return null;
+    }
+    try {
+        const decodedToken = await getAdminAuth().verifyIdToken(authorization.slice(BEARER_PREFIX.length));
+        return decodedToken.uid;
+    } catch (error) {
+        serverJobAccessLogger.warn('ID トークンを検証できません', { error: String(error) });
+        return null;
+    }
+}
+
+/**
+ * 文書を promptCount 件生成するジョブの分だけ、1時間あたりの文書数と当月の文書数を消費する
+ * 上限を超える場合は何も書き込まずに理由を返す。2つのカウンターは同じトランザクションで加算する。
+ * 処理時間はブラウザがジョブの登録後に計上する
+ */
+export async function consumeServerJobLimits(ownerId: string, promptCount: number): Promise<string | null> {
+    const firestore = getAdminFirestore();
+    const settingsSnap = await firestore.doc('adminSettings/config').get();
+    const settings = normalizeAdminSettings(settingsSnap.data() as AdminSettings | undefined);
+    const limit = getRateLimitFor(settings, 'documents', 'user');
+    const counterRef = firestore.doc(`rateLimits/${ownerId}`);
+    const userRef = firestore.doc(`users/${ownerId}`);
+    const month = getUsageMonth();
+
+    return firestore.runTransaction(async (transaction) => {
+        const [counterSnap, userSnap] = await transaction.getAll(counterRef, userRef);
+        if (!userSnap.exists) {
+            return 'ユーザー情報が見つからないため登録できません。ログインし直してください';
+        }
+
+        const now = Date.now();
+        const counter = counterSnap.data()?.documents as RateLimitWindow | undefined;
+        const rateLimitStatus = toRateLimitStatus('documents', limit, counter, now);
+        if (rateLimitStatus.remaining < promptCount) {
+            return new RateLimitError('documents', limit, rateLimitStatus.resetAt ?? new Date(now + RATE_LIMIT_WINDOW_MS)).message;
+        }
+
+        const userData = userSnap.data();
+        const quotaStatus = toQuotaStatus(settings, userData?.planTierId, toMonthlyUsageMap(userData?.monthlyUsage), month);
+        const documents = quotaStatus.items.documents;
+        if (documents.remaining < promptCount) {
+            return `今月のプラン（${quotaStatus.tier.name}）の文書生成の上限に達するため登録できません（${formatQuotaItem(documents)}、今回 ${promptCount}件）`;
+        }
+
+        // 有効なウィンドウがあれば加算、なければサーバー時刻で新しいウィンドウを開始する（createWithRateLimit と同じ）
+        transaction.set(counterRef, {
+            documents: {
+                windowStart: rateLimitStatus.resetAt ? counter!.windowStart : FieldValue.serverTimestamp(),
+                count: rateLimitStatus.used + promptCount,
+                lastConsumedAt: FieldValue.serverTimestamp(),
+            },
+        }, { merge: true });
+        transaction.set(userRef, {
+            monthlyUsage: { [month]: { documents: FieldValue.increment(promptCount) } },
+        }, { merge: true });
+        return null;
+    });
+}
@@ -0,0 +1,95 @@
+/**
+ * サーバー処理で生成した文書の Firestore への保存（firebase-admin）
+ * レート制限と月間上限はジョブの登録時に消費済みのため、ブラウザの保存（saveTranscription）のようにカウンターを加算しない。
+ * 文書・ユーザーの統計・監査ログは saveTranscription と同じ形で書き込み、文書の画面では区別なく扱える。
+ * Node.js の API を使うため、API ルートからのみ読み込むこと。
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminFirestore } from './firebaseAdmin';
+import { AdminSettings, normalizeAdminSettings } from './adminSettings';
+import { estimateCostUsd } from './tokenUsage';
+import { getEffectiveEncoding } from '@/constants/conversionSettings';
+import { ServerJob, ServerJobDocument } from '@/types/serverJob';
+import { TokenUsage } from '@/types/usage';
+
+// Firestore の ALREADY_EXISTS（同じ文書を保存済み）
+const ALREADY_EXISTS_CODE = 6;
+
+function toTokenUsageIncrement(usage: TokenUsage) {
+    const delta = {
+        promptTokens: FieldValue.increment(usage.promptTokens),
+        audioPromptTokens: FieldValue.increment(usage.audioPromptTokens),
+        candidatesTokens: FieldValue.increment(usage.candidatesTokens),
+        thoughtsTokens: FieldValue.increment(usage.thoughtsTokens),
+        totalTokens: FieldValue.increment(usage.totalTokens),
+        generationCount: FieldValue.increment(1),
+        estimatedCostUsd: FieldValue.increment(estimateCostUsd(usage)),
+    };
+    return { total: delta, byModel: { [usage.model]: delta } };
+}
+
+/**
+ * ジョブで生成した文書を保存し、文書 ID を返す
+ * 文書 ID はジョブとプロンプトから決めるため、受け取りの記録の前に再送されても二重に保存しない
+ */
+export async function saveServerJobDocument(job: ServerJob, document: ServerJobDocument): Promise<string> {
+    const firestore = getAdminFirestore();
+    const { request } = job;
+    const promptIndex = request.prompts.findIndex(prompt => prompt.id === document.promptId);
+    const docRef = firestore.doc(`transcriptions/${job.id}-${promptIndex}`);
+
+    const settingsSnap = await firestore.doc('adminSettings/config').get();
+    const { maxDocumentSize } = normalizeAdminSettings(settingsSnap.data() as AdminSettings | undefined);
+    const size = Buffer.byteLength(document.text);
+    if (size > maxDocumentSize) {
+        throw new Error(
+            `文書のサイズが上限を超えています。（現在: ${(size / 1024).toFixed(2)}KB / 上限: ${(maxDocumentSize / 1024).toFixed(2)}KB）`
+        );
+    }
+
+    const { bitrate, sampleRate } = getEffectiveEncoding(request.settings);
+    const batch = firestore.batch();
+    batch.create(docRef, {
+        title: request.fileName,
+        fileName: request.fileName,
+        originalFileType: request.mimeType.startsWith('video/') ? 'video' : 'audio',
+        transcription: document.text,
+        promptName: document.promptName,
+        bitrate,
+        sampleRate,
+        ownerType: 'user',
+        ownerId: request.ownerId,
+        createdBy: request.ownerId,
+        createdAt: FieldValue.serverTimestamp(),
+        conversionSettings: request.settings,
+        ...(document.usage && { usage: { ...document.usage, estimatedCostUsd: estimateCostUsd(document.usage) } }),
+        ...(document.structuredOutput && { outputSchema: document.structuredOutput.schema, structuredData: document.structuredOutput.data }),
+        ...(request.mediaInfo && { mediaInfo: request.mediaInfo }),
+        ...(request.trimRange && { trimRange: request.trimRange }),
+    });
+
+    // ユーザー統計とトークン使用量（updateUserStats・recordUserTokenUsage と同じ項目）
+    batch.set(firestore.doc(`users/${request.ownerId}`), {
+        documentCount: FieldValue.increment(1),
+        ...(document.usage && { tokenUsage: toTokenUsageIncrement(document.usage) }),
+    }, { merge: true });
+
+    batch.create(firestore.collection('auditLogs').doc(), {
+        userId: request.ownerId,
+        action: 'document_create',
+        resourceType: 'document',
+        resourceId: docRef.id,
+        details: { fileName: request.fileName, promptName: document.promptName, ownerType: 'user' },
+        timestamp: FieldValue.serverTimestamp(),
+    });
+
+    try {
+        await batch.commit();
+    } catch (error) {
+        if ((error as { code?: unknown }).code !== ALREADY_EXISTS_CODE) {
+            throw error;
+        }
+    }
+    return docRef.id;
+}
@@ -0,0 +1,328 @@
+/**
+ * サーバー処理のジョブキュー（ファイルシステム上、開発用）
+ * ジョブごとにディレクトリを作り、登録内容と進捗（job.json）・アップロードしたメディア（input）を置く。
+ * job.json は Worker だけが書き換え、API ルートは中止の要求・文書の受け取りを別のファイルで記録するため、同時に書き込んでも更新が失われない。
+ * Worker の取得はロック用ディレクトリの作成（mkdir は既にあれば失敗する）で排他し、
+ * 停止した Worker の取得の取り消しはロック用ディレクトリの rename（1つの Worker だけが成功する）で排他する。
+ * Node.js の API を使うため、API ルートと Worker（scripts/server-worker.ts）からのみ読み込むこと。
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { ServerJob, ServerJobPrompt, ServerJobRequest } from '@/types/serverJob';
+import { isServerJobFinished, SERVER_PROCESSING_CONFIG } from '@/constants/serverProcessing';
+import { normalizeConversionSettings } from '@/constants/conversionSettings';
+import { AUDIO_CHANNEL_MODE_OPTIONS, AudioTrackSelection } from '@/constants/audioTrackSelection';
+import { isTranscriptionProviderId } from '@/constants/transcriptionProviders';
+import { OutputSchema } from '@/types/structuredOutput';
+import { MediaProbeResult } from '@/types/mediaProbe';
+import { validateOutputSchema } from './structuredOutput';
+import { createLogger } from './logger';
+
+const serverJobQueueLogger = createLogger('serverJobQueue');
+
+/** ジョブを置くディレクトリ（SERVER_JOB_QUEUE_DIR で変更できる） */
+const QUEUE_ROOT = process.env.SERVER_JOB_QUEUE_DIR || path.join(process.cwd(), '.server-jobs');
+
+const JOB_FILE = 'job.json';
+const INPUT_FILE = 'input';
+const CLAIM_DIR = 'claim';
+const CANCEL_FILE = 'cancel-requested';
+const ACK_PREFIX = 'ack-';
+
+// パスに使うため、randomUUID で作った ID 以外は受け付けない
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const getJobDir = (jobId: string): string => {
+    if (!JOB_ID_PATTERN.test(jobId)) {
+        throw new Error(`不正なジョブIDです: ${jobId}`);
+    }
+    return path.join(QUEUE_ROOT, jobId);
+};
+
+export const getServerJobInputPath = (jobId: string): string => path.join(getJobDir(jobId), INPUT_FILE);
+
+/** Worker が変換後の音声などの一時ファイルを置くディレクトリ */
+export const getServerJobWorkDir = (jobId: string): string => getJobDir(jobId);
+
+const getAckFileName = (promptId: string) => `${ACK_PREFIX}${encodeURIComponent(promptId)}`;
+
+// 書きかけの job.json を読まないよう、一時ファイルに書いてから置き換える
+const writeJobFile = async (job: ServerJob): Promise<void> => {
+    const jobDir = getJobDir(job.id);
+    const tempPath = path.join(jobDir, `${JOB_FILE}.${randomUUID()}.tmp`);
+    await fs.writeFile(tempPath, JSON.stringify(job));
+    await fs.rename(tempPath, path.join(jobDir, JOB_FILE));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+function parsePrompt(value: unknown, index: number): ServerJobPrompt {
+    if (!isRecord(value) || !isNonEmptyString(value.id) || !isNonEmptyString(value.name)
+        || typeof value.content !== 'string' || typeof value.model !== 'string' || !isTranscriptionProviderId(value.provider)) {
+        throw new Error(`prompts[${index}] の形式が正しくありません`);
+    }
+    if (value.outputSchema !== undefined) {
+        const schemaErrors = validateOutputSchema(value.outputSchema);
+        if (schemaErrors.length > 0) {
+            throw new Error(`prompts[${index}].outputSchema: ${schemaErrors[0]}`);
+        }
+    }
+    return {
+        id: value.id,
+        name: value.name,
+        content: value.content,
+        model: value.model,
+        provider: value.provider,
+        ...(value.outputSchema !== undefined && { outputSchema: value.outputSchema as OutputSchema }),
+    };
+}
+
+// FFmpeg の引数に使うため、ストリーム番号は整数・チャンネルは選択肢の値に限る
+function parseAudioTrackSelection(value: unknown): AudioTrackSelection | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!isRecord(value) || !Array.isArray(value.streamIndices)
+        || !value.streamIndices.every(index => Number.isInteger(index) && index >= 0)
+        || !AUDIO_CHANNEL_MODE_OPTIONS.some(option => option.value === value.channelMode)) {
+        throw new Error('audioTrackSelection の形式が正しくありません');
+    }
+    return value as unknown as AudioTrackSelection;
+}
+
+/**
+ * API ルートで受け取ったジョブの登録内容を検証する（不正な場合は理由を含むエラーを投げる）
+ * @param ownerId ID トークンから決めた所有者（登録内容に含まれる値は使わない）
+ */
+export function parseServerJobRequest(value: unknown, ownerId: string): ServerJobRequest {
+    if (!isRecord(value) || !isNonEmptyString(value.fileName) || typeof value.mimeType !== 'string') {
+        throw new Error('fileName・mimeType を指定してください');
+    }
+    if (!Array.isArray(value.prompts) || value.prompts.length === 0) {
+        throw new Error('プロンプトを1つ以上指定してください');
+    }
+    const trimRange = value.trimRange;
+    if (trimRange !== undefined && (!isRecord(trimRange) || typeof trimRange.startTime !== 'number'
+        || typeof trimRange.endTime !== 'number' || trimRange.startTime < 0 || trimRange.endTime <= trimRange.startTime)) {
+        throw new Error('trimRange の形式が正しくありません');
+    }
+
+    const audioTrackSelection = parseAudioTrackSelection(value.audioTrackSelection);
+    return {
+        ownerId,
+        fileName: value.fileName,
+        mimeType: value.mimeType,
+        prompts: value.prompts.map(parsePrompt),
+        settings: normalizeConversionSettings(isRecord(value.settings) ? value.settings : undefined),
+        ...(audioTrackSelection && { audioTrackSelection }),
+        ...(trimRange !== undefined && { trimRange: { startTime: trimRange.startTime as number, endTime: trimRange.endTime as number } }),
+        // 文書に添える情報のみ（処理には使わない）
+        ...(isRecord(value.mediaInfo) && { mediaInfo: value.mediaInfo as unknown as MediaProbeResult }),
+    };
+}
+
+/**
+ * ジョブを登録し、メディアを保存する
+ */
+export async function createServerJob(request: ServerJobRequest, media: Blob): Promise<ServerJob> {
+    const id = randomUUID();
+    const jobDir = getJobDir(id);
+    await fs.mkdir(jobDir, { recursive: true });
+    await pipeline(
+        Readable.fromWeb(media.stream() as NodeReadableStream<Uint8Array>),
+        createWriteStream(path.join(jobDir, INPUT_FILE))
+    );
+
+    const now = Date.now();
+    const job: ServerJob = {
+        id,
+        request,
+        status: {
+            fileName: request.fileName,
+            status: 'waiting',
+            phase: 'waiting',
+            audioConversionProgress: 0,
+            transcriptionCount: 0,
+            totalTranscriptions: request.prompts.length,
+            completedPromptIds: [],
+            segmentDuration: request.settings.segmentDuration,
+            segments: [],
+            completedSegmentIndices: [],
+            generationMode: 'single',
+        },
+        documents: [],
+        cancelRequested: false,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await writeJobFile(job);
+
+    serverJobQueueLogger.info('ジョブを登録', {
+        jobId: id,
+        fileName: request.fileName,
+        mediaSize: media.size,
+        promptCount: request.prompts.length,
+    });
+    return job;
+}
+
+/**
+ * ジョブを読み込む（存在しない場合は null）
+ * 中止の要求と文書の受け取りは別のファイルから反映する
+ */
+export async function readServerJob(jobId: string): Promise<ServerJob | null> {
+    if (!JOB_ID_PATTERN.test(jobId)) {
+        return null;
+    }
+    const jobDir = getJobDir(jobId);
+    let job: ServerJob;
+    try {
+        job = JSON.parse(await fs.readFile(path.join(jobDir, JOB_FILE), 'utf8')) as ServerJob;
+    } catch {
+        return null;
+    }
+
+    const entries = new Set(await fs.readdir(jobDir));
+    return {
+        ...job,
+        cancelRequested: entries.has(CANCEL_FILE),
+        documents: job.documents.map(document => ({
+            ...document,
+            acknowledged: entries.has(getAckFileName(document.promptId)),
+        })),
+    };
+}
+
+/**
+ * ジョブの進捗・生成した文書を更新する（Worker から呼ぶ）
+ */
+export async function updateServerJob(
+    jobId: string,
+    update: (job: ServerJob) => Partial<Pick<ServerJob, 'status' | 'documents'>>
+): Promise<ServerJob> {
+    const job = await readServerJob(jobId);
+    if (!job) {
+        throw new Error(`ジョブが見つかりません: ${jobId}`);
+    }
+    const updated: ServerJob = { ...job, ...update(job), updatedAt: Date.now() };
+    await writeJobFile(updated);
+    return updated;
+}
+
+/**
+ * ジョブの中止を要求する（処理中の場合は Worker が次の確認時に止める）
+ */
+export async function requestServerJobCancel(jobId: string): Promise<void> {
+    await fs.writeFile(path.join(getJobDir(jobId), CANCEL_FILE), String(Date.now()));
+}
+
+/**
+ * ブラウザが生成した文書を保存し終えたことを記録する
+ */
+export async function acknowledgeServerJobDocument(jobId: string, promptId: string): Promise<void> {
+    await fs.writeFile(path.join(getJobDir(jobId), getAckFileName(promptId)), String(Date.now()));
+}
+
+/**
+ * 更新が途絶えたジョブの取得を取り消す（取り消した、または取得されていない場合は true）
+ * 一意な名前への rename は1つの Worker だけが成功するため、同時に取り直そうとしても取り消すのは1回だけになる。
+ * 作成されて間もないロックは他の Worker が取り直した直後のものなので取り消さない
+ */
+async function releaseStaleClaim(jobDir: string): Promise<boolean> {
+    const claimPath = path.join(jobDir, CLAIM_DIR);
+    const claimedAt = await fs.stat(claimPath).then(stats => stats.mtimeMs, () => null);
+    if (claimedAt === null) {
+        return true;
+    }
+    if (Date.now() - claimedAt <= SERVER_PROCESSING_CONFIG.STALE_CLAIM_MS) {
+        return false;
+    }
+    const releasedPath = path.join(jobDir, `${CLAIM_DIR}.stale-${randomUUID()}`);
+    try {
+        await fs.rename(claimPath, releasedPath);
+    } catch {
+        // 他の Worker が先に取り消した
+        return false;
+    }
+    await fs.rm(releasedPath, { recursive: true, force: true });
+    return true;
+}
+
+/**
+ * 次に処理するジョブを取得して処理中にする（なければ null）
+ * 登録順に、待機中のジョブと、更新が途絶えた処理中のジョブ（Worker が停止した場合）を対象にする
+ */
+export async function claimNextServerJob(): Promise<ServerJob | null> {
+    let jobIds: string[];
+    try {
+        jobIds = (await fs.readdir(QUEUE_ROOT)).filter(name => JOB_ID_PATTERN.test(name));
+    } catch {
+        return null;
+    }
+
+    const jobs = (await Promise.all(jobIds.map(readServerJob)))
+        .filter((job): job is ServerJob => job !== null && !isServerJobFinished(job))
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const job of jobs) {
+        const jobDir = getJobDir(job.id);
+        const claimPath = path.join(jobDir, CLAIM_DIR);
+        const isStale = job.status.status !== 'waiting'
+            && Date.now() - job.updatedAt > SERVER_PROCESSING_CONFIG.STALE_CLAIM_MS;
+        if (isStale) {
+            if (!(await releaseStaleClaim(jobDir))) {
+                continue;
+            }
+            serverJobQueueLogger.warn('更新が途絶えたジョブを取り直します', { jobId: job.id });
+        }
+        try {
+            await fs.mkdir(claimPath);
+        } catch {
+            // 他の Worker が処理中
+            continue;
+        }
+        return job;
+    }
+    return null;
+}
+
+/**
+ * ジョブのメディアと一時ファイルを削除する（進捗と生成した文書は残す）
+ */
+export async function removeServerJobFiles(jobId: string): Promise<void> {
+    const jobDir = getJobDir(jobId);
+    const keep = new Set([JOB_FILE, CLAIM_DIR, CANCEL_FILE]);
+    for (const name of await fs.readdir(jobDir)) {
+        if (!keep.has(name) && !name.startsWith(ACK_PREFIX)) {
+            await fs.rm(path.join(jobDir, name), { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * 保存期間を過ぎた終了済みのジョブを削除する
+ */
+export async function purgeExpiredServerJobs(): Promise<void> {
+    let jobIds: string[];
+    try {
+        jobIds = (await fs.readdir(QUEUE_ROOT)).filter(name => JOB_ID_PATTERN.test(name));
+    } catch {
+        return;
+    }
+    const expiresBefore = Date.now() - SERVER_PROCESSING_CONFIG.RETENTION_MS;
+    for (const jobId of jobIds) {
+        const job = await readServerJob(jobId);
+        if (job && isServerJobFinished(job) && job.updatedAt < expiresBefore) {
+            await fs.rm(getJobDir(jobId), { recursive: true, force: true });
+            serverJobQueueLogger.info('保存期間を過ぎたジョブを削除', { jobId });
+        }
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * サーバー処理の API（/api/server-jobs）をブラウザから呼び出す
+ * ID トークンを Authorization ヘッダーに付け、API がトークンから決めた所有者のジョブだけを扱う（ログインユーザーのみ）。
+ */
+
+import { ServerJob, ServerJobRequest } from '@/types/serverJob';
+import { SERVER_PROCESSING_CONFIG } from '@/constants/serverProcessing';
+import { getCurrentIdToken } from './auth';
+import { createLogger } from './logger';
+
+const serverProcessingLogger = createLogger('serverProcessing');
+
+const SERVER_JOBS_ENDPOINT = '/api/server-jobs';
+
+const getJobUrl = (jobId: string) => `${SERVER_JOBS_ENDPOINT}/${encodeURIComponent(jobId)}`;
+
+// ログインしていない場合はトークンを付けない（API は 401 を返す）
+const authHeaders = async (): Promise<Record<string, string>> => {
+    const idToken = await getCurrentIdToken();
+    return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+};
+
+// API が返したエラーメッセージを取り出す（JSON でなければステータスコードを示す）
+async function readErrorMessage(response: Response): Promise<string> {
+    const body = await response.json().catch(() => null) as { error?: unknown } | null;
+    return typeof body?.error === 'string' ? body.error : `サーバーがエラーを返しました（${response.status}）`;
+}
+
+/**
+ * メディアをアップロードしてジョブを登録する
+ * 進捗を通知するため XMLHttpRequest で送信する（fetch はアップロードの進捗を取得できない）
+ */
+export async function submitServerJob(
+    media: Blob,
+    request: Omit<ServerJobRequest, 'ownerId'>,
+    options: { onUploadProgress?: (ratio: number) => void; abortSignal?: AbortSignal } = {}
+): Promise<ServerJob> {
+    const { onUploadProgress, abortSignal } = options;
+    if (media.size > SERVER_PROCESSING_CONFIG.MAX_UPLOAD_BYTES) {
+        throw new Error(`ファイルが大きすぎるためサーバーで処理できません（上限 ${Math.round(SERVER_PROCESSING_CONFIG.MAX_UPLOAD_BYTES / 1024 / 1024)}MB）`);
+    }
+    const formData = new FormData();
+    formData.append('media', media, request.fileName);
+    formData.append('request', JSON.stringify(request));
+    const headers = await authHeaders();
+
+    return new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) {
+            reject(new Error('アップロードを中止しました'));
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        const handleAbort = () => xhr.abort();
+        abortSignal?.addEventListener('abort', handleAbort, { once: true });
+        const cleanup = () => abortSignal?.removeEventListener('abort', handleAbort);
+
+        xhr.open('POST', SERVER_JOBS_ENDPOINT);
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+        xhr.responseType = 'json';
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) {
+                onUploadProgress?.(event.loaded / event.total);
+            }
+        };
+        xhr.onload = () => {
+            cleanup();
+            const body = xhr.response as { job?: ServerJob; error?: unknown } | null;
+            if (xhr.status === 201 && body?.job) {
+                serverProcessingLogger.info('サーバー処理のジョブを登録', { jobId: body.job.id, fileName: request.fileName });
+                resolve(body.job);
+                return;
+            }
+            reject(new Error(typeof body?.error === 'string' ? body.error : `ジョブを登録できません（${xhr.status}）`));
+        };
+        xhr.onerror = () => {
+            cleanup();
+            reject(new Error('サーバーへアップロードできません。通信状態を確認してください'));
+        };
+        xhr.onabort = () => {
+            cleanup();
+            reject(new Error('アップロードを中止しました'));
+        };
+        xhr.send(formData);
+    });
+}
+
+/**
+ * ジョブの進捗と生成した文書を取得する（ジョブが見つからない場合は null）
+ */
+export async function getServerJob(jobId: string): Promise<ServerJob | null> {
+    const response = await fetch(getJobUrl(jobId), { headers: await authHeaders(), cache: 'no-store' });
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+    }
+    const body = await response.json() as { job: ServerJob };
+    return body.job;
+}
+
+/**
+ * ジョブの中止を要求する（Worker が次の確認時に止める）
+ */
+export async function requestServerJobCancellation(jobId: string): Promise<void> {
+    const response = await fetch(getJobUrl(jobId), { method: 'DELETE', headers: await authHeaders() });
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+    }
+}
+
+/**
+ * 生成した文書をサーバーに Firestore へ保存させ、保存した文書の ID を返す
+ * サーバーは受け取り済みとして記録し、同じ文書を再度要求されても二重に保存しない
+ */
+export async function saveServerDocument(jobId: string, promptId: string): Promise<string> {
+    const response = await fetch(getJobUrl(jobId), {
+        method: 'PATCH',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ acknowledgedPromptId: promptId }),
+    });
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+    }
+    const body = await response.json() as { documentId: string };
+    return body.documentId;
+}
@@ -1,7 +1,11 @@
 import { storage } from './firebase';
-import { ref, uploadBytes, getDownloadURL, getBlob, getMetadata } from 'firebase/storage';
+import { ref, uploadBytes, getDownloadURL, getBlob, getMetadata, deleteObject } from 'firebase/storage';
 import { getCurrentUserId, getOwnerType } from './auth';
 import { createLogger } from './logger';
+import { recordMonthlyUsage } from './userManagement';
+import { getUsageMonth } from './quota';
+import { AUDIO_OUTPUT_PROFILES, findAudioOutputProfileByMimeType } from '@/constants/audioOutputProfiles';
+import { DocumentKeyframe, VideoKeyframe } from '@/types/keyframes';
 
 const storageLogger = createLogger('storage');
 
@@ -15,6 +19,23 @@ function sanitizeFileName(fileName: string): string {
         .substring(0, 100);
 }
 
+/**
+ * 保存したファイルのサイズを当月の利用量に加算
+ * 記録できない場合は、計上されないファイルを残さないよう削除してから投げる
+ */
+async function recordStorageUsage(ownerId: string, storageBytes: number, storagePaths: string[]): Promise<void> {
+    try {
+        await recordMonthlyUsage(ownerId, getUsageMonth(), { storageBytes });
+    } catch (error) {
+        await Promise.all(storagePaths.map(storagePath =>
+            deleteObject(ref(storage, storagePath)).catch((deleteError) => {
+                storageLogger.warn('利用量を記録できなかったファイルを削除できません', { storagePath, error: String(deleteError) });
+            })
+        ));
+        throw error;
+    }
+}
+
 export interface AudioUploadMetadata {
     originalFileName: string;
     originalFileType: 'video' | 'audio';
@@ -24,6 +45,7 @@ export interface AudioUploadMetadata {
 
 /**
  * 音声ファイルを Firebase Storage にアップロード
+ * 拡張子と Content-Type は変換後の出力形式に合わせる（変換していないファイルは従来どおり MP3 として保存）
  * エラー時は null を返し、ログのみ記録（ベストエフォート）
  */
 export async function uploadAudioToStorage(
@@ -36,7 +58,8 @@ export async function uploadAudioToStorage(
         const ownerType = getOwnerType();
         const timestamp = Date.now();
         const sanitizedName = sanitizeFileName(fileName);
-        const storagePath = `audio/${ownerId}/${timestamp}_${sanitizedName}.mp3`;
+        const outputProfile = findAudioOutputProfileByMimeType(audioBlob.type) ?? AUDIO_OUTPUT_PROFILES.mp3;
+        const storagePath = `audio/${ownerId}/${timestamp}_${sanitizedName}.${outputProfile.extension}`;
 
         storageLogger.info('音声ファイルのアップロードを開始', {
             storagePath,
@@ -46,7 +69,7 @@ export async function uploadAudioToStorage(
 
         const storageRef = ref(storage, storagePath);
         await uploadBytes(storageRef, audioBlob, {
-            contentType: 'audio/mpeg',
+            contentType: outputProfile.mimeType,
             customMetadata: {
                 ownerId,
                 ownerType,
@@ -58,6 +81,11 @@ export async function uploadAudioToStorage(
         });
 
         storageLogger.info('音声ファイルのアップロードが完了', { storagePath });
+
+        // 月間の保存サイズに加算（ゲストはプランの対象外）
+        if (ownerType === 'user') {
+            await recordStorageUsage(ownerId, audioBlob.size, [storagePath]);
+        }
         return storagePath;
     } catch (error) {
         storageLogger.error('音声ファイルのアップロードに失敗（文書生成は続行）', error, { fileName });
@@ -65,6 +93,52 @@ export async function uploadAudioToStorage(
     }
 }
 
+/**
+ * 動画の場面の画像を Firebase Storage にアップロード（文書の詳細で表示する）
+ * エラー時は空の配列を返し、ログのみ記録（ベストエフォート）
+ */
+export async function uploadKeyframesToStorage(
+    keyframes: VideoKeyframe[],
+    fileName: string
+): Promise<DocumentKeyframe[]> {
+    if (keyframes.length === 0) {
+        return [];
+    }
+    try {
+        const ownerId = getCurrentUserId();
+        const ownerType = getOwnerType();
+        const directory = `keyframes/${ownerId}/${Date.now()}_${sanitizeFileName(fileName)}`;
+
+        storageLogger.info('場面の画像のアップロードを開始', { directory, keyframeCount: keyframes.length, ownerId });
+
+        const uploaded = await Promise.all(keyframes.map(async (keyframe, index) => {
+            const storagePath = `${directory}/${String(index + 1).padStart(3, '0')}.jpg`;
+            await uploadBytes(ref(storage, storagePath), keyframe.image, {
+                contentType: 'image/jpeg',
+                customMetadata: {
+                    ownerId,
+                    ownerType,
+                    originalFileName: fileName,
+                    time: String(keyframe.time),
+                },
+            });
+            return { time: keyframe.time, storagePath };
+        }));
+
+        storageLogger.info('場面の画像のアップロードが完了', { directory });
+
+        // 月間の保存サイズに加算（ゲストはプランの対象外）
+        if (ownerType === 'user') {
+            const totalBytes = keyframes.reduce((sum, keyframe) => sum + keyframe.image.size, 0);
+            await recordStorageUsage(ownerId, totalBytes, uploaded.map(keyframe => keyframe.storagePath));
+        }
+        return uploaded;
+    } catch (error) {
+        storageLogger.error('場面の画像のアップロードに失敗（文書生成は続行）', error, { fileName });
+        return [];
+    }
+}
+
 /**
  * Firebase Storage のパスからダウンロード URL を取得
  */
@@ -73,6 +147,13 @@ export async function getAudioDownloadURL(storagePath: string): Promise<string>
     return getDownloadURL(storageRef);
 }
 
+/**
+ * 動画の場面の画像のダウンロード URL を取得
+ */
+export async function getKeyframeDownloadURL(storagePath: string): Promise<string> {
+    return getDownloadURL(ref(storage, storagePath));
+}
+
 /**
  * Firebase Storage にファイルが存在するか確認
  */
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { OutputSchema } from '@/types/structuredOutput';
+import { MockTranscriptionProvider } from './mockTranscription';
+import {
+    parseOutputSchemaText,
+    parseStructuredOutput,
+    structuredDataToMarkdown,
+    validateOutputSchema,
+    validateStructuredData,
+} from './structuredOutput';
+
+const MINUTES_SCHEMA: OutputSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: '会議名' },
+        date: { type: 'string', format: 'date', description: '開催日' },
+        actions: {
+            type: 'array',
+            description: 'アクション',
+            items: {
+                type: 'object',
+                properties: {
+                    owner: { type: 'string', description: '担当' },
+                    done: { type: 'boolean', description: '完了' },
+                },
+                required: ['owner'],
+            },
+        },
+    },
+    required: ['title'],
+};
+
+describe('validateOutputSchema', () => {
+    it('有効なスキーマでは問題点を返さない', () => {
+        expect(validateOutputSchema(MINUTES_SCHEMA)).toEqual([]);
+    });
+
+    it('配列の中の配列と、存在しない必須項目を指摘する', () => {
+        const errors = validateOutputSchema({
+            type: 'object',
+            properties: {
+                rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+            },
+            required: ['missing'],
+        });
+
+        expect(errors).toHaveLength(2);
+        expect(errors[0]).toMatch(/^\$\.rows: 配列の中に配列/);
+        expect(errors[1]).toContain('missing');
+    });
+
+    it('string 以外の enum を指摘する', () => {
+        expect(validateOutputSchema({ type: 'number', enum: ['1'] })).toHaveLength(1);
+    });
+});
+
+describe('parseOutputSchemaText', () => {
+    it('ルートが object のスキーマを読み込む', () => {
+        const result = parseOutputSchemaText(JSON.stringify(MINUTES_SCHEMA));
+
+        expect(result.success).toBe(true);
+        expect(result.schema).toEqual(MINUTES_SCHEMA);
+    });
+
+    it('JSON でないテキストとルートが object でないスキーマは読み込まない', () => {
+        expect(parseOutputSchemaText('{').success).toBe(false);
+        expect(parseOutputSchemaText('{"type":"string"}')).toEqual({
+            success: false,
+            error: 'ルートの type は object を指定してください',
+        });
+    });
+});
+
+describe('validateStructuredData', () => {
+    it('必須項目・型・日付の形式の不一致を項目の位置つきで返す', () => {
+        const errors = validateStructuredData(
+            { date: '2024/01/01', actions: [{ done: 'yes' }] },
+            MINUTES_SCHEMA
+        );
+
+        expect(errors).toEqual([
+            '$.title: 必須項目がありません',
+            '$.date: 日付（YYYY-MM-DD）の形式ではありません',
+            '$.actions[0].owner: 必須項目がありません',
+            '$.actions[0].done: 真偽値ではありません',
+        ]);
+    });
+
+    it('nullable の項目は null を許す', () => {
+        expect(validateStructuredData(null, { type: 'string', nullable: true })).toEqual([]);
+        expect(validateStructuredData(null, { type: 'string' })).toEqual(['$: 値がありません']);
+    });
+});
+
+describe('parseStructuredOutput', () => {
+    it('コードブロックで囲まれた生成結果も読み込む', () => {
+        const result = parseStructuredOutput('```json\n{"title":"定例会"}\n```', MINUTES_SCHEMA);
+
+        expect(result).toEqual({ success: true, data: { title: '定例会' } });
+    });
+
+    it('不一致が多い場合は先頭の5件だけを示す', () => {
+        const schema: OutputSchema = { type: 'object', properties: { values: { type: 'array', items: { type: 'integer' } } } };
+        const result = parseStructuredOutput(JSON.stringify({ values: ['a', 'b', 'c', 'd', 'e', 'f', 'g'] }), schema);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('…ほか2件');
+    });
+
+    it('JSON として読み込めない生成結果はエラーにする', () => {
+        expect(parseStructuredOutput('議事録です', MINUTES_SCHEMA).success).toBe(false);
+    });
+});
+
+describe('structuredDataToMarkdown', () => {
+    it('項目ごとに見出しを付け、オブジェクトの配列は表にする', () => {
+        const markdown = structuredDataToMarkdown(
+            { title: '定例会', actions: [{ owner: '佐藤', done: true }, { owner: 'A|B', done: false }] },
+            MINUTES_SCHEMA
+        );
+
+        expect(markdown).toBe([
+            '## 会議名',
+            '',
+            '定例会',
+            '',
+            '## 開催日',
+            '',
+            '-',
+            '',
+            '## アクション',
+            '',
+            '| 担当 | 完了 |',
+            '| --- | --- |',
+            '| 佐藤 | はい |',
+            '| A\\|B | いいえ |',
+        ].join('\n'));
+    });
+});
+
+describe('モックプロバイダーの構造化出力', () => {
+    it('スキーマに一致するデータを返し、Markdown に変換できる', async () => {
+        const provider = new MockTranscriptionProvider();
+        const result = await provider.generateDocument({ fileName: 'meeting.mp3', contextText: '議事録', outputSchema: MINUTES_SCHEMA });
+
+        expect(result.success).toBe(true);
+        expect(validateStructuredData(result.structuredData, MINUTES_SCHEMA)).toEqual([]);
+        expect(parseStructuredOutput(result.text!, MINUTES_SCHEMA).data).toEqual(result.structuredData);
+        expect(structuredDataToMarkdown(result.structuredData!, MINUTES_SCHEMA)).toContain('| 担当 | 完了 |');
+    });
+});
@@ -0,0 +1,235 @@
+/**
+ * 構造化出力（JSON）のスキーマ検証・生成結果の検証・Markdown変換
+ */
+
+import { OutputSchema, OutputSchemaType, StructuredData } from '@/types/structuredOutput';
+
+const OUTPUT_SCHEMA_TYPES: readonly OutputSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * スキーマ自体の形式をチェックし、問題点の一覧を返す（空配列なら有効）
+ */
+export function validateOutputSchema(schema: unknown, path: string = '$'): string[] {
+    if (!isPlainObject(schema)) {
+        return [`${path}: スキーマはオブジェクトで指定してください`];
+    }
+    const type = schema.type as OutputSchemaType;
+    if (!OUTPUT_SCHEMA_TYPES.includes(type)) {
+        return [`${path}: type は ${OUTPUT_SCHEMA_TYPES.join(' / ')} のいずれかを指定してください`];
+    }
+
+    const errors: string[] = [];
+    if (type === 'object') {
+        if (!isPlainObject(schema.properties) || Object.keys(schema.properties).length === 0) {
+            errors.push(`${path}: object には1つ以上の properties が必要です`);
+        } else {
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                errors.push(...validateOutputSchema(propertySchema, `${path}.${key}`));
+            }
+            const required = schema.required;
+            if (required !== undefined) {
+                if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+                    errors.push(`${path}: required は項目名の配列で指定してください`);
+                } else {
+                    const unknownNames = required.filter(name => !(name in (schema.properties as object)));
+                    if (unknownNames.length > 0) {
+                        errors.push(`${path}: required に存在しない項目があります（${unknownNames.join(', ')}）`);
+                    }
+                }
+            }
+        }
+    }
+    if (type === 'array') {
+        if (!isPlainObject(schema.items)) {
+            errors.push(`${path}: array には items が必要です`);
+        } else if (schema.items.type === 'array') {
+            errors.push(`${path}: 配列の中に配列は指定できません（Firestoreに保存できないため）`);
+        } else {
+            errors.push(...validateOutputSchema(schema.items, `${path}[]`));
+        }
+    }
+    if (schema.enum !== undefined && (type !== 'string' || !Array.isArray(schema.enum) || schema.enum.some(value => typeof value !== 'string'))) {
+        errors.push(`${path}: enum は string の選択肢の配列で指定してください`);
+    }
+    return errors;
+}
+
+/**
+ * プロンプト編集画面で入力されたJSONテキストをスキーマとして読み込む
+ * ルートは object に限る（生成結果を Firestore のマップとして保存するため）
+ */
+export function parseOutputSchemaText(text: string): { success: boolean; schema?: OutputSchema; error?: string } {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        return { success: false, error: `JSONとして読み込めません: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (isPlainObject(parsed) && parsed.type !== 'object') {
+        return { success: false, error: 'ルートの type は object を指定してください' };
+    }
+    const errors = validateOutputSchema(parsed);
+    if (errors.length > 0) {
+        return { success: false, error: errors.join('\n') };
+    }
+    return { success: true, schema: parsed as OutputSchema };
+}
+
+/**
+ * 生成結果がスキーマに一致するかチェックし、不一致の一覧を返す（空配列なら一致）
+ */
+export function validateStructuredData(data: unknown, schema: OutputSchema, path: string = '$'): string[] {
+    if (data === null || data === undefined) {
+        return schema.nullable ? [] : [`${path}: 値がありません`];
+    }
+
+    switch (schema.type) {
+        case 'object': {
+            if (!isPlainObject(data)) {
+                return [`${path}: オブジェクトではありません`];
+            }
+            const errors: string[] = [];
+            for (const name of schema.required ?? []) {
+                if (data[name] === undefined) {
+                    errors.push(`${path}.${name}: 必須項目がありません`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (data[key] !== undefined) {
+                    errors.push(...validateStructuredData(data[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            return errors;
+        }
+        case 'array':
+            if (!Array.isArray(data)) {
+                return [`${path}: 配列ではありません`];
+            }
+            return schema.items
+                ? data.flatMap((item, index) => validateStructuredData(item, schema.items!, `${path}[${index}]`))
+                : [];
+        case 'string':
+            if (typeof data !== 'string') {
+                return [`${path}: 文字列ではありません`];
+            }
+            if (schema.enum && !schema.enum.includes(data)) {
+                return [`${path}: 選択肢（${schema.enum.join(', ')}）にない値です`];
+            }
+            if (schema.format === 'date' && !DATE_PATTERN.test(data)) {
+                return [`${path}: 日付（YYYY-MM-DD）の形式ではありません`];
+            }
+            return [];
+        case 'number':
+            return typeof data === 'number' && Number.isFinite(data) ? [] : [`${path}: 数値ではありません`];
+        case 'integer':
+            return Number.isInteger(data) ? [] : [`${path}: 整数ではありません`];
+        case 'boolean':
+            return typeof data === 'boolean' ? [] : [`${path}: 真偽値ではありません`];
+        default:
+            return [];
+    }
+}
+
+/**
+ * 生成されたテキストをJSONとして読み込み、スキーマに一致するか検証する
+ * モデルがコードブロックで囲んで返した場合も読み込めるようにする
+ */
+export function parseStructuredOutput(
+    text: string,
+    schema: OutputSchema
+): { success: boolean; data?: StructuredData; error?: string } {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch (error) {
+        return { success: false, error: `生成結果がJSONとして読み込めません: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const errors = validateStructuredData(parsed, schema);
+    if (errors.length > 0) {
+        // 先頭の数件のみ（大量の配列で全件並ぶと読めないため）
+        const shown = errors.slice(0, 5).join('\n');
+        return {
+            success: false,
+            error: `生成結果がスキーマに一致しません:\n${shown}${errors.length > 5 ? `\n…ほか${errors.length - 5}件` : ''}`,
+        };
+    }
+    return { success: true, data: parsed as StructuredData };
+}
+
+/**
+ * 表の見出しに使うラベル（description があれば優先）
+ */
+export function getSchemaLabel(key: string, schema: OutputSchema): string {
+    return schema.description || key;
+}
+
+/**
+ * 表のセルに表示する文字列
+ */
+export function formatStructuredValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+        return '-';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'はい' : 'いいえ';
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+function escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function arrayToMarkdown(items: unknown[], schema: OutputSchema): string {
+    if (items.length === 0) {
+        return '（なし）';
+    }
+    const itemSchema = schema.items;
+    if (itemSchema?.type === 'object' && itemSchema.properties) {
+        const columns = Object.entries(itemSchema.properties);
+        const header = `| ${columns.map(([key, columnSchema]) => escapeTableCell(getSchemaLabel(key, columnSchema))).join(' | ')} |`;
+        const separator = `| ${columns.map(() => '---').join(' | ')} |`;
+        const rows = items.map(item => {
+            const record = isPlainObject(item) ? item : {};
+            return `| ${columns.map(([key]) => escapeTableCell(formatStructuredValue(record[key]))).join(' | ')} |`;
+        });
+        return [header, separator, ...rows].join('\n');
+    }
+    return items.map(item => `- ${formatStructuredValue(item)}`).join('\n');
+}
+
+/**
+ * 構造化データを Markdown に変換する（文書一覧・本文の表示や編集には従来どおりテキストを使うため）
+ * ルートの項目ごとに見出しを付け、オブジェクトの配列は表、それ以外は箇条書きや段落にする
+ */
+export function structuredDataToMarkdown(data: StructuredData, schema: OutputSchema): string {
+    const sections = Object.entries(schema.properties ?? {}).map(([key, propertySchema]) => {
+        const value = data[key];
+        const heading = `## ${getSchemaLabel(key, propertySchema)}`;
+
+        if (propertySchema.type === 'array' && Array.isArray(value)) {
+            return `${heading}\n\n${arrayToMarkdown(value, propertySchema)}`;
+        }
+        if (propertySchema.type === 'object' && isPlainObject(value)) {
+            const lines = Object.entries(propertySchema.properties ?? {}).map(([childKey, childSchema]) =>
+                `- **${getSchemaLabel(childKey, childSchema)}**: ${formatStructuredValue(value[childKey])}`
+            );
+            return `${heading}\n\n${lines.join('\n')}`;
+        }
+        return `${heading}\n\n${formatStructuredValue(value)}`;
+    });
+    return sections.join('\n\n');
+}
@@ -0,0 +1,70 @@
+/**
+ * 埋め込み字幕（FFmpeg で SRT に変換したもの）を文書生成に添付するテキストにする
+ */
+
+import { SubtitleContextMode } from '@/constants/subtitleContext';
+import { formatSeconds } from '@/utils/timeFormat';
+
+export interface SubtitleCue {
+    startTime: number;
+    endTime: number;
+    text: string;
+}
+
+const SRT_TIME_PATTERN = /(\d+):(\d{2}):(\d{2})[,.](\d{3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{3})/;
+
+const toSeconds = (h: string, m: string, s: string, ms: string): number =>
+    parseInt(h) * 3600 + parseInt(m) * 60 + parseInt(s) + parseInt(ms) / 1000;
+
+/**
+ * SRT を字幕の一覧にする（書式タグは取り除き、空の字幕は除く）
+ */
+export function parseSrt(srt: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    for (const block of srt.replace(/\r\n/g, '\n').split(/\n{2,}/)) {
+        const lines = block.split('\n');
+        const timeIndex = lines.findIndex(line => SRT_TIME_PATTERN.test(line));
+        if (timeIndex === -1) {
+            continue;
+        }
+        const match = lines[timeIndex].match(SRT_TIME_PATTERN)!;
+        const text = lines
+            .slice(timeIndex + 1)
+            .join(' ')
+            .replace(/<[^>]+>/g, '')
+            .replace(/\{[^}]*\}/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+        if (text) {
+            cues.push({
+                startTime: toSeconds(match[1], match[2], match[3], match[4]),
+                endTime: toSeconds(match[5], match[6], match[7], match[8]),
+                text,
+            });
+        }
+    }
+    return cues;
+}
+
+/**
+ * 字幕を文書生成に添付するテキストにする（範囲を指定した場合は範囲内の字幕のみ）
+ * 字幕がない場合は null
+ */
+export function buildSubtitleContextText(
+    cues: SubtitleCue[],
+    mode: SubtitleContextMode,
+    range?: { startTime: number; endTime: number }
+): string | null {
+    const targetCues = range
+        ? cues.filter(cue => cue.endTime > range.startTime && cue.startTime < range.endTime)
+        : cues;
+    if (targetCues.length === 0) {
+        return null;
+    }
+
+    const header = mode === 'subtitles_only'
+        ? '以下はメディアに埋め込まれていた字幕です（[開始時刻] 字幕）。音声は添付していないため、この字幕の内容だけをもとに文書を作成してください。'
+        : '以下はメディアに埋め込まれていた字幕です（[開始時刻] 字幕）。音声の内容と合わせ、固有名詞や用語の表記の参考にしてください。';
+    const lines = targetCues.map(cue => `[${formatSeconds(cue.startTime)}] ${cue.text}`);
+    return [header, '', ...lines].join('\n');
+}
@@ -0,0 +1,52 @@
+/**
+ * トークン使用量の集計・コスト計算
+ */
+
+import { estimateGeminiCostUsd } from '@/constants/geminiModels';
+import { TokenUsage, UsageTotals } from '@/types/usage';
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+    promptTokens: 0,
+    audioPromptTokens: 0,
+    candidatesTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 0,
+    generationCount: 0,
+    estimatedCostUsd: 0,
+};
+
+/**
+ * 推定コスト（USD）を計算（単価表があるのは Gemini のみ。モックなどは 0）
+ */
+export function estimateCostUsd(usage: TokenUsage): number {
+    return usage.provider === 'gemini' ? estimateGeminiCostUsd(usage.model, usage) : 0;
+}
+
+/**
+ * 同じモデルの使用量を合算する（マップリデュースで区間ごとの生成と統合を1文書にまとめる用途）
+ */
+export function addTokenUsage(base: TokenUsage, extra: TokenUsage): TokenUsage {
+    return {
+        ...base,
+        promptTokens: base.promptTokens + extra.promptTokens,
+        audioPromptTokens: base.audioPromptTokens + extra.audioPromptTokens,
+        candidatesTokens: base.candidatesTokens + extra.candidatesTokens,
+        thoughtsTokens: base.thoughtsTokens + extra.thoughtsTokens,
+        totalTokens: base.totalTokens + extra.totalTokens,
+    };
+}
+
+/**
+ * Firestore から読んだ累計（欠けたフィールドがありうる）を UsageTotals に正規化する
+ */
+export function normalizeUsageTotals(data: Partial<UsageTotals> | undefined): UsageTotals {
+    return { ...EMPTY_USAGE_TOTALS, ...(data ?? {}) };
+}
+
+export function formatTokenCount(tokens: number): string {
+    return tokens.toLocaleString('ja-JP');
+}
+
+export function formatCostUsd(costUsd: number): string {
+    return `$${costUsd < 0.01 && costUsd > 0 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`;
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MockTranscriptionProvider } from './mockTranscription';
+import { TranscriptionError, parseRetryAfterHeader, waitWithAbort, withRetry } from './transcriptionErrors';
+
+const provider = new MockTranscriptionProvider();
+const classify = (error: unknown) => provider.classifyError(error);
+
+/** 指定したエラーを順に投げ、尽きたら 'ok' を返す操作 */
+const failingOperation = (errors: unknown[]) =>
+    vi.fn(async () => {
+        const error = errors.shift();
+        if (error) {
+            throw error;
+        }
+        return 'ok';
+    });
+
+describe('withRetry', () => {
+    it('一時的なエラーは再試行し、成功したら結果を返す', async () => {
+        const operation = failingOperation([
+            new TranscriptionError('server_error', '503'),
+            new TranscriptionError('network', 'fetch failed'),
+        ]);
+        const onRetry = vi.fn();
+
+        await expect(withRetry(operation, { classify, onRetry, baseDelayMs: 1, maxDelayMs: 1 })).resolves.toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(3);
+        expect(onRetry.mock.calls.map(([error, attempt]) => [error.code, attempt])).toEqual([['server_error', 1], ['network', 2]]);
+    });
+
+    it('一時的でないエラーは再試行しない', async () => {
+        const operation = failingOperation([new TranscriptionError('auth', '401')]);
+
+        await expect(withRetry(operation, { classify, baseDelayMs: 1 })).rejects.toMatchObject({ code: 'auth' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('分類できないエラーは unknown として再試行しない', async () => {
+        const operation = failingOperation([new Error('boom')]);
+
+        const error = await withRetry(operation, { classify, baseDelayMs: 1 }).catch(caught => caught);
+        expect(error).toBeInstanceOf(TranscriptionError);
+        expect(error).toMatchObject({ code: 'unknown', message: 'boom' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('最大試行回数に達したら最後のエラーを投げる', async () => {
+        const operation = failingOperation([
+            new TranscriptionError('quota', '429 (1)'),
+            new TranscriptionError('quota', '429 (2)'),
+            new TranscriptionError('quota', '429 (3)'),
+        ]);
+
+        await expect(withRetry(operation, { classify, maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 }))
+            .rejects.toMatchObject({ message: '429 (2)' });
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('サーバー指定の待ち時間を優先し、長すぎる場合は再試行しない', async () => {
+        const onRetry = vi.fn();
+        await withRetry(
+            failingOperation([new TranscriptionError('quota', '429', { retryAfterMs: 5 })]),
+            { classify, onRetry }
+        );
+        expect(onRetry).toHaveBeenCalledWith(expect.any(TranscriptionError), 1, 5);
+
+        const operation = failingOperation([new TranscriptionError('quota', '429', { retryAfterMs: 10 * 60 * 1000 })]);
+        await expect(withRetry(operation, { classify })).rejects.toMatchObject({ code: 'quota' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('待機中に中止された場合は cancelled で終わる', async () => {
+        const controller = new AbortController();
+        const operation = failingOperation([new TranscriptionError('network', 'offline')]);
+
+        const result = withRetry(operation, {
+            classify,
+            abortSignal: controller.signal,
+            baseDelayMs: 60000,
+            onRetry: () => controller.abort(),
+        });
+
+        await expect(result).rejects.toMatchObject({ code: 'cancelled' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('waitWithAbort', () => {
+    it('中止済みのシグナルではすぐに cancelled で終わる', async () => {
+        await expect(waitWithAbort(1000, AbortSignal.abort())).rejects.toMatchObject({ code: 'cancelled' });
+    });
+});
+
+describe('parseRetryAfterHeader', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('秒数をミリ秒に変換する', () => {
+        expect(parseRetryAfterHeader('3')).toBe(3000);
+        expect(parseRetryAfterHeader(null)).toBeUndefined();
+        expect(parseRetryAfterHeader('later')).toBeUndefined();
+    });
+
+    it('HTTP日付は現在時刻からの待ち時間にする', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+        expect(parseRetryAfterHeader('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+        expect(parseRetryAfterHeader('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+    });
+});
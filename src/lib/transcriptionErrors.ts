@@ -0,0 +1,125 @@
+import { isTransientErrorCode, TranscriptionErrorCode } from '@/constants/transcriptionErrors';
+import { createLogger } from './logger';
+
+const retryLogger = createLogger('transcriptionRetry');
+
+/**
+ * 文書生成プロバイダーが投げる分類済みエラー
+ * message にはベンダーからの元メッセージ（ログ・詳細表示用）を保持し、利用者向けの文言は code から決める
+ */
+export class TranscriptionError extends Error {
+    readonly code: TranscriptionErrorCode;
+    /** サーバーから指定された再試行までの待ち時間（ミリ秒） */
+    readonly retryAfterMs?: number;
+
+    constructor(code: TranscriptionErrorCode, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'TranscriptionError';
+        this.code = code;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get isTransient(): boolean {
+        return isTransientErrorCode(this.code);
+    }
+}
+
+export interface RetryOptions {
+    /** 初回を含む最大試行回数 */
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** サーバー指定の待ち時間がこれを超える場合は（日次上限などとみなして）リトライしない */
+    maxRetryAfterMs?: number;
+    abortSignal?: AbortSignal;
+    /** 発生したエラーを TranscriptionError に分類する */
+    classify: (error: unknown) => TranscriptionError;
+    /** 待機に入る前に呼ばれる（ログ・UI表示用） */
+    onRetry?: (error: TranscriptionError, attempt: number, delayMs: number) => void;
+}
+
+export const RETRY_DEFAULTS = {
+    MAX_ATTEMPTS: 4,
+    BASE_DELAY_MS: 2000,
+    MAX_DELAY_MS: 30000,
+    MAX_RETRY_AFTER_MS: 120000,
+} as const;
+
+/**
+ * 指定時間待つ（中止された場合は 'cancelled' の TranscriptionError で終わる）
+ */
+export const waitWithAbort = (ms: number, abortSignal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (abortSignal?.aborted) {
+            reject(new TranscriptionError('cancelled', 'Aborted before retry'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new TranscriptionError('cancelled', 'Aborted during retry wait'));
+        };
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * 一時的なエラー（ネットワーク・429・5xx）のみ指数バックオフで再試行する
+ * retryAfterMs がある場合はバックオフよりそちらを優先する。最終的に失敗した場合は分類済みエラーを投げる
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    const {
+        maxAttempts = RETRY_DEFAULTS.MAX_ATTEMPTS,
+        baseDelayMs = RETRY_DEFAULTS.BASE_DELAY_MS,
+        maxDelayMs = RETRY_DEFAULTS.MAX_DELAY_MS,
+        maxRetryAfterMs = RETRY_DEFAULTS.MAX_RETRY_AFTER_MS,
+        abortSignal,
+        classify,
+        onRetry,
+    } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            const classified = classify(error);
+
+            const retryAfterTooLong = classified.retryAfterMs !== undefined && classified.retryAfterMs > maxRetryAfterMs;
+            if (!classified.isTransient || attempt >= maxAttempts || retryAfterTooLong || abortSignal?.aborted) {
+                throw classified;
+            }
+
+            const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            // 同時に失敗した複数リクエストが同じタイミングで再送しないよう揺らぎを加える
+            const delayMs = classified.retryAfterMs ?? Math.round(backoffMs * (0.8 + Math.random() * 0.4));
+
+            retryLogger.warn('一時的なエラーのため再試行します', {
+                code: classified.code,
+                attempt,
+                maxAttempts,
+                delayMs,
+                message: classified.message,
+            });
+            onRetry?.(classified, attempt, delayMs);
+
+            await waitWithAbort(delayMs, abortSignal);
+        }
+    }
+}
+
+/**
+ * Retry-After ヘッダー（秒 または HTTP日付）をミリ秒に変換する
+ */
+export function parseRetryAfterHeader(value: string | null): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,274 @@
+/**
+ * 文書生成プロバイダー
+ * メディア（音声/動画）とプロンプトから文書を生成する処理を抽象化し、
+ * フックからは特定のベンダーSDKを意識せずに呼び出せるようにする。
+ */
+
+import {
+    DEFAULT_TRANSCRIPTION_PROVIDER,
+    TranscriptionModelOption,
+    TranscriptionProviderId,
+} from '@/constants/transcriptionProviders';
+import { TranscriptionErrorCode } from '@/constants/transcriptionErrors';
+import { TokenUsage } from '@/types/usage';
+import { OutputSchema, StructuredData } from '@/types/structuredOutput';
+import { blobToBase64 } from '@/utils/base64';
+import { GeminiClient } from './gemini';
+import { MockTranscriptionProvider } from './mockTranscription';
+import { createLogger } from './logger';
+import { TranscriptionError } from './transcriptionErrors';
+
+const transcriptionProviderLogger = createLogger('transcriptionProvider');
+
+export interface TranscriptionResult {
+    success: boolean;
+    text?: string;
+    /** 失敗時の詳細（ベンダーからの元メッセージ）。利用者向けの文言は errorCode から決める */
+    error?: string;
+    errorCode?: TranscriptionErrorCode;
+    /** 成功時のトークン使用量（プロバイダーが返さない場合は未設定） */
+    usage?: TokenUsage;
+    /** 構造化出力を指定した場合の、スキーマ検証済みの生成結果（text は元のJSON文字列） */
+    structuredData?: StructuredData;
+}
+
+/** Base64でリクエストに直接埋め込むメディア */
+export interface InlineMedia {
+    type: 'inline';
+    /** 'video/mp4' または 'audio/mpeg' など */
+    mimeType: string;
+    /** Base64文字列（data URLのプレフィックスなし） */
+    base64Data: string;
+}
+
+/** 事前にプロバイダーへアップロード済みで、URIで参照するメディア */
+export interface UploadedMedia {
+    type: 'uploaded';
+    mimeType: string;
+    /** 生成リクエストで参照するURI */
+    uri: string;
+    /** 削除時に使うプロバイダー上のリソース名 */
+    name: string;
+    sizeBytes: number;
+}
+
+export type TranscriptionMedia = InlineMedia | UploadedMedia;
+
+/** メディアと一緒に送る画像（動画の場面の画像など） */
+export interface TranscriptionImage {
+    /** 'image/jpeg' など */
+    mimeType: string;
+    /** Base64文字列（data URLのプレフィックスなし） */
+    base64Data: string;
+    /** 画像の直前に添付する見出し（番号・時刻など） */
+    label: string;
+}
+
+export interface MediaUploadOptions {
+    fileName: string;
+    mimeType: string;
+    /** アップロード進捗（0〜1） */
+    onProgress?: (ratio: number) => void;
+    /** アップロードを途中で中止するためのシグナル */
+    abortSignal?: AbortSignal;
+}
+
+export interface MediaPreparationOptions extends MediaUploadOptions {
+    /** メディアと同じリクエストで送る画像（インライン送信の上限の判定に含める） */
+    images?: TranscriptionImage[];
+}
+
+export interface DocumentGenerationRequest {
+    /** 未指定の場合はテキストのみで生成する（区間ごとの結果の統合など） */
+    media?: TranscriptionMedia;
+    /** プロンプトの後ろに添付するテキスト資料 */
+    contextText?: string;
+    /** メディアの後ろに添付する画像（見出しと画像の順に送る） */
+    images?: TranscriptionImage[];
+    fileName: string;
+    /** カスタムプロンプト。未指定の場合はプロバイダー既定のプロンプト */
+    prompt?: string;
+    /** 使用するモデル。未指定の場合はプロバイダー既定のモデル */
+    model?: string;
+    /**
+     * 指定した場合はこのスキーマに沿ったJSONを生成させる
+     * プロバイダーは返却前にスキーマ検証を行い、一致しない場合は errorCode 'invalid_output' で失敗する
+     */
+    outputSchema?: OutputSchema;
+}
+
+export interface DocumentGenerationOptions {
+    /**
+     * 生成途中のテキスト（先頭からの累積）を受け取るコールバック
+     * 指定した場合はストリーミングで生成する。再試行で生成をやり直す場合は空文字列で通知する
+     */
+    onPartialText?: (accumulatedText: string) => void;
+    /** 生成を途中で中止するためのシグナル */
+    abortSignal?: AbortSignal;
+    /** 回数制限（429）を受けて再試行を待つ前に呼ばれる（送信の間隔を調整するため） */
+    onRateLimited?: (delayMs: number) => void;
+}
+
+export interface TranscriptionProvider {
+    readonly id: TranscriptionProviderId;
+
+    /**
+     * メディアとプロンプトから文書を生成する
+     * 失敗時（中止を含む）も例外は投げず、success: false とエラーコードを返す
+     * 一時的なエラーの再試行はプロバイダー内で行う
+     */
+    generateDocument(request: DocumentGenerationRequest, options?: DocumentGenerationOptions): Promise<TranscriptionResult>;
+
+    /** このプロバイダーで利用可能なモデル一覧 */
+    listModels(): TranscriptionModelOption[];
+
+    /** SDK/通信エラーを TranscriptionError に分類する */
+    classifyError(error: unknown, modelName?: string): TranscriptionError;
+
+    /**
+     * 大容量メディアを事前にアップロードし、参照用の UploadedMedia を返す（対応プロバイダーのみ）
+     * 失敗時は classifyError 済みの TranscriptionError を投げる
+     */
+    uploadMedia?(blob: Blob, options: MediaUploadOptions): Promise<UploadedMedia>;
+
+    /** uploadMedia でアップロードしたメディアを削除する（失敗してもログのみ） */
+    deleteUploadedMedia?(media: UploadedMedia): Promise<void>;
+}
+
+/**
+ * 事前アップロードの設定
+ * Gemini はリクエスト全体で約20MBまでしかインライン送信できず、Base64化で約4/3倍になるため余裕を持たせる
+ */
+export const MEDIA_UPLOAD_CONFIG = {
+    /** この値を超えるメディアは Base64 インライン送信ではなく事前アップロードで送る */
+    INLINE_SIZE_LIMIT_BYTES: 14 * 1024 * 1024,
+} as const;
+
+const providerInstances = new Map<TranscriptionProviderId, TranscriptionProvider>();
+
+function createProvider(providerId: TranscriptionProviderId): TranscriptionProvider {
+    switch (providerId) {
+        case 'mock':
+            return new MockTranscriptionProvider();
+        case 'gemini':
+        default:
+            return new GeminiClient();
+    }
+}
+
+/**
+ * プロバイダーのインスタンスを取得（初回呼び出し時に生成してキャッシュ）
+ * Gemini は APIキー未設定時に例外を投げるため、実際に使用するプロンプトがある場合のみ生成する
+ */
+export function getTranscriptionProvider(
+    providerId: TranscriptionProviderId = DEFAULT_TRANSCRIPTION_PROVIDER
+): TranscriptionProvider {
+    const cached = providerInstances.get(providerId);
+    if (cached) {
+        return cached;
+    }
+
+    const provider = createProvider(providerId);
+    providerInstances.set(providerId, provider);
+    return provider;
+}
+
+/**
+ * 使用する各プロバイダー向けに送信用メディアを準備する
+ * 同じリクエストで送る画像と合わせて INLINE_SIZE_LIMIT_BYTES を超え、かつプロバイダーが事前アップロードに対応している場合はアップロードして参照を使い、
+ * それ以外は Base64 を1回だけ生成して共有する（同一Blobの同時読みで空データになる問題の対策）。
+ * 返り値のメディアは処理完了後に releasePreparedMedia で解放すること。
+ */
+export async function prepareMediaForProviders(
+    providerIds: TranscriptionProviderId[],
+    blob: Blob,
+    preparationOptions: MediaPreparationOptions
+): Promise<Map<TranscriptionProviderId, TranscriptionMedia>> {
+    const { images = [], ...options } = preparationOptions;
+    const uniqueProviderIds = Array.from(new Set(providerIds));
+    // 画像は Base64 のまま送るため、元のサイズ（Base64 の約3/4）に換算して合計する
+    const imageBytes = images.reduce((sum, image) => sum + Math.ceil(image.base64Data.length * 3 / 4), 0);
+    const shouldUpload = blob.size + imageBytes > MEDIA_UPLOAD_CONFIG.INLINE_SIZE_LIMIT_BYTES;
+    const uploadingProviderIds = shouldUpload
+        ? uniqueProviderIds.filter(id => getTranscriptionProvider(id).uploadMedia)
+        : [];
+    const uploadProgress = new Map<TranscriptionProviderId, number>();
+
+    let inlineMediaPromise: Promise<InlineMedia> | null = null;
+    const getInlineMedia = () => {
+        inlineMediaPromise ??= blobToBase64(blob)
+            .catch((base64Error) => {
+                transcriptionProviderLogger.error('Base64変換に失敗', base64Error, { fileName: options.fileName });
+                throw new TranscriptionError('unknown', '音声/動画データの読み取りに失敗しました。ファイルが大きい場合は再試行してください。', { cause: base64Error });
+            })
+            .then((base64Data): InlineMedia => {
+                if (!base64Data || base64Data.length === 0) {
+                    transcriptionProviderLogger.error('Base64データが空です', { fileName: options.fileName, blobSize: blob.size });
+                    throw new TranscriptionError('unknown', '音声/動画データの読み取りに失敗しました。');
+                }
+                return { type: 'inline', mimeType: options.mimeType, base64Data };
+            });
+        return inlineMediaPromise;
+    };
+
+    if (uploadingProviderIds.length > 0) {
+        transcriptionProviderLogger.info('インライン送信の上限を超えるため事前アップロードを使用', {
+            fileName: options.fileName,
+            blobSizeInMB: (blob.size / 1024 / 1024).toFixed(2),
+            imageSizeInMB: (imageBytes / 1024 / 1024).toFixed(2),
+            providerIds: uploadingProviderIds,
+        });
+    }
+
+    const results = await Promise.allSettled(
+        uniqueProviderIds.map(async (providerId): Promise<[TranscriptionProviderId, TranscriptionMedia]> => {
+            const provider = getTranscriptionProvider(providerId);
+            if (!uploadingProviderIds.includes(providerId) || !provider.uploadMedia) {
+                return [providerId, await getInlineMedia()];
+            }
+
+            const uploaded = await provider.uploadMedia(blob, {
+                ...options,
+                onProgress: (ratio) => {
+                    // 複数プロバイダーへアップロードする場合は平均を通知する
+                    uploadProgress.set(providerId, ratio);
+                    const total = Array.from(uploadProgress.values()).reduce((sum, value) => sum + value, 0);
+                    options.onProgress?.(total / uploadingProviderIds.length);
+                },
+            });
+            return [providerId, uploaded];
+        })
+    );
+
+    const preparedMedia = new Map<TranscriptionProviderId, TranscriptionMedia>();
+    for (const result of results) {
+        if (result.status === 'fulfilled') {
+            preparedMedia.set(result.value[0], result.value[1]);
+        }
+    }
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+        // 一部のみ成功した場合もアップロード済みのファイルを残さない
+        await releasePreparedMedia(preparedMedia);
+        throw failure.reason;
+    }
+
+    return preparedMedia;
+}
+
+/**
+ * prepareMediaForProviders で事前アップロードしたメディアを削除する
+ */
+export async function releasePreparedMedia(
+    preparedMedia: Map<TranscriptionProviderId, TranscriptionMedia>
+): Promise<void> {
+    await Promise.all(
+        Array.from(preparedMedia.entries()).map(async ([providerId, media]) => {
+            if (media.type !== 'uploaded') {
+                return;
+            }
+            await getTranscriptionProvider(providerId).deleteUploadedMedia?.(media);
+        })
+    );
+}
@@ -3,8 +3,11 @@
  */
 
 import { db } from './firebase';
-import { collection, doc, getDoc, setDoc, getDocs, query, orderBy, serverTimestamp, Timestamp, where, limit } from 'firebase/firestore';
+import { collection, doc, getDoc, setDoc, getDocs, query, orderBy, serverTimestamp, Timestamp, where, limit, increment } from 'firebase/firestore';
 import { createLogger } from './logger';
+import { estimateCostUsd, normalizeUsageTotals } from './tokenUsage';
+import { MonthlyUsage, TokenUsage, UsageTotals, UserTokenUsage } from '@/types/usage';
+import { AudioConversionSettings, normalizeConversionSettings } from '@/constants/conversionSettings';
 
 const userManagementLogger = createLogger('userManagement');
 
@@ -17,6 +20,41 @@ export interface UserProfile {
     lastLoginAt?: Date | Timestamp;
     promptCount?: number;
     documentCount?: number;
+    tokenUsage?: UserTokenUsage;
+    /** 割り当てられたプラン（未設定の場合は管理者設定の既定プラン） */
+    planTierId?: string;
+    /** 月ごとの利用量（キーは "YYYY-MM"） */
+    monthlyUsage?: Record<string, MonthlyUsage>;
+    /** ホームで最後に使った変換設定（未保存の場合は既定値） */
+    conversionSettings?: AudioConversionSettings;
+}
+
+/**
+ * Firestore の tokenUsage フィールドを UserTokenUsage に変換
+ */
+function toUserTokenUsage(data: { total?: Partial<UsageTotals>; byModel?: Record<string, Partial<UsageTotals>> } | undefined): UserTokenUsage | undefined {
+    if (!data) {
+        return undefined;
+    }
+    return {
+        total: normalizeUsageTotals(data.total),
+        byModel: Object.fromEntries(
+            Object.entries(data.byModel ?? {}).map(([model, totals]) => [model, normalizeUsageTotals(totals)])
+        ),
+    };
+}
+
+/**
+ * Firestore の monthlyUsage フィールドを月ごとの MonthlyUsage に変換
+ */
+export function toMonthlyUsageMap(data: Record<string, Partial<MonthlyUsage>> | undefined): Record<string, MonthlyUsage> {
+    return Object.fromEntries(
+        Object.entries(data ?? {}).map(([month, usage]) => [month, {
+            mediaSeconds: usage.mediaSeconds ?? 0,
+            documents: usage.documents ?? 0,
+            storageBytes: usage.storageBytes ?? 0,
+        }])
+    );
 }
 
 /**
@@ -101,6 +139,10 @@ export async function getUserProfile(uid: string): Promise<UserProfile | null> {
                 lastLoginAt: data.lastLoginAt?.toDate(),
                 promptCount: data.promptCount,
                 documentCount: data.documentCount,
+                tokenUsage: toUserTokenUsage(data.tokenUsage),
+                planTierId: data.planTierId,
+                monthlyUsage: toMonthlyUsageMap(data.monthlyUsage),
+                conversionSettings: data.conversionSettings ? normalizeConversionSettings(data.conversionSettings) : undefined,
             };
         }
 
@@ -135,6 +177,9 @@ export async function getAllUsers(): Promise<UserProfile[]> {
                 lastLoginAt: data.lastLoginAt?.toDate(),
                 promptCount: data.promptCount,
                 documentCount: data.documentCount,
+                tokenUsage: toUserTokenUsage(data.tokenUsage),
+                planTierId: data.planTierId,
+                monthlyUsage: toMonthlyUsageMap(data.monthlyUsage),
             });
         });
 
@@ -175,6 +220,9 @@ export async function getUserByEmail(email: string): Promise<UserProfile | null>
             lastLoginAt: data.lastLoginAt?.toDate?.(),
             promptCount: data.promptCount,
             documentCount: data.documentCount,
+            tokenUsage: toUserTokenUsage(data.tokenUsage),
+            planTierId: data.planTierId,
+            monthlyUsage: toMonthlyUsageMap(data.monthlyUsage),
         };
         userManagementLogger.info('メールアドレスによるユーザー検索が完了', {
             email,
@@ -228,3 +276,81 @@ export async function updateUserStats(uid: string, incrementPrompts: number = 0,
     }
 }
 
+/**
+ * 当月の利用量（処理時間・文書数・保存サイズ）を加算
+ * 月が変わると新しいキーに加算されるため、リセット処理は不要
+ * 記録できない場合は投げる（計上されないまま処理を続けないよう、呼び出し側で扱う）
+ */
+export async function recordMonthlyUsage(uid: string, month: string, delta: Partial<MonthlyUsage>): Promise<void> {
+    try {
+        const increments = Object.fromEntries(
+            Object.entries(delta)
+                .filter(([, value]) => value)
+                .map(([key, value]) => [key, increment(value)])
+        );
+        if (Object.keys(increments).length === 0) {
+            return;
+        }
+        await setDoc(
+            doc(db, 'users', uid),
+            { monthlyUsage: { [month]: increments } },
+            { merge: true }
+        );
+    } catch (error) {
+        userManagementLogger.error('月間利用量の記録に失敗', error, { uid, month, ...delta });
+        throw new Error('月間利用量の記録に失敗しました');
+    }
+}
+
+/**
+ * ユーザーのプランを変更（管理者用）
+ */
+export async function updateUserPlanTier(uid: string, planTierId: string): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', uid), { planTierId }, { merge: true });
+    } catch (error) {
+        userManagementLogger.error('プランの変更に失敗', error, { uid, planTierId });
+        throw new Error('プランの変更に失敗しました');
+    }
+}
+
+/**
+ * 変換設定を保存（次回以降のホームの初期値になる）
+ */
+export async function updateUserConversionSettings(uid: string, conversionSettings: AudioConversionSettings): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', uid), { conversionSettings }, { merge: true });
+    } catch (error) {
+        userManagementLogger.error('変換設定の保存に失敗', error, { uid });
+        throw new Error('変換設定の保存に失敗しました');
+    }
+}
+
+/**
+ * 文書生成のトークン使用量をユーザーの累計（全体・モデル別）に加算
+ * 同時に複数の文書を保存しても取りこぼさないよう increment で更新する
+ */
+export async function recordUserTokenUsage(uid: string, usage: TokenUsage): Promise<void> {
+    try {
+        const delta = {
+            promptTokens: increment(usage.promptTokens),
+            audioPromptTokens: increment(usage.audioPromptTokens),
+            candidatesTokens: increment(usage.candidatesTokens),
+            thoughtsTokens: increment(usage.thoughtsTokens),
+            totalTokens: increment(usage.totalTokens),
+            generationCount: increment(1),
+            estimatedCostUsd: increment(estimateCostUsd(usage)),
+        };
+        await setDoc(
+            doc(db, 'users', uid),
+            { tokenUsage: { total: delta, byModel: { [usage.model]: delta } } },
+            { merge: true }
+        );
+    } catch (error) {
+        userManagementLogger.error('トークン使用量の記録に失敗', error, {
+            uid,
+            model: usage.model,
+            totalTokens: usage.totalTokens,
+        });
+    }
+}
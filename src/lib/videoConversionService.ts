@@ -1,594 +1,527 @@
-import { VideoConverter } from '@/lib/ffmpeg';
-import { FileWithPrompts, FileProcessingStatus, SegmentStatus, DebugErrorMode } from '@/types/processing';
+import { ConversionWorkerClient, SegmentJobOutcome } from '@/lib/conversionWorker';
+import { CombinedAudioProcessing } from '@/lib/ffmpeg';
+import { SegmentRange } from '@/lib/segmentPlanning';
+import { AudioConversionSettings } from '@/constants/conversionSettings';
+import { isCombinedPreprocessingEnabled } from '@/constants/audioPreprocessing';
+import {
+    FileWithPrompts,
+    FileProcessingStatus,
+    SegmentStatus,
+    DebugErrorMode,
+    MapReduceGroup,
+    TimedAudio,
+} from '@/types/processing';
 import { calculateOverallProgress } from '@/utils/progressCalculator';
 import { createLogger } from './logger';
 
+const videoConversionLogger = createLogger('videoConversion');
+
+/** 前の区間の終わりとの差がこれ以下なら連続した区間とみなす（秒） */
+const SEGMENT_GAP_TOLERANCE_SECONDS = 0.01;
+
+type SetProcessingStatuses = React.Dispatch<React.SetStateAction<FileProcessingStatus[]>>;
+
 /**
- * 動画区間処理の設定
- * メモリ制限対策: 区間数が多いとFFmpeg WASMメモリが累積的に不足するため、
- * 最大区間数を制限し、必要に応じて区間長を自動調整します。
+ * 対象ファイルのステータスを更新
  */
-export const VIDEO_SEGMENT_CONFIG = {
-    /** 推奨される1区間の長さ（秒）*/
-    PREFERRED_SEGMENT_DURATION: 30,
-
-    /** 最大区間数（この値を超える場合は区間を自動延長）
-     * 目安: 各区間処理で約15MBのメモリが累積
-     * 60区間 × 15MB = 900MB の累積（1GB動画 + 900MB = WASM 2GB制限内で安全）
-     */
-    MAX_SEGMENT_COUNT: 60,
-} as const;
+const updateFileStatus = (
+    setProcessingStatuses: SetProcessingStatuses,
+    fileIndex: number,
+    update: (status: FileProcessingStatus) => FileProcessingStatus
+) => {
+    setProcessingStatuses(prev =>
+        prev.map((status, idx) => (idx === fileIndex ? update(status) : status))
+    );
+};
 
-const videoConversionLogger = createLogger('videoConversion');
+/**
+ * 結合した音声に適用する前処理（無音の削除・音量の正規化がなければ undefined）
+ */
+const getCombinedProcessing = (
+    settings: AudioConversionSettings,
+    audioSegments: TimedAudio[]
+): CombinedAudioProcessing | undefined => {
+    if (!isCombinedPreprocessingEnabled(settings.preprocessing)) {
+        return undefined;
+    }
+    return {
+        preprocessing: settings.preprocessing,
+        bitrate: settings.bitrate,
+        sampleRate: settings.sampleRate,
+        inputDuration: audioSegments.reduce((sum, segment) => sum + (segment.endTime - segment.startTime), 0),
+    };
+};
 
 /**
- * 区間ベースで動画を音声に変換
+ * 対象ファイルの区間のステータスを更新し、全体の進捗を再計算
  */
-export const convertVideoToAudioSegments = async (
-    file: FileWithPrompts,
+const updateSegmentStatus = (
+    setProcessingStatuses: SetProcessingStatuses,
     fileIndex: number,
-    converter: VideoConverter,
-    bitrate: string,
-    sampleRate: number,
-    debugErrorMode: DebugErrorMode,
-    setProcessingStatuses: React.Dispatch<React.SetStateAction<FileProcessingStatus[]>>
-): Promise<Blob | null> => {
-    // 共有入力ファイル名
-    const sharedInputFileName = `shared_input_${Date.now()}.${file.file.name.split('.').pop()}`;
+    segmentIndex: number,
+    update: (segment: SegmentStatus) => SegmentStatus
+) => {
+    updateFileStatus(setProcessingStatuses, fileIndex, status => {
+        const updatedSegments = [...status.segments];
+        updatedSegments[segmentIndex] = update(updatedSegments[segmentIndex]);
+        return {
+            ...status,
+            segments: updatedSegments,
+            audioConversionProgress: calculateOverallProgress(updatedSegments),
+        };
+    });
+};
 
-    try {
-        // 動画解析フェーズ開始
-        setProcessingStatuses(prev =>
-            prev.map((status, idx) =>
-                idx === fileIndex
-                    ? { ...status, phase: 'video_analysis' }
-                    : status
-            )
+/**
+ * 音声変換を中止した状態にする（変換途中の区間は未変換に戻し、再開時に変換し直す）
+ */
+const markConversionCancelled = (
+    setProcessingStatuses: SetProcessingStatuses,
+    fileIndex: number,
+    isResume: boolean
+) => {
+    updateFileStatus(setProcessingStatuses, fileIndex, status => {
+        const updatedSegments = status.segments.map(segment =>
+            segment.status === 'converting' ? { ...segment, status: 'pending' as const, progress: 0 } : segment
         );
+        return {
+            ...status,
+            segments: updatedSegments,
+            audioConversionProgress: calculateOverallProgress(updatedSegments),
+            status: 'error',
+            error: '音声変換を中止しました',
+            errorCode: 'cancelled',
+            failedPhase: 'audio_conversion',
+            ...(isResume ? { isResuming: false } : {}),
+        };
+    });
+};
 
-        // 動画の長さを取得（同時に共有ファイルも作成して再利用）
-        let totalDuration: number;
-        try {
-            const result = await converter.getVideoDurationWithSharedFile(file.file, sharedInputFileName);
-            totalDuration = result.duration;
-            videoConversionLogger.info(`[ファイル${fileIndex}] 動画情報取得完了: ${totalDuration}秒（共有ファイル: ${sharedInputFileName}）`);
-        } catch (durationError) {
-            const errorMessage = durationError instanceof Error ? durationError.message : '動画の長さを取得できませんでした';
-            setProcessingStatuses(prev =>
-                prev.map((status, idx) =>
-                    idx === fileIndex
-                        ? {
-                            ...status,
-                            status: 'error',
-                            error: errorMessage,
-                            failedPhase: 'audio_conversion'
-                        }
-                        : status
-                )
-            );
-            return null;
-        }
+/**
+ * Worker で区間変換ジョブを実行し、進捗をステータスに反映
+ * segments を省略した場合は Worker が動画を解析して区間を作成する
+ * 変換できた区間は audioSegments に区間番号の位置で格納する
+ */
+const runSegmentConversionJob = async (
+    file: FileWithPrompts,
+    fileIndex: number,
+    converter: ConversionWorkerClient,
+    segments: SegmentRange[] | undefined,
+    audioSegments: TimedAudio[],
+    settings: AudioConversionSettings,
+    debugErrorMode: DebugErrorMode,
+    setProcessingStatuses: SetProcessingStatuses,
+    signal: AbortSignal | undefined
+): Promise<SegmentJobOutcome> => {
+    if (signal?.aborted) {
+        return { status: 'cancelled' };
+    }
 
-        // 区間数とメモリを最適化: 区間数が多すぎる場合は区間を自動延長
-        const { PREFERRED_SEGMENT_DURATION, MAX_SEGMENT_COUNT } = VIDEO_SEGMENT_CONFIG;
-        let actualSegmentDuration: number;
-        const estimatedSegmentCount = Math.ceil(totalDuration / PREFERRED_SEGMENT_DURATION);
-
-        if (estimatedSegmentCount > MAX_SEGMENT_COUNT) {
-            // 区間数が上限を超える場合、区間を長くして区間数を削減
-            actualSegmentDuration = Math.ceil(totalDuration / MAX_SEGMENT_COUNT);
-            videoConversionLogger.info(
-                `[ファイル${fileIndex}] 区間数最適化: ` +
-                `${estimatedSegmentCount}区間 → ${MAX_SEGMENT_COUNT}区間以内 ` +
-                `(区間長: ${PREFERRED_SEGMENT_DURATION}秒 → ${actualSegmentDuration}秒)`
-            );
-        } else {
-            // 上限以内なら推奨値をそのまま使用
-            actualSegmentDuration = PREFERRED_SEGMENT_DURATION;
-            videoConversionLogger.info(
-                `[ファイル${fileIndex}] 区間設定: ` +
-                `約${estimatedSegmentCount}区間、区間長: ${actualSegmentDuration}秒`
-            );
+    // 区間の範囲（区間を指定した場合はその範囲、未指定の場合は解析後に通知される）
+    const segmentRanges = new Map<number, SegmentRange>(
+        (segments ?? []).map(segment => [segment.segmentIndex, segment])
+    );
+
+    const job = converter.convertSegments(
+        file.file,
+        {
+            segments,
+            preferredSegmentDuration: settings.segmentDuration,
+            bitrate: settings.bitrate,
+            sampleRate: settings.sampleRate,
+            outputProfileId: settings.outputProfileId,
+            preprocessing: settings.preprocessing,
+            audioTrackSelection: file.audioTrackSelection,
+            trimRange: file.trimRange,
+            conversionConcurrency: settings.schedule.conversionConcurrency,
+            failAtSegmentIndex: debugErrorMode.ffmpegError && fileIndex === debugErrorMode.errorAtFileIndex
+                ? debugErrorMode.errorAtSegmentIndex
+                : undefined,
+        },
+        {
+            onAnalysisProgress: (ratio) => {
+                updateFileStatus(setProcessingStatuses, fileIndex, status => ({
+                    ...status,
+                    analysisProgress: Math.round(ratio * 100),
+                }));
+            },
+            onSegmentsPlanned: (plan) => {
+                plan.segments.forEach(segment => segmentRanges.set(segment.segmentIndex, segment));
+                // ステータスを更新して音声変換フェーズへ
+                updateFileStatus(setProcessingStatuses, fileIndex, status => ({
+                    ...status,
+                    totalDuration: plan.totalDuration,
+                    segmentDuration: plan.segmentDuration,
+                    segments: plan.segments.map(segment => ({ ...segment, status: 'pending', progress: 0 })),
+                    phase: 'audio_conversion',
+                    analysisProgress: undefined,
+                }));
+            },
+            onSegmentStart: (segmentIndex) => {
+                updateSegmentStatus(setProcessingStatuses, fileIndex, segmentIndex, segment => ({
+                    ...segment,
+                    status: 'converting',
+                    error: undefined,
+                }));
+            },
+            onSegmentProgress: (segmentIndex, ratio) => {
+                updateSegmentStatus(setProcessingStatuses, fileIndex, segmentIndex, segment => ({
+                    ...segment,
+                    progress: Math.round(ratio * 100),
+                }));
+            },
+            onSegmentDone: (segmentIndex, outputBlob) => {
+                const range = segmentRanges.get(segmentIndex)!;
+                audioSegments[segmentIndex] = { startTime: range.startTime, endTime: range.endTime, audioBlob: outputBlob };
+                updateFileStatus(setProcessingStatuses, fileIndex, status => {
+                    const updatedSegments = [...status.segments];
+                    updatedSegments[segmentIndex] = {
+                        ...updatedSegments[segmentIndex],
+                        status: 'completed',
+                        progress: 100,
+                        audioBlob: outputBlob,
+                    };
+                    return {
+                        ...status,
+                        segments: updatedSegments,
+                        completedSegmentIndices: status.completedSegmentIndices.includes(segmentIndex)
+                            ? status.completedSegmentIndices
+                            : [...status.completedSegmentIndices, segmentIndex],
+                        audioConversionProgress: calculateOverallProgress(updatedSegments),
+                    };
+                });
+            },
         }
+    );
 
-        // 区間を作成
-        const segments: SegmentStatus[] = [];
-        let currentTime = 0;
-        let segmentIndex = 0;
-
-        while (currentTime < totalDuration) {
-            const endTime = Math.min(currentTime + actualSegmentDuration, totalDuration);
-            segments.push({
-                segmentIndex,
-                startTime: currentTime,
-                endTime,
-                status: 'pending',
-                progress: 0,
-            });
-            currentTime = endTime;
-            segmentIndex++;
-        }
+    const onAbort = () => job.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        return await job.promise;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
 
-        videoConversionLogger.info(
-            `[ファイル${fileIndex}] 区間生成完了: ${segments.length}区間 ` +
-            `(動画長: ${totalDuration}秒、区間長: ${actualSegmentDuration}秒)`
-        );
+/**
+ * 区間変換ジョブの失敗・中止をステータスに反映
+ */
+const applyFailedOutcome = (
+    outcome: Exclude<SegmentJobOutcome, { status: 'completed' }>,
+    fileIndex: number,
+    setProcessingStatuses: SetProcessingStatuses,
+    isResume: boolean
+) => {
+    if (outcome.status === 'cancelled') {
+        videoConversionLogger.info(`[ファイル${fileIndex}] 音声変換を中止`);
+        markConversionCancelled(setProcessingStatuses, fileIndex, isResume);
+        return;
+    }
 
-        // ステータスを更新して音声変換フェーズへ
-        setProcessingStatuses(prev =>
-            prev.map((status, idx) =>
-                idx === fileIndex
-                    ? { ...status, totalDuration, segments, segmentDuration: actualSegmentDuration, phase: 'audio_conversion' }
-                    : status
-            )
-        );
+    const { segmentIndex } = outcome;
+    videoConversionLogger.info(`❌ [ファイル${fileIndex}] 音声変換失敗: ${outcome.error}`);
+    updateFileStatus(setProcessingStatuses, fileIndex, status => {
+        const updatedSegments = [...status.segments];
+        if (segmentIndex !== undefined) {
+            updatedSegments[segmentIndex] = { ...updatedSegments[segmentIndex], status: 'error', error: outcome.error };
+        }
+        return {
+            ...status,
+            segments: updatedSegments,
+            status: 'error',
+            error: segmentIndex !== undefined ? `区間${segmentIndex + 1}の変換に失敗しました` : outcome.error,
+            failedPhase: 'audio_conversion',
+            ...(isResume ? { isResuming: false } : {}),
+        };
+    });
+};
 
-        // 共有ファイルは既にgetVideoDurationWithSharedFileで作成済みなのでスキップ
-        videoConversionLogger.info(`[ファイル${fileIndex}] 共有入力ファイル再利用: ${sharedInputFileName}（書き込みスキップ）`);
+/**
+ * 区間ベースで動画を音声に変換（区間ごとの音声を結合せずに返す）
+ * signal を中止すると、実行中の区間の変換が終わった時点で中止する
+ */
+export const convertVideoToSegmentBlobs = async (
+    file: FileWithPrompts,
+    fileIndex: number,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
+    debugErrorMode: DebugErrorMode,
+    setProcessingStatuses: SetProcessingStatuses,
+    signal?: AbortSignal
+): Promise<TimedAudio[] | null> => {
+    // 動画解析フェーズ開始
+    updateFileStatus(setProcessingStatuses, fileIndex, status => ({ ...status, phase: 'video_analysis' }));
+
+    const audioSegments: TimedAudio[] = [];
+    const outcome = await runSegmentConversionJob(
+        file, fileIndex, converter, undefined, audioSegments, settings, debugErrorMode, setProcessingStatuses, signal
+    );
+    if (outcome.status !== 'completed') {
+        applyFailedOutcome(outcome, fileIndex, setProcessingStatuses, false);
+        return null;
+    }
 
-        // 各区間を順次変換
-        const audioSegments: Blob[] = [];
-        for (let segIdx = 0; segIdx < segments.length; segIdx++) {
-            const segment = segments[segIdx];
+    videoConversionLogger.info(`[ファイル${fileIndex}] 区間変換完了: ${audioSegments.length}区間`);
+    return audioSegments;
+};
 
-            // 区間変換開始
-            setProcessingStatuses(prev =>
-                prev.map((status, idx) => {
-                    if (idx === fileIndex) {
-                        const updatedSegments = [...status.segments];
-                        updatedSegments[segIdx] = { ...updatedSegments[segIdx], status: 'converting' };
-                        return { ...status, segments: updatedSegments };
-                    }
-                    return status;
-                })
-            );
+/**
+ * 区間ベースで動画を音声に変換（再開用・区間ごとの音声を結合せずに返す）
+ */
+export const resumeVideoConversionToSegmentBlobs = async (
+    file: FileWithPrompts,
+    fileIndex: number,
+    status: FileProcessingStatus,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
+    debugErrorMode: DebugErrorMode,
+    setProcessingStatuses: SetProcessingStatuses,
+    signal?: AbortSignal
+): Promise<TimedAudio[] | null> => {
+    videoConversionLogger.info(`📦 [再開] 区間ベース処理開始`);
+    videoConversionLogger.info(`  - 総区間数: ${status.segments.length}`);
+    videoConversionLogger.info(`  - 完了済み区間数: ${status.completedSegmentIndices.length}`);
+    videoConversionLogger.info(`  - 残り区間数: ${status.segments.length - status.completedSegmentIndices.length}`);
 
-            // デバッグ用: 意図的にFFmpegエラーを発生させる
-            let segmentResult;
-            if (debugErrorMode.ffmpegError && fileIndex === debugErrorMode.errorAtFileIndex && segIdx === debugErrorMode.errorAtSegmentIndex) {
-                // 指定された区間でエラーを発生
-                segmentResult = {
-                    success: false,
-                    segmentIndex: segIdx,
-                    startTime: segment.startTime,
-                    endTime: segment.endTime,
-                    error: `[デバッグ] 区間${segIdx + 1}で意図的に発生させたFFmpegエラー`
-                };
-            } else {
-                segmentResult = await converter.convertSegmentToMp3(
-                    file.file,
-                    segment.startTime,
-                    segment.endTime,
-                    segIdx,
-                    {
-                        bitrate,
-                        sampleRate,
-                        inputFileName: sharedInputFileName, // 共有ファイルを使用
-                        onProgress: (progress) => {
-                            // 各セグメントの進捗を更新
-                            setProcessingStatuses(prev =>
-                                prev.map((status, idx) => {
-                                    if (idx === fileIndex) {
-                                        const updatedSegments = [...status.segments];
-                                        updatedSegments[segIdx] = {
-                                            ...updatedSegments[segIdx],
-                                            progress: Math.round(progress.ratio * 100)
-                                        };
-                                        // 全体の進捗を再計算
-                                        const overallProgress = calculateOverallProgress(updatedSegments);
-                                        return {
-                                            ...status,
-                                            segments: updatedSegments,
-                                            audioConversionProgress: overallProgress
-                                        };
-                                    }
-                                    return status;
-                                })
-                            );
-                        },
-                    }
-                );
-            }
-
-            if (!segmentResult.success || !segmentResult.outputBlob) {
-                // 区間変換エラー
-                setProcessingStatuses(prev =>
-                    prev.map((status, idx) => {
-                        if (idx === fileIndex) {
-                            const updatedSegments = [...status.segments];
-                            updatedSegments[segIdx] = {
-                                ...updatedSegments[segIdx],
-                                status: 'error',
-                                error: segmentResult.error || '変換失敗'
-                            };
-                            return {
-                                ...status,
-                                segments: updatedSegments,
-                                status: 'error',
-                                error: `区間${segIdx + 1}の変換に失敗しました`,
-                                failedPhase: 'audio_conversion'
-                            };
-                        }
-                        return status;
-                    })
-                );
-                // エラー時は共有ファイルを削除
-                try {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    await (converter as any).ffmpeg.deleteFile(sharedInputFileName);
-                } catch {
-                    // 削除エラーは無視
-                }
-                return null; // エラーが発生したら null を返す
-            } else {
-                // 区間変換成功
-                audioSegments.push(segmentResult.outputBlob);
-
-                setProcessingStatuses(prev =>
-                    prev.map((status, idx) => {
-                        if (idx === fileIndex) {
-                            const updatedSegments = [...status.segments];
-                            updatedSegments[segIdx] = {
-                                ...updatedSegments[segIdx],
-                                status: 'completed',
-                                progress: 100,
-                                audioBlob: segmentResult.outputBlob
-                            };
-                            const newCompletedIndices = [...status.completedSegmentIndices, segIdx];
-
-                            // 全体の進捗を再計算
-                            const overallProgress = calculateOverallProgress(updatedSegments);
-
-                            return {
-                                ...status,
-                                segments: updatedSegments,
-                                completedSegmentIndices: newCompletedIndices,
-                                audioConversionProgress: overallProgress
-                            };
-                        }
-                        return status;
-                    })
-                );
-            }
+    // まず完了済みの区間のBlobを収集（スキップした区間は変換しない）
+    const audioSegments: TimedAudio[] = [];
+    const pendingSegments: SegmentRange[] = [];
+    const skippedCount = status.segments.filter(segment => segment.status === 'skipped').length;
+    for (const segment of status.segments) {
+        if (segment.status === 'skipped') {
+            continue;
         }
-
-        // 共有入力ファイルを削除
-        videoConversionLogger.info(`[ファイル${fileIndex}] 共有入力ファイル削除: ${sharedInputFileName}`);
-        try {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            await (converter as any).ffmpeg.deleteFile(sharedInputFileName);
-        } catch {
-            // 削除エラーは無視
+        if (segment.status === 'completed' && segment.audioBlob) {
+            audioSegments[segment.segmentIndex] = {
+                startTime: segment.startTime,
+                endTime: segment.endTime,
+                audioBlob: segment.audioBlob,
+            };
+        } else {
+            pendingSegments.push({ segmentIndex: segment.segmentIndex, startTime: segment.startTime, endTime: segment.endTime });
         }
+    }
+    videoConversionLogger.info(`📊 [再開] 完了済みBlob収集完了: ${audioSegments.filter(Boolean).length}個`);
 
-        // すべての区間が完了したか確認
-        const allSegmentsCompleted = audioSegments.length === segments.length;
-        if (!allSegmentsCompleted) {
+    // 未完了の区間から再開
+    if (pendingSegments.length > 0) {
+        const outcome = await runSegmentConversionJob(
+            file, fileIndex, converter, pendingSegments, audioSegments, settings, debugErrorMode, setProcessingStatuses, signal
+        );
+        if (outcome.status !== 'completed') {
+            applyFailedOutcome(outcome, fileIndex, setProcessingStatuses, true);
             return null;
         }
+    }
 
-        // 音声結合フェーズ
-        setProcessingStatuses(prev =>
-            prev.map((status, idx) =>
-                idx === fileIndex
-                    ? { ...status, phase: 'audio_concat' }
-                    : status
-            )
-        );
-
-        const concatResult = await converter.concatenateAudioSegments(audioSegments);
+    // すべての区間が完了したか確認
+    const convertedSegments = audioSegments.filter(Boolean);
+    videoConversionLogger.info(`📊 [再開] 完了確認: ${convertedSegments.length}/${status.segments.length} 区間（スキップ ${skippedCount}区間）`);
+    if (convertedSegments.length + skippedCount !== status.segments.length) {
+        return null;
+    }
+    if (convertedSegments.length === 0) {
+        updateFileStatus(setProcessingStatuses, fileIndex, current => ({
+            ...current,
+            status: 'error',
+            error: 'すべての区間をスキップしたため、文書を生成できません',
+            failedPhase: 'audio_conversion',
+            isResuming: false,
+        }));
+        return null;
+    }
 
-        if (!concatResult.success || !concatResult.outputBlob) {
-            setProcessingStatuses(prev =>
-                prev.map((status, idx) =>
-                    idx === fileIndex
-                        ? {
-                            ...status,
-                            status: 'error',
-                            error: concatResult.error || '音声結合に失敗しました',
-                            failedPhase: 'audio_conversion'
-                        }
-                        : status
-                )
-            );
-            return null;
-        }
+    videoConversionLogger.info('🎉 [再開] すべての区間完了');
+    // スキップした区間を除いて詰める（文書生成では欠落した範囲として示す）
+    return convertedSegments;
+};
 
-        return concatResult.outputBlob;
-    } catch (error) {
-        videoConversionLogger.error('音声変換エラー:', error);
-        // エラー時は共有ファイルを削除
-        try {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            await (converter as any).ffmpeg.deleteFile(sharedInputFileName);
-        } catch {
-            // 削除エラーは無視
-        }
+/**
+ * 変換済みの区間音声を1つに結合（結合フェーズの表示とエラー時のステータス更新を含む）
+ * 無音の削除・音量の正規化は結合した音声全体に適用する
+ */
+const concatenateSegmentBlobs = async (
+    audioSegments: TimedAudio[],
+    fileIndex: number,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
+    setProcessingStatuses: SetProcessingStatuses,
+    isResume: boolean
+): Promise<Blob | null> => {
+    // 音声結合フェーズ
+    setProcessingStatuses(prev =>
+        prev.map((status, idx) =>
+            idx === fileIndex
+                ? { ...status, phase: 'audio_concat' }
+                : status
+        )
+    );
+
+    videoConversionLogger.info(`🔗 [ファイル${fileIndex}] 音声結合開始: ${audioSegments.length}個のセグメント`);
+    const concatResult = await converter.concatenateAudioSegments(
+        audioSegments.map(segment => segment.audioBlob),
+        getCombinedProcessing(settings, audioSegments)
+    );
+
+    if (!concatResult.success || !concatResult.outputBlob) {
+        videoConversionLogger.info(`❌ [ファイル${fileIndex}] 音声結合失敗: ${concatResult.error}`);
         setProcessingStatuses(prev =>
             prev.map((status, idx) =>
                 idx === fileIndex
                     ? {
                         ...status,
                         status: 'error',
-                        error: error instanceof Error ? error.message : '不明なエラー',
-                        failedPhase: 'audio_conversion'
+                        error: concatResult.error || '音声結合に失敗しました',
+                        failedPhase: 'audio_conversion',
+                        ...(isResume ? { isResuming: false } : {}),
                     }
                     : status
             )
         );
         return null;
     }
+
+    videoConversionLogger.info(`🎊 [ファイル${fileIndex}] 音声結合成功 (Blobサイズ: ${concatResult.outputBlob.size} bytes)`);
+    updateFileStatus(setProcessingStatuses, fileIndex, status => ({
+        ...status,
+        removedDuration: concatResult.removedDuration,
+    }));
+    return concatResult.outputBlob;
 };
 
 /**
- * 区間ベースで動画を音声に変換（再開用）
+ * 区間ベースで動画を音声に変換し、1つの音声に結合
+ */
+export const convertVideoToAudioSegments = async (
+    file: FileWithPrompts,
+    fileIndex: number,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
+    debugErrorMode: DebugErrorMode,
+    setProcessingStatuses: SetProcessingStatuses,
+    signal?: AbortSignal
+): Promise<Blob | null> => {
+    const audioSegments = await convertVideoToSegmentBlobs(
+        file, fileIndex, converter, settings, debugErrorMode, setProcessingStatuses, signal
+    );
+    if (!audioSegments) {
+        return null;
+    }
+    if (signal?.aborted) {
+        markConversionCancelled(setProcessingStatuses, fileIndex, false);
+        return null;
+    }
+    return concatenateSegmentBlobs(audioSegments, fileIndex, converter, settings, setProcessingStatuses, false);
+};
+
+/**
+ * 区間ベースで動画を音声に変換し、1つの音声に結合（再開用）
  */
 export const resumeVideoConversion = async (
     file: FileWithPrompts,
     fileIndex: number,
     status: FileProcessingStatus,
-    converter: VideoConverter,
-    bitrate: string,
-    sampleRate: number,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
     debugErrorMode: DebugErrorMode,
-    setProcessingStatuses: React.Dispatch<React.SetStateAction<FileProcessingStatus[]>>
+    setProcessingStatuses: SetProcessingStatuses,
+    signal?: AbortSignal
 ): Promise<Blob | null> => {
-    videoConversionLogger.info(`📦 [再開] 区間ベース処理開始`);
-    videoConversionLogger.info(`  - 総区間数: ${status.segments.length}`);
-    videoConversionLogger.info(`  - 完了済み区間数: ${status.completedSegmentIndices.length}`);
-    videoConversionLogger.info(`  - 残り区間数: ${status.segments.length - status.completedSegmentIndices.length}`);
-
-    // 共有入力ファイル名
-    const sharedInputFileName = `shared_input_resume_${Date.now()}.${file.file.name.split('.').pop()}`;
-    let sharedFileWritten = false;
-
-    const audioSegments: Blob[] = [];
-
-    videoConversionLogger.info('🗂️ [再開] 完了済み区間のBlob収集中...');
-    // まず完了済みの区間のBlobを収集
-    for (let segIdx = 0; segIdx < status.segments.length; segIdx++) {
-        const segment = status.segments[segIdx];
-        if (segment.status === 'completed' && segment.audioBlob) {
-            audioSegments[segIdx] = segment.audioBlob;
-            videoConversionLogger.info(`  ✅ 区間${segIdx + 1}は完了済み (Blobサイズ: ${segment.audioBlob.size} bytes)`);
-        }
+    const audioSegments = await resumeVideoConversionToSegmentBlobs(
+        file, fileIndex, status, converter, settings, debugErrorMode, setProcessingStatuses, signal
+    );
+    if (!audioSegments) {
+        return null;
     }
-    videoConversionLogger.info(`📊 [再開] 完了済みBlob収集完了: ${audioSegments.filter(Boolean).length}個`);
-
-    try {
-        videoConversionLogger.info('🔁 [再開] 未完了の区間から変換再開...');
-        // 未完了の区間から再開
-        for (let segIdx = 0; segIdx < status.segments.length; segIdx++) {
-            const segment = status.segments[segIdx];
-
-            // 完了済みの区間はスキップ
-            if (segment.status === 'completed' && segment.audioBlob) {
-                continue;
-            }
-
-            // 最初の未完了区間で共有ファイルを書き込む
-            if (!sharedFileWritten) {
-                videoConversionLogger.info(`[再開] 共有入力ファイル書き込み開始: ${sharedInputFileName}`);
-                try {
-                    const { fetchFile } = await import('@ffmpeg/util');
-                    const fileData = await fetchFile(file.file);
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    await (converter as any).ffmpeg.writeFile(sharedInputFileName, fileData);
-                    sharedFileWritten = true;
-                    videoConversionLogger.info(`[再開] 共有入力ファイル書き込み完了`);
-                } catch (writeError) {
-                    const errorMessage = writeError instanceof Error ? writeError.message : '不明なエラー';
-                    videoConversionLogger.error(`[再開] 共有入力ファイル書き込みエラー:`, writeError);
-                    setProcessingStatuses(prev =>
-                        prev.map((s, idx) =>
-                            idx === fileIndex
-                                ? {
-                                    ...s,
-                                    status: 'error',
-                                    error: `ファイル書き込み失敗: ${errorMessage}`,
-                                    failedPhase: 'audio_conversion',
-                                    isResuming: false
-                                }
-                                : s
-                        )
-                    );
-                    return null;
-                }
-            }
-
-            videoConversionLogger.info(`🎬 [再開] 区間${segIdx + 1}/${status.segments.length}を変換中 (${segment.startTime}s - ${segment.endTime}s)`);
-
-            // 区間変換開始
-            setProcessingStatuses(prev =>
-                prev.map((s, idx) => {
-                    if (idx === fileIndex) {
-                        const updatedSegments = [...s.segments];
-                        updatedSegments[segIdx] = { ...updatedSegments[segIdx], status: 'converting', error: undefined };
-                        return { ...s, segments: updatedSegments };
-                    }
-                    return s;
-                })
-            );
-
-            videoConversionLogger.info(`🧪 [再開] デバッグモード確認: ffmpegError=${debugErrorMode.ffmpegError}, targetFile=${debugErrorMode.errorAtFileIndex}, targetSegment=${debugErrorMode.errorAtSegmentIndex}`);
-            // デバッグ用: 意図的にFFmpegエラーを発生させる
-            let segmentResult;
-            if (debugErrorMode.ffmpegError && fileIndex === debugErrorMode.errorAtFileIndex && segIdx === debugErrorMode.errorAtSegmentIndex) {
-                videoConversionLogger.info(`💥 [再開] デバッグエラー発生: 区間${segIdx + 1}`);
-                segmentResult = {
-                    success: false,
-                    segmentIndex: segIdx,
-                    startTime: segment.startTime,
-                    endTime: segment.endTime,
-                    error: `[デバッグ] 区間${segIdx + 1}で意図的に発生させたFFmpegエラー`
-                };
-            } else {
-                videoConversionLogger.info(`🔨 [再開] convertSegmentToMp3呼び出し: 区間${segIdx + 1}`);
-                segmentResult = await converter.convertSegmentToMp3(
-                    file.file,
-                    segment.startTime,
-                    segment.endTime,
-                    segIdx,
-                    {
-                        bitrate,
-                        sampleRate,
-                        inputFileName: sharedInputFileName, // 共有ファイルを使用
-                        onProgress: (progress) => {
-                            // 各セグメントの進捗を更新
-                            setProcessingStatuses(prev =>
-                                prev.map((s, idx) => {
-                                    if (idx === fileIndex) {
-                                        const updatedSegments = [...s.segments];
-                                        updatedSegments[segIdx] = {
-                                            ...updatedSegments[segIdx],
-                                            progress: Math.round(progress.ratio * 100)
-                                        };
-                                        // 全体の進捗を再計算
-                                        const overallProgress = calculateOverallProgress(updatedSegments);
-                                        return {
-                                            ...s,
-                                            segments: updatedSegments,
-                                            audioConversionProgress: overallProgress
-                                        };
-                                    }
-                                    return s;
-                                })
-                            );
-                        },
-                    }
-                );
-                videoConversionLogger.info(`✅ [再開] convertSegmentToMp3完了: 区間${segIdx + 1}, success=${segmentResult.success}`);
-            }
-
-            videoConversionLogger.info(`🔍 [再開] 変換結果チェック: success=${segmentResult.success}, hasBlob=${!!segmentResult.outputBlob}`);
-            if (!segmentResult.success || !segmentResult.outputBlob) {
-                videoConversionLogger.info(`❌ [再開] 区間${segIdx + 1}変換失敗 - エラーステータス設定`);
-                // 区間変換エラー
-                setProcessingStatuses(prev =>
-                    prev.map((s, idx) => {
-                        if (idx === fileIndex) {
-                            const updatedSegments = [...s.segments];
-                            updatedSegments[segIdx] = {
-                                ...updatedSegments[segIdx],
-                                status: 'error',
-                                error: segmentResult.error || '変換失敗'
-                            };
-                            return {
-                                ...s,
-                                segments: updatedSegments,
-                                status: 'error',
-                                error: `区間${segIdx + 1}の変換に失敗しました`,
-                                failedPhase: 'audio_conversion',
-                                isResuming: false
-                            };
-                        }
-                        return s;
-                    })
-                );
-                videoConversionLogger.info(`🛑 [再開] ループ終了 - エラーのため中断`);
-                return null; // エラーが発生したら null を返す
-            } else {
-                videoConversionLogger.info(`✅ [再開] 区間${segIdx + 1}変換成功 (Blobサイズ: ${segmentResult.outputBlob.size} bytes)`);
-                // 区間変換成功
-                audioSegments[segIdx] = segmentResult.outputBlob;
-
-                setProcessingStatuses(prev =>
-                    prev.map((s, idx) => {
-                        if (idx === fileIndex) {
-                            const updatedSegments = [...s.segments];
-                            updatedSegments[segIdx] = {
-                                ...updatedSegments[segIdx],
-                                status: 'completed',
-                                progress: 100,
-                                audioBlob: segmentResult.outputBlob
-                            };
-                            const newCompletedIndices = [...s.completedSegmentIndices];
-                            if (!newCompletedIndices.includes(segIdx)) {
-                                newCompletedIndices.push(segIdx);
-                            }
-
-                            // 全体の進捗を再計算
-                            const overallProgress = calculateOverallProgress(updatedSegments);
-
-                            return {
-                                ...s,
-                                segments: updatedSegments,
-                                completedSegmentIndices: newCompletedIndices,
-                                audioConversionProgress: overallProgress
-                            };
-                        }
-                        return s;
-                    })
-                );
-            }
-        }
+    if (signal?.aborted) {
+        markConversionCancelled(setProcessingStatuses, fileIndex, true);
+        return null;
+    }
+    return concatenateSegmentBlobs(audioSegments, fileIndex, converter, settings, setProcessingStatuses, true);
+};
 
-        // 共有入力ファイルを削除
-        if (sharedFileWritten) {
-            videoConversionLogger.info(`[再開] 共有入力ファイル削除: ${sharedInputFileName}`);
-            try {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                await (converter as any).ffmpeg.deleteFile(sharedInputFileName);
-            } catch {
-                // 削除エラーは無視
-            }
+/**
+ * マップリデュース生成用に、連続する区間を groupDurationSeconds 以内のグループへまとめて結合
+ * グループ単位で文書生成することで、区間数ぶんのAPI呼び出しを避ける
+ * スキップした区間の前後は別のグループにする（グループの範囲に欠落した範囲を含めない）
+ */
+export const groupSegmentBlobs = async (
+    audioSegments: TimedAudio[],
+    fileIndex: number,
+    converter: ConversionWorkerClient,
+    settings: AudioConversionSettings,
+    groupDurationSeconds: number,
+    setProcessingStatuses: SetProcessingStatuses,
+    isResume: boolean,
+    signal?: AbortSignal
+): Promise<MapReduceGroup[] | null> => {
+    setProcessingStatuses(prev =>
+        prev.map((status, idx) =>
+            idx === fileIndex
+                ? { ...status, phase: 'audio_concat' }
+                : status
+        )
+    );
+
+    const groupedSegments: TimedAudio[][] = [];
+    for (const segment of audioSegments) {
+        const currentGroup = groupedSegments[groupedSegments.length - 1];
+        const isContiguous = currentGroup
+            && segment.startTime - currentGroup[currentGroup.length - 1].endTime <= SEGMENT_GAP_TOLERANCE_SECONDS;
+        if (isContiguous && segment.endTime - currentGroup[0].startTime <= groupDurationSeconds) {
+            currentGroup.push(segment);
+        } else {
+            groupedSegments.push([segment]);
         }
+    }
 
-        videoConversionLogger.info('🏁 [再開] 区間ループ終了');
-        // すべての区間が完了したか確認
-        const allSegmentsCompleted = audioSegments.filter(Boolean).length === status.segments.length;
-        videoConversionLogger.info(`📊 [再開] 完了確認: ${audioSegments.filter(Boolean).length}/${status.segments.length} 区間`);
+    videoConversionLogger.info(
+        `[ファイル${fileIndex}] マップリデュース用グループ作成: ${audioSegments.length}区間 → ${groupedSegments.length}グループ`
+    );
 
-        if (!allSegmentsCompleted) {
-            videoConversionLogger.info(`⚠️ [再開] 未完了 - 処理中断 (完了: ${audioSegments.filter(Boolean).length}, 必要: ${status.segments.length})`);
+    const groups: MapReduceGroup[] = [];
+    let removedDuration: number | undefined;
+    for (let groupIndex = 0; groupIndex < groupedSegments.length; groupIndex++) {
+        if (signal?.aborted) {
+            markConversionCancelled(setProcessingStatuses, fileIndex, isResume);
             return null;
         }
 
-        videoConversionLogger.info('🎉 [再開] すべての区間完了 - 音声結合フェーズへ');
-        // 音声結合フェーズ
-        setProcessingStatuses(prev =>
-            prev.map((s, idx) =>
-                idx === fileIndex
-                    ? { ...s, phase: 'audio_concat' }
-                    : s
-            )
+        const groupSegments = groupedSegments[groupIndex];
+        // 無音の削除・音量の正規化はグループごとに結合した音声に適用する
+        const concatResult = await converter.concatenateAudioSegments(
+            groupSegments.map(segment => segment.audioBlob),
+            getCombinedProcessing(settings, groupSegments)
         );
 
-        videoConversionLogger.info(`🔗 [再開] 音声結合開始: ${audioSegments.length}個のセグメント`);
-        const concatResult = await converter.concatenateAudioSegments(audioSegments);
-        videoConversionLogger.info(`✅ [再開] 音声結合完了: success=${concatResult.success}`);
-
         if (!concatResult.success || !concatResult.outputBlob) {
-            videoConversionLogger.info(`❌ [再開] 音声結合失敗: ${concatResult.error}`);
             setProcessingStatuses(prev =>
-                prev.map((s, idx) =>
+                prev.map((status, idx) =>
                     idx === fileIndex
                         ? {
-                            ...s,
+                            ...status,
                             status: 'error',
-                            error: concatResult.error || '音声結合に失敗しました',
+                            error: concatResult.error || `グループ${groupIndex + 1}の音声結合に失敗しました`,
                             failedPhase: 'audio_conversion',
-                            isResuming: false
+                            ...(isResume ? { isResuming: false } : {}),
                         }
-                        : s
+                        : status
                 )
             );
             return null;
         }
 
-        videoConversionLogger.info(`🎊 [再開] 音声結合成功 (Blobサイズ: ${concatResult.outputBlob.size} bytes) - 文書生成へ`);
-        return concatResult.outputBlob;
-    } catch (error) {
-        // エラー時は共有ファイルを削除
-        if (sharedFileWritten) {
-            try {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                await (converter as any).ffmpeg.deleteFile(sharedInputFileName);
-            } catch {
-                // 削除エラーは無視
-            }
+        groups.push({
+            groupIndex,
+            startTime: groupSegments[0].startTime,
+            endTime: groupSegments[groupSegments.length - 1].endTime,
+            audioBlob: concatResult.outputBlob,
+        });
+        if (concatResult.removedDuration !== undefined) {
+            removedDuration = (removedDuration ?? 0) + concatResult.removedDuration;
         }
-        throw error;
     }
-};
 
+    updateFileStatus(setProcessingStatuses, fileIndex, status => ({ ...status, removedDuration }));
+    return groups;
+};
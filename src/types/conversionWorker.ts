@@ -0,0 +1,63 @@
+import type { CombinedAudioProcessing, ConversionResult, FFmpegLoadFailureReason } from '@/lib/ffmpeg';
+import type { SegmentPlan, SegmentRange } from '@/lib/segmentPlanning';
+import type { FFmpegCoreVariant } from '@/constants/ffmpegCore';
+import type { AudioPreprocessingOptions } from '@/constants/audioPreprocessing';
+import type { AudioOutputProfileId } from '@/constants/audioOutputProfiles';
+import type { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import type { MediaProbeResult } from './mediaProbe';
+import type { MediaTrimRange } from './processing';
+import type { VideoKeyframe } from './keyframes';
+
+/**
+ * 音声変換 Worker（src/workers/conversion.worker.ts）とのメッセージ
+ * requestId は ConversionWorkerClient が採番し、応答・イベントは同じ requestId で返る
+ */
+
+export interface ConvertSegmentsOptions {
+    /** 変換する区間（省略時は動画の長さを取得して区間を作成する） */
+    segments?: SegmentRange[];
+    /** 区間を作成する場合の基準の長さ（秒、省略時は VIDEO_SEGMENT_CONFIG の値） */
+    preferredSegmentDuration?: number;
+    bitrate: string;
+    sampleRate: number;
+    /** 出力形式（省略時は MP3） */
+    outputProfileId?: AudioOutputProfileId;
+    /** 無音の削除・音量の正規化などの前処理 */
+    preprocessing?: AudioPreprocessingOptions;
+    /** 使う音声トラック・チャンネル（省略時は FFmpeg が選ぶトラックをそのまま使う） */
+    audioTrackSelection?: AudioTrackSelection;
+    /** 処理する範囲（区間を作成する場合のみ使う。省略時はファイル全体） */
+    trimRange?: MediaTrimRange;
+    /** 同時に変換するファイル数（区間数の上限を、メモリを分け合う前提で求める。省略時は 1） */
+    conversionConcurrency?: number;
+    /** デバッグ用: この区間で意図的にエラーを発生させる */
+    failAtSegmentIndex?: number;
+}
+
+export type ConversionWorkerRequest =
+    | { type: 'load'; requestId: number }
+    | ({ type: 'convert_segments'; requestId: number; file: File } & ConvertSegmentsOptions)
+    | { type: 'cancel'; requestId: number }
+    | { type: 'concat'; requestId: number; segments: Blob[]; processing?: CombinedAudioProcessing }
+    | { type: 'probe'; requestId: number; file: File }
+    | { type: 'extract_clip'; requestId: number; file: File; range: MediaTrimRange }
+    | { type: 'extract_subtitles'; requestId: number; file: File; streamIndex: number }
+    | { type: 'extract_keyframes'; requestId: number; file: File; range?: MediaTrimRange };
+
+export type ConversionWorkerEvent =
+    | { type: 'loaded'; requestId: number; variant: FFmpegCoreVariant }
+    | { type: 'load_error'; requestId: number; reason: FFmpegLoadFailureReason; variant: FFmpegCoreVariant; assetUrl?: string }
+    | { type: 'analysis_progress'; requestId: number; ratio: number }
+    | { type: 'segments_planned'; requestId: number; plan: SegmentPlan }
+    | { type: 'segment_start'; requestId: number; segmentIndex: number }
+    | { type: 'segment_progress'; requestId: number; segmentIndex: number; ratio: number }
+    | { type: 'segment_done'; requestId: number; segmentIndex: number; outputBlob: Blob }
+    | { type: 'segment_error'; requestId: number; segmentIndex: number; error: string }
+    | { type: 'job_done'; requestId: number }
+    | { type: 'job_error'; requestId: number; error: string }
+    | { type: 'job_cancelled'; requestId: number }
+    | { type: 'concat_done'; requestId: number; result: ConversionResult }
+    | { type: 'probe_done'; requestId: number; result: MediaProbeResult }
+    | { type: 'clip_done'; requestId: number; clip: Blob }
+    | { type: 'subtitles_done'; requestId: number; srt: string }
+    | { type: 'keyframes_done'; requestId: number; keyframes: VideoKeyframe[] };
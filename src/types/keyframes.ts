@@ -0,0 +1,18 @@
+/**
+ * 動画から取り出した場面（スライド・画面）の画像
+ */
+
+/** 場面が切り替わった時点の画像（変換 Worker が返す） */
+export interface VideoKeyframe {
+    /** 元メディア上の位置（秒） */
+    time: number;
+    /** JPEG 画像 */
+    image: Blob;
+}
+
+/** 文書に保存する場面の画像（画像は Storage に保存） */
+export interface DocumentKeyframe {
+    /** 元メディア上の位置（秒） */
+    time: number;
+    storagePath: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * メディアファイルの情報（FFmpeg の `-i` の出力から取得）
+ * 文書に保存するため、値のない項目はプロパティ自体を省略する（Firestore は undefined を保存できない）
+ */
+
+export interface MediaVideoStream {
+    /** コンテナ内のストリーム番号（"Stream #0:1" の 1） */
+    streamIndex: number;
+    codec: string;
+    width?: number;
+    height?: number;
+    frameRate?: number;
+}
+
+export interface MediaAudioTrack {
+    streamIndex: number;
+    codec: string;
+    /** 言語コード（"jpn" など。未設定・"und" の場合は省略） */
+    language?: string;
+    title?: string;
+    channels?: number;
+    /** チャンネル構成（"stereo"、"5.1(side)" など） */
+    channelLayout?: string;
+    sampleRate?: number;
+    isDefault: boolean;
+}
+
+export interface MediaSubtitleTrack {
+    streamIndex: number;
+    codec: string;
+    language?: string;
+    title?: string;
+    isDefault: boolean;
+}
+
+export interface MediaChapter {
+    startTime: number;
+    endTime: number;
+    title?: string;
+}
+
+export interface MediaProbeResult {
+    /** コンテナ形式（"mov"、"matroska" など、FFmpeg のフォーマット名の先頭） */
+    container: string;
+    /** 長さ（秒） */
+    duration: number;
+    /** 全体のビットレート（kb/s） */
+    bitrate?: number;
+    /** 映像（カバー画像は除く。音声ファイルの場合は省略） */
+    video?: MediaVideoStream;
+    audioTracks: MediaAudioTrack[];
+    subtitleTracks: MediaSubtitleTrack[];
+    chapters: MediaChapter[];
+}
+
+/**
+ * 選択したファイルの情報の取得状態
+ */
+export type MediaProbeState =
+    | { status: 'probing' }
+    | { status: 'done'; result: MediaProbeResult }
+    | { status: 'error'; error: string };
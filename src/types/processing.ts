@@ -1,37 +1,94 @@
+import { TranscriptionErrorCode } from '@/constants/transcriptionErrors';
+import type { SegmentBoundary } from '@/lib/segmentPlanning';
+import type { MediaProbeState } from './mediaProbe';
+import type { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import type { SubtitleContextSelection } from '@/constants/subtitleContext';
+import type { DocumentKeyframe } from './keyframes';
+
 export interface SegmentStatus {
     segmentIndex: number;
     startTime: number;
     endTime: number;
-    status: 'pending' | 'converting' | 'completed' | 'error';
+    status: 'pending' | 'converting' | 'completed' | 'error' | 'skipped'; // skipped: 変換せずに飛ばした（文書に含まれない範囲）
     progress: number; // 0-100: このセグメントの変換進捗
+    endBoundary?: SegmentBoundary; // 区間の終わりを無音の位置で区切ったか
     audioBlob?: Blob;
     error?: string;
 }
 
+export interface TimedAudio {
+    startTime: number; // 元メディア上の開始位置（秒）
+    endTime: number; // 元メディア上の終了位置（秒）
+    audioBlob: Blob;
+}
+
+// マップリデュース生成で1回の生成に渡す区間グループ
+export interface MapReduceGroup extends TimedAudio {
+    groupIndex: number;
+}
+
+export interface LivePreview {
+    promptName: string;
+    text: string; // ストリーミング受信中のMarkdown（先頭からの累積）
+}
+
+/** 待機中のファイルの順番の変更（1つ前・1つ後・先頭） */
+export type QueueMoveDirection = 'up' | 'down' | 'top';
+
+/** 区間ごとの操作（変換し直す・飛ばして続行する） */
+export type SegmentAction = 'retry' | 'skip';
+
 export interface FileProcessingStatus {
     fileName: string;
     status: 'waiting' | 'converting' | 'transcribing' | 'completed' | 'error';
     // 🎬 'direct_video_send' を追加（動画を直接送信する試験的機能用）
-    phase: 'waiting' | 'video_analysis' | 'audio_conversion' | 'audio_concat' | 'text_generation' | 'completed' | 'direct_video_send';
+    // 'media_upload': 大容量メディアを文書生成APIへ事前アップロード中
+    // 'map_generation': マップリデュース生成で区間グループごとの文書を生成中（統合は 'text_generation'）
+    phase: 'waiting' | 'video_analysis' | 'audio_conversion' | 'audio_concat' | 'media_upload' | 'map_generation' | 'text_generation' | 'completed' | 'direct_video_send';
     audioConversionProgress: number; // 音声変換の進捗（0-100）
+    mediaUploadProgress?: number; // 事前アップロードの進捗（0-100）
+    analysisProgress?: number; // 無音区間の解析の進捗（0-100）
     transcriptionCount: number; // 生成された文書数
     totalTranscriptions: number; // 生成予定の文書数
     error?: string;
+    errorCode?: TranscriptionErrorCode; // 文書生成エラーの分類（表示文言と再開可否の判定に使用）
     convertedAudioBlob?: Blob; // 変換済み音声データ（再開用）
     completedPromptIds: string[]; // 完了したプロンプトID（再開用）
     failedPhase?: 'audio_conversion' | 'text_generation'; // 失敗したフェーズ
     isResuming?: boolean; // 再開処理中かどうか
+    livePreviews?: Record<string, LivePreview>; // 生成中の文書のプレビュー（プロンプトIDごと、保存後に削除）
+    queuePosition?: number; // 処理の順番（小さいほど先に変換・文書生成する。待機中のファイルは並べ替えられる）
+    serverProcessing?: boolean; // サーバーで変換・文書生成する（タブを閉じても処理が続く）
+    serverJobId?: string; // 登録したサーバー処理のジョブ（進捗の取得・中止・再読み込み後の再開に使用）
+    storedKeyframes?: DocumentKeyframe[]; // Storage に保存した場面の画像（再開時に同じ画像を再びアップロードしない）
 
     // 区間管理用
-    totalDuration?: number; // 動画の総時間（秒）
-    segmentDuration: number; // 各区間の長さ（秒）、デフォルト30秒
+    totalDuration?: number; // 処理する長さ（秒、範囲を指定した場合はその長さ）
+    segmentDuration: number; // 各区間の長さ（秒）。開始時は変換設定の基準の長さ、区間を計画した後は実際の長さ
     segments: SegmentStatus[]; // 区間ごとの状態
     completedSegmentIndices: number[]; // 完了した区間のインデックス
+    removedDuration?: number; // 結合した音声から無音の削除で短くなった長さ（秒）
+
+    // マップリデュース生成用（長時間録音モード）
+    generationMode?: 'single' | 'map_reduce';
+    mapReduceGroups?: MapReduceGroup[]; // 区間グループごとの音声（再開時は再変換しない）
+    mapResults?: Record<string, string>; // 区間グループごとの生成結果キャッシュ（getMapResultKey で参照）
+    mapProgress?: { completed: number; total: number }; // 区間グループの生成進捗
+}
+
+// 処理する範囲（元メディア上の位置、秒）
+export interface MediaTrimRange {
+    startTime: number;
+    endTime: number;
 }
 
 export interface FileWithPrompts {
     file: File;
     selectedPromptIds: string[];
+    mediaProbe?: MediaProbeState; // 選択時に取得するメディア情報（FileDropZone に表示し、文書にも保存）
+    audioTrackSelection?: AudioTrackSelection; // 文書生成に送る音声トラック・チャンネル（未指定の場合は FFmpeg が選ぶトラック）
+    trimRange?: MediaTrimRange; // 処理する範囲（未指定の場合はファイル全体）
+    subtitleContext?: SubtitleContextSelection; // 文書生成に添付する埋め込み字幕（未指定の場合は使わない）
 }
 
 export interface DebugErrorMode {
@@ -0,0 +1,59 @@
+/**
+ * サーバー処理のジョブ（アップロードしたメディアをサーバーの Worker が変換・文書生成する）
+ * 進捗はブラウザでの処理と同じ FileProcessingStatus で返し、処理状況の表示を共有する。
+ */
+
+import type { AudioConversionSettings } from '@/constants/conversionSettings';
+import type { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import type { TranscriptionProviderId } from '@/constants/transcriptionProviders';
+import type { StructuredOutputRecord } from '@/lib/firestore';
+import type { FileProcessingStatus, MediaTrimRange } from './processing';
+import type { MediaProbeResult } from './mediaProbe';
+import type { OutputSchema } from './structuredOutput';
+import type { TokenUsage } from './usage';
+
+/** ジョブで使うプロンプト（サーバーは Firestore を読まないため内容ごと送る） */
+export interface ServerJobPrompt {
+    id: string;
+    name: string;
+    content: string;
+    model: string;
+    provider: TranscriptionProviderId;
+    outputSchema?: OutputSchema;
+}
+
+/** ジョブの登録内容（メディアは別に送る） */
+export interface ServerJobRequest {
+    /** 登録したユーザー（ログインユーザーのみ）。API が ID トークンから決め、状況の取得時に照合する */
+    ownerId: string;
+    fileName: string;
+    mimeType: string;
+    prompts: ServerJobPrompt[];
+    settings: AudioConversionSettings;
+    audioTrackSelection?: AudioTrackSelection;
+    trimRange?: MediaTrimRange;
+    /** ブラウザで解析したメディア情報（保存する文書に添える） */
+    mediaInfo?: MediaProbeResult;
+}
+
+/** サーバーで生成した文書（ブラウザの受け取りを受けてサーバーが Firestore に保存する） */
+export interface ServerJobDocument {
+    promptId: string;
+    promptName: string;
+    text: string;
+    structuredOutput?: StructuredOutputRecord;
+    usage?: TokenUsage;
+    /** サーバーが Firestore に保存したら true（再読み込み後に二重に保存しない） */
+    acknowledged: boolean;
+}
+
+export interface ServerJob {
+    id: string;
+    request: ServerJobRequest;
+    status: FileProcessingStatus;
+    documents: ServerJobDocument[];
+    /** 中止を要求された（Worker が次の確認時に止める） */
+    cancelRequested: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
@@ -0,0 +1,25 @@
+/**
+ * 構造化出力（JSON）のスキーマ
+ * Gemini の responseSchema（OpenAPI のサブセット）に対応する範囲のみ扱う。
+ * Firestore は配列の中に配列を保存できないため、配列の要素に配列は指定できない。
+ */
+export type OutputSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface OutputSchema {
+    type: OutputSchemaType;
+    /** 表の見出しやモデルへの説明として使う */
+    description?: string;
+    /** type が object の場合の項目（記述順が表の列順になる） */
+    properties?: Record<string, OutputSchema>;
+    required?: string[];
+    /** type が array の場合の要素 */
+    items?: OutputSchema;
+    /** type が string の場合の選択肢 */
+    enum?: string[];
+    /** 'date'（YYYY-MM-DD）または 'date-time' */
+    format?: string;
+    nullable?: boolean;
+}
+
+/** スキーマのルート（object）に一致する生成結果 */
+export type StructuredData = Record<string, unknown>;
@@ -0,0 +1,41 @@
+import { TranscriptionProviderId } from '@/constants/transcriptionProviders';
+
+/**
+ * 1回の文書生成で消費したトークン数
+ */
+export interface TokenUsage {
+    provider: TranscriptionProviderId;
+    model: string;
+    promptTokens: number; // 入力（プロンプト＋メディア）
+    audioPromptTokens: number; // 入力のうち音声分（音声は単価が異なるモデルがあるため別計上）
+    candidatesTokens: number; // 出力
+    thoughtsTokens: number; // 思考（出力単価で課金）
+    totalTokens: number;
+}
+
+/**
+ * トークン使用量の累計（ユーザー全体・モデル別）
+ */
+export interface UsageTotals {
+    promptTokens: number;
+    audioPromptTokens: number;
+    candidatesTokens: number;
+    thoughtsTokens: number;
+    totalTokens: number;
+    generationCount: number; // 集計に含まれる文書生成回数
+    estimatedCostUsd: number; // 生成時点の単価で計算した推定コスト
+}
+
+export interface UserTokenUsage {
+    total: UsageTotals;
+    byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * 1か月分の利用量（プランの月間上限と比較する）
+ */
+export interface MonthlyUsage {
+    mediaSeconds: number; // 処理した動画・音声の長さ
+    documents: number; // 生成した文書数
+    storageBytes: number; // Storage に保存した音声のサイズ
+}
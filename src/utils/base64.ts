@@ -0,0 +1,39 @@
+import { createLogger } from '@/lib/logger';
+
+const base64Logger = createLogger('base64');
+
+/**
+ * BlobをBase64文字列に変換（data URLのプレフィックスなし）
+ * 同一Blobを複数FileReaderで同時読みすると、大容量で空データになることがあるため、
+ * 呼び出し元で1回だけ呼び、その結果を複数プロンプトで共有すること。
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+    base64Logger.info('Base64変換を開始', {
+        mimeType: blob.type,
+        sizeInMB: (blob.size / 1024 / 1024).toFixed(2),
+        sizeInBytes: blob.size,
+    });
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            const base64String = reader.result as string;
+            // "data:audio/mpeg;base64," の部分を削除
+            const base64Data = base64String?.split(',')[1] ?? '';
+            if (!base64Data) {
+                base64Logger.error('Base64変換結果が空です', { blobSize: blob.size, mimeType: blob.type });
+                reject(new Error('音声/動画データの読み取りに失敗しました。'));
+                return;
+            }
+            base64Logger.info('Base64変換が完了', {
+                base64LengthChars: base64Data.length,
+                estimatedEncodedSizeMB: (base64Data.length * 0.75 / 1024 / 1024).toFixed(2),
+            });
+            resolve(base64Data);
+        };
+        reader.onerror = (e) => {
+            base64Logger.error('Base64変換でエラーが発生', e);
+            reject(e);
+        };
+        reader.readAsDataURL(blob);
+    });
+};
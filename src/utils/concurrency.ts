@@ -0,0 +1,29 @@
+/**
+ * items を最大 limit 件ずつ並列に処理する
+ * いずれかが失敗した時点で新しい処理の開始をやめ、実行中の処理の終了を待ってから最初のエラーを投げる
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+    let nextIndex = 0;
+    let firstError: unknown = null;
+
+    const runNext = async (): Promise<void> => {
+        while (firstError === null && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                await worker(items[index], index);
+            } catch (error) {
+                firstError ??= error;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runNext));
+
+    if (firstError !== null) {
+        throw firstError;
+    }
+};
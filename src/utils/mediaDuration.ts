@@ -0,0 +1,24 @@
+/**
+ * ブラウザのメディア要素でファイルの長さ（秒）を取得する
+ * FFmpeg を読み込む前に使えるため、処理開始前の見積もりに使う。読み取れない形式の場合は null
+ */
+export const getMediaDurationSeconds = (file: File, timeoutMs: number = 10000): Promise<number | null> => {
+    return new Promise((resolve) => {
+        const url = URL.createObjectURL(file);
+        const element = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+
+        const finish = (duration: number | null) => {
+            clearTimeout(timer);
+            element.removeAttribute('src');
+            element.load();
+            URL.revokeObjectURL(url);
+            resolve(duration);
+        };
+
+        const timer = setTimeout(() => finish(null), timeoutMs);
+        element.preload = 'metadata';
+        element.onloadedmetadata = () => finish(Number.isFinite(element.duration) ? element.duration : null);
+        element.onerror = () => finish(null);
+        element.src = url;
+    });
+};
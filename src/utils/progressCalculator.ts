@@ -9,7 +9,7 @@ export const calculateOverallProgress = (segments: SegmentStatus[]): number => {
 
     // 各セグメントの進捗を合計（小数点以下も保持）
     const totalProgress = segments.reduce((sum, segment) => {
-        if (segment.status === 'completed') {
+        if (segment.status === 'completed' || segment.status === 'skipped') {
             return sum + 100;
         } else if (segment.status === 'converting') {
             return sum + segment.progress;
@@ -0,0 +1,10 @@
+/**
+ * 秒数を HH:MM:SS 形式に変換（区間の表示・プロンプト用）
+ */
+export const formatSeconds = (totalSeconds: number): string => {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    return [h, m, s].map(value => String(value).padStart(2, '0')).join(':');
+};
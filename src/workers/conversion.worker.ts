@@ -0,0 +1,365 @@
+/**
+ * 音声変換 Worker
+ * FFmpeg の読み込みと区間変換のループをメインスレッドから切り離し、ジョブ単位で中止できるようにする。
+ * 区間変換ジョブは1つずつ順番に実行し、共有入力はジョブの終了時（中止・失敗を含む）に必ず解放する。
+ * 入力は WORKERFS でマウントして WASM メモリにコピーしないため、数GBの録画も扱える。
+ */
+
+import {
+    CombinedAudioProcessing,
+    FFmpegLoadError,
+    SegmentConversionResult,
+    SharedInput,
+    VideoConverter,
+} from '@/lib/ffmpeg';
+import {
+    getMaxSegmentCount,
+    planSegments,
+    SegmentRange,
+    SilenceInterval,
+    VIDEO_SEGMENT_CONFIG,
+} from '@/lib/segmentPlanning';
+import { createLogger } from '@/lib/logger';
+import {
+    AUDIO_OUTPUT_PROFILES,
+    DEFAULT_AUDIO_OUTPUT_PROFILE_ID,
+    findAudioOutputProfileByMimeType,
+    getAudioOutputProfile,
+} from '@/constants/audioOutputProfiles';
+import { AudioTrackSelection } from '@/constants/audioTrackSelection';
+import { ConversionWorkerEvent, ConversionWorkerRequest } from '@/types/conversionWorker';
+import { MediaTrimRange } from '@/types/processing';
+
+type ConvertSegmentsRequest = Extract<ConversionWorkerRequest, { type: 'convert_segments' }>;
+
+const SHARED_INPUT_PREFIX = 'shared_input_';
+
+const conversionWorkerLogger = createLogger('conversionWorker');
+
+const converter = new VideoConverter();
+// 待機中・実行中の区間変換ジョブ（終了したジョブへの中止の要求は記録しない）
+const activeJobIds = new Set<number>();
+// 中止が要求されたジョブ（実行中の区間の変換・無音区間の解析の範囲が終わった時点で中止する）
+const cancelledJobIds = new Set<number>();
+// 区間変換ジョブを直列に実行するためのチェーン
+let jobChain: Promise<void> = Promise.resolve();
+
+const post = (event: ConversionWorkerEvent) => {
+    self.postMessage(event);
+};
+
+const handleLoad = async (requestId: number) => {
+    try {
+        await converter.load();
+        post({ type: 'loaded', requestId, variant: converter.coreVariant ?? 'st' });
+    } catch (error) {
+        const loadError = error instanceof FFmpegLoadError ? error : new FFmpegLoadError('init', 'st');
+        post({
+            type: 'load_error',
+            requestId,
+            reason: loadError.reason,
+            variant: loadError.variant,
+            assetUrl: loadError.assetUrl,
+        });
+    }
+};
+
+/**
+ * 無音区間を検出（失敗した場合は区間長ごとの区切りにするため空で返す）
+ * 中止が要求された場合は途中で終える（呼び出し側で中止を確認する）
+ */
+const detectSilences = async (
+    requestId: number,
+    inputPath: string,
+    duration: number,
+    audioTrackSelection: AudioTrackSelection | undefined,
+    range: MediaTrimRange | undefined
+): Promise<SilenceInterval[]> => {
+    try {
+        return await converter.detectSilences(inputPath, {
+            noiseDb: VIDEO_SEGMENT_CONFIG.SILENCE_NOISE_DB,
+            minDuration: VIDEO_SEGMENT_CONFIG.SILENCE_MIN_DURATION,
+            duration,
+            chunkDuration: VIDEO_SEGMENT_CONFIG.SILENCE_ANALYSIS_CHUNK_DURATION,
+            audioTrackSelection,
+            range,
+            isCancelled: () => cancelledJobIds.has(requestId),
+            onProgress: ({ ratio }) => {
+                post({ type: 'analysis_progress', requestId, ratio });
+            },
+        });
+    } catch (error) {
+        conversionWorkerLogger.warn('無音区間を検出できないため、区間長ごとに区切ります', { requestId, error: String(error) });
+        return [];
+    }
+};
+
+const runSegmentJob = async (request: ConvertSegmentsRequest) => {
+    const { requestId, file, bitrate, sampleRate, preprocessing, audioTrackSelection, trimRange, failAtSegmentIndex } = request;
+    const outputProfile = getAudioOutputProfile(request.outputProfileId ?? DEFAULT_AUDIO_OUTPUT_PROFILE_ID);
+    let sharedInput: SharedInput | null = null;
+
+    try {
+        if (cancelledJobIds.has(requestId)) {
+            post({ type: 'job_cancelled', requestId });
+            return;
+        }
+
+        await converter.load();
+
+        // 前のジョブが異常終了していた場合に備えて、残っている共有入力を解放
+        const staleNames = await converter.removeStaleSharedInputs(SHARED_INPUT_PREFIX);
+        if (staleNames.length > 0) {
+            conversionWorkerLogger.warn('残っていた共有入力を削除', { staleNames });
+        }
+
+        sharedInput = await converter.prepareSharedInput(file, `${SHARED_INPUT_PREFIX}${requestId}_${Date.now()}`);
+        const inputPath = sharedInput.path;
+
+        let segments: SegmentRange[];
+        if (request.segments) {
+            segments = request.segments;
+        } else {
+            // 動画の長さを取得し、空きメモリに収まる区間数で、無音の位置に合わせて区間を作成（範囲を指定した場合はその範囲だけ）
+            const duration = await converter.getInputDuration(inputPath);
+            const silences = await detectSilences(requestId, inputPath, duration, audioTrackSelection, trimRange);
+            if (cancelledJobIds.has(requestId)) {
+                post({ type: 'job_cancelled', requestId });
+                return;
+            }
+            const plan = planSegments(
+                duration,
+                getMaxSegmentCount(sharedInput.residentBytes, request.conversionConcurrency),
+                silences,
+                request.preferredSegmentDuration,
+                trimRange
+            );
+            post({ type: 'segments_planned', requestId, plan });
+            segments = plan.segments;
+        }
+
+        conversionWorkerLogger.info('区間変換ジョブ開始', {
+            requestId,
+            fileName: file.name,
+            segmentCount: segments.length,
+            inputPath,
+            mounted: Boolean(sharedInput.mountPoint),
+            outputProfile: outputProfile.id,
+        });
+
+        for (const segment of segments) {
+            if (cancelledJobIds.has(requestId)) {
+                conversionWorkerLogger.info('区間変換ジョブを中止', { requestId, segmentIndex: segment.segmentIndex });
+                post({ type: 'job_cancelled', requestId });
+                return;
+            }
+
+            post({ type: 'segment_start', requestId, segmentIndex: segment.segmentIndex });
+
+            let result: SegmentConversionResult;
+            if (segment.segmentIndex === failAtSegmentIndex) {
+                result = {
+                    success: false,
+                    segmentIndex: segment.segmentIndex,
+                    startTime: segment.startTime,
+                    endTime: segment.endTime,
+                    error: `[デバッグ] 区間${segment.segmentIndex + 1}で意図的に発生させたFFmpegエラー`,
+                };
+            } else {
+                result = await converter.convertSegmentToAudio(
+                    file,
+                    segment.startTime,
+                    segment.endTime,
+                    segment.segmentIndex,
+                    {
+                        bitrate,
+                        sampleRate,
+                        preprocessing,
+                        outputProfile,
+                        audioTrackSelection,
+                        inputFileName: inputPath,
+                        onProgress: ({ ratio }) => {
+                            post({ type: 'segment_progress', requestId, segmentIndex: segment.segmentIndex, ratio });
+                        },
+                    }
+                );
+            }
+
+            if (!result.success || !result.outputBlob) {
+                post({
+                    type: 'segment_error',
+                    requestId,
+                    segmentIndex: segment.segmentIndex,
+                    error: result.error || '変換失敗',
+                });
+                return;
+            }
+
+            post({
+                type: 'segment_done',
+                requestId,
+                segmentIndex: segment.segmentIndex,
+                outputBlob: result.outputBlob,
+            });
+        }
+
+        post({ type: 'job_done', requestId });
+    } catch (error) {
+        conversionWorkerLogger.error('区間変換ジョブでエラーが発生', error, { requestId });
+        post({
+            type: 'job_error',
+            requestId,
+            error: error instanceof Error ? error.message : '不明なエラー',
+        });
+    } finally {
+        if (sharedInput) {
+            await converter.releaseSharedInput(sharedInput);
+        }
+        activeJobIds.delete(requestId);
+        cancelledJobIds.delete(requestId);
+    }
+};
+
+/**
+ * メディア情報を取得（入力はマウントして読み込み、取得後すぐに解放する）
+ */
+const handleProbe = async (requestId: number, file: File) => {
+    let sharedInput: SharedInput | null = null;
+    try {
+        await converter.load();
+        sharedInput = await converter.prepareSharedInput(file, `${SHARED_INPUT_PREFIX}probe_${requestId}_${Date.now()}`);
+        const result = await converter.probeMedia(sharedInput.path);
+        post({ type: 'probe_done', requestId, result });
+    } catch (error) {
+        conversionWorkerLogger.warn('メディア情報を取得できません', { requestId, fileName: file.name, error: String(error) });
+        post({
+            type: 'job_error',
+            requestId,
+            error: error instanceof Error ? error.message : 'メディア情報を取得できませんでした',
+        });
+    } finally {
+        if (sharedInput) {
+            await converter.releaseSharedInput(sharedInput);
+        }
+    }
+};
+
+/**
+ * 指定範囲を切り出す（動画を直接送信する場合に使う）
+ */
+const handleExtractClip = async (requestId: number, file: File, range: MediaTrimRange) => {
+    let sharedInput: SharedInput | null = null;
+    try {
+        await converter.load();
+        sharedInput = await converter.prepareSharedInput(file, `${SHARED_INPUT_PREFIX}clip_${requestId}_${Date.now()}`);
+        const clip = await converter.extractClip(sharedInput.path, range.startTime, range.endTime, file.type || 'video/mp4');
+        post({ type: 'clip_done', requestId, clip });
+    } catch (error) {
+        conversionWorkerLogger.error('範囲の切り出しに失敗', error, { requestId, fileName: file.name });
+        post({
+            type: 'job_error',
+            requestId,
+            error: error instanceof Error ? error.message : '範囲の切り出しに失敗しました',
+        });
+    } finally {
+        if (sharedInput) {
+            await converter.releaseSharedInput(sharedInput);
+        }
+    }
+};
+
+/**
+ * 字幕トラックを SRT のテキストとして取り出す
+ */
+const handleExtractSubtitles = async (requestId: number, file: File, streamIndex: number) => {
+    let sharedInput: SharedInput | null = null;
+    try {
+        await converter.load();
+        sharedInput = await converter.prepareSharedInput(file, `${SHARED_INPUT_PREFIX}subtitles_${requestId}_${Date.now()}`);
+        const srt = await converter.extractSubtitles(sharedInput.path, streamIndex);
+        post({ type: 'subtitles_done', requestId, srt });
+    } catch (error) {
+        conversionWorkerLogger.error('字幕の取り出しに失敗', error, { requestId, fileName: file.name, streamIndex });
+        post({
+            type: 'job_error',
+            requestId,
+            error: error instanceof Error ? error.message : '字幕を取り出せませんでした',
+        });
+    } finally {
+        if (sharedInput) {
+            await converter.releaseSharedInput(sharedInput);
+        }
+    }
+};
+
+/**
+ * 場面（スライド・画面）が切り替わった時点の画像を取り出す
+ */
+const handleExtractKeyframes = async (requestId: number, file: File, range?: MediaTrimRange) => {
+    let sharedInput: SharedInput | null = null;
+    try {
+        await converter.load();
+        sharedInput = await converter.prepareSharedInput(file, `${SHARED_INPUT_PREFIX}keyframes_${requestId}_${Date.now()}`);
+        const keyframes = await converter.extractKeyframes(sharedInput.path, range);
+        post({ type: 'keyframes_done', requestId, keyframes });
+    } catch (error) {
+        conversionWorkerLogger.error('場面の画像の取り出しに失敗', error, { requestId, fileName: file.name });
+        post({
+            type: 'job_error',
+            requestId,
+            error: error instanceof Error ? error.message : '場面の画像を取り出せませんでした',
+        });
+    } finally {
+        if (sharedInput) {
+            await converter.releaseSharedInput(sharedInput);
+        }
+    }
+};
+
+const handleConcat = async (requestId: number, segments: Blob[], processing?: CombinedAudioProcessing) => {
+    try {
+        // 区間の音声と同じ形式で結合する
+        const outputProfile = findAudioOutputProfileByMimeType(segments[0]?.type ?? '') ?? AUDIO_OUTPUT_PROFILES.mp3;
+        const result = await converter.concatenateAudioSegments(segments, outputProfile, processing);
+        post({ type: 'concat_done', requestId, result });
+    } catch (error) {
+        post({
+            type: 'concat_done',
+            requestId,
+            result: { success: false, error: error instanceof Error ? error.message : '音声結合に失敗しました' },
+        });
+    }
+};
+
+self.addEventListener('message', (event: MessageEvent<ConversionWorkerRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'load':
+            void handleLoad(request.requestId);
+            break;
+        case 'convert_segments':
+            activeJobIds.add(request.requestId);
+            jobChain = jobChain.then(() => runSegmentJob(request));
+            break;
+        case 'cancel':
+            if (activeJobIds.has(request.requestId)) {
+                cancelledJobIds.add(request.requestId);
+            }
+            break;
+        case 'concat':
+            jobChain = jobChain.then(() => handleConcat(request.requestId, request.segments, request.processing));
+            break;
+        case 'probe':
+            jobChain = jobChain.then(() => handleProbe(request.requestId, request.file));
+            break;
+        case 'extract_clip':
+            jobChain = jobChain.then(() => handleExtractClip(request.requestId, request.file, request.range));
+            break;
+        case 'extract_subtitles':
+            jobChain = jobChain.then(() => handleExtractSubtitles(request.requestId, request.file, request.streamIndex));
+            break;
+        case 'extract_keyframes':
+            jobChain = jobChain.then(() => handleExtractKeyframes(request.requestId, request.file, request.range));
+            break;
+    }
+});